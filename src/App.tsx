@@ -4,9 +4,11 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/contexts/AuthContext";
+import { OfflineSync } from "@/components/OfflineSync";
 import Landing from "./pages/Landing";
 import Demo from "./pages/Demo";
 import Dashboard from "./pages/Dashboard";
+import Classroom from "./pages/Classroom";
 import PrivacyPolicy from "./pages/PrivacyPolicy";
 import TermsAndConditions from "./pages/TermsAndConditions";
 import AITransparency from "./pages/AITransparency";
@@ -15,8 +17,13 @@ import Auth from "./pages/Auth";
 import Onboarding from "./pages/Onboarding";
 import Profile from "./pages/Profile";
 import Progress from "./pages/Progress";
+import ProgressReport from "./pages/ProgressReport";
+import Portfolio from "./pages/Portfolio";
+import MyQuestions from "./pages/MyQuestions";
+import HandwritingPractice from "./pages/HandwritingPractice";
 import SubjectTopics from "./pages/SubjectTopics";
 import TrainingSession from "./pages/TrainingSession";
+import Review from "./pages/Review";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -28,16 +35,23 @@ const App = () => (
       <Sonner duration={2500} closeButton />
       <BrowserRouter>
         <AuthProvider>
+          <OfflineSync />
           <Routes>
             <Route path="/" element={<Landing />} />
             <Route path="/demo" element={<Demo />} />
             <Route path="/dashboard" element={<Dashboard />} />
+            <Route path="/classroom" element={<Classroom />} />
             <Route path="/auth" element={<Auth />} />
             <Route path="/onboarding" element={<Onboarding />} />
             <Route path="/profile" element={<Profile />} />
             <Route path="/progress" element={<Progress />} />
+            <Route path="/report" element={<ProgressReport />} />
+            <Route path="/portfolio" element={<Portfolio />} />
+            <Route path="/questions" element={<MyQuestions />} />
+            <Route path="/handwriting" element={<HandwritingPractice />} />
             <Route path="/subject/:slug" element={<SubjectTopics />} />
             <Route path="/learn/:subjectSlug/:topicSlug" element={<TrainingSession />} />
+            <Route path="/review/:subjectSlug/:topicSlug" element={<Review />} />
             <Route path="/privacy" element={<PrivacyPolicy />} />
             <Route path="/terms" element={<TermsAndConditions />} />
             <Route path="/ai-transparency" element={<AITransparency />} />
@@ -0,0 +1,116 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { CalendarClock, CheckCircle } from "lucide-react";
+
+interface AssignmentItem {
+  id: string;
+  dueDate: string | null;
+  className: string;
+  topicId: string;
+  topicName: string;
+  topicSlug: string;
+  topicEmoji: string;
+  subjectSlug: string;
+  done: boolean;
+}
+
+interface ClassAssignmentsProps {
+  profileId: string | null;
+}
+
+export function ClassAssignments({ profileId }: ClassAssignmentsProps) {
+  const navigate = useNavigate();
+  const [assignments, setAssignments] = useState<AssignmentItem[]>([]);
+
+  useEffect(() => {
+    if (profileId) fetchAssignments();
+  }, [profileId]);
+
+  const fetchAssignments = async () => {
+    try {
+      const { data: memberships } = await supabase
+        .from("class_members")
+        .select("class_id")
+        .eq("student_id", profileId!);
+
+      const classIds = (memberships || []).map((m) => m.class_id);
+      if (classIds.length === 0) return;
+
+      const { data: assignmentData } = await supabase
+        .from("class_assignments")
+        .select("id, due_date, created_at, topic_id, classes(name), topics(name, slug, emoji, subjects(slug))")
+        .in("class_id", classIds)
+        .order("due_date", { ascending: true, nullsFirst: false });
+
+      if (!assignmentData || assignmentData.length === 0) return;
+
+      const { data: progressData } = await supabase
+        .from("student_progress")
+        .select("topic_id, updated_at")
+        .eq("student_id", profileId!)
+        .in("topic_id", assignmentData.map((a) => a.topic_id));
+
+      setAssignments(
+        assignmentData.map((a) => {
+          const topic = a.topics as { name: string; slug: string; emoji: string | null; subjects: { slug: string } | null } | null;
+          const progress = (progressData || []).find((p) => p.topic_id === a.topic_id);
+          return {
+            id: a.id,
+            dueDate: a.due_date,
+            className: (a.classes as { name: string } | null)?.name || "",
+            topicId: a.topic_id,
+            topicName: topic?.name || "",
+            topicSlug: topic?.slug || "",
+            topicEmoji: topic?.emoji || "📖",
+            subjectSlug: topic?.subjects?.slug || "",
+            // Trained on the topic since it was assigned
+            done: !!progress && new Date(progress.updated_at) >= new Date(a.created_at),
+          };
+        })
+      );
+    } catch (err) {
+      console.error("Error fetching class assignments:", err);
+    }
+  };
+
+  if (assignments.length === 0) return null;
+
+  const today = new Date().toISOString().slice(0, 10);
+
+  return (
+    <div className="mb-6 bento-card animate-slide-up">
+      <h3 className="font-display font-bold text-foreground flex items-center gap-2 mb-3">
+        <CalendarClock className="w-5 h-5 text-primary" /> Class Assignments
+      </h3>
+      <div className="space-y-2">
+        {assignments.map((a) => {
+          const overdue = !a.done && a.dueDate && a.dueDate < today;
+          return (
+            <button
+              key={a.id}
+              onClick={() => navigate(`/learn/${a.subjectSlug}/${a.topicSlug}`)}
+              className="w-full flex items-center justify-between p-3 rounded-xl border border-border hover:border-primary/50 transition-all text-left"
+            >
+              <span className="text-sm text-foreground">
+                {a.topicEmoji} {a.topicName}
+                <span className="text-xs text-muted-foreground ml-2">{a.className}</span>
+              </span>
+              {a.done ? (
+                <span className="text-xs font-semibold text-eucalyptus flex items-center gap-1">
+                  <CheckCircle className="w-4 h-4" /> Done
+                </span>
+              ) : (
+                <span className={`text-xs font-semibold ${overdue ? "text-destructive" : "text-muted-foreground"}`}>
+                  {a.dueDate
+                    ? `Due ${new Date(a.dueDate).toLocaleDateString("en-AU", { day: "numeric", month: "short" })}`
+                    : "No due date"}
+                </span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { AlertTriangle } from "lucide-react";
+
+// Most frequent misconceptions listed per topic
+const MISTAKES_PER_TOPIC = 3;
+
+interface Mistake {
+  misconception: string;
+  count: number;
+}
+
+interface TopicMistakes {
+  id: string;
+  name: string;
+  emoji: string;
+  total: number;
+  mistakes: Mistake[];
+}
+
+interface CommonMistakesProps {
+  profileId: string;
+  className?: string;
+}
+
+/**
+ * The misconceptions behind the student's wrong multiple-choice picks,
+ * grouped by topic with the most frequent first.
+ */
+export function CommonMistakes({ profileId, className = "" }: CommonMistakesProps) {
+  const [topics, setTopics] = useState<TopicMistakes[]>([]);
+
+  useEffect(() => {
+    if (profileId) fetchMistakes();
+  }, [profileId]);
+
+  const fetchMistakes = async () => {
+    try {
+      const { data } = await supabase
+        .from("misconception_picks")
+        .select("misconception, topic_id, topics(name, emoji)")
+        .eq("profile_id", profileId);
+
+      const byTopic = new Map<string, { name: string; emoji: string; counts: Map<string, number> }>();
+      for (const pick of data || []) {
+        const topic = pick.topics as { name: string; emoji: string | null } | null;
+        if (!topic) continue;
+        if (!byTopic.has(pick.topic_id)) {
+          byTopic.set(pick.topic_id, { name: topic.name, emoji: topic.emoji || "📖", counts: new Map() });
+        }
+        const counts = byTopic.get(pick.topic_id)!.counts;
+        counts.set(pick.misconception, (counts.get(pick.misconception) || 0) + 1);
+      }
+
+      setTopics(
+        [...byTopic.entries()]
+          .map(([id, topic]) => {
+            const mistakes = [...topic.counts.entries()]
+              .map(([misconception, count]) => ({ misconception, count }))
+              .sort((a, b) => b.count - a.count);
+            return {
+              id,
+              name: topic.name,
+              emoji: topic.emoji,
+              total: mistakes.reduce((sum, m) => sum + m.count, 0),
+              mistakes: mistakes.slice(0, MISTAKES_PER_TOPIC),
+            };
+          })
+          .sort((a, b) => b.total - a.total)
+      );
+    } catch (err) {
+      console.error("Error fetching common mistakes:", err);
+    }
+  };
+
+  if (topics.length === 0) return null;
+
+  return (
+    <div className={`bento-card bg-card p-6 ${className}`}>
+      <h2 className="text-xl font-display font-bold text-foreground mb-1 flex items-center gap-2">
+        <AlertTriangle className="w-5 h-5 text-ochre" /> Common Mistakes
+      </h2>
+      <p className="text-xs text-muted-foreground mb-4">The thinking behind wrong answers, so you know what to watch for</p>
+      <div className="space-y-4">
+        {topics.map((t) => (
+          <div key={t.id}>
+            <p className="text-sm font-semibold text-foreground mb-1.5">
+              {t.emoji} {t.name}
+            </p>
+            <div className="space-y-1">
+              {t.mistakes.map((m) => (
+                <div key={m.misconception} className="flex items-center justify-between text-sm">
+                  <span className="text-muted-foreground first-letter:uppercase">{m.misconception}</span>
+                  <span className="text-xs font-semibold text-ochre">×{m.count}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,162 +1,491 @@
 import { useRef, useState, useEffect, useCallback } from "react";
 import { Button } from "@/components/ui/button";
-import { Eraser, Trash2, Undo2 } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChartNoAxesCombined, Circle, Eraser, Pencil, Ruler, Square, Trash2, Type, Undo2, ZoomOut } from "lucide-react";
+import { toast } from "sonner";
+import {
+  countStrokePoints,
+  createAxesStrokes,
+  drawBackground,
+  drawStrokes,
+  MAX_STROKE_POINTS,
+  MAX_STROKES,
+  MAX_TEXT_LENGTH,
+  renderRecording,
+  SHAPE_TOOLS,
+  TEXT_SIZE,
+  toStrokePoint,
+  type CanvasBackground,
+  type Stroke,
+  type StrokeRecording,
+  type StrokeTool,
+} from "@/lib/strokeUtils";
+import { drawTracingTemplate, layoutTemplate } from "@/lib/handwritingUtils";
 
 interface DrawingCanvasProps {
-  onCanvasReady?: (getDataUrl: () => string | null) => void;
+  onCanvasReady?: (getDataUrl: () => string | null, getStrokes: () => StrokeRecording | null) => void;
   disabled?: boolean;
+  // Letters to trace. Shows them on writing lines with the pen as the only tool.
+  template?: string;
+  // A saved drawing to carry on from, and a callback each time the drawing changes
+  initialRecording?: StrokeRecording | null;
+  onChange?: (recording: StrokeRecording | null) => void;
 }
 
-export function DrawingCanvas({ onCanvasReady, disabled }: DrawingCanvasProps) {
+const TOOLS: { tool: StrokeTool; label: string; icon: typeof Pencil }[] = [
+  { tool: "pen", label: "Pen", icon: Pencil },
+  { tool: "line", label: "Ruler", icon: Ruler },
+  { tool: "rect", label: "Rectangle", icon: Square },
+  { tool: "circle", label: "Circle", icon: Circle },
+  { tool: "text", label: "Text", icon: Type },
+  { tool: "eraser", label: "Eraser", icon: Eraser },
+];
+
+const COLOURS = [
+  { value: "#1e3a5f", label: "Dark blue" },
+  { value: "#111827", label: "Black" },
+  { value: "#dc2626", label: "Red" },
+  { value: "#2563eb", label: "Blue" },
+  { value: "#16a34a", label: "Green" },
+  { value: "#d97706", label: "Orange" },
+];
+
+const BACKGROUNDS: { value: CanvasBackground; label: string }[] = [
+  { value: "plain", label: "Plain" },
+  { value: "grid", label: "Grid" },
+  { value: "dots", label: "Dots" },
+  { value: "graph", label: "Graph paper" },
+];
+
+const MAX_ZOOM = 4;
+
+interface View {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+interface TextDraft {
+  x: number;
+  y: number;
+  value: string;
+}
+
+export function DrawingCanvas({ onCanvasReady, disabled, template, initialRecording, onChange }: DrawingCanvasProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const backgroundRef = useRef<HTMLCanvasElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [isDrawing, setIsDrawing] = useState(false);
-  const [tool, setTool] = useState<"pen" | "eraser">("pen");
-  const [strokeColor] = useState("#1e3a5f"); // dark blue default
-  const [hasContent, setHasContent] = useState(false);
-  const historyRef = useRef<ImageData[]>([]);
-
-  const getCtx = useCallback(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return null;
-    return canvas.getContext("2d");
+  const [tool, setTool] = useState<StrokeTool>("pen");
+  const [strokeColor, setStrokeColor] = useState(COLOURS[0].value);
+  const [background, setBackground] = useState<CanvasBackground>(initialRecording?.background ?? "plain");
+  const [view, setView] = useState<View>({ scale: 1, x: 0, y: 0 });
+  const [textDraft, setTextDraftState] = useState<TextDraft | null>(null);
+  // Mirrors textDraft so a blur and a tap in the same moment only commit once
+  const textDraftRef = useRef<TextDraft | null>(null);
+  const [hasContent, setHasContent] = useState(!!initialRecording?.strokes.length);
+  // The strokes on the canvas now, plus earlier versions for undo
+  const strokesRef = useRef<Stroke[]>(initialRecording?.strokes ?? []);
+  const historyRef = useRef<Stroke[][]>([]);
+  const startTimeRef = useRef<number | null>(null);
+  // Touch points on the canvas, for pinch-zoom
+  const pointersRef = useRef(new Map<number, { x: number; y: number }>());
+  const pinchRef = useRef<{ distance: number; mid: { x: number; y: number }; view: View } | null>(null);
+
+  const getSize = () => {
+    const rect = canvasRef.current?.getBoundingClientRect();
+    return { width: Math.round(rect?.width || 0), height: Math.round(rect?.height || 0) };
+  };
+
+  // Both layers share the zoom; stroke coordinates are always unzoomed
+  const applyView = useCallback((ctx: CanvasRenderingContext2D) => {
+    const dpr = window.devicePixelRatio || 1;
+    ctx.setTransform(dpr * view.scale, 0, 0, dpr * view.scale, dpr * view.x, dpr * view.y);
+  }, [view]);
+
+  const redraw = useCallback(() => {
+    const ctx = canvasRef.current?.getContext("2d");
+    const bgCtx = backgroundRef.current?.getContext("2d");
+    if (!ctx || !bgCtx) return;
+    const { width, height } = getSize();
+    applyView(bgCtx);
+    drawBackground(bgCtx, background, width, height);
+    if (template) drawTracingTemplate(bgCtx, layoutTemplate(template, width, height), width);
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+    applyView(ctx);
+    drawStrokes(ctx, strokesRef.current);
+  }, [applyView, background, template]);
+
+  // Size both layers to the container
+  useEffect(() => {
+    const { width, height } = getSize();
+    const dpr = window.devicePixelRatio || 1;
+    for (const canvas of [backgroundRef.current, canvasRef.current]) {
+      if (!canvas) continue;
+      canvas.width = width * dpr;
+      canvas.height = height * dpr;
+    }
   }, []);
 
-  // Set up canvas dimensions and expose data URL getter
   useEffect(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-
-    const resizeCanvas = () => {
-      const rect = canvas.getBoundingClientRect();
-      const dpr = window.devicePixelRatio || 1;
-      canvas.width = rect.width * dpr;
-      canvas.height = rect.height * dpr;
-      const ctx = canvas.getContext("2d");
-      if (ctx) {
-        ctx.scale(dpr, dpr);
-        ctx.fillStyle = "#ffffff";
-        ctx.fillRect(0, 0, rect.width, rect.height);
-        ctx.lineCap = "round";
-        ctx.lineJoin = "round";
-      }
-    };
+    redraw();
+  }, [redraw]);
+
+  const getRecording = useCallback((): StrokeRecording => {
+    const { width, height } = getSize();
+    return { version: 1, width, height, background, strokes: strokesRef.current };
+  }, [background]);
+
+  // Expose the data URL and stroke getters. The image is rendered unzoomed,
+  // background included, whatever part of the page is on screen.
+  useEffect(() => {
+    onCanvasReady?.(
+      () => {
+        if (!hasContent) return null;
+        const recording = getRecording();
+        const dpr = window.devicePixelRatio || 1;
+        const image = document.createElement("canvas");
+        image.width = recording.width * dpr;
+        image.height = recording.height * dpr;
+        const ctx = image.getContext("2d");
+        if (!ctx) return null;
+        ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+        renderRecording(ctx, recording);
+        return image.toDataURL("image/png");
+      },
+      () => (hasContent ? getRecording() : null)
+    );
+  }, [onCanvasReady, hasContent, getRecording]);
+
+  const getScreenPos = (e: React.PointerEvent) => {
+    const rect = canvasRef.current?.getBoundingClientRect();
+    return { x: e.clientX - (rect?.left || 0), y: e.clientY - (rect?.top || 0) };
+  };
+
+  const toPagePos = (screen: { x: number; y: number }) => ({
+    x: (screen.x - view.x) / view.scale,
+    y: (screen.y - view.y) / view.scale,
+  });
+
+  // Mice report no pressure, so they get a steady mid value
+  const getPressure = (e: React.PointerEvent) => (e.pointerType === "mouse" || !e.pressure ? 0.5 : e.pressure);
 
-    resizeCanvas();
-
-    onCanvasReady?.(() => {
-      if (!canvasRef.current || !hasContent) return null;
-      return canvasRef.current.toDataURL("image/png");
-    });
-  }, [onCanvasReady, hasContent]);
-
-  const getPos = (e: React.TouchEvent | React.MouseEvent) => {
-    const canvas = canvasRef.current;
-    if (!canvas) return { x: 0, y: 0 };
-    const rect = canvas.getBoundingClientRect();
-    if ("touches" in e) {
-      const touch = e.touches[0] || e.changedTouches[0];
-      return { x: touch.clientX - rect.left, y: touch.clientY - rect.top };
+  // Carries on from a saved drawing's last point so replay keeps its order
+  const getTime = () => {
+    const now = performance.now();
+    if (startTimeRef.current === null) {
+      const last = strokesRef.current[strokesRef.current.length - 1]?.points;
+      startTimeRef.current = now - (last ? last[last.length - 1][3] : 0);
     }
-    return { x: (e as React.MouseEvent).clientX - rect.left, y: (e as React.MouseEvent).clientY - rect.top };
+    return now - startTimeRef.current;
   };
 
+  const reportChange = () => onChange?.(strokesRef.current.length > 0 ? getRecording() : null);
+
   const saveHistory = () => {
-    const ctx = getCtx();
-    const canvas = canvasRef.current;
-    if (!ctx || !canvas) return;
-    historyRef.current.push(ctx.getImageData(0, 0, canvas.width, canvas.height));
+    historyRef.current.push(strokesRef.current);
     if (historyRef.current.length > 30) historyRef.current.shift();
   };
 
-  const startDraw = (e: React.TouchEvent | React.MouseEvent) => {
+  const isFull = (adding = 1) =>
+    strokesRef.current.length + adding > MAX_STROKES || countStrokePoints(strokesRef.current) >= MAX_STROKE_POINTS;
+
+  // Keep the zoomed page covering the whole canvas
+  const clampView = (next: View): View => {
+    const { width, height } = getSize();
+    return {
+      scale: next.scale,
+      x: Math.min(0, Math.max(width - width * next.scale, next.x)),
+      y: Math.min(0, Math.max(height - height * next.scale, next.y)),
+    };
+  };
+
+  const startPinch = () => {
+    const [a, b] = [...pointersRef.current.values()];
+    pinchRef.current = {
+      distance: Math.hypot(b.x - a.x, b.y - a.y) || 1,
+      mid: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 },
+      view,
+    };
+  };
+
+  const pinch = () => {
+    const start = pinchRef.current;
+    const [a, b] = [...pointersRef.current.values()];
+    if (!start || !a || !b) return;
+    const scale = Math.min(MAX_ZOOM, Math.max(1, start.view.scale * (Math.hypot(b.x - a.x, b.y - a.y) / start.distance)));
+    const mid = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+    // The page point that was under the fingers stays under them
+    const pageX = (start.mid.x - start.view.x) / start.view.scale;
+    const pageY = (start.mid.y - start.view.y) / start.view.scale;
+    setView(clampView({ scale, x: mid.x - pageX * scale, y: mid.y - pageY * scale }));
+  };
+
+  const startDraw = (e: React.PointerEvent) => {
+    if (e.pointerType === "touch") {
+      pointersRef.current.set(e.pointerId, getScreenPos(e));
+      if (pointersRef.current.size === 2) {
+        // A second finger turns the stroke just started into a pinch
+        if (isDrawing) {
+          strokesRef.current = historyRef.current.pop() ?? [];
+          setIsDrawing(false);
+          redraw();
+        }
+        startPinch();
+        return;
+      }
+      if (pointersRef.current.size > 2) return;
+    }
     if (disabled) return;
     e.preventDefault();
+    const pos = toPagePos(getScreenPos(e));
+
+    if (tool === "text") {
+      commitText();
+      setTextDraft({ x: pos.x, y: pos.y, value: "" });
+      return;
+    }
+    // Every mark is recorded, so a very busy canvas needs clearing first
+    if (isFull()) {
+      toast.error("That's a lot of drawing! Clear some space to keep going.");
+      return;
+    }
     saveHistory();
     setIsDrawing(true);
-    const ctx = getCtx();
-    if (!ctx) return;
-    const pos = getPos(e);
-    ctx.beginPath();
-    ctx.moveTo(pos.x, pos.y);
+    e.currentTarget.setPointerCapture(e.pointerId);
+    strokesRef.current = [
+      ...strokesRef.current,
+      {
+        tool,
+        color: strokeColor,
+        width: tool === "eraser" ? 20 : 3,
+        points: [toStrokePoint(pos.x, pos.y, getPressure(e), getTime())],
+      },
+    ];
   };
 
-  const draw = (e: React.TouchEvent | React.MouseEvent) => {
+  const draw = (e: React.PointerEvent) => {
+    if (pointersRef.current.has(e.pointerId)) {
+      pointersRef.current.set(e.pointerId, getScreenPos(e));
+      if (pinchRef.current) {
+        pinch();
+        return;
+      }
+    }
     if (!isDrawing || disabled) return;
     e.preventDefault();
-    const ctx = getCtx();
+    const ctx = canvasRef.current?.getContext("2d");
     if (!ctx) return;
-    const pos = getPos(e);
-    ctx.strokeStyle = tool === "eraser" ? "#ffffff" : strokeColor;
-    ctx.lineWidth = tool === "eraser" ? 20 : 3;
+    const pos = toPagePos(getScreenPos(e));
+    const stroke = strokesRef.current[strokesRef.current.length - 1];
+    const point = toStrokePoint(pos.x, pos.y, getPressure(e), getTime());
+
+    // Shapes follow the pointer from where they started
+    if (SHAPE_TOOLS.includes(stroke.tool)) {
+      stroke.points = [stroke.points[0], point];
+      redraw();
+      setHasContent(true);
+      return;
+    }
+
+    const [lastX, lastY] = stroke.points[stroke.points.length - 1];
+    // Skip sub-pixel moves to keep the recording small
+    if (Math.abs(pos.x - lastX) < 1 && Math.abs(pos.y - lastY) < 1) return;
+    if (countStrokePoints(strokesRef.current) >= MAX_STROKE_POINTS) return;
+    stroke.points.push(point);
+    ctx.save();
+    ctx.globalCompositeOperation = stroke.tool === "eraser" ? "destination-out" : "source-over";
+    ctx.strokeStyle = stroke.color;
+    ctx.lineWidth = stroke.width;
+    ctx.lineCap = "round";
+    ctx.lineJoin = "round";
+    ctx.beginPath();
+    ctx.moveTo(lastX, lastY);
     ctx.lineTo(pos.x, pos.y);
     ctx.stroke();
+    ctx.restore();
     setHasContent(true);
   };
 
-  const endDraw = () => {
+  const endDraw = (e: React.PointerEvent) => {
+    pointersRef.current.delete(e.pointerId);
+    if (pointersRef.current.size < 2) pinchRef.current = null;
+    if (!isDrawing) return;
     setIsDrawing(false);
+    // A tap that never moved left no mark, so it isn't kept as a stroke
+    const stroke = strokesRef.current[strokesRef.current.length - 1];
+    if (stroke?.points.length === 1) {
+      strokesRef.current = historyRef.current.pop() ?? [];
+      return;
+    }
+    reportChange();
+  };
+
+  const setTextDraft = (draft: TextDraft | null) => {
+    textDraftRef.current = draft;
+    setTextDraftState(draft);
+  };
+
+  const commitText = () => {
+    const draft = textDraftRef.current;
+    const text = draft?.value.trim().slice(0, MAX_TEXT_LENGTH);
+    setTextDraft(null);
+    if (!draft || !text) return;
+    if (isFull()) {
+      toast.error("That's a lot of drawing! Clear some space to keep going.");
+      return;
+    }
+    saveHistory();
+    strokesRef.current = [
+      ...strokesRef.current,
+      {
+        tool: "text",
+        color: strokeColor,
+        width: TEXT_SIZE,
+        points: [toStrokePoint(draft.x, draft.y, 0.5, getTime())],
+        text,
+      },
+    ];
+    redraw();
+    setHasContent(true);
+    reportChange();
+  };
+
+  const addAxes = () => {
+    const { width, height } = getSize();
+    const axes = createAxesStrokes(width, height, strokeColor, getTime());
+    if (isFull(axes.length)) {
+      toast.error("That's a lot of drawing! Clear some space to keep going.");
+      return;
+    }
+    saveHistory();
+    strokesRef.current = [...strokesRef.current, ...axes];
+    redraw();
+    setHasContent(true);
+    reportChange();
   };
 
   const clearCanvas = () => {
-    const ctx = getCtx();
-    const canvas = canvasRef.current;
-    if (!ctx || !canvas) return;
     saveHistory();
-    const rect = canvas.getBoundingClientRect();
-    ctx.fillStyle = "#ffffff";
-    ctx.fillRect(0, 0, rect.width, rect.height);
+    strokesRef.current = [];
+    redraw();
     setHasContent(false);
+    reportChange();
   };
 
   const undo = () => {
-    const ctx = getCtx();
-    const canvas = canvasRef.current;
-    if (!ctx || !canvas || historyRef.current.length === 0) return;
-    const prev = historyRef.current.pop()!;
-    ctx.putImageData(prev, 0, 0);
+    if (historyRef.current.length === 0) return;
+    strokesRef.current = historyRef.current.pop()!;
+    redraw();
+    setHasContent(strokesRef.current.length > 0);
+    reportChange();
   };
 
   return (
     <div className="space-y-2">
-      <div className="flex items-center gap-2">
-        <Button
-          type="button"
-          variant={tool === "pen" ? "default" : "outline"}
-          size="sm"
-          onClick={() => setTool("pen")}
-          className="gap-1"
-        >
-          ✏️ Pen
-        </Button>
-        <Button
-          type="button"
-          variant={tool === "eraser" ? "default" : "outline"}
-          size="sm"
-          onClick={() => setTool("eraser")}
-          className="gap-1"
-        >
-          <Eraser className="w-4 h-4" /> Eraser
-        </Button>
+      <div className="flex items-center gap-1 flex-wrap">
+        {(template ? TOOLS.slice(0, 1) : TOOLS).map(({ tool: option, label, icon: Icon }) => (
+          <Button
+            key={option}
+            type="button"
+            variant={tool === option ? "default" : "outline"}
+            size="sm"
+            onClick={() => setTool(option)}
+            className="gap-1 px-2"
+            aria-label={label}
+            title={label}
+          >
+            <Icon className="w-4 h-4" />
+            <span className="hidden sm:inline">{label}</span>
+          </Button>
+        ))}
         <div className="flex-1" />
-        <Button type="button" variant="ghost" size="sm" onClick={undo}>
+        {view.scale > 1 && (
+          <Button type="button" variant="ghost" size="sm" onClick={() => setView({ scale: 1, x: 0, y: 0 })} aria-label="Reset zoom">
+            <ZoomOut className="w-4 h-4" />
+          </Button>
+        )}
+        <Button type="button" variant="ghost" size="sm" onClick={undo} aria-label="Undo">
           <Undo2 className="w-4 h-4" />
         </Button>
-        <Button type="button" variant="ghost" size="sm" onClick={clearCanvas}>
+        <Button type="button" variant="ghost" size="sm" onClick={clearCanvas} aria-label="Clear">
           <Trash2 className="w-4 h-4" />
         </Button>
       </div>
-      <canvas
-        ref={canvasRef}
-        className="w-full border-2 border-border rounded-xl bg-white touch-none"
-        style={{ height: 300, cursor: tool === "eraser" ? "crosshair" : "crosshair" }}
-        onMouseDown={startDraw}
-        onMouseMove={draw}
-        onMouseUp={endDraw}
-        onMouseLeave={endDraw}
-        onTouchStart={startDraw}
-        onTouchMove={draw}
-        onTouchEnd={endDraw}
-      />
+      {!template && (
+        <div className="flex items-center gap-2 flex-wrap">
+          <div className="flex items-center gap-1">
+            {COLOURS.map((colour) => (
+              <button
+                key={colour.value}
+                type="button"
+                onClick={() => setStrokeColor(colour.value)}
+                className={`w-6 h-6 rounded-full border-2 transition-transform ${
+                  strokeColor === colour.value ? "border-foreground scale-110" : "border-transparent"
+                }`}
+                style={{ backgroundColor: colour.value }}
+                aria-label={colour.label}
+                title={colour.label}
+              />
+            ))}
+          </div>
+          <div className="flex-1" />
+          <Select value={background} onValueChange={(value) => setBackground(value as CanvasBackground)}>
+            <SelectTrigger className="h-9 w-32 rounded-lg text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {BACKGROUNDS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button type="button" variant="outline" size="sm" onClick={addAxes} disabled={disabled} className="gap-1">
+            <ChartNoAxesCombined className="w-4 h-4" /> Axes
+          </Button>
+        </div>
+      )}
+      <div ref={containerRef} className="relative w-full border-2 border-border rounded-xl overflow-hidden" style={{ height: 300 }}>
+        <canvas ref={backgroundRef} className="absolute inset-0 w-full h-full" />
+        <canvas
+          ref={canvasRef}
+          className="absolute inset-0 w-full h-full touch-none"
+          style={{ cursor: tool === "text" ? "text" : "crosshair" }}
+          onPointerDown={startDraw}
+          onPointerMove={draw}
+          onPointerUp={endDraw}
+          onPointerLeave={endDraw}
+          onPointerCancel={endDraw}
+        />
+        {textDraft && (
+          <Input
+            autoFocus
+            value={textDraft.value}
+            onChange={(e) => setTextDraft({ ...textDraft, value: e.target.value })}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") commitText();
+              if (e.key === "Escape") setTextDraft(null);
+            }}
+            onBlur={commitText}
+            maxLength={MAX_TEXT_LENGTH}
+            placeholder="Label"
+            aria-label="Label text"
+            className="absolute h-8 w-36 px-2 text-sm bg-background/90"
+            style={{
+              left: view.x + textDraft.x * view.scale,
+              top: view.y + textDraft.y * view.scale - 16,
+              color: strokeColor,
+            }}
+          />
+        )}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {template ? "Start at each green dot and follow the arrows." : "Pinch with two fingers to zoom in for fine detail."}
+      </p>
     </div>
   );
 }
@@ -0,0 +1,53 @@
+import { Button } from "@/components/ui/button";
+import { HelpCircle, Lightbulb } from "lucide-react";
+import { HINT_LEVELS } from "@/lib/hintUtils";
+
+const TONES = {
+  sky: { box: "bg-sky/10 border-sky/20", text: "text-sky" },
+  ochre: { box: "bg-ochre/10 border-ochre/20", text: "text-ochre" },
+};
+
+interface HintLadderProps {
+  hints: string[];
+  revealed: number;
+  onReveal: () => void;
+  // XP the next hint costs
+  nextCost: number;
+  tone?: keyof typeof TONES;
+  disabled?: boolean;
+}
+
+/**
+ * The hints taken so far for a question, nudge first, with a button for the
+ * next one that says what it costs.
+ */
+export function HintLadder({ hints, revealed, onReveal, nextCost, tone = "ochre", disabled }: HintLadderProps) {
+  const { box, text } = TONES[tone];
+  const shown = hints.slice(0, revealed);
+  const next = hints.length > revealed ? HINT_LEVELS[revealed] : null;
+
+  return (
+    <div className="space-y-2 mb-4">
+      {shown.map((hint, level) => (
+        <div key={level} className={`${box} border rounded-xl p-4 animate-slide-up`}>
+          <div className="flex items-start gap-2">
+            <HelpCircle className={`w-5 h-5 ${text} flex-shrink-0 mt-0.5`} />
+            <div>
+              <p className={`font-semibold text-sm ${text} mb-1`}>
+                Hint {level + 1}: {HINT_LEVELS[level]}
+              </p>
+              <p className="text-foreground/80">{hint}</p>
+            </div>
+          </div>
+        </div>
+      ))}
+      {next && !disabled && (
+        <Button variant="outline" size="sm" onClick={onReveal} className="rounded-xl gap-2">
+          <Lightbulb className="w-4 h-4" />
+          {revealed === 0 ? "Need a hint?" : `Show ${next.toLowerCase()}`}
+          {nextCost > 0 && <span className="text-muted-foreground">−{nextCost} XP</span>}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -8,18 +8,16 @@ import { toast } from "sonner";
 import { supabase } from "@/integrations/supabase/client";
 import { useMirriVoice } from "@/hooks/useMirriVoice";
 import { VoiceModeInput } from "@/components/VoiceModeInput";
-
-interface ChatMessage {
-  role: "user" | "assistant";
-  content: string;
-}
+import { buildChatContext, loadChatHistory, mergeChatHistory, saveChatMessages, type ChatMessage } from "@/lib/chatHistory";
 
 interface HomeworkHelpDrawerProps {
+  // Saves the conversation so it's there next time; without one it lasts the visit
+  profileId?: string;
   gradeLevel?: string;
   subscriptionTier?: string;
 }
 
-export function HomeworkHelpDrawer({ gradeLevel, subscriptionTier }: HomeworkHelpDrawerProps) {
+export function HomeworkHelpDrawer({ profileId, gradeLevel, subscriptionTier }: HomeworkHelpDrawerProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [inputMessage, setInputMessage] = useState("");
@@ -54,6 +52,16 @@ export function HomeworkHelpDrawer({ gradeLevel, subscriptionTier }: HomeworkHel
     messagesRef.current = messages;
   }, [messages]);
 
+  // Homework help is one thread with no topic
+  useEffect(() => {
+    if (!profileId) return;
+    loadChatHistory(profileId, null)
+      .then((history) => {
+        if (history.length > 0) setMessages(prev => mergeChatHistory(history, prev));
+      })
+      .catch((err) => console.error("Failed to load homework help history:", err));
+  }, [profileId]);
+
   useEffect(() => {
     if (isOpen) {
       chatEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -92,7 +100,7 @@ export function HomeworkHelpDrawer({ gradeLevel, subscriptionTier }: HomeworkHel
           Authorization: `Bearer ${session?.access_token || import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
         },
         body: JSON.stringify({
-          messages: allMessages,
+          ...buildChatContext(allMessages),
           gradeLevel,
         }),
       });
@@ -151,13 +159,18 @@ export function HomeworkHelpDrawer({ gradeLevel, subscriptionTier }: HomeworkHel
 
       latestAssistantRef.current = assistantContent;
       streamingCompleteRef.current = true;
+
+      if (profileId) {
+        saveChatMessages(profileId, null, [userMsg, { role: "assistant", content: assistantContent }])
+          .catch((saveErr) => console.error("Failed to save homework help:", saveErr));
+      }
     } catch (err) {
       console.error("Homework help error:", err);
       toast.error("Something went wrong. Try again!");
     } finally {
       setIsLoading(false);
     }
-  }, [isLoading, gradeLevel]);
+  }, [isLoading, gradeLevel, profileId]);
 
   // Keep ref in sync so voice callback always uses latest version
   sendMessageRef.current = sendMessageWithText;
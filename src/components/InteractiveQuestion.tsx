@@ -0,0 +1,280 @@
+import { useEffect, useMemo, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Slider } from "@/components/ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowDown, ArrowUp, GripVertical } from "lucide-react";
+import {
+  CLOZE_BLANK,
+  type ChallengeAnswer,
+  type InteractiveQuestionFields,
+} from "@/lib/questionTypes";
+
+interface InteractiveQuestionProps {
+  question: InteractiveQuestionFields;
+  answer: ChallengeAnswer | null | undefined;
+  onChange: (answer: ChallengeAnswer) => void;
+  disabled?: boolean;
+}
+
+/** A shuffled 0..n-1 that isn't already in order (when n > 1). */
+function shuffledIndexes(length: number): number[] {
+  const order = Array.from({ length }, (_, i) => i);
+  if (length < 2) return order;
+  do {
+    for (let i = order.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [order[i], order[j]] = [order[j], order[i]];
+    }
+  } while (order.every((value, i) => value === i));
+  return order;
+}
+
+/**
+ * Renders the answer area for ordering, matching, number line, cloze and
+ * typed maths challenge questions. Marking happens in the parent with markAnswer.
+ */
+export function InteractiveQuestion({ question, answer, onChange, disabled }: InteractiveQuestionProps) {
+  if (question.type === "ordering") {
+    return <OrderingAnswer items={question.items || []} answer={answer as number[] | null} onChange={onChange} disabled={disabled} />;
+  }
+  if (question.type === "matching") {
+    return <MatchingAnswer question={question} answer={answer as number[] | null} onChange={onChange} disabled={disabled} />;
+  }
+  if (question.type === "number_line") {
+    return <NumberLineAnswer question={question} answer={answer as number | null} onChange={onChange} disabled={disabled} />;
+  }
+  if (question.type === "cloze") {
+    return <ClozeAnswer question={question} answer={answer as string[] | null} onChange={onChange} disabled={disabled} />;
+  }
+  if (question.type === "numeric") {
+    return (
+      <div className="mb-4 space-y-2">
+        <Input
+          value={typeof answer === "string" ? answer : ""}
+          onChange={(e) => onChange(e.target.value)}
+          disabled={disabled}
+          maxLength={50}
+          placeholder="Type your answer"
+          aria-label="Your answer"
+          className="h-12 text-lg rounded-xl"
+        />
+        <p className="text-xs text-muted-foreground">
+          Fractions (3/4), mixed numbers (1 1/2), decimals and percentages all work. Include the unit if there is one.
+        </p>
+      </div>
+    );
+  }
+  return null;
+}
+
+// ── Ordering ─────────────────────────────────────────────────────────
+
+interface OrderingAnswerProps {
+  items: string[];
+  answer: number[] | null;
+  onChange: (answer: number[]) => void;
+  disabled?: boolean;
+}
+
+function OrderingAnswer({ items, answer, onChange, disabled }: OrderingAnswerProps) {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  // Start from a shuffled order; the student's arrangement is the answer
+  useEffect(() => {
+    if (!answer || answer.length !== items.length) onChange(shuffledIndexes(items.length));
+  }, [answer, items.length]);
+
+  if (!answer || answer.length !== items.length) return null;
+
+  const move = (from: number, to: number) => {
+    if (disabled || to < 0 || to >= answer.length || from === to) return;
+    const next = [...answer];
+    const [item] = next.splice(from, 1);
+    next.splice(to, 0, item);
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-2 mb-4">
+      <p className="text-sm text-muted-foreground">Drag or use the arrows to put these in order:</p>
+      {answer.map((itemIndex, position) => (
+        <div
+          key={itemIndex}
+          draggable={!disabled}
+          onDragStart={() => setDragIndex(position)}
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={() => {
+            if (dragIndex !== null) move(dragIndex, position);
+            setDragIndex(null);
+          }}
+          onDragEnd={() => setDragIndex(null)}
+          className={`flex items-center gap-2 p-3 rounded-xl font-medium transition-all ${
+            disabled ? "bg-eucalyptus/10 text-foreground" : "bg-muted text-foreground cursor-grab"
+          } ${dragIndex === position ? "opacity-50" : ""}`}
+        >
+          {!disabled && <GripVertical className="w-4 h-4 text-muted-foreground flex-shrink-0" />}
+          <span className="w-6 text-sm text-muted-foreground">{position + 1}.</span>
+          <span className="flex-1">{items[itemIndex]}</span>
+          {!disabled && (
+            <div className="flex gap-1">
+              <button
+                onClick={() => move(position, position - 1)}
+                disabled={position === 0}
+                className="p-1 rounded-lg hover:bg-background disabled:opacity-30"
+                aria-label="Move up"
+              >
+                <ArrowUp className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => move(position, position + 1)}
+                disabled={position === answer.length - 1}
+                className="p-1 rounded-lg hover:bg-background disabled:opacity-30"
+                aria-label="Move down"
+              >
+                <ArrowDown className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// ── Matching ─────────────────────────────────────────────────────────
+
+interface MatchingAnswerProps {
+  question: InteractiveQuestionFields;
+  answer: number[] | null;
+  onChange: (answer: number[]) => void;
+  disabled?: boolean;
+}
+
+function MatchingAnswer({ question, answer, onChange, disabled }: MatchingAnswerProps) {
+  const pairs = question.pairs || [];
+  // Right-hand options are listed in a shuffled order so position gives nothing away
+  const rightOrder = useMemo(() => shuffledIndexes(pairs.length), [question]);
+  const current = answer && answer.length === pairs.length ? answer : pairs.map(() => -1);
+
+  const choose = (leftIndex: number, rightIndex: number) => {
+    const next = [...current];
+    next[leftIndex] = rightIndex;
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-2 mb-4">
+      <p className="text-sm text-muted-foreground">Match each one to its partner:</p>
+      {pairs.map((pair, leftIndex) => (
+        <div key={leftIndex} className="grid grid-cols-2 gap-2 items-center">
+          <div className="p-3 rounded-xl bg-muted font-medium text-foreground">{pair.left}</div>
+          <Select
+            value={current[leftIndex] >= 0 ? String(current[leftIndex]) : undefined}
+            onValueChange={(value) => choose(leftIndex, Number(value))}
+            disabled={disabled}
+          >
+            <SelectTrigger className="h-auto min-h-12 rounded-xl text-left">
+              <SelectValue placeholder="Choose..." />
+            </SelectTrigger>
+            <SelectContent>
+              {rightOrder.map((rightIndex) => (
+                <SelectItem key={rightIndex} value={String(rightIndex)}>
+                  {pairs[rightIndex].right}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// ── Number line ──────────────────────────────────────────────────────
+
+interface NumberLineAnswerProps {
+  question: InteractiveQuestionFields;
+  answer: number | null;
+  onChange: (answer: number) => void;
+  disabled?: boolean;
+}
+
+const formatTick = (value: number) => String(Math.round(value * 1000) / 1000);
+
+function NumberLineAnswer({ question, answer, onChange, disabled }: NumberLineAnswerProps) {
+  const min = question.min ?? 0;
+  const max = question.max ?? 10;
+  const step = question.step && question.step > 0 ? question.step : (max - min) / 10;
+  const tickCount = Math.min(Math.round((max - min) / step), 40);
+  const ticks = Array.from({ length: tickCount + 1 }, (_, i) => i / tickCount);
+
+  return (
+    <div className="mb-4 space-y-3">
+      <p className="text-sm text-muted-foreground">Slide the marker to the right spot on the number line:</p>
+      <div className="px-3 pt-4">
+        <Slider
+          value={[answer ?? min]}
+          min={min}
+          max={max}
+          step={(max - min) / 200}
+          onValueChange={([value]) => onChange(value)}
+          disabled={disabled}
+        />
+        <div className="relative h-8 mt-1">
+          {ticks.map((fraction, i) => (
+            <div key={i} className="absolute -translate-x-1/2 flex flex-col items-center" style={{ left: `${fraction * 100}%` }}>
+              <div className="w-px h-2 bg-muted-foreground/60" />
+              {(i === 0 || i === tickCount) && (
+                <span className="text-xs text-muted-foreground mt-0.5">{formatTick(min + fraction * (max - min))}</span>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+      {answer === null || answer === undefined ? (
+        <p className="text-xs text-muted-foreground text-center">Move the marker to place your answer.</p>
+      ) : null}
+    </div>
+  );
+}
+
+// ── Cloze ────────────────────────────────────────────────────────────
+
+interface ClozeAnswerProps {
+  question: InteractiveQuestionFields;
+  answer: string[] | null;
+  onChange: (answer: string[]) => void;
+  disabled?: boolean;
+}
+
+function ClozeAnswer({ question, answer, onChange, disabled }: ClozeAnswerProps) {
+  const parts = (question.cloze_text || "").split(CLOZE_BLANK);
+  const blankCount = question.blanks?.length ?? parts.length - 1;
+  const current = answer && answer.length === blankCount ? answer : Array.from({ length: blankCount }, () => "");
+
+  const type = (index: number, text: string) => {
+    const next = [...current];
+    next[index] = text;
+    onChange(next);
+  };
+
+  return (
+    <div className="mb-4 p-4 rounded-xl bg-muted text-foreground leading-loose">
+      {parts.map((part, i) => (
+        <span key={i}>
+          <span className="whitespace-pre-wrap">{part}</span>
+          {i < parts.length - 1 && i < blankCount && (
+            <Input
+              value={current[i]}
+              onChange={(e) => type(i, e.target.value)}
+              disabled={disabled}
+              maxLength={50}
+              aria-label={`Blank ${i + 1}`}
+              className="inline-flex w-24 h-9 mx-1 text-center rounded-lg bg-background align-middle"
+            />
+          )}
+        </span>
+      ))}
+    </div>
+  );
+}
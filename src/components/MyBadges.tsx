@@ -1,6 +1,5 @@
 import { useEffect, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
-import { toast } from "sonner";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { formatDistanceToNow } from "date-fns";
 
@@ -20,11 +19,10 @@ interface UserBadge {
 
 interface MyBadgesProps {
   profileId: string | null;
-  currentStreak: number;
-  totalXp: number;
 }
 
-export function MyBadges({ profileId, currentStreak, totalXp }: MyBadgesProps) {
+/** Badges are awarded by the server as missions complete; this only shows them. */
+export function MyBadges({ profileId }: MyBadgesProps) {
   const [allBadges, setAllBadges] = useState<Badge[]>([]);
   const [earnedBadges, setEarnedBadges] = useState<UserBadge[]>([]);
   const [loading, setLoading] = useState(true);
@@ -33,10 +31,6 @@ export function MyBadges({ profileId, currentStreak, totalXp }: MyBadgesProps) {
     if (profileId) fetchBadges();
   }, [profileId]);
 
-  useEffect(() => {
-    if (profileId && allBadges.length > 0) checkAndAwardBadges();
-  }, [profileId, allBadges, currentStreak, totalXp]);
-
   const fetchBadges = async () => {
     try {
       const [{ data: badges }, { data: earned }] = await Promise.all([
@@ -52,54 +46,6 @@ export function MyBadges({ profileId, currentStreak, totalXp }: MyBadgesProps) {
     }
   };
 
-  const checkAndAwardBadges = async () => {
-    if (!profileId) return;
-
-    const { data: progressData } = await supabase
-      .from("student_progress")
-      .select("xp_earned")
-      .eq("student_id", profileId);
-
-    const masteryCount = progressData?.filter(p => (p.xp_earned || 0) >= 1500).length || 0;
-    const earnedIds = new Set(earnedBadges.map(e => e.badge_id));
-    const newlyEarned: Badge[] = [];
-
-    for (const badge of allBadges) {
-      if (earnedIds.has(badge.id)) continue;
-      let crossed = false;
-      // Streak badges now use weekly streak (current_streak)
-      if (badge.badge_type === "streak") crossed = currentStreak >= badge.threshold;
-      else if (badge.badge_type === "xp") crossed = totalXp >= badge.threshold;
-      else if (badge.badge_type === "mastery") crossed = masteryCount >= badge.threshold;
-      if (crossed) newlyEarned.push(badge);
-    }
-
-    if (newlyEarned.length === 0) return;
-
-    const inserts = newlyEarned.map(b => ({ profile_id: profileId, badge_id: b.id }));
-    const { error } = await supabase.from("user_badges").insert(inserts);
-    if (error) { console.error("Error awarding badges:", error); return; }
-
-    const activityInserts = newlyEarned.map(b => ({
-      profile_id: profileId,
-      activity_type: "badge_earned" as const,
-      badge_name: b.name,
-      badge_emoji: b.emoji,
-      xp_earned: 0,
-    }));
-    await supabase.from("activity_feed").insert(activityInserts);
-
-    for (const badge of newlyEarned) {
-      toast.success(`${badge.emoji} Badge Unlocked: ${badge.name}!`);
-    }
-
-    const { data: updated } = await supabase
-      .from("user_badges")
-      .select("badge_id, earned_at")
-      .eq("profile_id", profileId);
-    if (updated) setEarnedBadges(updated);
-  };
-
   const isEarned = (badgeId: string) => earnedBadges.find(e => e.badge_id === badgeId);
   const earnedCount = earnedBadges.length;
 
@@ -0,0 +1,30 @@
+import { cn } from "@/lib/utils";
+
+interface NarratedTextProps {
+  text: string;
+  // The narration's word index for this text's first word
+  offset?: number;
+  activeWord: number;
+  className?: string;
+}
+
+/** Text with the word being read aloud highlighted. Whitespace is kept as written. */
+export function NarratedText({ text, offset = 0, activeWord, className }: NarratedTextProps) {
+  let index = offset - 1;
+  return (
+    <span className={className}>
+      {text.split(/(\s+)/).map((part, i) => {
+        if (!part || /^\s+$/.test(part)) return part;
+        index++;
+        return (
+          <span
+            key={i}
+            className={cn("rounded transition-colors", index === activeWord && "bg-ochre/30 text-foreground")}
+          >
+            {part}
+          </span>
+        );
+      })}
+    </span>
+  );
+}
@@ -0,0 +1,74 @@
+import { Button } from "@/components/ui/button";
+import { Loader2, Pause, Play, SkipBack, SkipForward, Square, Volume2 } from "lucide-react";
+import { NARRATION_RATES } from "@/lib/narrationUtils";
+import type { Narration } from "@/hooks/useNarration";
+
+interface NarrationControlsProps {
+  narration: Narration;
+  id: string;
+  text: string;
+}
+
+/**
+ * A "Listen" button that becomes play/pause, sentence skip, speed and stop
+ * controls while this text is the one being read.
+ */
+export function NarrationControls({ narration, id, text }: NarrationControlsProps) {
+  const { narrationId, status, rate } = narration;
+
+  if (narrationId !== id) {
+    return (
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        onClick={() => narration.play(id, text)}
+        className="gap-1 text-muted-foreground hover:text-foreground"
+        title="Read aloud"
+      >
+        <Volume2 className="w-4 h-4" /> Listen
+      </Button>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-0.5 rounded-lg bg-muted/60 p-0.5">
+      <Button type="button" variant="ghost" size="sm" onClick={() => narration.skipSentence(-1)} disabled={status === "loading"} aria-label="Previous sentence" className="h-8 w-8 p-0">
+        <SkipBack className="w-4 h-4" />
+      </Button>
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        onClick={() => (status === "playing" ? narration.pause() : narration.play(id, text))}
+        disabled={status === "loading"}
+        aria-label={status === "playing" ? "Pause" : "Play"}
+        className="h-8 w-8 p-0"
+      >
+        {status === "loading" ? (
+          <Loader2 className="w-4 h-4 animate-spin" />
+        ) : status === "playing" ? (
+          <Pause className="w-4 h-4" />
+        ) : (
+          <Play className="w-4 h-4" />
+        )}
+      </Button>
+      <Button type="button" variant="ghost" size="sm" onClick={() => narration.skipSentence(1)} disabled={status === "loading"} aria-label="Next sentence" className="h-8 w-8 p-0">
+        <SkipForward className="w-4 h-4" />
+      </Button>
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        onClick={() => narration.setRate(NARRATION_RATES[(NARRATION_RATES.indexOf(rate) + 1) % NARRATION_RATES.length])}
+        aria-label="Reading speed"
+        className="h-8 w-12 px-0 text-xs font-semibold tabular-nums"
+      >
+        {rate}×
+      </Button>
+      <Button type="button" variant="ghost" size="sm" onClick={narration.stop} aria-label="Stop reading" className="h-8 w-8 p-0">
+        <Square className="w-3.5 h-3.5" />
+      </Button>
+    </div>
+  );
+}
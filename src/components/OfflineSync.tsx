@@ -0,0 +1,9 @@
+import { useAuth } from "@/contexts/AuthContext";
+import { useOfflineSync } from "@/hooks/useOfflineSync";
+
+/** Keeps offline lessons fresh and syncs queued missions for the signed-in user. */
+export function OfflineSync() {
+  const { user } = useAuth();
+  useOfflineSync(user?.id || null);
+  return null;
+}
@@ -0,0 +1,117 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { CheckCircle, Circle, GraduationCap } from "lucide-react";
+
+interface OutcomeItem {
+  id: string;
+  code: string;
+  strand: string;
+  description: string;
+  practised: boolean;
+}
+
+interface SubjectOutcomes {
+  name: string;
+  emoji: string;
+  outcomes: OutcomeItem[];
+}
+
+interface OutcomeCoverageProps {
+  profileId: string;
+  className?: string;
+}
+
+/**
+ * Syllabus outcomes per subject, ticked off once the student has earned XP
+ * in any topic linked to the outcome.
+ */
+export function OutcomeCoverage({ profileId, className = "" }: OutcomeCoverageProps) {
+  const [subjects, setSubjects] = useState<SubjectOutcomes[]>([]);
+
+  useEffect(() => {
+    if (profileId) fetchCoverage();
+  }, [profileId]);
+
+  const fetchCoverage = async () => {
+    try {
+      const [outcomesRes, linksRes, progressRes] = await Promise.all([
+        supabase
+          .from("curriculum_outcomes")
+          .select("id, code, strand, description, subjects(name, emoji)")
+          .order("code"),
+        supabase.from("topic_outcomes").select("topic_id, outcome_id"),
+        supabase.from("student_progress").select("topic_id, xp_earned").eq("student_id", profileId),
+      ]);
+
+      const practisedTopics = new Set(
+        (progressRes.data || []).filter((p) => (p.xp_earned || 0) > 0).map((p) => p.topic_id)
+      );
+      const practisedOutcomes = new Set(
+        (linksRes.data || []).filter((l) => practisedTopics.has(l.topic_id)).map((l) => l.outcome_id)
+      );
+
+      const bySubject = new Map<string, SubjectOutcomes>();
+      for (const o of outcomesRes.data || []) {
+        const subject = o.subjects as { name: string; emoji: string | null } | null;
+        if (!subject) continue;
+        if (!bySubject.has(subject.name)) {
+          bySubject.set(subject.name, { name: subject.name, emoji: subject.emoji || "📚", outcomes: [] });
+        }
+        bySubject.get(subject.name)!.outcomes.push({
+          id: o.id,
+          code: o.code,
+          strand: o.strand,
+          description: o.description,
+          practised: practisedOutcomes.has(o.id),
+        });
+      }
+
+      setSubjects([...bySubject.values()].sort((a, b) => a.name.localeCompare(b.name)));
+    } catch (err) {
+      console.error("Error fetching outcome coverage:", err);
+    }
+  };
+
+  if (subjects.length === 0) return null;
+
+  return (
+    <div className={`bento-card bg-card p-6 ${className}`}>
+      <h2 className="text-xl font-display font-bold text-foreground mb-1 flex items-center gap-2">
+        <GraduationCap className="w-5 h-5 text-primary" /> Syllabus Outcomes
+      </h2>
+      <p className="text-xs text-muted-foreground mb-4">NSW syllabus outcomes practised in training</p>
+      <div className="space-y-5">
+        {subjects.map((s) => {
+          const practised = s.outcomes.filter((o) => o.practised).length;
+          return (
+            <div key={s.name}>
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-sm font-semibold text-foreground">
+                  {s.emoji} {s.name}
+                </span>
+                <span className="text-xs text-muted-foreground">
+                  {practised}/{s.outcomes.length} practised
+                </span>
+              </div>
+              <div className="space-y-1.5">
+                {s.outcomes.map((o) => (
+                  <div key={o.id} className="flex items-start gap-2 text-sm">
+                    {o.practised ? (
+                      <CheckCircle className="w-4 h-4 text-eucalyptus flex-shrink-0 mt-0.5" />
+                    ) : (
+                      <Circle className="w-4 h-4 text-muted-foreground/50 flex-shrink-0 mt-0.5" />
+                    )}
+                    <span className={o.practised ? "text-foreground" : "text-muted-foreground"}>
+                      <span className="font-mono text-xs font-semibold mr-1.5">{o.code}</span>
+                      {o.description}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,507 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import dingoLogo from "@/assets/dingo-logo.png";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { SubmissionDetailModal, type SubmissionDetail } from "@/components/SubmissionDetailModal";
+import { fromMathsWorking } from "@/lib/submissionUtils";
+import { OutcomeCoverage } from "@/components/OutcomeCoverage";
+import { getDojoBelt, getDojoProgress } from "@/lib/beltUtils";
+import { DEFAULT_YEAR_LEVEL } from "@/lib/yearLevelUtils";
+import { summariseHintUse, type HintUseSummary } from "@/lib/hintUtils";
+import { toast } from "sonner";
+import { Flame, LogOut, Zap, UserPlus, Eye, PenTool, Target, Printer, Lightbulb, Swords } from "lucide-react";
+
+const ACTIVE_CHILD_KEY = "dingo_active_child";
+// Hint use is summarised over this many recent days
+const HINT_USE_DAYS = 30;
+
+interface ParentProfile {
+  id: string;
+  first_name: string | null;
+}
+
+interface ChildProfile {
+  id: string;
+  first_name: string | null;
+  grade_level: string | null;
+  total_xp: number | null;
+  current_streak: number | null;
+  weekly_xp_earned: number | null;
+  weekly_xp_goal: number | null;
+  // Created and owned by this parent, rather than linked by code
+  managed: boolean;
+}
+
+interface SubjectXp {
+  name: string;
+  emoji: string;
+  xp: number;
+}
+
+interface GoalWeek {
+  week_start_date: string;
+  xp_earned: number;
+  xp_goal: number;
+  goal_met: boolean;
+}
+
+interface ParentDashboardProps {
+  parent: ParentProfile;
+  onLogout: () => void;
+}
+
+export function ParentDashboard({ parent, onLogout }: ParentDashboardProps) {
+  const navigate = useNavigate();
+  const [children, setChildren] = useState<ChildProfile[]>([]);
+  const [activeChildId, setActiveChildId] = useState<string | null>(() => localStorage.getItem(ACTIVE_CHILD_KEY));
+  const [subjectXps, setSubjectXps] = useState<SubjectXp[]>([]);
+  const [goalHistory, setGoalHistory] = useState<GoalWeek[]>([]);
+  const [submissions, setSubmissions] = useState<SubmissionDetail[]>([]);
+  const [hintUse, setHintUse] = useState<HintUseSummary | null>(null);
+  const [selectedSubmission, setSelectedSubmission] = useState<SubmissionDetail | null>(null);
+  const [linkCode, setLinkCode] = useState("");
+  const [linking, setLinking] = useState(false);
+  const [newChildName, setNewChildName] = useState("");
+  const [addingChild, setAddingChild] = useState(false);
+  const [switching, setSwitching] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchChildren();
+  }, [parent.id]);
+
+  useEffect(() => {
+    if (activeChildId) {
+      localStorage.setItem(ACTIVE_CHILD_KEY, activeChildId);
+      fetchChildData(activeChildId);
+    }
+  }, [activeChildId]);
+
+  const fetchChildren = async () => {
+    try {
+      // Only the dashboard's columns, for children this parent manages or has linked
+      const { data: childData } = await supabase.rpc("get_my_children");
+
+      const list = (childData || []) as ChildProfile[];
+      setChildren(list);
+      if (!list.some(c => c.id === activeChildId)) {
+        setActiveChildId(list[0]?.id ?? null);
+      }
+    } catch (err) {
+      console.error("Error fetching children:", err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchChildData = async (childId: string) => {
+    try {
+      const hintsSince = new Date(Date.now() - HINT_USE_DAYS * 24 * 60 * 60 * 1000).toISOString();
+      const [subjectsRes, topicsRes, progressRes, goalsRes, submissionsRes, mathsWorkingRes, attemptsRes] = await Promise.all([
+        supabase.from("subjects").select("id, name, emoji").order("name"),
+        supabase.from("topics").select("id, subject_id"),
+        supabase.from("student_progress").select("topic_id, xp_earned").eq("student_id", childId),
+        supabase
+          .from("weekly_goal_history")
+          .select("week_start_date, xp_earned, xp_goal, goal_met")
+          .eq("profile_id", childId)
+          .order("week_start_date", { ascending: false })
+          .limit(8),
+        supabase
+          .from("submissions")
+          .select("*")
+          .eq("profile_id", childId)
+          .order("created_at", { ascending: false })
+          .limit(5),
+        supabase
+          .from("maths_working_submissions")
+          .select("*")
+          .eq("profile_id", childId)
+          .order("created_at", { ascending: false })
+          .limit(5),
+        supabase
+          .from("question_attempts")
+          .select("hints_used, topics(name)")
+          .eq("profile_id", childId)
+          .gte("created_at", hintsSince),
+      ]);
+
+      const topicSubject = new Map((topicsRes.data || []).map(t => [t.id, t.subject_id]));
+      const xpBySubject: Record<string, number> = {};
+      for (const p of progressRes.data || []) {
+        const subjectId = topicSubject.get(p.topic_id);
+        if (subjectId) xpBySubject[subjectId] = (xpBySubject[subjectId] || 0) + (p.xp_earned || 0);
+      }
+      setSubjectXps(
+        (subjectsRes.data || []).map(s => ({
+          name: s.name,
+          emoji: s.emoji || "📚",
+          xp: xpBySubject[s.id] || 0,
+        }))
+      );
+
+      setGoalHistory(goalsRes.data || []);
+      setHintUse(summariseHintUse(attemptsRes.data || []));
+
+      // Handwriting images live in the child's private storage folder, so only the
+      // assessment itself is shown here. Drawn maths working can still be replayed
+      // from its strokes.
+      setSubmissions(
+        [
+          ...(submissionsRes.data || []).map(sub => ({
+            ...sub,
+            strengths: Array.isArray(sub.strengths) ? (sub.strengths as string[]) : [],
+            improvements: Array.isArray(sub.improvements) ? (sub.improvements as string[]) : [],
+            annotations: Array.isArray(sub.annotations) ? (sub.annotations as unknown as SubmissionDetail["annotations"]) : [],
+          })),
+          ...(mathsWorkingRes.data || []).map(fromMathsWorking),
+        ]
+          .sort((a, b) => b.created_at.localeCompare(a.created_at))
+          .slice(0, 5)
+      );
+    } catch (err) {
+      console.error("Error fetching child data:", err);
+    }
+  };
+
+  const handleLinkChild = async () => {
+    if (!linkCode.trim()) return;
+    setLinking(true);
+    const { data, error } = await supabase.rpc("link_child_by_code", { _code: linkCode.trim() });
+    if (error) {
+      toast.error(error.message.includes("No student") ? "We couldn't find a student with that code." : "Couldn't link that account. Please try again.");
+    } else {
+      toast.success("Child linked! 🎉");
+      setLinkCode("");
+      if (data) setActiveChildId(data);
+      await fetchChildren();
+    }
+    setLinking(false);
+  };
+
+  const handleAddChild = async () => {
+    if (!newChildName.trim()) return;
+    setAddingChild(true);
+    const { data, error } = await supabase.functions.invoke("child-profiles", {
+      body: { action: "create", firstName: newChildName.trim() },
+    });
+    if (error || !data?.profileId) {
+      toast.error("Couldn't add that child. Please try again.");
+    } else {
+      toast.success(`${newChildName.trim()} is ready to train! 🎉`);
+      setNewChildName("");
+      setActiveChildId(data.profileId);
+      await fetchChildren();
+    }
+    setAddingChild(false);
+  };
+
+  // Signs this device into the child's profile; the parent logs back in with their own password
+  const handleSwitchToChild = async (child: ChildProfile) => {
+    setSwitching(true);
+    try {
+      const { data, error } = await supabase.functions.invoke("child-profiles", {
+        body: { action: "switch", profileId: child.id },
+      });
+      if (error || !data?.tokenHash) throw error || new Error("No sign-in token");
+
+      const { error: otpError } = await supabase.auth.verifyOtp({ token_hash: data.tokenHash, type: "magiclink" });
+      if (otpError) throw otpError;
+      toast.success(`Over to you, ${child.first_name || "champ"}! 🥋`);
+      navigate("/dashboard");
+    } catch (err) {
+      console.error("Error switching to child:", err);
+      toast.error("Couldn't switch profiles. Please try again.");
+      setSwitching(false);
+    }
+  };
+
+  const activeChild = children.find(c => c.id === activeChildId) || null;
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="text-center">
+          <img src={dingoLogo} alt="Dingo Dojo" className="w-16 h-16 mx-auto animate-float mb-4" />
+          <p className="text-muted-foreground text-lg animate-pulse">Loading your family...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const belt = getDojoBelt(activeChild?.total_xp || 0, activeChild?.grade_level);
+  const weeklyGoal = activeChild?.weekly_xp_goal || 500;
+  const weeklyPct = Math.min(100, Math.round(((activeChild?.weekly_xp_earned || 0) / weeklyGoal) * 100));
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-5xl mx-auto px-4 md:px-6 lg:px-8 py-6 space-y-6">
+        {/* Header */}
+        <header className="flex items-center justify-between animate-slide-up">
+          <div className="flex items-center gap-4">
+            <img src={dingoLogo} alt="Dingo Dojo" className="w-16 h-16 animate-float" />
+            <div>
+              <h1 className="text-2xl md:text-3xl font-display font-bold text-foreground">
+                G'day, {parent.first_name || "there"}!
+              </h1>
+              <p className="text-muted-foreground flex items-center gap-1">
+                <Eye className="w-4 h-4" /> Parent view • read-only
+              </p>
+            </div>
+          </div>
+          <Button variant="outline" size="sm" onClick={onLogout} className="rounded-xl gap-2">
+            <LogOut className="w-4 h-4" />
+            <span className="hidden sm:inline">Logout</span>
+          </Button>
+        </header>
+
+        {/* Child switcher */}
+        {children.length > 0 && (
+          <div className="flex flex-wrap gap-2 animate-slide-up stagger-1">
+            {children.map(child => (
+              <button
+                key={child.id}
+                onClick={() => setActiveChildId(child.id)}
+                className={`px-4 py-2 rounded-xl border-2 font-semibold transition-all ${
+                  child.id === activeChildId
+                    ? "border-primary bg-primary/10 text-foreground"
+                    : "border-border text-muted-foreground hover:border-primary/50"
+                }`}
+              >
+                {child.first_name || "Student"}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {activeChild ? (
+          <>
+            {activeChild.managed && (
+              <div className="bento-card bg-card p-5 flex items-center justify-between gap-4 animate-slide-up stagger-1">
+                <p className="text-sm text-muted-foreground">
+                  Hand the device over so {activeChild.first_name || "your child"} can train. Log out to come back here.
+                </p>
+                <Button onClick={() => handleSwitchToChild(activeChild)} disabled={switching} className="rounded-xl gap-2 shrink-0">
+                  <Swords className="w-4 h-4" /> {switching ? "Switching..." : `Train as ${activeChild.first_name || "child"}`}
+                </Button>
+              </div>
+            )}
+
+            {/* Summary */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 animate-slide-up stagger-2">
+              <div className="bento-card bg-card p-5">
+                <p className="text-sm text-muted-foreground mb-1">Dojo Rank</p>
+                <p className="text-xl font-display font-bold text-foreground">{belt.emoji} {belt.name}</p>
+                <div className="h-2 bg-muted rounded-full mt-3 overflow-hidden">
+                  <div className="h-full bg-primary rounded-full" style={{ width: `${getDojoProgress(activeChild.total_xp || 0, activeChild.grade_level)}%` }} />
+                </div>
+                <p className="text-xs text-muted-foreground mt-2 flex items-center gap-1">
+                  <Zap className="w-3 h-3" /> {(activeChild.total_xp || 0).toLocaleString()} XP total
+                </p>
+              </div>
+              <div className="bento-card bg-card p-5">
+                <p className="text-sm text-muted-foreground mb-1">This Week</p>
+                <p className="text-xl font-display font-bold text-foreground">
+                  {activeChild.weekly_xp_earned || 0} / {weeklyGoal} XP
+                </p>
+                <div className="h-2 bg-muted rounded-full mt-3 overflow-hidden">
+                  <div className="h-full bg-eucalyptus rounded-full" style={{ width: `${weeklyPct}%` }} />
+                </div>
+                <p className="text-xs text-muted-foreground mt-2">{activeChild.grade_level || DEFAULT_YEAR_LEVEL}</p>
+              </div>
+              <div className="bento-card bg-card p-5">
+                <p className="text-sm text-muted-foreground mb-1">Weekly Streak</p>
+                <p className="text-xl font-display font-bold text-foreground flex items-center gap-2">
+                  <Flame className="w-5 h-5 text-ochre" /> {activeChild.current_streak || 0} weeks
+                </p>
+              </div>
+            </div>
+
+            {/* XP by subject */}
+            <div className="bento-card bg-card p-6 animate-slide-up stagger-3">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-lg font-display font-bold text-foreground">XP by Subject</h2>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => navigate(`/report?student=${activeChild.id}`)}
+                  className="rounded-xl gap-2"
+                >
+                  <Printer className="w-4 h-4" /> Progress report
+                </Button>
+              </div>
+              <div className="space-y-3">
+                {subjectXps.map(s => (
+                  <div key={s.name} className="flex items-center justify-between">
+                    <span className="text-foreground">{s.emoji} {s.name}</span>
+                    <span className="font-semibold text-foreground">{s.xp.toLocaleString()} XP</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Syllabus outcomes practised */}
+            <OutcomeCoverage profileId={activeChild.id} className="animate-slide-up stagger-3" />
+
+            {/* Hint use */}
+            <div className="bento-card bg-card p-6 animate-slide-up stagger-4">
+              <h2 className="text-lg font-display font-bold text-foreground mb-4 flex items-center gap-2">
+                <Lightbulb className="w-5 h-5 text-primary" /> Hints Taken
+              </h2>
+              {!hintUse || hintUse.questions === 0 ? (
+                <p className="text-muted-foreground text-sm">No questions answered in the last {HINT_USE_DAYS} days.</p>
+              ) : (
+                <div className="space-y-3">
+                  <p className="text-sm text-foreground">
+                    <span className="font-semibold">{hintUse.unaided} of {hintUse.questions}</span> questions answered
+                    without a hint in the last {HINT_USE_DAYS} days.
+                  </p>
+                  {hintUse.topics.length > 0 && (
+                    <div className="space-y-2">
+                      <p className="text-xs text-muted-foreground">Topics that needed the most help</p>
+                      {hintUse.topics.map(topic => (
+                        <div key={topic.name} className="flex items-center justify-between text-sm">
+                          <span className="text-foreground">{topic.name}</span>
+                          <span className="text-muted-foreground">
+                            {topic.hints} {topic.hints === 1 ? "hint" : "hints"} over {topic.questions} {topic.questions === 1 ? "question" : "questions"}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+
+            {/* Weekly goal history */}
+            <div className="bento-card bg-card p-6 animate-slide-up stagger-4">
+              <h2 className="text-lg font-display font-bold text-foreground mb-4 flex items-center gap-2">
+                <Target className="w-5 h-5 text-primary" /> Weekly Goals
+              </h2>
+              {goalHistory.length === 0 ? (
+                <p className="text-muted-foreground text-sm">No completed weeks yet.</p>
+              ) : (
+                <div className="space-y-2">
+                  {goalHistory.map(week => (
+                    <div key={week.week_start_date} className="flex items-center justify-between text-sm">
+                      <span className="text-muted-foreground">
+                        Week of {new Date(week.week_start_date).toLocaleDateString("en-AU", { day: "numeric", month: "short" })}
+                      </span>
+                      <span className="font-semibold text-foreground">
+                        {week.xp_earned} / {week.xp_goal} XP {week.goal_met ? "✅" : "—"}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Recent submissions */}
+            <div className="bento-card bg-card p-6 animate-slide-up stagger-5">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-lg font-display font-bold text-foreground flex items-center gap-2">
+                  <PenTool className="w-5 h-5 text-primary" /> Recent Work
+                </h2>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => navigate(`/handwriting?student=${activeChild.id}`)}
+                    className="rounded-xl"
+                  >
+                    Handwriting practice
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => navigate(`/portfolio?student=${activeChild.id}`)}
+                    className="rounded-xl"
+                  >
+                    Writing portfolio
+                  </Button>
+                </div>
+              </div>
+              {submissions.length === 0 ? (
+                <p className="text-muted-foreground text-sm">No written answers or maths working yet.</p>
+              ) : (
+                <div className="space-y-2">
+                  {submissions.map(sub => (
+                    <button
+                      key={sub.id}
+                      onClick={() => setSelectedSubmission(sub)}
+                      className="w-full flex items-center justify-between p-3 rounded-xl border border-border hover:border-primary/50 transition-all text-left"
+                    >
+                      <span className="text-sm text-foreground">
+                        {sub.topic_name || sub.subject_name || "Writing task"}
+                      </span>
+                      <span className="text-xs text-muted-foreground">
+                        {sub.content_score != null
+                          ? sub.content_max_score != null ? `${sub.content_score}/${sub.content_max_score}` : `+${sub.content_score} XP`
+                          : ""}{" "}
+                        {new Date(sub.created_at).toLocaleDateString("en-AU", { day: "numeric", month: "short" })}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          </>
+        ) : (
+          <div className="bento-card bg-card p-6 text-center animate-slide-up stagger-2">
+            <p className="text-muted-foreground">
+              Add a child below to start their training, or link an account they already have with the parent code on their Profile page.
+            </p>
+          </div>
+        )}
+
+        {/* Add a child */}
+        <div className="bento-card bg-card p-6 animate-slide-up">
+          <h2 className="text-lg font-display font-bold text-foreground mb-1 flex items-center gap-2">
+            <UserPlus className="w-5 h-5 text-primary" /> Add a child
+          </h2>
+          <p className="text-sm text-muted-foreground mb-3">
+            Your children train under your login, and your subscription covers them all. No email needed.
+          </p>
+          <div className="flex gap-2">
+            <Input
+              placeholder="First name"
+              value={newChildName}
+              onChange={(e) => setNewChildName(e.target.value)}
+              maxLength={50}
+              className="h-11 rounded-xl"
+            />
+            <Button onClick={handleAddChild} disabled={addingChild || !newChildName.trim()} className="rounded-xl">
+              {addingChild ? "Adding..." : "Add"}
+            </Button>
+          </div>
+        </div>
+
+        {/* Link a child who already has an account */}
+        <div className="bento-card bg-card p-6 animate-slide-up">
+          <h2 className="text-lg font-display font-bold text-foreground mb-3 flex items-center gap-2">
+            <UserPlus className="w-5 h-5 text-primary" /> Link an existing account
+          </h2>
+          <div className="flex gap-2">
+            <Input
+              placeholder="Parent code (e.g. 4F9A2C1B)"
+              value={linkCode}
+              onChange={(e) => setLinkCode(e.target.value.toUpperCase())}
+              className="h-11 rounded-xl uppercase"
+            />
+            <Button onClick={handleLinkChild} disabled={linking || !linkCode.trim()} className="rounded-xl">
+              {linking ? "Linking..." : "Link"}
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <SubmissionDetailModal
+        isOpen={!!selectedSubmission}
+        onClose={() => setSelectedSubmission(null)}
+        submission={selectedSubmission}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { toast } from "sonner";
+import { ABILITY_LEVELS } from "@/lib/progressUtils";
+import { ChevronRight, Loader2 } from "lucide-react";
+
+interface PlacementQuestion {
+  index: number;
+  total: number;
+  topicName: string;
+  question: string;
+  options: string[];
+}
+
+export interface PlacementResult {
+  correct: number;
+  total: number;
+  results: { topicId: string; topicName: string; level: string }[];
+}
+
+interface PlacementQuizProps {
+  subjectId: string;
+  subjectName: string;
+  onComplete: (result: PlacementResult | null) => void;
+}
+
+/**
+ * Adaptive placement quiz for one subject. Questions and scoring live in the
+ * placement-quiz function; answers are never sent to the browser.
+ */
+export function PlacementQuiz({ subjectId, subjectName, onComplete }: PlacementQuizProps) {
+  const [attemptId, setAttemptId] = useState<string | null>(null);
+  const [question, setQuestion] = useState<PlacementQuestion | null>(null);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [result, setResult] = useState<PlacementResult | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    startQuiz();
+  }, [subjectId]);
+
+  const startQuiz = async () => {
+    setFailed(false);
+    const { data, error } = await supabase.functions.invoke("placement-quiz", {
+      body: { action: "start", subjectId },
+    });
+    if (error || !data?.success) {
+      console.error("Error starting placement quiz:", error || data);
+      setFailed(true);
+      return;
+    }
+    setAttemptId(data.attemptId);
+    setQuestion(data.question);
+  };
+
+  const submitAnswer = async () => {
+    if (!attemptId || selected === null) return;
+    setSubmitting(true);
+    try {
+      const { data, error } = await supabase.functions.invoke("placement-quiz", {
+        body: { action: "answer", attemptId, answer: selected },
+      });
+      if (error || !data?.success) throw error || new Error("Answer not saved");
+
+      setSelected(null);
+      if (data.done) {
+        setResult({ correct: data.correct, total: data.total, results: data.results });
+      } else {
+        setQuestion(data.question);
+      }
+    } catch (err) {
+      console.error("Error answering placement question:", err);
+      toast.error("Couldn't save that answer. Please try again!");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (failed) {
+    return (
+      <div className="text-center py-8 space-y-4">
+        <p className="text-muted-foreground">Couldn't load the {subjectName} quiz right now.</p>
+        <div className="flex justify-center gap-2">
+          <Button variant="outline" className="rounded-xl" onClick={() => onComplete(null)}>
+            Back
+          </Button>
+          <Button className="rounded-xl" onClick={startQuiz}>
+            Try again
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (result) {
+    return (
+      <div className="space-y-4 animate-slide-up">
+        <div className="text-center">
+          <div className="text-5xl mb-2">🎯</div>
+          <h3 className="text-xl font-display font-bold text-foreground">{subjectName} placement done!</h3>
+          <p className="text-muted-foreground">
+            You got {result.correct} of {result.total}. Here's where you'll start:
+          </p>
+        </div>
+        <div className="space-y-2">
+          {result.results.map((r) => (
+            <div key={r.topicId} className="flex items-center justify-between rounded-xl bg-muted px-4 py-2">
+              <span className="font-medium text-foreground">{r.topicName}</span>
+              <span
+                className={`text-xs font-semibold px-2 py-0.5 rounded-full ${
+                  ABILITY_LEVELS.find((l) => l.name === r.level)?.colorClass || ""
+                }`}
+              >
+                {r.level}
+              </span>
+            </div>
+          ))}
+        </div>
+        <Button className="w-full rounded-xl" onClick={() => onComplete(result)}>
+          Done
+        </Button>
+      </div>
+    );
+  }
+
+  if (!question) {
+    return (
+      <div className="text-center py-10">
+        <Loader2 className="w-8 h-8 animate-spin text-primary mx-auto mb-3" />
+        <p className="text-muted-foreground">Getting your {subjectName} questions ready...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <div className="flex items-center justify-between text-sm text-muted-foreground mb-2">
+          <span>{question.topicName}</span>
+          <span>
+            Question {question.index} of {question.total}
+          </span>
+        </div>
+        <Progress value={((question.index - 1) / question.total) * 100} className="h-2" />
+      </div>
+
+      <h3 className="text-lg font-display font-bold text-foreground">{question.question}</h3>
+
+      <div className="space-y-3">
+        {question.options.map((option, index) => (
+          <button
+            key={index}
+            onClick={() => setSelected(index)}
+            disabled={submitting}
+            className={`w-full p-4 rounded-xl text-left font-medium transition-all ${
+              selected === index
+                ? "bg-primary/10 border-2 border-primary text-foreground"
+                : "bg-muted hover:bg-muted/80 text-foreground border-2 border-transparent"
+            }`}
+          >
+            <span className="mr-2">{String.fromCharCode(65 + index)}.</span>
+            {option}
+          </button>
+        ))}
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        It's fine not to know some of these — we use your answers to pick the right starting level.
+      </p>
+
+      <Button
+        onClick={submitAnswer}
+        disabled={selected === null || submitting}
+        className="w-full rounded-xl gap-2"
+      >
+        {submitting ? <Loader2 className="w-4 h-4 animate-spin" /> : null}
+        Next
+        <ChevronRight className="w-4 h-4" />
+      </Button>
+    </div>
+  );
+}
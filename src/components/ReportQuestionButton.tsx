@@ -0,0 +1,99 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Flag, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+type ReportReason = "wrong_answer" | "confusing" | "typo" | "other";
+
+const REASONS: { value: ReportReason; label: string }[] = [
+  { value: "wrong_answer", label: "The answer is wrong" },
+  { value: "confusing", label: "The question is confusing" },
+  { value: "typo", label: "There's a spelling mistake" },
+  { value: "other", label: "Something else" },
+];
+
+interface ReportQuestionButtonProps {
+  questionId: string;
+  profileId: string | null;
+}
+
+export function ReportQuestionButton({ questionId, profileId }: ReportQuestionButtonProps) {
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState<ReportReason | null>(null);
+  const [details, setDetails] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [reported, setReported] = useState(false);
+
+  const submitReport = async () => {
+    if (!profileId || !reason) return;
+    setSubmitting(true);
+    try {
+      const { error } = await supabase.from("question_reports").insert({
+        question_id: questionId,
+        profile_id: profileId,
+        reason,
+        details: details.trim() || null,
+      });
+      // Unique violation: this student already reported the question
+      if (error && error.code !== "23505") throw error;
+
+      setReported(true);
+      setOpen(false);
+      toast.success("Thanks! We'll take a look at that question.");
+    } catch (err) {
+      console.error("Error reporting question:", err);
+      toast.error("Couldn't send your report. Please try again.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (!profileId) return null;
+
+  return (
+    <>
+      <button
+        onClick={() => setOpen(true)}
+        disabled={reported}
+        className="text-xs text-muted-foreground hover:text-foreground flex items-center gap-1 disabled:opacity-60"
+      >
+        <Flag className="w-3 h-3" />
+        {reported ? "Reported" : "Report"}
+      </button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle className="font-display">Report this question</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2">
+            {REASONS.map((r) => (
+              <button
+                key={r.value}
+                onClick={() => setReason(r.value)}
+                className={`w-full p-3 rounded-xl text-left text-sm font-medium transition-all ${
+                  reason === r.value ? "bg-primary text-primary-foreground" : "bg-muted hover:bg-muted/80 text-foreground"
+                }`}
+              >
+                {r.label}
+              </button>
+            ))}
+          </div>
+          <Textarea
+            value={details}
+            onChange={(e) => setDetails(e.target.value.slice(0, 500))}
+            placeholder="Tell us more (optional)"
+            className="min-h-[80px]"
+          />
+          <Button onClick={submitReport} disabled={!reason || submitting}>
+            {submitting && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+            Send Report
+          </Button>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
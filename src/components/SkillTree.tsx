@@ -0,0 +1,112 @@
+import { getMasteryLevel } from "@/lib/progressUtils";
+import {
+  getTopicDepths,
+  getUnmetPrerequisites,
+  PREREQUISITE_MIN_XP,
+  type TopicPrerequisite,
+} from "@/lib/skillTreeUtils";
+import { CheckCircle2, Lock } from "lucide-react";
+
+interface SkillTreeTopic {
+  id: string;
+  name: string;
+  emoji: string;
+}
+
+interface SkillTreeProps {
+  topics: SkillTreeTopic[];
+  prerequisites: TopicPrerequisite[];
+  xpByTopic: Record<string, number>;
+  onSelect: (topicId: string) => void;
+}
+
+const NODE_WIDTH = 176;
+const NODE_HEIGHT = 84;
+const COLUMN_GAP = 56;
+const ROW_GAP = 20;
+
+/**
+ * Topics laid out left to right by prerequisite depth, with a line from each
+ * prerequisite to the topics it unlocks.
+ */
+export function SkillTree({ topics, prerequisites, xpByTopic, onSelect }: SkillTreeProps) {
+  const depths = getTopicDepths(topics.map((t) => t.id), prerequisites);
+
+  const positions: Record<string, { x: number; y: number }> = {};
+  const rowsPerColumn: Record<number, number> = {};
+  for (const topic of topics) {
+    const column = depths[topic.id] || 0;
+    const row = rowsPerColumn[column] || 0;
+    rowsPerColumn[column] = row + 1;
+    positions[topic.id] = { x: column * (NODE_WIDTH + COLUMN_GAP), y: row * (NODE_HEIGHT + ROW_GAP) };
+  }
+
+  const columns = Object.keys(rowsPerColumn).length;
+  const maxRows = Math.max(0, ...Object.values(rowsPerColumn));
+  const width = columns * NODE_WIDTH + (columns - 1) * COLUMN_GAP;
+  const height = maxRows * NODE_HEIGHT + (maxRows - 1) * ROW_GAP;
+
+  const edges = prerequisites.filter((p) => positions[p.topic_id] && positions[p.prerequisite_id]);
+
+  return (
+    <div className="overflow-x-auto pb-2">
+      <div className="relative" style={{ width, height }}>
+        <svg className="absolute inset-0 pointer-events-none" width={width} height={height}>
+          {edges.map((edge) => {
+            const from = positions[edge.prerequisite_id];
+            const to = positions[edge.topic_id];
+            const x1 = from.x + NODE_WIDTH;
+            const y1 = from.y + NODE_HEIGHT / 2;
+            const x2 = to.x;
+            const y2 = to.y + NODE_HEIGHT / 2;
+            const midX = (x1 + x2) / 2;
+            const met = (xpByTopic[edge.prerequisite_id] || 0) >= PREREQUISITE_MIN_XP;
+            return (
+              <path
+                key={`${edge.prerequisite_id}-${edge.topic_id}`}
+                d={`M ${x1} ${y1} C ${midX} ${y1}, ${midX} ${y2}, ${x2} ${y2}`}
+                fill="none"
+                strokeWidth={2}
+                strokeDasharray={met ? undefined : "6 4"}
+                className={met ? "stroke-eucalyptus" : "stroke-muted-foreground/40"}
+              />
+            );
+          })}
+        </svg>
+
+        {topics.map((topic) => {
+          const xp = xpByTopic[topic.id] || 0;
+          const level = getMasteryLevel(xp);
+          const locked = getUnmetPrerequisites(topic.id, prerequisites, xpByTopic).length > 0;
+          const { x, y } = positions[topic.id];
+
+          return (
+            <button
+              key={topic.id}
+              onClick={() => onSelect(topic.id)}
+              className={`absolute flex items-center gap-2 rounded-2xl border-2 bg-card p-3 text-left transition-all hover:shadow-md hover:border-primary/40 ${
+                locked ? "border-dashed border-border opacity-70" : "border-border"
+              }`}
+              style={{ left: x, top: y, width: NODE_WIDTH, height: NODE_HEIGHT }}
+            >
+              <span className="text-3xl flex-shrink-0">{topic.emoji}</span>
+              <span className="min-w-0 flex-1">
+                <span className="block text-sm font-display font-bold text-foreground leading-tight line-clamp-2">
+                  {topic.name}
+                </span>
+                <span className="mt-1 inline-flex items-center gap-1 text-xs text-muted-foreground">
+                  {locked ? (
+                    <Lock className="w-3 h-3" />
+                  ) : xp >= PREREQUISITE_MIN_XP ? (
+                    <CheckCircle2 className="w-3 h-3 text-eucalyptus" />
+                  ) : null}
+                  {level.name}
+                </span>
+              </span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
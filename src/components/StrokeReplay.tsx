@@ -0,0 +1,105 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Pause, Play, RotateCcw } from "lucide-react";
+import { compressPauses, getRecordingDuration, renderRecording, type StrokeRecording } from "@/lib/strokeUtils";
+
+interface StrokeReplayProps {
+  recording: StrokeRecording;
+}
+
+const SPEEDS = [1, 2, 4];
+
+/**
+ * Plays a drawing back stroke by stroke, so teachers can see the order the
+ * working was written in. Long pauses are shortened.
+ */
+export function StrokeReplay({ recording }: StrokeReplayProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const frameRef = useRef<number | null>(null);
+  const replay = useMemo(() => compressPauses(recording), [recording]);
+  const duration = getRecordingDuration(replay);
+  const [elapsed, setElapsed] = useState(duration);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  // Paint the drawing up to the current point in the replay
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+    const displayWidth = canvas.clientWidth || recording.width;
+    const dpr = window.devicePixelRatio || 1;
+    const scale = displayWidth / recording.width;
+    canvas.width = displayWidth * dpr;
+    canvas.height = recording.height * scale * dpr;
+    ctx.setTransform(scale * dpr, 0, 0, scale * dpr, 0, 0);
+    renderRecording(ctx, replay, elapsed);
+  }, [replay, elapsed, recording.width, recording.height]);
+
+  useEffect(() => {
+    if (!playing) return;
+    let last = performance.now();
+    const tick = (now: number) => {
+      const step = (now - last) * speed;
+      last = now;
+      setElapsed((prev) => Math.min(prev + step, duration));
+      frameRef.current = requestAnimationFrame(tick);
+    };
+    frameRef.current = requestAnimationFrame(tick);
+    return () => {
+      if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    };
+  }, [playing, speed, duration]);
+
+  useEffect(() => {
+    if (playing && elapsed >= duration) setPlaying(false);
+  }, [playing, elapsed, duration]);
+
+  const togglePlay = () => {
+    if (!playing && elapsed >= duration) setElapsed(0);
+    setPlaying(!playing);
+  };
+
+  const restart = () => {
+    setElapsed(0);
+    setPlaying(true);
+  };
+
+  const formatSeconds = (ms: number) => `${Math.floor(ms / 1000)}s`;
+
+  return (
+    <div className="space-y-2">
+      <canvas
+        ref={canvasRef}
+        className="w-full rounded-xl border border-border bg-white"
+        style={{ aspectRatio: `${recording.width} / ${recording.height}` }}
+      />
+      <div className="flex items-center gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={togglePlay} className="gap-1">
+          {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+          {playing ? "Pause" : "Replay"}
+        </Button>
+        <Button type="button" variant="ghost" size="sm" onClick={restart} aria-label="Restart replay">
+          <RotateCcw className="w-4 h-4" />
+        </Button>
+        <Progress value={duration > 0 ? (elapsed / duration) * 100 : 100} className="h-2 flex-1" />
+        <span className="text-xs text-muted-foreground tabular-nums w-16 text-right">
+          {formatSeconds(elapsed)} / {formatSeconds(duration)}
+        </span>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={() => setSpeed(SPEEDS[(SPEEDS.indexOf(speed) + 1) % SPEEDS.length])}
+          className="w-10 px-0"
+        >
+          {speed}×
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {recording.strokes.length} strokes · pauses over a second are shortened
+      </p>
+    </div>
+  );
+}
@@ -1,7 +1,11 @@
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { AnnotatedWriting } from "@/components/AnnotatedWriting";
+import { StrokeReplay } from "@/components/StrokeReplay";
 import { Camera, PenTool, CheckCircle } from "lucide-react";
+import type { Json } from "@/integrations/supabase/types";
+import type { StrokeRecording } from "@/lib/strokeUtils";
+import type { WritingDraft } from "@/lib/writingUtils";
 
 interface WritingAnnotation {
   originalText: string;
@@ -34,6 +38,11 @@ interface SubmissionDetail {
   presentation_comment: string | null;
   created_at: string;
   signedUrl?: string;
+  // Drawn maths working, replayed stroke by stroke
+  strokes?: StrokeRecording | null;
+  // Earlier drafts of revised writing, oldest first
+  revisions?: Json;
+  revision_bonus_xp?: number;
 }
 
 interface SubmissionDetailModalProps {
@@ -66,6 +75,8 @@ export function SubmissionDetailModal({ isOpen, onClose, submission }: Submissio
     new Date(dateStr).toLocaleDateString("en-AU", { day: "numeric", month: "short", year: "numeric" });
 
   const hasHandwriting = submission.submission_type === "handwritten" && submission.composite_score != null;
+  const isMathsWorking = submission.submission_type === "maths_working";
+  const drafts = Array.isArray(submission.revisions) ? (submission.revisions as unknown as WritingDraft[]) : [];
 
   return (
     <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
@@ -80,7 +91,8 @@ export function SubmissionDetailModal({ isOpen, onClose, submission }: Submissio
               </p>
             </div>
             <span className="text-sm font-medium text-primary">
-              +{submission.content_score || 0}/{submission.content_max_score || 0} XP
+              +{submission.content_score || 0}
+              {submission.content_max_score != null && `/${submission.content_max_score}`} XP
             </span>
           </DialogTitle>
         </DialogHeader>
@@ -105,6 +117,19 @@ export function SubmissionDetailModal({ isOpen, onClose, submission }: Submissio
             </div>
           )}
 
+          {/* Maths working: replay drawn strokes, else show the photo */}
+          {isMathsWorking && submission.strokes?.strokes?.length ? (
+            <StrokeReplay recording={submission.strokes} />
+          ) : isMathsWorking && submission.signedUrl ? (
+            <div className="rounded-xl overflow-hidden border border-border">
+              <img
+                src={submission.signedUrl}
+                alt="Maths working"
+                className="w-full max-h-64 object-contain bg-muted/30"
+              />
+            </div>
+          ) : null}
+
           {/* Handwriting Assessment */}
           {hasHandwriting && (
             <div className="bg-sky/10 border border-sky/20 rounded-xl p-4 space-y-3">
@@ -159,6 +184,24 @@ export function SubmissionDetailModal({ isOpen, onClose, submission }: Submissio
             </div>
           )}
 
+          {/* Revision history */}
+          {drafts.length > 0 && (
+            <div className="bg-ochre/10 border border-ochre/20 rounded-xl p-4">
+              <p className="font-semibold text-sm text-foreground mb-1">
+                ✏️ Revised {drafts.length} {drafts.length === 1 ? "time" : "times"}
+                {submission.revision_bonus_xp ? ` · +${submission.revision_bonus_xp} XP for fixes` : ""}
+              </p>
+              <ul className="text-xs text-muted-foreground space-y-0.5">
+                {drafts.map((draft, i) => (
+                  <li key={i}>
+                    Draft {i + 1}: {draft.content_score} XP, {draft.annotations.filter((a) => a.type !== "praise").length} things to fix
+                  </li>
+                ))}
+                <li>Final draft: {submission.content_score || 0} XP</li>
+              </ul>
+            </div>
+          )}
+
           {/* Annotated Writing */}
           {submission.student_text && (
             <div className="border-t border-border pt-4">
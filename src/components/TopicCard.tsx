@@ -1,7 +1,7 @@
 import { useState } from "react";
 import { ProgressRing } from "./ProgressRing";
-import { getMasteryLevel, getProgressPercentage, getRingColor, isMastered, getXpToNextLevel, MASTERY_LEVELS } from "@/lib/progressUtils";
-import { CheckCircle2, ChevronUp, ChevronDown, Sparkles, Zap } from "lucide-react";
+import { getMasteryLevel, getProgressPercentage, getRingColor, isMastered, getXpToNextLevel, getAbilityLevel, MASTERY_LEVELS } from "@/lib/progressUtils";
+import { CheckCircle2, ChevronUp, ChevronDown, Lock, Sparkles, TrendingUp, Zap } from "lucide-react";
 import { Button } from "@/components/ui/button";
 
 interface TopicCardProps {
@@ -14,13 +14,18 @@ interface TopicCardProps {
   };
   xpEarned: number;
   weeklyXp: number;
+  abilityRating?: number;
+  outcomes?: { code: string; description: string }[];
+  /** Names of prerequisite topics still below the unlock threshold */
+  lockedBy?: string[];
   onClick: () => void;
   onLevelChange?: (topicId: string, newXp: number) => void;
   animationDelay?: string;
 }
 
-export function TopicCard({ topic, xpEarned, weeklyXp, onClick, onLevelChange, animationDelay }: TopicCardProps) {
+export function TopicCard({ topic, xpEarned, weeklyXp, abilityRating, outcomes = [], lockedBy = [], onClick, onLevelChange, animationDelay }: TopicCardProps) {
   const level = getMasteryLevel(xpEarned);
+  const ability = getAbilityLevel(abilityRating);
   const progress = getProgressPercentage(xpEarned);
   const ringColor = getRingColor(xpEarned);
   const mastered = isMastered(xpEarned);
@@ -29,6 +34,7 @@ export function TopicCard({ topic, xpEarned, weeklyXp, onClick, onLevelChange, a
   const currentLevelIndex = MASTERY_LEVELS.findIndex(l => l.name === level.name);
   const canAdvance = currentLevelIndex < MASTERY_LEVELS.length - 1;
   const canGoBack = currentLevelIndex > 0;
+  const locked = lockedBy.length > 0;
 
   const handleAdvance = (e: React.MouseEvent) => {
     e.stopPropagation();
@@ -52,7 +58,7 @@ export function TopicCard({ topic, xpEarned, weeklyXp, onClick, onLevelChange, a
         mastered 
           ? "border-eucalyptus/50 bg-gradient-to-r from-eucalyptus/5 to-eucalyptus/10" 
           : "border-border hover:border-primary/30"
-      }`}
+      } ${locked ? "opacity-70" : ""}`}
       style={{ animationDelay }}
     >
       {/* Mastery celebration effect */}
@@ -84,6 +90,25 @@ export function TopicCard({ topic, xpEarned, weeklyXp, onClick, onLevelChange, a
                     {topic.description}
                   </p>
                 )}
+                {outcomes.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {outcomes.map(o => (
+                      <span
+                        key={o.code}
+                        title={o.description}
+                        className="font-mono text-[10px] font-semibold px-1.5 py-0.5 rounded bg-muted text-muted-foreground"
+                      >
+                        {o.code}
+                      </span>
+                    ))}
+                  </div>
+                )}
+                {locked && (
+                  <p className="flex items-center gap-1 mt-1 text-xs font-semibold text-muted-foreground">
+                    <Lock className="w-3 h-3" />
+                    Finish {lockedBy.join(" and ")} first
+                  </p>
+                )}
               </div>
             </div>
 
@@ -103,6 +128,15 @@ export function TopicCard({ topic, xpEarned, weeklyXp, onClick, onLevelChange, a
                 <span>{xpEarned} XP</span>
               </div>
 
+              {/* Skill level - what the next lesson is pitched at */}
+              <span
+                className={`inline-flex items-center gap-1 px-2.5 py-1 rounded-full text-sm font-semibold ${ability.colorClass}`}
+                title="Lesson difficulty, based on how you've been answering"
+              >
+                <TrendingUp className="w-4 h-4" />
+                {ability.name}
+              </span>
+
               {/* Weekly XP boost indicator */}
               {weeklyXp > 0 && (
                 <span className="inline-flex items-center gap-1 px-2.5 py-1 rounded-full bg-eucalyptus/10 text-eucalyptus text-sm font-bold">
@@ -1,7 +1,8 @@
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { AnnotatedWriting } from "@/components/AnnotatedWriting";
-import { CheckCircle } from "lucide-react";
+import { CheckCircle, PencilLine } from "lucide-react";
+import type { WritingRevision } from "@/lib/writingUtils";
 
 interface WritingAnnotation {
   originalText: string;
@@ -18,6 +19,7 @@ interface FreeTextFeedback {
   improvements: string[];
   overallRating: string;
   annotations?: WritingAnnotation[];
+  revision?: WritingRevision;
 }
 
 interface HandwritingResult {
@@ -37,6 +39,8 @@ interface WritingFeedbackModalProps {
   feedback: FreeTextFeedback;
   studentResponse: string;
   handwritingResult?: HandwritingResult;
+  // Offered while the draft can still be revised
+  onRevise?: () => void;
 }
 
 function DotScore({ score, max = 5 }: { score: number; max?: number }) {
@@ -57,6 +61,7 @@ export function WritingFeedbackModal({
   feedback, 
   studentResponse,
   handwritingResult,
+  onRevise,
 }: WritingFeedbackModalProps) {
   const ratingEmoji = 
     feedback.overallRating === "Fantastic!" ? "🌟" :
@@ -105,6 +110,32 @@ export function WritingFeedbackModal({
             </div>
           )}
 
+          {/* Revision: which earlier corrections were fixed */}
+          {feedback.revision && (
+            <div className="bg-ochre/10 border border-ochre/20 rounded-xl p-4 space-y-2">
+              <div className="flex items-center justify-between">
+                <p className="font-semibold text-sm text-foreground">✏️ Your revision</p>
+                {feedback.revision.bonusXp > 0 && (
+                  <span className="text-sm font-bold text-primary">+{feedback.revision.bonusXp} XP for fixes</span>
+                )}
+              </div>
+              {feedback.revision.fixed.map((a, i) => (
+                <p key={`fixed-${i}`} className="text-sm text-foreground/80">
+                  <span className="text-eucalyptus font-semibold">✓ Fixed:</span>{" "}
+                  <span className="line-through text-muted-foreground">{a.originalText}</span> → {a.suggestion}
+                </p>
+              ))}
+              {feedback.revision.remaining.map((a, i) => (
+                <p key={`remaining-${i}`} className="text-sm text-foreground/80">
+                  <span className="text-sky font-semibold">Still to fix:</span> {a.originalText} → {a.suggestion}
+                </p>
+              ))}
+              {feedback.revision.fixed.length === 0 && feedback.revision.remaining.length === 0 && (
+                <p className="text-sm text-muted-foreground">There were no corrections to fix this time.</p>
+              )}
+            </div>
+          )}
+
           {/* Overall Feedback */}
           <div className="bg-eucalyptus/10 border border-eucalyptus/20 rounded-xl p-4">
             <p className="text-foreground">{feedback.feedback}</p>
@@ -146,7 +177,13 @@ export function WritingFeedbackModal({
           </div>
         </div>
 
-        <DialogFooter>
+        <DialogFooter className="flex-col gap-2 sm:flex-col sm:space-x-0">
+          {onRevise && (
+            <Button variant="outline" onClick={onRevise} className="w-full h-12 font-bold rounded-xl gap-2">
+              <PencilLine className="w-5 h-5" />
+              Revise my draft
+            </Button>
+          )}
           <Button onClick={onClose} className="w-full h-12 text-lg font-bold rounded-xl gap-2">
             <CheckCircle className="w-5 h-5" />
             Continue
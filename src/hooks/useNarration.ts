@@ -0,0 +1,187 @@
+import { useState, useRef, useCallback, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { SILENT_MP3 } from "@/hooks/useMirriVoice";
+import { alignWordTimings, findWordAt, getSkipTarget, type WordTiming } from "@/lib/narrationUtils";
+
+type NarrationStatus = "idle" | "loading" | "playing" | "paused";
+
+interface NarrationAudio {
+  url: string;
+  timings: (WordTiming | null)[];
+}
+
+/**
+ * Reads lesson text aloud with the word being spoken tracked for
+ * highlighting. One narration plays at a time; each is identified by an id
+ * so the right section knows it's the one being read.
+ */
+export function useNarration() {
+  const [narrationId, setNarrationId] = useState<string | null>(null);
+  const [status, setStatus] = useState<NarrationStatus>("idle");
+  const [wordIndex, setWordIndex] = useState(-1);
+  const [rate, setRateState] = useState(1);
+
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const currentRef = useRef<{ text: string; timings: (WordTiming | null)[] } | null>(null);
+  // Audio already fetched this session, by text, so replays and skips are free
+  const cacheRef = useRef(new Map<string, NarrationAudio>());
+  const frameRef = useRef<number | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    audioRef.current = new Audio();
+    const cache = cacheRef.current;
+    return () => {
+      audioRef.current?.pause();
+      audioRef.current = null;
+      abortControllerRef.current?.abort();
+      if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+      for (const { url } of cache.values()) URL.revokeObjectURL(url);
+      cache.clear();
+    };
+  }, []);
+
+  const stopTracking = () => {
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    frameRef.current = null;
+  };
+
+  // Follows the audio every frame; timeupdate fires too rarely to keep up with words
+  const startTracking = useCallback(() => {
+    stopTracking();
+    const tick = () => {
+      const audio = audioRef.current;
+      const current = currentRef.current;
+      if (!audio || !current) return;
+      setWordIndex(findWordAt(current.timings, audio.currentTime));
+      frameRef.current = requestAnimationFrame(tick);
+    };
+    frameRef.current = requestAnimationFrame(tick);
+  }, []);
+
+  const stop = useCallback(() => {
+    abortControllerRef.current?.abort();
+    stopTracking();
+    if (audioRef.current) {
+      audioRef.current.pause();
+      audioRef.current.onended = null;
+    }
+    currentRef.current = null;
+    setNarrationId(null);
+    setStatus("idle");
+    setWordIndex(-1);
+  }, []);
+
+  const fetchAudio = async (text: string, signal: AbortSignal): Promise<NarrationAudio> => {
+    const cached = cacheRef.current.get(text);
+    if (cached) return cached;
+
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.access_token) throw new Error("Not authenticated");
+
+    const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/text-to-speech`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${session.access_token}`,
+      },
+      body: JSON.stringify({ text, timestamps: true }),
+      signal,
+    });
+    if (!response.ok) throw new Error(`TTS failed: ${response.status}`);
+
+    const { audio, words } = await response.json();
+    const bytes = Uint8Array.from(atob(audio), (char) => char.charCodeAt(0));
+    const narration = {
+      url: URL.createObjectURL(new Blob([bytes], { type: "audio/mpeg" })),
+      timings: alignWordTimings(text, words || []),
+    };
+    cacheRef.current.set(text, narration);
+    return narration;
+  };
+
+  const play = useCallback(async (id: string, text: string) => {
+    const audio = audioRef.current;
+    if (!audio || !text.trim()) return;
+
+    // Carry on from where it was paused
+    if (id === narrationId && status === "paused") {
+      audio.play().catch(() => {});
+      setStatus("playing");
+      startTracking();
+      return;
+    }
+
+    stop();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setNarrationId(id);
+    setStatus("loading");
+
+    // Unlock audio while still inside the tap, before the fetch
+    if (!cacheRef.current.has(text)) {
+      audio.src = SILENT_MP3;
+      audio.play().then(() => {
+        if (audio.src === SILENT_MP3) audio.pause();
+      }).catch(() => {});
+    }
+
+    try {
+      const narration = await fetchAudio(text, controller.signal);
+      if (controller.signal.aborted) return;
+      currentRef.current = { text, timings: narration.timings };
+      audio.src = narration.url;
+      audio.playbackRate = rate;
+      audio.onended = () => {
+        stopTracking();
+        setStatus("idle");
+        setNarrationId(null);
+        setWordIndex(-1);
+      };
+      await audio.play();
+      setStatus("playing");
+      startTracking();
+    } catch (err) {
+      if ((err as Error)?.name === "AbortError") return;
+      console.error("Narration error:", err);
+      toast.error("Couldn't read this aloud right now. Please try again.");
+      stop();
+    }
+  }, [narrationId, status, rate, stop, startTracking]);
+
+  const pause = useCallback(() => {
+    audioRef.current?.pause();
+    stopTracking();
+    setStatus("paused");
+  }, []);
+
+  const setRate = useCallback((next: number) => {
+    if (audioRef.current) audioRef.current.playbackRate = next;
+    setRateState(next);
+  }, []);
+
+  const skipSentence = useCallback((direction: 1 | -1) => {
+    const audio = audioRef.current;
+    const current = currentRef.current;
+    if (!audio || !current) return;
+    const target = getSkipTarget(current.text, current.timings, audio.currentTime, direction);
+    if (!target) return;
+    audio.currentTime = target.start;
+    setWordIndex(findWordAt(current.timings, target.start));
+  }, []);
+
+  return {
+    narrationId,
+    status,
+    wordIndex,
+    rate,
+    play,
+    pause,
+    stop,
+    setRate,
+    skipSentence,
+  };
+}
+
+export type Narration = ReturnType<typeof useNarration>;
@@ -0,0 +1,150 @@
+import { useEffect, useRef } from "react";
+import { FunctionsFetchError, FunctionsHttpError, FunctionsRelayError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { getAbilityLevel, getPitchedRating } from "@/lib/progressUtils";
+import { DEFAULT_YEAR_LEVEL, getStage } from "@/lib/yearLevelUtils";
+import {
+  getOfflineLesson,
+  getQueuedCompletions,
+  removeQueuedCompletion,
+  saveOfflineLesson,
+  saveOfflineProfile,
+  type OfflineSubject,
+  type OfflineTopic,
+} from "@/lib/offlineStore";
+
+/**
+ * Sends missions completed offline to complete-mission once the connection
+ * is back, then refreshes the offline lesson cache for the student's topics
+ * (anything they've trained in or been assigned by a class).
+ */
+export function useOfflineSync(userId: string | null) {
+  const syncingRef = useRef(false);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const sync = async () => {
+      if (syncingRef.current || !navigator.onLine) return;
+      syncingRef.current = true;
+      try {
+        await flushCompletions(userId);
+        await refreshOfflineLessons(userId);
+      } catch (err) {
+        console.error("Offline sync error:", err);
+      } finally {
+        syncingRef.current = false;
+      }
+    };
+
+    sync();
+    window.addEventListener("online", sync);
+    return () => window.removeEventListener("online", sync);
+  }, [userId]);
+}
+
+/** Network, relay and server errors are worth another try; any other rejection is final. */
+const isRetryable = (error: unknown) => {
+  if (error instanceof FunctionsFetchError || error instanceof FunctionsRelayError) return true;
+  if (!(error instanceof FunctionsHttpError)) return false;
+  const status = (error.context as Response | undefined)?.status ?? 500;
+  return status >= 500 || status === 429;
+};
+
+const flushCompletions = async (userId: string) => {
+  const queued = (await getQueuedCompletions()).filter((c) => c.userId === userId);
+
+  for (const completion of queued) {
+    const { data, error } = await supabase.functions.invoke("complete-mission", { body: completion.body });
+
+    // Still offline or the server is struggling — leave the rest queued for the next attempt
+    if (isRetryable(error)) return;
+
+    await removeQueuedCompletion(completion.id!);
+    if (error || !data?.success) {
+      console.error("Queued mission rejected:", error || data);
+      toast.error(`Couldn't sync your ${completion.topicName} mission.`);
+      continue;
+    }
+
+    toast.success(`☁️ Synced ${completion.topicName}: +${data.final_xp} XP`);
+    for (const badge of (data.new_badges || []) as { name: string; emoji: string }[]) {
+      toast.success(`${badge.emoji} Badge Unlocked: ${badge.name}!`);
+    }
+  }
+};
+
+const refreshOfflineLessons = async (userId: string) => {
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("id, total_xp, grade_level, subscription_tier, weekly_xp_earned, weekly_xp_goal, week_start_date, last_mission_date")
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (!profile) return;
+
+  await saveOfflineProfile(userId, {
+    ...profile,
+    total_xp: profile.total_xp || 0,
+    grade_level: profile.grade_level || DEFAULT_YEAR_LEVEL,
+    subscription_tier: profile.subscription_tier || "free",
+    weekly_xp_earned: profile.weekly_xp_earned || 0,
+    weekly_xp_goal: profile.weekly_xp_goal || 500,
+  });
+
+  const [progressRes, assignmentsRes, abilityRes] = await Promise.all([
+    supabase.from("student_progress").select("topic_id").eq("student_id", profile.id),
+    supabase.from("class_assignments").select("topic_id"),
+    supabase.from("topic_ability").select("topic_id, rating, level_shift").eq("profile_id", profile.id),
+  ]);
+
+  const topicIds = [
+    ...new Set([...(progressRes.data || []), ...(assignmentsRes.data || [])].map((r) => r.topic_id)),
+  ];
+  if (topicIds.length === 0) return;
+
+  const ratings = new Map(
+    (abilityRes.data || []).map((a) => [a.topic_id, getPitchedRating(Number(a.rating), a.level_shift)])
+  );
+  const stage = getStage(profile.grade_level);
+
+  const [topicsRes, modulesRes] = await Promise.all([
+    supabase
+      .from("topics")
+      .select("id, name, slug, emoji, description, subject_id, subjects!inner(id, slug, name)")
+      .in("id", topicIds),
+    supabase
+      .from("generated_modules")
+      .select("topic_id, difficulty_level")
+      .eq("stage", stage)
+      .in("topic_id", topicIds),
+  ]);
+
+  for (const topic of topicsRes.data || []) {
+    const level = getAbilityLevel(ratings.get(topic.id)).name;
+    if (!(modulesRes.data || []).some((m) => m.topic_id === topic.id && m.difficulty_level === level)) continue;
+
+    // A cached lesson whose session is still unused covers the topic already
+    const cached = await getOfflineLesson(userId, topic.slug, stage, level);
+    if (cached?.difficultyLevel === level) continue;
+
+    const { subjects, ...topicRow } = topic;
+    // Each saved lesson comes with its own mission session to complete once
+    // it syncs, holding the lesson exactly as saved
+    const { data: served } = await supabase.functions.invoke("generate-lesson", {
+      body: { topicName: topic.name, topicId: topic.id, gradeLevel: profile.grade_level, subjectSlug: subjects.slug, phase: "session" },
+    });
+    if (!served?.content || !served.sessionId) continue;
+
+    await saveOfflineLesson({
+      userId,
+      topicSlug: topic.slug,
+      stage: served.stage,
+      difficultyLevel: served.difficultyLevel,
+      topic: topicRow as OfflineTopic,
+      subject: subjects as OfflineSubject,
+      content: served.content,
+      sessionId: served.sessionId,
+    });
+  }
+};
@@ -0,0 +1,66 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { clearExpiredSessions } from "@/lib/sessionStore";
+
+interface ResumableSessionResult {
+  topicName: string;
+  topicSlug: string;
+  topicEmoji: string;
+  subjectSlug: string;
+  progress: number;
+  earnedXp: number;
+  updatedAt: string;
+}
+
+/**
+ * Finds the training session the student touched most recently on any
+ * device, so the dashboard can offer to pick it back up. Stale sessions are
+ * cleared out on the way.
+ */
+export function useResumableSession(profileId: string | null): ResumableSessionResult | null {
+  const [session, setSession] = useState<ResumableSessionResult | null>(null);
+
+  useEffect(() => {
+    if (profileId) fetchSession();
+  }, [profileId]);
+
+  const fetchSession = async () => {
+    try {
+      await clearExpiredSessions(profileId!);
+
+      const { data } = await supabase
+        .from("training_sessions")
+        .select("progress, earned_xp, updated_at, topics(name, slug, emoji, subjects(slug))")
+        .eq("profile_id", profileId!)
+        .order("updated_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      const topic = data?.topics as {
+        name: string;
+        slug: string;
+        emoji: string | null;
+        subjects: { slug: string } | null;
+      } | null;
+
+      if (!data || !topic?.subjects) {
+        setSession(null);
+        return;
+      }
+
+      setSession({
+        topicName: topic.name,
+        topicSlug: topic.slug,
+        topicEmoji: topic.emoji || "📚",
+        subjectSlug: topic.subjects.slug,
+        progress: data.progress,
+        earnedXp: data.earned_xp,
+        updatedAt: data.updated_at,
+      });
+    } catch (err) {
+      console.error("Error fetching saved session:", err);
+    }
+  };
+
+  return session;
+}
@@ -0,0 +1,74 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { getSydneyToday } from "@/lib/dailyUtils";
+
+// Questions per review session (the edge function accepts up to 10)
+export const REVIEW_SESSION_SIZE = 5;
+
+interface ReviewQueueResult {
+  topicId: string;
+  topicName: string;
+  topicSlug: string;
+  subjectSlug: string;
+  subjectName: string;
+  dueCount: number;
+  totalDue: number;
+}
+
+/**
+ * Finds the topic with the most review items due today, so the dashboard
+ * can offer a short review session for it.
+ */
+export function useReviewQueue(profileId: string | null): ReviewQueueResult | null {
+  const [queue, setQueue] = useState<ReviewQueueResult | null>(null);
+
+  useEffect(() => {
+    if (profileId) fetchQueue();
+  }, [profileId]);
+
+  const fetchQueue = async () => {
+    try {
+      const { data } = await supabase
+        .from("review_items")
+        .select("topic_id, topics(name, slug, subjects(slug, name))")
+        .eq("profile_id", profileId!)
+        .lte("due_date", getSydneyToday());
+
+      if (!data || data.length === 0) {
+        setQueue(null);
+        return;
+      }
+
+      const counts: Record<string, number> = {};
+      data.forEach((item) => {
+        counts[item.topic_id] = (counts[item.topic_id] || 0) + 1;
+      });
+
+      const topicId = Object.keys(counts).reduce((a, b) => (counts[b] > counts[a] ? b : a));
+      const topic = data.find((item) => item.topic_id === topicId)?.topics as {
+        name: string;
+        slug: string;
+        subjects: { slug: string; name: string } | null;
+      } | null;
+
+      if (!topic?.subjects) {
+        setQueue(null);
+        return;
+      }
+
+      setQueue({
+        topicId,
+        topicName: topic.name,
+        topicSlug: topic.slug,
+        subjectSlug: topic.subjects.slug,
+        subjectName: topic.subjects.name,
+        dueCount: Math.min(counts[topicId], REVIEW_SESSION_SIZE),
+        totalDue: data.length,
+      });
+    } catch (err) {
+      console.error("Error fetching review queue:", err);
+    }
+  };
+
+  return queue;
+}
@@ -1,4 +1,5 @@
 import { useMemo } from "react";
+import { getUnmetPrerequisites, type TopicPrerequisite } from "@/lib/skillTreeUtils";
 
 interface TopicProgress {
   topicId: string;
@@ -11,6 +12,7 @@ interface TopicProgress {
 
 interface UseSmartMissionProps {
   topicProgress: TopicProgress[];
+  prerequisites?: TopicPrerequisite[];
 }
 
 interface SmartMissionResult {
@@ -24,9 +26,14 @@ interface SmartMissionResult {
   reasonText: string;
 }
 
-export function useSmartMission({ topicProgress }: UseSmartMissionProps): SmartMissionResult | null {
+export function useSmartMission({ topicProgress: allTopics, prerequisites = [] }: UseSmartMissionProps): SmartMissionResult | null {
   return useMemo(() => {
-    if (topicProgress.length === 0) return null;
+    if (allTopics.length === 0) return null;
+
+    // Only suggest topics whose prerequisites are done, unless everything is locked
+    const xpByTopic = Object.fromEntries(allTopics.map(t => [t.topicId, t.xpEarned]));
+    const unlocked = allTopics.filter(t => getUnmetPrerequisites(t.topicId, prerequisites, xpByTopic).length === 0);
+    const topicProgress = unlocked.length > 0 ? unlocked : allTopics;
 
     // First priority: Find topics close to leveling up (within 100 XP of next level boundary)
     const levelUpCandidates = topicProgress.filter(t => {
@@ -63,5 +70,5 @@ export function useSmartMission({ topicProgress }: UseSmartMissionProps): SmartM
         ? `Start your ${lowestXp.subjectName} journey!` 
         : 'Keep your progress balanced!',
     };
-  }, [topicProgress]);
+  }, [allTopics, prerequisites]);
 }
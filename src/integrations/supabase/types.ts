@@ -73,6 +73,7 @@ export type Database = {
           emoji: string
           id: string
           name: string
+          rule: Json
           threshold: number
         }
         Insert: {
@@ -82,6 +83,7 @@ export type Database = {
           emoji: string
           id?: string
           name: string
+          rule: Json
           threshold: number
         }
         Update: {
@@ -91,6 +93,7 @@ export type Database = {
           emoji?: string
           id?: string
           name?: string
+          rule?: Json
           threshold?: number
         }
         Relationships: []
@@ -101,24 +104,28 @@ export type Database = {
           created_at: string
           id: string
           role: string
+          search: unknown
+          seq: number
           student_id: string
-          topic_id: string
+          topic_id: string | null
         }
         Insert: {
           content: string
           created_at?: string
           id?: string
           role: string
+          seq?: never
           student_id: string
-          topic_id: string
+          topic_id?: string | null
         }
         Update: {
           content?: string
           created_at?: string
           id?: string
           role?: string
+          seq?: never
           student_id?: string
-          topic_id?: string
+          topic_id?: string | null
         }
         Relationships: [
           {
@@ -144,6 +151,165 @@ export type Database = {
           },
         ]
       }
+      class_assignments: {
+        Row: {
+          class_id: string
+          created_at: string
+          due_date: string | null
+          id: string
+          topic_id: string
+        }
+        Insert: {
+          class_id: string
+          created_at?: string
+          due_date?: string | null
+          id?: string
+          topic_id: string
+        }
+        Update: {
+          class_id?: string
+          created_at?: string
+          due_date?: string | null
+          id?: string
+          topic_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "class_assignments_class_id_fkey"
+            columns: ["class_id"]
+            isOneToOne: false
+            referencedRelation: "classes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "class_assignments_topic_id_fkey"
+            columns: ["topic_id"]
+            isOneToOne: false
+            referencedRelation: "topics"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      class_members: {
+        Row: {
+          class_id: string
+          id: string
+          joined_at: string
+          student_id: string
+        }
+        Insert: {
+          class_id: string
+          id?: string
+          joined_at?: string
+          student_id: string
+        }
+        Update: {
+          class_id?: string
+          id?: string
+          joined_at?: string
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "class_members_class_id_fkey"
+            columns: ["class_id"]
+            isOneToOne: false
+            referencedRelation: "classes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "class_members_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "class_members_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      classes: {
+        Row: {
+          created_at: string
+          id: string
+          join_code: string
+          name: string
+          teacher_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          join_code?: string
+          name: string
+          teacher_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          join_code?: string
+          name?: string
+          teacher_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "classes_teacher_id_fkey"
+            columns: ["teacher_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "classes_teacher_id_fkey"
+            columns: ["teacher_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      curriculum_outcomes: {
+        Row: {
+          code: string
+          created_at: string
+          description: string
+          id: string
+          stage: string
+          strand: string
+          subject_id: string
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          description: string
+          id?: string
+          stage: string
+          strand: string
+          subject_id: string
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          description?: string
+          id?: string
+          stage?: string
+          strand?: string
+          subject_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "curriculum_outcomes_subject_id_fkey"
+            columns: ["subject_id"]
+            isOneToOne: false
+            referencedRelation: "subjects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       friendships: {
         Row: {
           addressee_id: string
@@ -203,6 +369,7 @@ export type Database = {
           created_at: string
           difficulty_level: string
           id: string
+          stage: string
           topic_id: string
         }
         Insert: {
@@ -210,6 +377,7 @@ export type Database = {
           created_at?: string
           difficulty_level?: string
           id?: string
+          stage?: string
           topic_id: string
         }
         Update: {
@@ -217,6 +385,7 @@ export type Database = {
           created_at?: string
           difficulty_level?: string
           id?: string
+          stage?: string
           topic_id?: string
         }
         Relationships: [
@@ -229,6 +398,101 @@ export type Database = {
           },
         ]
       }
+      guardian_links: {
+        Row: {
+          created_at: string
+          guardian_id: string
+          id: string
+          student_id: string
+        }
+        Insert: {
+          created_at?: string
+          guardian_id: string
+          id?: string
+          student_id: string
+        }
+        Update: {
+          created_at?: string
+          guardian_id?: string
+          id?: string
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "guardian_links_guardian_id_fkey"
+            columns: ["guardian_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "guardian_links_guardian_id_fkey"
+            columns: ["guardian_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "guardian_links_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "guardian_links_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      handwriting_practice: {
+        Row: {
+          created_at: string
+          focus: string
+          formation_score: number
+          id: string
+          items: Json
+          profile_id: string
+          sizing_score: number
+        }
+        Insert: {
+          created_at?: string
+          focus: string
+          formation_score: number
+          id?: string
+          items?: Json
+          profile_id: string
+          sizing_score: number
+        }
+        Update: {
+          created_at?: string
+          focus?: string
+          formation_score?: number
+          id?: string
+          items?: Json
+          profile_id?: string
+          sizing_score?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "handwriting_practice_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "handwriting_practice_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       handwriting_submissions: {
         Row: {
           composite_score: number | null
@@ -301,6 +565,58 @@ export type Database = {
           },
         ]
       }
+      learning_events: {
+        Row: {
+          created_at: string
+          data: Json
+          event_type: string
+          id: string
+          profile_id: string
+          subject_slug: string | null
+          topic_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          data?: Json
+          event_type: string
+          id?: string
+          profile_id: string
+          subject_slug?: string | null
+          topic_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          data?: Json
+          event_type?: string
+          id?: string
+          profile_id?: string
+          subject_slug?: string | null
+          topic_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "learning_events_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "learning_events_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "learning_events_topic_id_fkey"
+            columns: ["topic_id"]
+            isOneToOne: false
+            referencedRelation: "topics"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       maths_working_submissions: {
         Row: {
           annotations: Json | null
@@ -318,6 +634,7 @@ export type Database = {
           overall_rating: string | null
           profile_id: string
           question: string | null
+          strokes: Json | null
           subject_name: string | null
           topic_name: string | null
           transcribed_working: string | null
@@ -333,123 +650,562 @@ export type Database = {
           created_at?: string
           feedback?: string | null
           id?: string
-          image_path?: string | null
-          input_method?: string | null
-          neat_layout?: number | null
-          overall_rating?: string | null
+          image_path?: string | null
+          input_method?: string | null
+          neat_layout?: number | null
+          overall_rating?: string | null
+          profile_id: string
+          question?: string | null
+          strokes?: Json | null
+          subject_name?: string | null
+          topic_name?: string | null
+          transcribed_working?: string | null
+          worked_solution_type?: string
+        }
+        Update: {
+          annotations?: Json | null
+          bonus_xp_awarded?: number | null
+          clear_working?: number | null
+          composite_score?: number | null
+          correct_answer?: number | null
+          correct_method?: number | null
+          created_at?: string
+          feedback?: string | null
+          id?: string
+          image_path?: string | null
+          input_method?: string | null
+          neat_layout?: number | null
+          overall_rating?: string | null
+          profile_id?: string
+          question?: string | null
+          strokes?: Json | null
+          subject_name?: string | null
+          topic_name?: string | null
+          transcribed_working?: string | null
+          worked_solution_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "maths_working_submissions_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "maths_working_submissions_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      misconception_picks: {
+        Row: {
+          created_at: string
+          id: string
+          misconception: string
+          profile_id: string
+          question: string
+          topic_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          misconception: string
+          profile_id: string
+          question: string
+          topic_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          misconception?: string
+          profile_id?: string
+          question?: string
+          topic_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "misconception_picks_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "misconception_picks_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "misconception_picks_topic_id_fkey"
+            columns: ["topic_id"]
+            isOneToOne: false
+            referencedRelation: "topics"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      mission_sessions: {
+        Row: {
+          completed_at: string | null
+          created_at: string
+          difficulty_level: string
+          expires_at: string
+          id: string
+          lesson: Json | null
+          profile_id: string
+          stage: string
+          topic_id: string
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string
+          difficulty_level: string
+          expires_at?: string
+          id?: string
+          lesson?: Json | null
+          profile_id: string
+          stage: string
+          topic_id: string
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string
+          difficulty_level?: string
+          expires_at?: string
+          id?: string
+          lesson?: Json | null
+          profile_id?: string
+          stage?: string
+          topic_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "mission_sessions_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mission_sessions_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mission_sessions_topic_id_fkey"
+            columns: ["topic_id"]
+            isOneToOne: false
+            referencedRelation: "topics"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      placement_attempts: {
+        Row: {
+          completed_at: string | null
+          created_at: string
+          id: string
+          items: Json
+          pool: Json
+          profile_id: string
+          stage: string
+          status: string
+          subject_id: string
+          target_count: number
+          topic_ratings: Json
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string
+          id?: string
+          items?: Json
+          pool?: Json
+          profile_id: string
+          stage: string
+          status?: string
+          subject_id: string
+          target_count: number
+          topic_ratings?: Json
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string
+          id?: string
+          items?: Json
+          pool?: Json
+          profile_id?: string
+          stage?: string
+          status?: string
+          subject_id?: string
+          target_count?: number
+          topic_ratings?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "placement_attempts_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "placement_attempts_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "placement_attempts_subject_id_fkey"
+            columns: ["subject_id"]
+            isOneToOne: false
+            referencedRelation: "subjects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          account_type: string
+          best_streak: number | null
+          created_at: string
+          current_streak: number | null
+          first_name: string | null
+          grade_level: string | null
+          guardian_code: string | null
+          id: string
+          last_active_date: string | null
+          last_mission_date: string | null
+          last_term_replenish_date: string | null
+          managed_by: string | null
+          onboarding_completed: boolean
+          stripe_customer_id: string | null
+          subscription_tier: string
+          total_xp: number | null
+          updated_at: string
+          user_id: string
+          username: string | null
+          vacation_passes: number | null
+          week_start_date: string | null
+          weekly_xp_earned: number | null
+          weekly_xp_goal: number | null
+        }
+        Insert: {
+          account_type?: string
+          best_streak?: number | null
+          created_at?: string
+          current_streak?: number | null
+          first_name?: string | null
+          grade_level?: string | null
+          guardian_code?: string | null
+          id?: string
+          last_active_date?: string | null
+          last_mission_date?: string | null
+          last_term_replenish_date?: string | null
+          managed_by?: string | null
+          onboarding_completed?: boolean
+          stripe_customer_id?: string | null
+          subscription_tier?: string
+          total_xp?: number | null
+          updated_at?: string
+          user_id: string
+          username?: string | null
+          vacation_passes?: number | null
+          week_start_date?: string | null
+          weekly_xp_earned?: number | null
+          weekly_xp_goal?: number | null
+        }
+        Update: {
+          account_type?: string
+          best_streak?: number | null
+          created_at?: string
+          current_streak?: number | null
+          first_name?: string | null
+          grade_level?: string | null
+          guardian_code?: string | null
+          id?: string
+          last_active_date?: string | null
+          last_mission_date?: string | null
+          last_term_replenish_date?: string | null
+          managed_by?: string | null
+          onboarding_completed?: boolean
+          stripe_customer_id?: string | null
+          subscription_tier?: string
+          total_xp?: number | null
+          updated_at?: string
+          user_id?: string
+          username?: string | null
+          vacation_passes?: number | null
+          week_start_date?: string | null
+          weekly_xp_earned?: number | null
+          weekly_xp_goal?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "profiles_managed_by_fkey"
+            columns: ["managed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      question_attempts: {
+        Row: {
+          attempts: number
+          created_at: string
+          hint_levels: number[]
+          hints_used: number
+          id: string
+          profile_id: string
+          question: string
+          question_type: string
+          topic_id: string
+        }
+        Insert: {
+          attempts: number
+          created_at?: string
+          hint_levels?: number[]
+          hints_used?: number
+          id?: string
+          profile_id: string
+          question: string
+          question_type?: string
+          topic_id: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          hint_levels?: number[]
+          hints_used?: number
+          id?: string
+          profile_id?: string
+          question?: string
+          question_type?: string
+          topic_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "question_attempts_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "question_attempts_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "question_attempts_topic_id_fkey"
+            columns: ["topic_id"]
+            isOneToOne: false
+            referencedRelation: "topics"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      question_bank: {
+        Row: {
+          created_at: string
+          difficulty_level: string
+          id: string
+          outcome_code: string | null
+          question: Json
+          question_text: string
+          question_type: string
+          report_count: number
+          retired_at: string | null
+          section: string
+          stage: string
+          status: string
+          supersedes_id: string | null
+          topic_id: string
+          usage_count: number
+          version: number
+        }
+        Insert: {
+          created_at?: string
+          difficulty_level: string
+          id?: string
+          outcome_code?: string | null
+          question: Json
+          question_text: string
+          question_type?: string
+          report_count?: number
+          retired_at?: string | null
+          section: string
+          stage?: string
+          status?: string
+          supersedes_id?: string | null
+          topic_id: string
+          usage_count?: number
+          version?: number
+        }
+        Update: {
+          created_at?: string
+          difficulty_level?: string
+          id?: string
+          outcome_code?: string | null
+          question?: Json
+          question_text?: string
+          question_type?: string
+          report_count?: number
+          retired_at?: string | null
+          section?: string
+          stage?: string
+          status?: string
+          supersedes_id?: string | null
+          topic_id?: string
+          usage_count?: number
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "question_bank_supersedes_id_fkey"
+            columns: ["supersedes_id"]
+            isOneToOne: false
+            referencedRelation: "question_bank"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "question_bank_topic_id_fkey"
+            columns: ["topic_id"]
+            isOneToOne: false
+            referencedRelation: "topics"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      question_reports: {
+        Row: {
+          created_at: string
+          details: string | null
+          id: string
+          profile_id: string
+          question_id: string
+          reason: string
+        }
+        Insert: {
+          created_at?: string
+          details?: string | null
+          id?: string
           profile_id: string
-          question?: string | null
-          subject_name?: string | null
-          topic_name?: string | null
-          transcribed_working?: string | null
-          worked_solution_type?: string
+          question_id: string
+          reason: string
         }
         Update: {
-          annotations?: Json | null
-          bonus_xp_awarded?: number | null
-          clear_working?: number | null
-          composite_score?: number | null
-          correct_answer?: number | null
-          correct_method?: number | null
           created_at?: string
-          feedback?: string | null
+          details?: string | null
           id?: string
-          image_path?: string | null
-          input_method?: string | null
-          neat_layout?: number | null
-          overall_rating?: string | null
           profile_id?: string
-          question?: string | null
-          subject_name?: string | null
-          topic_name?: string | null
-          transcribed_working?: string | null
-          worked_solution_type?: string
+          question_id?: string
+          reason?: string
         }
         Relationships: [
           {
-            foreignKeyName: "maths_working_submissions_profile_id_fkey"
+            foreignKeyName: "question_reports_profile_id_fkey"
             columns: ["profile_id"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "maths_working_submissions_profile_id_fkey"
+            foreignKeyName: "question_reports_profile_id_fkey"
             columns: ["profile_id"]
             isOneToOne: false
             referencedRelation: "user_profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "question_reports_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "question_bank"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      profiles: {
+      review_items: {
         Row: {
-          best_streak: number | null
           created_at: string
-          current_streak: number | null
-          first_name: string | null
-          grade_level: string | null
+          difficulty_level: string | null
+          due_date: string
+          ease_factor: number
           id: string
-          last_active_date: string | null
-          last_mission_date: string | null
-          last_term_replenish_date: string | null
-          onboarding_completed: boolean
-          stripe_customer_id: string | null
-          subscription_tier: string
-          total_xp: number | null
-          updated_at: string
-          user_id: string
-          username: string | null
-          vacation_passes: number | null
-          week_start_date: string | null
-          weekly_xp_earned: number | null
-          weekly_xp_goal: number | null
+          interval_days: number
+          lapses: number
+          last_reviewed_at: string | null
+          profile_id: string
+          question: Json
+          question_text: string
+          repetitions: number
+          topic_id: string
         }
         Insert: {
-          best_streak?: number | null
           created_at?: string
-          current_streak?: number | null
-          first_name?: string | null
-          grade_level?: string | null
+          difficulty_level?: string | null
+          due_date?: string
+          ease_factor?: number
           id?: string
-          last_active_date?: string | null
-          last_mission_date?: string | null
-          last_term_replenish_date?: string | null
-          onboarding_completed?: boolean
-          stripe_customer_id?: string | null
-          subscription_tier?: string
-          total_xp?: number | null
-          updated_at?: string
-          user_id: string
-          username?: string | null
-          vacation_passes?: number | null
-          week_start_date?: string | null
-          weekly_xp_earned?: number | null
-          weekly_xp_goal?: number | null
+          interval_days?: number
+          lapses?: number
+          last_reviewed_at?: string | null
+          profile_id: string
+          question: Json
+          question_text: string
+          repetitions?: number
+          topic_id: string
         }
         Update: {
-          best_streak?: number | null
           created_at?: string
-          current_streak?: number | null
-          first_name?: string | null
-          grade_level?: string | null
+          difficulty_level?: string | null
+          due_date?: string
+          ease_factor?: number
           id?: string
-          last_active_date?: string | null
-          last_mission_date?: string | null
-          last_term_replenish_date?: string | null
-          onboarding_completed?: boolean
-          stripe_customer_id?: string | null
-          subscription_tier?: string
-          total_xp?: number | null
-          updated_at?: string
-          user_id?: string
-          username?: string | null
-          vacation_passes?: number | null
-          week_start_date?: string | null
-          weekly_xp_earned?: number | null
-          weekly_xp_goal?: number | null
+          interval_days?: number
+          lapses?: number
+          last_reviewed_at?: string | null
+          profile_id?: string
+          question?: Json
+          question_text?: string
+          repetitions?: number
+          topic_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "review_items_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "review_items_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "review_items_topic_id_fkey"
+            columns: ["topic_id"]
+            isOneToOne: false
+            referencedRelation: "topics"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       student_progress: {
         Row: {
@@ -548,6 +1304,7 @@ export type Database = {
           content_overall_rating: string | null
           content_score: number | null
           created_at: string
+          genre: string | null
           id: string
           image_path: string | null
           improvements: Json | null
@@ -557,6 +1314,10 @@ export type Database = {
           presentation_comment: string | null
           profile_id: string
           question: string | null
+          revised_at: string | null
+          revision_bonus_xp: number
+          revisions: Json
+          rubric: Json | null
           spacing_sizing: number | null
           spacing_sizing_comment: string | null
           strengths: Json | null
@@ -564,6 +1325,7 @@ export type Database = {
           subject_name: string | null
           submission_type: string
           topic_name: string | null
+          word_count: number | null
         }
         Insert: {
           annotations?: Json | null
@@ -573,6 +1335,7 @@ export type Database = {
           content_overall_rating?: string | null
           content_score?: number | null
           created_at?: string
+          genre?: string | null
           id?: string
           image_path?: string | null
           improvements?: Json | null
@@ -582,6 +1345,10 @@ export type Database = {
           presentation_comment?: string | null
           profile_id: string
           question?: string | null
+          revised_at?: string | null
+          revision_bonus_xp?: number
+          revisions?: Json
+          rubric?: Json | null
           spacing_sizing?: number | null
           spacing_sizing_comment?: string | null
           strengths?: Json | null
@@ -589,6 +1356,7 @@ export type Database = {
           subject_name?: string | null
           submission_type?: string
           topic_name?: string | null
+          word_count?: number | null
         }
         Update: {
           annotations?: Json | null
@@ -598,6 +1366,7 @@ export type Database = {
           content_overall_rating?: string | null
           content_score?: number | null
           created_at?: string
+          genre?: string | null
           id?: string
           image_path?: string | null
           improvements?: Json | null
@@ -607,6 +1376,10 @@ export type Database = {
           presentation_comment?: string | null
           profile_id?: string
           question?: string | null
+          revised_at?: string | null
+          revision_bonus_xp?: number
+          revisions?: Json
+          rubric?: Json | null
           spacing_sizing?: number | null
           spacing_sizing_comment?: string | null
           strengths?: Json | null
@@ -614,6 +1387,7 @@ export type Database = {
           subject_name?: string | null
           submission_type?: string
           topic_name?: string | null
+          word_count?: number | null
         }
         Relationships: [
           {
@@ -632,6 +1406,121 @@ export type Database = {
           },
         ]
       }
+      topic_ability: {
+        Row: {
+          id: string
+          level_shift: number
+          profile_id: string
+          rated_questions: number
+          rating: number
+          topic_id: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          level_shift?: number
+          profile_id: string
+          rated_questions?: number
+          rating?: number
+          topic_id: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          level_shift?: number
+          profile_id?: string
+          rated_questions?: number
+          rating?: number
+          topic_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "topic_ability_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "topic_ability_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "topic_ability_topic_id_fkey"
+            columns: ["topic_id"]
+            isOneToOne: false
+            referencedRelation: "topics"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      topic_outcomes: {
+        Row: {
+          outcome_id: string
+          topic_id: string
+        }
+        Insert: {
+          outcome_id: string
+          topic_id: string
+        }
+        Update: {
+          outcome_id?: string
+          topic_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "topic_outcomes_outcome_id_fkey"
+            columns: ["outcome_id"]
+            isOneToOne: false
+            referencedRelation: "curriculum_outcomes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "topic_outcomes_topic_id_fkey"
+            columns: ["topic_id"]
+            isOneToOne: false
+            referencedRelation: "topics"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      topic_prerequisites: {
+        Row: {
+          created_at: string
+          prerequisite_id: string
+          topic_id: string
+        }
+        Insert: {
+          created_at?: string
+          prerequisite_id: string
+          topic_id: string
+        }
+        Update: {
+          created_at?: string
+          prerequisite_id?: string
+          topic_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "topic_prerequisites_prerequisite_id_fkey"
+            columns: ["prerequisite_id"]
+            isOneToOne: false
+            referencedRelation: "topics"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "topic_prerequisites_topic_id_fkey"
+            columns: ["topic_id"]
+            isOneToOne: false
+            referencedRelation: "topics"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       topics: {
         Row: {
           created_at: string
@@ -673,6 +1562,67 @@ export type Database = {
           },
         ]
       }
+      training_sessions: {
+        Row: {
+          created_at: string
+          draft_paths: string[]
+          earned_xp: number
+          expires_at: string
+          id: string
+          profile_id: string
+          progress: number
+          state: Json
+          topic_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          draft_paths?: string[]
+          earned_xp?: number
+          expires_at?: string
+          id?: string
+          profile_id: string
+          progress?: number
+          state: Json
+          topic_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          draft_paths?: string[]
+          earned_xp?: number
+          expires_at?: string
+          id?: string
+          profile_id?: string
+          progress?: number
+          state?: Json
+          topic_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "training_sessions_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "training_sessions_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "training_sessions_topic_id_fkey"
+            columns: ["topic_id"]
+            isOneToOne: false
+            referencedRelation: "topics"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_badges: {
         Row: {
           badge_id: string
@@ -765,10 +1715,12 @@ export type Database = {
     Views: {
       user_profiles: {
         Row: {
+          account_type: string | null
           created_at: string | null
           current_streak: number | null
           first_name: string | null
           grade_level: string | null
+          guardian_code: string | null
           id: string | null
           last_active_date: string | null
           last_mission_date: string | null
@@ -785,10 +1737,12 @@ export type Database = {
           weekly_xp_goal: number | null
         }
         Insert: {
+          account_type?: string | null
           created_at?: string | null
           current_streak?: number | null
           first_name?: string | null
           grade_level?: string | null
+          guardian_code?: string | null
           id?: string | null
           last_active_date?: string | null
           last_mission_date?: string | null
@@ -805,10 +1759,12 @@ export type Database = {
           weekly_xp_goal?: number | null
         }
         Update: {
+          account_type?: string | null
           created_at?: string | null
           current_streak?: number | null
           first_name?: string | null
           grade_level?: string | null
+          guardian_code?: string | null
           id?: string | null
           last_active_date?: string | null
           last_mission_date?: string | null
@@ -828,7 +1784,68 @@ export type Database = {
       }
     }
     Functions: {
+      award_badges: { Args: { _profile_id: string }; Returns: Json }
+      badge_rule_met: {
+        Args: { _profile_id: string; _rule: Json }
+        Returns: boolean
+      }
+      complete_mission: {
+        Args: {
+          _base_xp: number
+          _event_data: Json
+          _event_type: string
+          _final_xp: number
+          _outcome_levels: string[]
+          _outcomes: number[]
+          _profile_id: string
+          _reviews: Json
+          _session_id: string
+          _subject_name: string
+          _subject_slug: string
+          _topic_id: string
+          _topic_name: string
+        }
+        Returns: Json
+      }
+      complete_placement: { Args: { _attempt_id: string }; Returns: undefined }
+      get_my_children: {
+        Args: never
+        Returns: {
+          current_streak: number
+          first_name: string
+          grade_level: string
+          id: string
+          managed: boolean
+          total_xp: number
+          weekly_xp_earned: number
+          weekly_xp_goal: number
+        }[]
+      }
       get_my_profile_id: { Args: never; Returns: string }
+      get_student_profiles: {
+        Args: { _student_ids: string[] }
+        Returns: {
+          first_name: string
+          grade_level: string
+          id: string
+          total_xp: number
+        }[]
+      }
+      increment_question_usage: {
+        Args: { _question_ids: string[] }
+        Returns: undefined
+      }
+      is_class_member: { Args: { _class_id: string }; Returns: boolean }
+      is_class_teacher: { Args: { _class_id: string }; Returns: boolean }
+      is_guardian_of: { Args: { _student_id: string }; Returns: boolean }
+      is_teacher_of: { Args: { _student_id: string }; Returns: boolean }
+      join_class_by_code: { Args: { _code: string }; Returns: string }
+      link_child_by_code: { Args: { _code: string }; Returns: string }
+      reset_my_progress: { Args: never; Returns: undefined }
+      revise_bank_question: {
+        Args: { _question: Json; _question_id: string }
+        Returns: string
+      }
       search_users_by_username: {
         Args: { search_query: string }
         Returns: {
@@ -836,6 +1853,10 @@ export type Database = {
           username: string
         }[]
       }
+      shift_topic_level: {
+        Args: { _direction: number; _topic_id: string }
+        Returns: number
+      }
     }
     Enums: {
       [_ in never]: never
@@ -1,8 +1,9 @@
 import { getMasteryLevel, type MasteryLevel } from "@/lib/progressUtils";
+import { getStage, type Stage } from "@/lib/yearLevelUtils";
 
 /**
  * Dojo Belt levels based on TOTAL XP across all subjects.
- * Thresholds scaled by ~10 core topics.
+ * Thresholds scaled by ~10 core topics (Stage 3 baseline).
  */
 export const DOJO_BELT_LEVELS: MasteryLevel[] = [
   { name: "White Belt", color: "muted", colorClass: "bg-muted text-muted-foreground", minXp: 0, maxXp: 499, emoji: "🥋" },
@@ -15,22 +16,41 @@ export const DOJO_BELT_LEVELS: MasteryLevel[] = [
   { name: "Black Belt", color: "black", colorClass: "bg-gray-900 text-white", minXp: 15000, maxXp: Infinity, emoji: "🥷" },
 ];
 
-export function getDojoBelt(totalXp: number): MasteryLevel {
-  for (let i = DOJO_BELT_LEVELS.length - 1; i >= 0; i--) {
-    if (totalXp >= DOJO_BELT_LEVELS[i].minXp) return DOJO_BELT_LEVELS[i];
+/**
+ * Belt thresholds scale by stage: younger students train in shorter sessions,
+ * Stage 4 students earn more XP per mission.
+ */
+const STAGE_BELT_SCALE: Record<Stage, number> = {
+  "Stage 2": 0.7,
+  "Stage 3": 1,
+  "Stage 4": 1.3,
+};
+
+export function getDojoBeltLevels(gradeLevel?: string | null): MasteryLevel[] {
+  const scale = STAGE_BELT_SCALE[getStage(gradeLevel)];
+  if (scale === 1) return DOJO_BELT_LEVELS;
+  const scaled = DOJO_BELT_LEVELS.map(level => ({ ...level, minXp: Math.round((level.minXp * scale) / 50) * 50 }));
+  return scaled.map((level, i) => ({ ...level, maxXp: i < scaled.length - 1 ? scaled[i + 1].minXp - 1 : Infinity }));
+}
+
+export function getDojoBelt(totalXp: number, gradeLevel?: string | null): MasteryLevel {
+  const levels = getDojoBeltLevels(gradeLevel);
+  for (let i = levels.length - 1; i >= 0; i--) {
+    if (totalXp >= levels[i].minXp) return levels[i];
   }
-  return DOJO_BELT_LEVELS[0];
+  return levels[0];
 }
 
-export function getNextDojoBelt(totalXp: number): MasteryLevel | null {
-  const current = getDojoBelt(totalXp);
-  const idx = DOJO_BELT_LEVELS.findIndex(l => l.name === current.name);
-  return idx < DOJO_BELT_LEVELS.length - 1 ? DOJO_BELT_LEVELS[idx + 1] : null;
+export function getNextDojoBelt(totalXp: number, gradeLevel?: string | null): MasteryLevel | null {
+  const levels = getDojoBeltLevels(gradeLevel);
+  const current = getDojoBelt(totalXp, gradeLevel);
+  const idx = levels.findIndex(l => l.name === current.name);
+  return idx < levels.length - 1 ? levels[idx + 1] : null;
 }
 
-export function getDojoProgress(totalXp: number): number {
-  const current = getDojoBelt(totalXp);
-  const next = getNextDojoBelt(totalXp);
+export function getDojoProgress(totalXp: number, gradeLevel?: string | null): number {
+  const current = getDojoBelt(totalXp, gradeLevel);
+  const next = getNextDojoBelt(totalXp, gradeLevel);
   if (!next) return 100;
   const xpInLevel = totalXp - current.minXp;
   const xpNeeded = next.minXp - current.minXp;
@@ -0,0 +1,127 @@
+// Mirri conversations, saved per student and topic so a thread carries on when
+// the student comes back to the topic. Homework help has no topic and is kept
+// as its own thread. Long threads are sent to chat-tutor as the most recent
+// messages plus a compact summary of what came before.
+
+import { supabase } from "@/integrations/supabase/client";
+
+export interface ChatMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+export interface SavedChatMessage extends ChatMessage {
+  id: string;
+  topic_id: string | null;
+  created_at: string;
+  // Insert order; a question and its reply share created_at
+  seq: number;
+  topics: { name: string; emoji: string | null } | null;
+}
+
+// Messages reloaded into a thread
+const HISTORY_LIMIT = 100;
+// Messages sent to chat-tutor word for word; chat-tutor accepts at most 50
+export const RECENT_MESSAGES = 20;
+// Earlier questions listed in the summary, and how much of each is kept
+const SUMMARY_QUESTIONS = 12;
+const SUMMARY_QUESTION_LENGTH = 120;
+
+// ── Threads ─────────────────────────────────────────────────────
+
+export const loadChatHistory = async (profileId: string, topicId: string | null): Promise<ChatMessage[]> => {
+  let query = supabase
+    .from("chat_messages")
+    .select("role, content")
+    .eq("student_id", profileId)
+    .order("seq", { ascending: false })
+    .limit(HISTORY_LIMIT);
+  query = topicId ? query.eq("topic_id", topicId) : query.is("topic_id", null);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []).reverse() as ChatMessage[];
+};
+
+/**
+ * A loaded thread followed by the messages sent while it was loading. Any of
+ * those already saved by the time the thread loaded aren't repeated.
+ */
+export function mergeChatHistory(history: ChatMessage[], sent: ChatMessage[]): ChatMessage[] {
+  const isSame = (a: ChatMessage, b: ChatMessage) => a.role === b.role && a.content === b.content;
+  let overlap = Math.min(history.length, sent.length);
+  while (overlap > 0 && !sent.slice(0, overlap).every((message, i) => isSame(message, history[history.length - overlap + i]))) {
+    overlap--;
+  }
+  return [...history, ...sent.slice(overlap)];
+}
+
+export const saveChatMessages = async (profileId: string, topicId: string | null, messages: ChatMessage[]) => {
+  const rows = messages
+    .filter((message) => message.content.trim())
+    .map((message) => ({ student_id: profileId, topic_id: topicId, role: message.role, content: message.content }));
+  if (rows.length === 0) return;
+  const { error } = await supabase.from("chat_messages").insert(rows);
+  if (error) throw error;
+};
+
+// ── Search ──────────────────────────────────────────────────────
+
+/** The student's own questions, newest first, optionally matching a search. */
+export const searchChatQuestions = async (profileId: string, search: string, limit = 50): Promise<SavedChatMessage[]> => {
+  let query = supabase
+    .from("chat_messages")
+    .select("id, role, content, topic_id, created_at, seq, topics(name, emoji)")
+    .eq("student_id", profileId)
+    .eq("role", "user")
+    .order("seq", { ascending: false })
+    .limit(limit);
+  if (search.trim()) query = query.textSearch("search", search.trim(), { type: "websearch", config: "english" });
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []) as SavedChatMessage[];
+};
+
+/** Mirri's reply to a saved question: the next assistant message in the same thread. */
+export const loadReply = async (profileId: string, question: SavedChatMessage): Promise<string | null> => {
+  let query = supabase
+    .from("chat_messages")
+    .select("content")
+    .eq("student_id", profileId)
+    .eq("role", "assistant")
+    .gt("seq", question.seq)
+    .order("seq", { ascending: true })
+    .limit(1);
+  query = question.topic_id ? query.eq("topic_id", question.topic_id) : query.is("topic_id", null);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data?.[0]?.content ?? null;
+};
+
+// ── Context for chat-tutor ──────────────────────────────────────
+
+/**
+ * Splits a thread into the recent messages chat-tutor sees in full and a
+ * short summary of the student's earlier questions.
+ */
+export function buildChatContext(messages: ChatMessage[]): { messages: ChatMessage[]; historySummary?: string } {
+  if (messages.length <= RECENT_MESSAGES) return { messages };
+
+  const earlier = messages.slice(0, -RECENT_MESSAGES);
+  const questions = earlier
+    .filter((message) => message.role === "user")
+    .slice(-SUMMARY_QUESTIONS)
+    .map((message) => {
+      const text = message.content.replace(/\s+/g, " ").trim();
+      return `- ${text.length > SUMMARY_QUESTION_LENGTH ? `${text.slice(0, SUMMARY_QUESTION_LENGTH)}…` : text}`;
+    });
+
+  return {
+    messages: messages.slice(-RECENT_MESSAGES),
+    historySummary: questions.length > 0
+      ? `Earlier in this conversation (${earlier.length} messages) the student asked:\n${questions.join("\n")}`
+      : undefined,
+  };
+}
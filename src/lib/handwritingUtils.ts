@@ -0,0 +1,450 @@
+/**
+ * Handwriting practice utilities: NSW Foundation Style letter models,
+ * tracing templates, stroke checking and drills
+ */
+
+import type { Stroke } from "@/lib/strokeUtils";
+
+// ── Letter models ────────────────────────────────────────────────────
+// Letters are drawn in units of body height: the head line is at y = 0,
+// the body (waist) line at 1, the baseline at 2 and the tail line at 3.
+// Each stroke lists its points in the order the pen should travel.
+
+type Point = [number, number];
+
+interface LetterModel {
+  width: number;
+  strokes: Point[][];
+  // Dots on i and j are a tap, which the canvas doesn't keep as a stroke
+  dots?: Point[];
+}
+
+const LETTER_GAP = 0.35;
+const SPACE_WIDTH = 0.6;
+
+// Points round an ellipse. Angles are in degrees on screen, so increasing
+// angles travel clockwise and decreasing ones anticlockwise.
+function arc(cx: number, cy: number, rx: number, ry: number, from: number, to: number): Point[] {
+  const steps = Math.max(4, Math.ceil(Math.abs(to - from) / 15));
+  return Array.from({ length: steps + 1 }, (_, i) => {
+    const angle = ((from + ((to - from) * i) / steps) * Math.PI) / 180;
+    return [cx + rx * Math.cos(angle), cy + ry * Math.sin(angle)] as Point;
+  });
+}
+
+// The anticlockwise body shared by a, d, g and q, starting at the top right
+const OVAL = arc(0.35, 1.5, 0.35, 0.5, -30, -390);
+// Down from the body line, then the tunnel over to the right
+const tunnel = (x: number, width: number): Point[] => [...arc(x + width / 2, 1.4, width / 2, 0.35, 180, 360), [x + width, 2]];
+// The clockwise bowl of b and p, from the stem round to the baseline
+const BOWL = arc(0.35, 1.5, 0.35, 0.5, 180, 480);
+// The tail hook on g, j and y, curling left under the baseline
+const hook = (x: number): Point[] => [[x, 1], ...arc(x - 0.3, 2.7, 0.3, 0.3, 0, 160)];
+
+const LETTERS: Record<string, LetterModel> = {
+  a: { width: 0.7, strokes: [OVAL, [[0.7, 1], [0.7, 2]]] },
+  b: { width: 0.7, strokes: [[[0, 0], [0, 2], ...BOWL]] },
+  c: { width: 0.65, strokes: [arc(0.35, 1.5, 0.35, 0.5, -45, -315)] },
+  d: { width: 0.7, strokes: [OVAL, [[0.7, 0], [0.7, 2]]] },
+  e: { width: 0.7, strokes: [[[0.02, 1.5], ...arc(0.35, 1.5, 0.35, 0.5, 0, -315)]] },
+  f: { width: 0.6, strokes: [[...arc(0.45, 0.35, 0.25, 0.3, -20, -180), [0.2, 2]], [[0, 1], [0.55, 1]]] },
+  g: { width: 0.7, strokes: [OVAL, hook(0.7)] },
+  h: { width: 0.7, strokes: [[[0, 0], [0, 2], ...tunnel(0, 0.7)]] },
+  i: { width: 0.2, strokes: [[[0.1, 1], [0.1, 2]]], dots: [[0.1, 0.55]] },
+  j: { width: 0.45, strokes: [hook(0.4)], dots: [[0.4, 0.55]] },
+  k: { width: 0.65, strokes: [[[0, 0], [0, 2]], [[0.6, 1.1], [0, 1.55], [0.65, 2]]] },
+  l: { width: 0.2, strokes: [[[0.1, 0], [0.1, 2]]] },
+  m: { width: 1, strokes: [[[0, 1], [0, 2], ...tunnel(0, 0.5), ...tunnel(0.5, 0.5)]] },
+  n: { width: 0.7, strokes: [[[0, 1], [0, 2], ...tunnel(0, 0.7)]] },
+  o: { width: 0.7, strokes: [arc(0.35, 1.5, 0.35, 0.5, -60, -420)] },
+  p: { width: 0.7, strokes: [[[0, 1], [0, 3], ...BOWL]] },
+  q: { width: 0.7, strokes: [OVAL, [[0.7, 1], [0.7, 3]]] },
+  r: { width: 0.6, strokes: [[[0, 1], [0, 2], ...arc(0.35, 1.4, 0.35, 0.35, 180, 300)]] },
+  s: {
+    width: 0.6,
+    strokes: [[...arc(0.33, 1.27, 0.25, 0.25, -30, -270), ...arc(0.33, 1.76, 0.27, 0.24, -90, 150)]],
+  },
+  t: { width: 0.55, strokes: [[[0.25, 0.4], [0.25, 2]], [[0, 1], [0.55, 1]]] },
+  u: { width: 0.7, strokes: [[[0, 1], ...arc(0.35, 1.6, 0.35, 0.4, 180, 0), [0.7, 1], [0.7, 2]]] },
+  v: { width: 0.7, strokes: [[[0, 1], [0.35, 2], [0.7, 1]]] },
+  w: { width: 1, strokes: [[[0, 1], [0.25, 2], [0.5, 1.2], [0.75, 2], [1, 1]]] },
+  x: { width: 0.65, strokes: [[[0, 1], [0.65, 2]], [[0.65, 1], [0, 2]]] },
+  y: { width: 0.7, strokes: [[[0, 1], ...arc(0.35, 1.6, 0.35, 0.4, 180, 0), ...hook(0.7)]] },
+  z: { width: 0.7, strokes: [[[0, 1], [0.65, 1], [0, 2], [0.7, 2]]] },
+};
+
+/** Keeps only the letters the templates know, lowercased. */
+export function normaliseTemplateText(text: string): string {
+  return text.toLowerCase().replace(/[^a-z ]/g, "").replace(/\s+/g, " ").trim();
+}
+
+// ── Layout ───────────────────────────────────────────────────────────
+
+export interface TemplateLetter {
+  char: string;
+  strokes: Point[][];
+  dots: Point[];
+  // The letter's box in canvas pixels, for matching drawn strokes to it
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+}
+
+export interface TemplateLayout {
+  unit: number;
+  headY: number;
+  waistY: number;
+  baseY: number;
+  tailY: number;
+  letters: TemplateLetter[];
+}
+
+/** Fits the text across the middle of a canvas, scaled to its smaller side. */
+export function layoutTemplate(text: string, width: number, height: number): TemplateLayout {
+  const chars = normaliseTemplateText(text).split("");
+  const advance = chars.reduce(
+    (total, char, i) => total + (LETTERS[char]?.width ?? SPACE_WIDTH) + (i > 0 ? LETTER_GAP : 0),
+    0
+  );
+  const unit = Math.min(height / 3.6, (width * 0.9) / Math.max(advance, 1));
+  const left = (width - advance * unit) / 2;
+  const headY = (height - 3 * unit) / 2;
+  const toCanvas = (offset: number) => ([x, y]: Point): Point => [left + (offset + x) * unit, headY + y * unit];
+
+  const letters: TemplateLetter[] = [];
+  let cursor = 0;
+  for (const char of chars) {
+    const model = LETTERS[char];
+    if (model) {
+      const place = toCanvas(cursor);
+      const strokes = model.strokes.map((stroke) => stroke.map(place));
+      const ys = strokes.flat().map(([, y]) => y);
+      letters.push({
+        char,
+        strokes,
+        dots: (model.dots || []).map(place),
+        left: place([0, 0])[0],
+        right: place([model.width, 0])[0],
+        top: Math.min(...ys),
+        bottom: Math.max(...ys),
+      });
+    }
+    cursor += (model?.width ?? SPACE_WIDTH) + LETTER_GAP;
+  }
+
+  return { unit, headY, waistY: headY + unit, baseY: headY + 2 * unit, tailY: headY + 3 * unit, letters };
+}
+
+/**
+ * Paints the dotted writing lines and faint letters to trace, each stroke
+ * with a green start dot and an arrow showing which way to go.
+ */
+export function drawTracingTemplate(ctx: CanvasRenderingContext2D, layout: TemplateLayout, width: number) {
+  const { unit } = layout;
+  ctx.save();
+  ctx.lineCap = "round";
+  ctx.lineJoin = "round";
+
+  const rule = (y: number, color: string, dash: number[]) => {
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 1;
+    ctx.setLineDash(dash);
+    ctx.beginPath();
+    ctx.moveTo(0, y);
+    ctx.lineTo(width, y);
+    ctx.stroke();
+  };
+  rule(layout.headY, "#c7d7ea", [6, 6]);
+  rule(layout.waistY, "#9fb3cc", [6, 6]);
+  rule(layout.baseY, "#1e3a5f", []);
+  rule(layout.tailY, "#c7d7ea", [6, 6]);
+  ctx.setLineDash([]);
+
+  ctx.strokeStyle = "#e4e4e7";
+  ctx.fillStyle = "#e4e4e7";
+  ctx.lineWidth = Math.max(6, unit * 0.14);
+  for (const letter of layout.letters) {
+    for (const stroke of letter.strokes) {
+      ctx.beginPath();
+      ctx.moveTo(stroke[0][0], stroke[0][1]);
+      for (const [x, y] of stroke.slice(1)) ctx.lineTo(x, y);
+      ctx.stroke();
+    }
+    for (const [x, y] of letter.dots) {
+      ctx.beginPath();
+      ctx.arc(x, y, ctx.lineWidth * 0.6, 0, Math.PI * 2);
+      ctx.fill();
+    }
+  }
+
+  const marker = Math.max(3, unit * 0.07);
+  for (const letter of layout.letters) {
+    letter.strokes.forEach((stroke, i) => {
+      // Arrow partway along, pointing the way the pen travels
+      const points = resample(stroke, 12);
+      const [ax, ay] = points[4];
+      const [bx, by] = points[5];
+      const angle = Math.atan2(by - ay, bx - ax);
+      ctx.fillStyle = "#94a3b8";
+      ctx.beginPath();
+      ctx.moveTo(bx + Math.cos(angle) * marker * 1.5, by + Math.sin(angle) * marker * 1.5);
+      ctx.lineTo(bx + Math.cos(angle + 2.4) * marker * 1.5, by + Math.sin(angle + 2.4) * marker * 1.5);
+      ctx.lineTo(bx + Math.cos(angle - 2.4) * marker * 1.5, by + Math.sin(angle - 2.4) * marker * 1.5);
+      ctx.fill();
+
+      const [sx, sy] = stroke[0];
+      ctx.fillStyle = "#16a34a";
+      ctx.beginPath();
+      ctx.arc(sx, sy, marker, 0, Math.PI * 2);
+      ctx.fill();
+      if (letter.strokes.length > 1) {
+        ctx.font = `bold ${Math.round(marker * 2.2)}px sans-serif`;
+        ctx.textAlign = "center";
+        ctx.textBaseline = "bottom";
+        ctx.fillText(String(i + 1), sx, sy - marker * 1.2);
+      }
+    });
+  }
+  ctx.restore();
+}
+
+// ── Checking ─────────────────────────────────────────────────────────
+
+export type LetterStatus = "good" | "missing" | "stroke_count" | "wrong_direction" | "wrong_start" | "off_template";
+
+export interface LetterResult {
+  char: string;
+  status: LetterStatus;
+}
+
+export interface TracingResult {
+  letters: LetterResult[];
+  // Both 1-5, like the scores assess-handwriting gives
+  formation: number;
+  sizing: number;
+}
+
+export const LETTER_STATUS_LABELS: Record<LetterStatus, string> = {
+  good: "Nicely formed",
+  missing: "Not traced yet",
+  stroke_count: "Check how many strokes it takes",
+  wrong_direction: "Follow the arrows",
+  wrong_start: "Start at the green dot",
+  off_template: "Stay on the grey letter",
+};
+
+const RESAMPLE_POINTS = 16;
+// Distances below are in units of body height
+const DOT_LENGTH = 0.2;
+const START_TOLERANCE = 0.5;
+const OFF_TEMPLATE_DISTANCE = 0.6;
+const SIZE_TOLERANCE = 0.3;
+
+const distance = ([ax, ay]: Point, [bx, by]: Point) => Math.hypot(bx - ax, by - ay);
+
+function pathLength(points: Point[]): number {
+  let total = 0;
+  for (let i = 1; i < points.length; i++) total += distance(points[i - 1], points[i]);
+  return total;
+}
+
+/** Evenly spaced points along a path, so paths drawn at any speed compare. */
+function resample(points: Point[], count: number): Point[] {
+  const total = pathLength(points);
+  if (points.length < 2 || total === 0) return Array.from({ length: count }, () => points[0]);
+  const result: Point[] = [points[0]];
+  const step = total / (count - 1);
+  let travelled = 0;
+  let target = step;
+  for (let i = 1; i < points.length && result.length < count; i++) {
+    const segment = distance(points[i - 1], points[i]);
+    while (segment > 0 && travelled + segment >= target && result.length < count) {
+      const along = (target - travelled) / segment;
+      result.push([
+        points[i - 1][0] + (points[i][0] - points[i - 1][0]) * along,
+        points[i - 1][1] + (points[i][1] - points[i - 1][1]) * along,
+      ]);
+      target += step;
+    }
+    travelled += segment;
+  }
+  while (result.length < count) result.push(points[points.length - 1]);
+  return result;
+}
+
+const meanDistance = (a: Point[], b: Point[]) => a.reduce((total, point, i) => total + distance(point, b[i]), 0) / a.length;
+
+/**
+ * Compares one traced stroke with the stroke it should match. A path that
+ * sits much closer to the model when reversed was drawn the wrong way round.
+ */
+function checkStroke(model: Point[], drawn: Point[], unit: number): LetterStatus {
+  const expected = resample(model, RESAMPLE_POINTS);
+  const traced = resample(drawn, RESAMPLE_POINTS);
+  const forward = meanDistance(expected, traced) / unit;
+  const reversed = meanDistance(expected, [...traced].reverse()) / unit;
+  if (Math.min(forward, reversed) > OFF_TEMPLATE_DISTANCE) return "off_template";
+  if (reversed < forward * 0.75) return "wrong_direction";
+  if (distance(expected[0], traced[0]) / unit > START_TOLERANCE) return "wrong_start";
+  return "good";
+}
+
+/**
+ * Matches the pen strokes on the canvas to the template's letters by
+ * position, then checks each letter's stroke count, start points and
+ * directions, and how much of the writing sits within the right lines.
+ */
+export function checkTracing(layout: TemplateLayout, strokes: Stroke[]): TracingResult {
+  const { unit, letters } = layout;
+  const assigned: Point[][][] = letters.map(() => []);
+  let inBand = 0;
+  let counted = 0;
+
+  for (const stroke of strokes) {
+    if (stroke.tool !== "pen") continue;
+    const points = stroke.points.map(([x, y]) => [x, y] as Point);
+    // Dots aren't part of the stroke check
+    if (pathLength(points) < unit * DOT_LENGTH) continue;
+    const centre = points.reduce((total, [x]) => total + x, 0) / points.length;
+    let nearest = -1;
+    let nearestGap = Infinity;
+    letters.forEach((letter, i) => {
+      const gap = centre < letter.left ? letter.left - centre : centre > letter.right ? centre - letter.right : 0;
+      if (gap < nearestGap) {
+        nearest = i;
+        nearestGap = gap;
+      }
+    });
+    if (nearest === -1 || nearestGap > unit) continue;
+    assigned[nearest].push(points);
+
+    const letter = letters[nearest];
+    const tolerance = unit * SIZE_TOLERANCE;
+    for (const [, y] of points) {
+      if (y >= letter.top - tolerance && y <= letter.bottom + tolerance) inBand++;
+      counted++;
+    }
+  }
+
+  const results = letters.map((letter, i): LetterResult => {
+    const drawn = assigned[i];
+    if (drawn.length === 0) return { char: letter.char, status: "missing" };
+    if (drawn.length !== letter.strokes.length) return { char: letter.char, status: "stroke_count" };
+    const statuses = letter.strokes.map((model, j) => checkStroke(model, drawn[j], unit));
+    const status = (["wrong_direction", "wrong_start", "off_template"] as LetterStatus[]).find((s) => statuses.includes(s));
+    return { char: letter.char, status: status || "good" };
+  });
+
+  const good = results.filter((result) => result.status === "good").length;
+  return {
+    letters: results,
+    formation: 1 + Math.round((4 * good) / Math.max(results.length, 1)),
+    sizing: counted > 0 ? 1 + Math.round((4 * inBand) / counted) : 1,
+  };
+}
+
+// ── Drills ───────────────────────────────────────────────────────────
+
+export type HandwritingDimension = "letter_formation" | "spacing_sizing" | "presentation";
+
+export const HANDWRITING_DIMENSIONS: { key: HandwritingDimension; label: string; description: string }[] = [
+  { key: "letter_formation", label: "Letter Formation", description: "Start each letter in the right place and move the right way" },
+  { key: "spacing_sizing", label: "Spacing & Sizing", description: "Tall letters reach the top line and tails drop below the baseline" },
+  { key: "presentation", label: "Presentation", description: "Short phrases with even letters and neat gaps between words" },
+];
+
+// Letters grouped by the movement they start with
+export const LETTER_FAMILIES: { key: string; label: string; letters: string; words: string[] }[] = [
+  { key: "anticlockwise", label: "Anticlockwise letters", letters: "cadgoqesf", words: ["dog", "cage", "fog", "sad", "go", "egg", "code", "face"] },
+  { key: "tunnel", label: "Tunnel letters", letters: "nmhrbpk", words: ["him", "nap", "pink", "barn", "map", "herb", "pork", "bin"] },
+  { key: "down", label: "Straight down letters", letters: "iltj", words: ["lit", "till", "jot", "tilt", "it", "jet", "lid", "tail"] },
+  { key: "cup", label: "Cup letters", letters: "uy", words: ["up", "you", "yum", "buy", "sun", "toy", "mud", "yes"] },
+  { key: "diagonal", label: "Diagonal letters", letters: "vwxz", words: ["wax", "zoo", "vow", "fox", "zip", "wave", "box", "vet"] },
+];
+
+// Ascenders, descenders and body letters together, to practise sizing
+const SIZING_WORDS = ["hill", "jog", "kite", "bay", "flip", "dig", "pup", "tell", "yak", "gift", "holy", "jump"];
+
+const PRESENTATION_PHRASES = ["a big dog", "hop on", "my cat", "sun is up", "run fast", "we can see", "go home", "a red hat"];
+
+export const DRILL_LENGTH = 5;
+
+// What the student traced for one drill item, kept on handwriting_practice
+export interface PracticeItem {
+  text: string;
+  letters: LetterResult[];
+}
+
+interface HandwritingScores {
+  letter_formation: number | null;
+  spacing_sizing: number | null;
+  presentation: number | null;
+}
+
+/**
+ * The lowest-scoring dimension across the student's recent handwriting
+ * assessments. With none yet, practice starts with letter formation.
+ */
+export function getWeakestDimension(submissions: HandwritingScores[]): HandwritingDimension {
+  let weakest: HandwritingDimension = "letter_formation";
+  let lowest = Infinity;
+  for (const { key } of HANDWRITING_DIMENSIONS) {
+    const scores = submissions.map((submission) => submission[key]).filter((score): score is number => score != null);
+    if (scores.length === 0) continue;
+    const average = scores.reduce((total, score) => total + score, 0) / scores.length;
+    if (average < lowest) {
+      weakest = key;
+      lowest = average;
+    }
+  }
+  return weakest;
+}
+
+/**
+ * The letter family with the most mistakes in recent practice. If nothing
+ * has gone wrong, the family practised least comes up next.
+ */
+export function getFocusFamily(recentItems: PracticeItem[]) {
+  const familyOf = (char: string) => LETTER_FAMILIES.findIndex((family) => family.letters.includes(char));
+  const mistakes = LETTER_FAMILIES.map(() => 0);
+  const practised = LETTER_FAMILIES.map(() => 0);
+  for (const item of recentItems) {
+    for (const letter of item.letters || []) {
+      const family = familyOf(letter.char);
+      if (family === -1) continue;
+      practised[family]++;
+      if (letter.status !== "good") mistakes[family]++;
+    }
+  }
+  const mostMistakes = Math.max(...mistakes);
+  const index = mostMistakes > 0 ? mistakes.indexOf(mostMistakes) : practised.indexOf(Math.min(...practised));
+  return LETTER_FAMILIES[index];
+}
+
+// The next `count` entries of a list, moving on each session
+function rotate<T>(list: T[], start: number, count: number): T[] {
+  return Array.from({ length: count }, (_, i) => list[(start * count + i) % list.length]);
+}
+
+/**
+ * The texts to trace in a practice session aimed at one dimension. Letter
+ * formation drills the family with the most mistakes: its letters one by
+ * one, then words using them.
+ */
+export function buildDrill(dimension: HandwritingDimension, recentItems: PracticeItem[], sessionCount: number) {
+  if (dimension === "letter_formation") {
+    const family = getFocusFamily(recentItems);
+    const letters = family.letters.split("");
+    const groups: string[] = [];
+    for (let i = 0; i < letters.length && groups.length < 3; i += 3) groups.push(letters.slice(i, i + 3).join(" "));
+    return {
+      focus: family.label,
+      items: [...groups, ...rotate(family.words, sessionCount, DRILL_LENGTH - groups.length)],
+    };
+  }
+  if (dimension === "spacing_sizing") {
+    return { focus: "Tall and tail letters", items: rotate(SIZING_WORDS, sessionCount, DRILL_LENGTH) };
+  }
+  return { focus: "Neat phrases", items: rotate(PRESENTATION_PHRASES, sessionCount, DRILL_LENGTH) };
+}
@@ -0,0 +1,60 @@
+/**
+ * Hint ladder utilities
+ */
+
+// Each question comes with three hints, each giving away a little more.
+// Keep in sync with supabase/functions/generate-lesson and complete-mission.
+export const HINT_LEVELS = ["Nudge", "Strategy", "Worked step"];
+
+// Share of a question's XP still earned after taking this many hints
+export const HINT_XP_MULTIPLIERS = [1, 0.9, 0.75, 0.5];
+
+/** The hints for a question. Lessons from before the ladder have just the one. */
+export function getHintLadder(question: { hint?: string; hints?: string[] }): string[] {
+  if (question.hints && question.hints.length > 0) return question.hints.slice(0, HINT_LEVELS.length);
+  return question.hint ? [question.hint] : [];
+}
+
+/** The XP a question earns once the hints taken are paid for. */
+export function applyHintCost(xp: number, hintsUsed: number): number {
+  return Math.round(xp * HINT_XP_MULTIPLIERS[Math.min(hintsUsed, HINT_LEVELS.length)]);
+}
+
+/** What taking the next hint would cost, for the hint button. */
+export function getNextHintCost(xp: number, hintsUsed: number): number {
+  return applyHintCost(xp, hintsUsed) - applyHintCost(xp, hintsUsed + 1);
+}
+
+export interface HintUseRow {
+  hints_used: number;
+  topics: { name: string } | null;
+}
+
+export interface HintUseSummary {
+  questions: number;
+  unaided: number;
+  // Topics with the most hints taken, most first
+  topics: { name: string; hints: number; questions: number }[];
+}
+
+/** How much help a student's recent questions needed, for the parent view. */
+export function summariseHintUse(rows: HintUseRow[], topicLimit = 3): HintUseSummary {
+  const byTopic = new Map<string, { hints: number; questions: number }>();
+  for (const row of rows) {
+    const name = row.topics?.name || "Other";
+    const topic = byTopic.get(name) || { hints: 0, questions: 0 };
+    topic.hints += row.hints_used;
+    topic.questions += 1;
+    byTopic.set(name, topic);
+  }
+
+  return {
+    questions: rows.length,
+    unaided: rows.filter(row => row.hints_used === 0).length,
+    topics: [...byTopic.entries()]
+      .map(([name, topic]) => ({ name, ...topic }))
+      .filter(topic => topic.hints > 0)
+      .sort((a, b) => b.hints - a.hints)
+      .slice(0, topicLimit),
+  };
+}
@@ -0,0 +1,181 @@
+/**
+ * Typed maths answer utilities
+ * Keep in sync with supabase/functions/complete-mission, which re-marks answers.
+ */
+
+import { evaluate, unit } from "mathjs";
+
+export interface ParsedAnswer {
+  value: number;
+  unit: string | null;
+  // Decimal places the student wrote, used to accept sensible rounding
+  decimals: number;
+}
+
+export type AnswerVerdict = "correct" | "missing_unit" | "wrong_unit" | "incorrect" | "unreadable";
+
+export interface AnswerCheck {
+  verdict: AnswerVerdict;
+  // Share of the question's points earned: 1, 0.5 for a unit slip, else 0
+  credit: number;
+  feedback: string;
+}
+
+// Spelled-out units mapped to the symbols mathjs knows
+const UNIT_ALIASES: Record<string, string> = {
+  millimetre: "mm", millimetres: "mm", millimeter: "mm", millimeters: "mm",
+  centimetre: "cm", centimetres: "cm", centimeter: "cm", centimeters: "cm",
+  metre: "m", metres: "m", meter: "m", meters: "m",
+  kilometre: "km", kilometres: "km", kilometer: "km", kilometers: "km",
+  gram: "g", grams: "g", kilogram: "kg", kilograms: "kg",
+  millilitre: "ml", millilitres: "ml", milliliter: "ml", milliliters: "ml",
+  litre: "l", litres: "l", liter: "l", liters: "l",
+  sec: "s", secs: "s", second: "s", seconds: "s",
+  mins: "min", minute: "min", minutes: "min",
+  hr: "h", hrs: "h", hour: "h", hours: "h",
+  "°": "deg", degree: "deg", degrees: "deg",
+  "km/hr": "km/h", kph: "km/h",
+  percent: "%",
+};
+
+const MIXED_RE = /^(-?)(\d+)\s+(\d+)\s*\/\s*(\d+)/;
+const FRACTION_RE = /^(-?\d+(?:\.\d+)?)\s*\/\s*(\d+(?:\.\d+)?)/;
+const DECIMAL_RE = /^-?(?:\d+(?:\.\d*)?|\.\d+)/;
+const UNIT_RE = /^\s*(?:[a-zµ°%$][a-zµ°/%^\d\s]*)?$/;
+
+/** Lowercases a unit, expands spelled-out names and writes squares as ^2. */
+export function normaliseUnit(raw: string): string | null {
+  const cleaned = raw
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .replace(/^sq(?:uare)? (\w+)$/, "$1^2")
+    .replace(/^cubic (\w+)$/, "$1^3")
+    .replace(/²/g, "^2")
+    .replace(/³/g, "^3")
+    .replace(/([a-z])([23])$/, "$1^$2");
+  if (!cleaned) return null;
+  return UNIT_ALIASES[cleaned] || cleaned;
+}
+
+/**
+ * Reads a typed answer: whole numbers, decimals, fractions ("3/4"), mixed
+ * numbers ("1 1/2"), percentages ("75%") and a trailing unit ("12 cm").
+ * Commas between thousands and a leading "$" are ignored. Returns null when
+ * it isn't a number.
+ */
+export function parseTypedAnswer(text: string): ParsedAnswer | null {
+  const cleaned = text.trim().replace(/^\$\s*/, "").replace(/(\d),(?=\d{3}\b)/g, "$1");
+
+  let value: number;
+  let decimals = 0;
+  let rest: string;
+
+  const mixed = cleaned.match(MIXED_RE);
+  const fraction = !mixed && cleaned.match(FRACTION_RE);
+  const decimal = !mixed && !fraction && cleaned.match(DECIMAL_RE);
+
+  if (mixed) {
+    const [whole, numerator, denominator] = [mixed[2], mixed[3], mixed[4]].map(Number);
+    if (denominator === 0) return null;
+    value = (whole + numerator / denominator) * (mixed[1] ? -1 : 1);
+    rest = cleaned.slice(mixed[0].length);
+  } else if (fraction) {
+    const denominator = Number(fraction[2]);
+    if (denominator === 0) return null;
+    value = Number(fraction[1]) / denominator;
+    rest = cleaned.slice(fraction[0].length);
+  } else if (decimal) {
+    value = Number(decimal[0]);
+    decimals = decimal[0].split(".")[1]?.length ?? 0;
+    rest = cleaned.slice(decimal[0].length);
+  } else {
+    return null;
+  }
+
+  if (!Number.isFinite(value) || !UNIT_RE.test(rest.toLowerCase())) return null;
+  return { value, unit: normaliseUnit(rest), decimals };
+}
+
+/** The expected value and unit from a stored expression such as "3/4", "1 1/2", "12 * 4" or "120 cm". */
+export function parseExpectedAnswer(expression: string, expectedUnit?: string | null): { value: number; unit: string | null } | null {
+  const unitOverride = expectedUnit ? normaliseUnit(expectedUnit) : null;
+  const literal = parseTypedAnswer(expression);
+  if (literal) return { value: literal.value, unit: unitOverride || literal.unit };
+  try {
+    const value = Number(evaluate(expression));
+    return Number.isFinite(value) ? { value, unit: unitOverride } : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Equal within floating point error, or the expected value correctly rounded
+ * to the two or more decimal places the student gave (0.33 for 1/3).
+ */
+function isSameValue(typed: number, expected: number, decimals = 0): boolean {
+  if (Math.abs(typed - expected) <= 1e-9 * Math.max(1, Math.abs(expected))) return true;
+  if (decimals < 2) return false;
+  const factor = Math.pow(10, decimals);
+  return Math.abs(Math.round(expected * factor) / factor - typed) <= 1e-9 * Math.max(1, Math.abs(expected));
+}
+
+/** The typed value in the expected unit, when mathjs can convert between them. */
+function convertUnit(value: number, from: string, to: string): number | null {
+  try {
+    const typedUnit = unit(value, from);
+    if (!typedUnit.equalBase(unit(1, to))) return null;
+    return typedUnit.toNumber(to);
+  } catch {
+    return null;
+  }
+}
+
+const UNREADABLE_FEEDBACK = "We couldn't read that as a number. Try something like 12, 0.75, 3/4, 1 1/2 or 75%.";
+
+/**
+ * Marks a typed maths answer for equivalence with the expected one, so "6/8",
+ * "0.75" and "75%" all match 3/4 and "1.2 m" matches 120 cm. The right number
+ * with a missing or wrong unit earns half credit.
+ */
+export function checkTypedAnswer(typed: string, expression: string, expectedUnit?: string | null): AnswerCheck {
+  const answer = parseTypedAnswer(typed);
+  if (!answer) return { verdict: "unreadable", credit: 0, feedback: UNREADABLE_FEEDBACK };
+
+  const correct: AnswerCheck = { verdict: "correct", credit: 1, feedback: "Correct!" };
+  const incorrect: AnswerCheck = { verdict: "incorrect", credit: 0, feedback: "Not quite — check your working and try again." };
+
+  const expected = parseExpectedAnswer(expression, expectedUnit);
+  if (!expected) return incorrect;
+
+  // Percentages: "75%" for 0.75, or "0.75" when 75% was asked for
+  if (expected.unit !== "%" && answer.unit === "%") {
+    return isSameValue(answer.value / 100, expected.value) ? correct : incorrect;
+  }
+  if (expected.unit === "%" && answer.unit === null) {
+    if (isSameValue(answer.value * 100, expected.value)) return correct;
+    return isSameValue(answer.value, expected.value, answer.decimals)
+      ? { verdict: "missing_unit", credit: 0.5, feedback: "Right number — remember the % sign." }
+      : incorrect;
+  }
+
+  // No unit asked for, so any unit written alongside is ignored
+  if (!expected.unit) return isSameValue(answer.value, expected.value, answer.decimals) ? correct : incorrect;
+
+  if (!answer.unit) {
+    return isSameValue(answer.value, expected.value, answer.decimals)
+      ? { verdict: "missing_unit", credit: 0.5, feedback: `Right number — don't forget the unit (${expected.unit}).` }
+      : incorrect;
+  }
+
+  if (answer.unit === expected.unit) return isSameValue(answer.value, expected.value, answer.decimals) ? correct : incorrect;
+
+  const converted = convertUnit(answer.value, answer.unit, expected.unit);
+  if (converted !== null && isSameValue(converted, expected.value)) {
+    return { verdict: "correct", credit: 1, feedback: `Correct! That's the same as ${expected.value} ${expected.unit}.` };
+  }
+  return isSameValue(answer.value, expected.value, answer.decimals)
+    ? { verdict: "wrong_unit", credit: 0.5, feedback: `Right number, but check the unit — this one is in ${expected.unit}.` }
+    : incorrect;
+}
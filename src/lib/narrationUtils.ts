@@ -0,0 +1,89 @@
+/**
+ * Read-aloud narration utilities
+ */
+
+// When a word is spoken, in seconds from the start of the audio
+export interface WordTiming {
+  start: number;
+  end: number;
+}
+
+export const NARRATION_RATES = [0.75, 1, 1.25, 1.5];
+
+// Going back within this many seconds of a sentence starting jumps to the one before
+const RESTART_SENTENCE_SECONDS = 1;
+
+/** The words of a text, split on whitespace the same way text-to-speech does. */
+export function splitWords(text: string): string[] {
+  return text.split(/\s+/).filter((word) => word.length > 0);
+}
+
+// Keep in sync with stripEmojis in supabase/functions/text-to-speech
+export function isSpeakableWord(word: string): boolean {
+  return word.replace(/\p{Emoji_Presentation}|\p{Extended_Pictographic}|\u200d|\uFE0F/gu, "").length > 0;
+}
+
+/**
+ * Joins a title, question and options into one text to narrate, with where
+ * each part's words start so the parts can be rendered separately and still
+ * share one highlight.
+ */
+export function buildNarration(parts: string[]): { text: string; offsets: number[] } {
+  let offset = 0;
+  const offsets = parts.map((part) => {
+    const start = offset;
+    offset += splitWords(part).length;
+    return start;
+  });
+  return { text: parts.join("\n"), offsets };
+}
+
+/**
+ * Lines the timings text-to-speech returned up with the words of the text.
+ * Emoji-only words aren't spoken, so they get no timing.
+ */
+export function alignWordTimings(text: string, timings: WordTiming[]): (WordTiming | null)[] {
+  let next = 0;
+  return splitWords(text).map((word) => (isSpeakableWord(word) ? timings[next++] ?? null : null));
+}
+
+/** The index of every word that starts a sentence or a new line. */
+export function getSentenceStarts(text: string): number[] {
+  const starts: number[] = [];
+  let index = 0;
+  let previous = "";
+  for (const match of text.matchAll(/(\s*)(\S+)/g)) {
+    if (index === 0 || match[1].includes("\n") || /[.!?]["')]*$/.test(previous)) starts.push(index);
+    previous = match[2];
+    index++;
+  }
+  return starts;
+}
+
+/** The word being spoken at a point in the audio, or -1 before the first. */
+export function findWordAt(timings: (WordTiming | null)[], time: number): number {
+  let found = -1;
+  timings.forEach((timing, i) => {
+    if (timing && timing.start <= time) found = i;
+  });
+  return found;
+}
+
+/**
+ * The word to jump to when skipping a sentence forward or back. Going back
+ * more than a moment into a sentence restarts it, like a music player.
+ */
+export function getSkipTarget(
+  text: string,
+  timings: (WordTiming | null)[],
+  time: number,
+  direction: 1 | -1
+): WordTiming | null {
+  const starts = getSentenceStarts(text).filter((start) => timings[start]);
+  const current = starts.filter((start) => timings[start]!.start <= time).length - 1;
+  let target = current + direction;
+  if (direction === -1 && current >= 0 && time - timings[starts[current]]!.start > RESTART_SENTENCE_SECONDS) {
+    target = current;
+  }
+  return timings[starts[Math.max(0, target)]] ?? null;
+}
@@ -0,0 +1,173 @@
+// IndexedDB store for offline training: each student's recently served lessons
+// per topic, a snapshot of their profile, and mission completions waiting to sync.
+
+const DB_NAME = "dingo-dojo-offline";
+const DB_VERSION = 2;
+const LESSONS = "lessons";
+const COMPLETIONS = "completions";
+const META = "meta";
+
+// Lessons kept per topic — the oldest are dropped first
+export const MAX_LESSONS_PER_TOPIC = 3;
+
+// Mission sessions expire a week after they open; a day's margin leaves time to sync
+const OFFLINE_SESSION_MAX_AGE_MS = 6 * 24 * 60 * 60 * 1000;
+
+export interface OfflineTopic {
+  id: string;
+  name: string;
+  slug: string;
+  emoji: string;
+  description: string | null;
+  subject_id: string;
+}
+
+export interface OfflineSubject {
+  id: string;
+  slug: string;
+  name: string;
+}
+
+export interface OfflineLesson {
+  key: string;
+  userId: string;
+  topicSlug: string;
+  stage: string;
+  difficultyLevel: string;
+  topic: OfflineTopic;
+  subject: OfflineSubject;
+  content: unknown;
+  // Mission session the lesson was served with; an offline run completes it on
+  // sync. Cleared once a run has used it
+  sessionId?: string | null;
+  cachedAt: number;
+}
+
+export interface OfflineProfile {
+  id: string;
+  total_xp: number;
+  grade_level: string;
+  subscription_tier: string;
+  weekly_xp_earned: number;
+  weekly_xp_goal: number;
+  week_start_date: string | null;
+  last_mission_date: string | null;
+}
+
+export interface QueuedCompletion {
+  id?: number;
+  userId: string;
+  topicName: string;
+  body: Record<string, unknown>;
+  queuedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        // Version 2 keys lessons by user; lessons cached before then are dropped
+        if (db.objectStoreNames.contains(LESSONS)) db.deleteObjectStore(LESSONS);
+        const lessons = db.createObjectStore(LESSONS, { keyPath: "key" });
+        lessons.createIndex("userTopic", ["userId", "topicSlug"]);
+        if (event.oldVersion < 1) {
+          db.createObjectStore(COMPLETIONS, { keyPath: "id", autoIncrement: true });
+          db.createObjectStore(META);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// ── Lessons ─────────────────────────────────────────────────────
+// Keyed by auth user, since siblings often share a tablet
+
+const getTopicLessons = (userId: string, topicSlug: string) =>
+  run<OfflineLesson[]>(LESSONS, "readonly", (store) => store.index("userTopic").getAll([userId, topicSlug]));
+
+export const saveOfflineLesson = async (lesson: Omit<OfflineLesson, "key" | "cachedAt">) => {
+  const record: OfflineLesson = {
+    ...lesson,
+    key: `${lesson.userId}:${lesson.topicSlug}:${lesson.stage}:${lesson.difficultyLevel}`,
+    cachedAt: Date.now(),
+  };
+  await run(LESSONS, "readwrite", (store) => store.put(record));
+
+  const stored = await getTopicLessons(lesson.userId, lesson.topicSlug);
+  const stale = stored.sort((a, b) => b.cachedAt - a.cachedAt).slice(MAX_LESSONS_PER_TOPIC);
+  for (const old of stale) {
+    await run(LESSONS, "readwrite", (store) => store.delete(old.key));
+  }
+};
+
+/**
+ * The student's cached lesson at the requested level, or their most recent one
+ * for the topic at that stage. Only lessons with an unused, unexpired mission
+ * session are offered, since a run without one can't be credited.
+ */
+export const getOfflineLesson = async (
+  userId: string,
+  topicSlug: string,
+  stage: string,
+  difficultyLevel?: string
+): Promise<OfflineLesson | null> => {
+  const stored = (await getTopicLessons(userId, topicSlug)).filter(
+    (l) => l.stage === stage && l.sessionId && Date.now() - l.cachedAt < OFFLINE_SESSION_MAX_AGE_MS
+  );
+  if (stored.length === 0) return null;
+  return (
+    stored.find((l) => l.difficultyLevel === difficultyLevel) ||
+    stored.sort((a, b) => b.cachedAt - a.cachedAt)[0]
+  );
+};
+
+/** Forget a mission session once a run has used it, so the lesson can't submit it again. */
+export const clearOfflineSession = async (userId: string, topicSlug: string, sessionId: string) => {
+  for (const lesson of await getTopicLessons(userId, topicSlug)) {
+    if (lesson.sessionId !== sessionId) continue;
+    await run(LESSONS, "readwrite", (store) => store.put({ ...lesson, sessionId: null }));
+  }
+};
+
+// ── Profile snapshot ────────────────────────────────────────────
+
+// Keyed by auth user, like lessons
+export const saveOfflineProfile = (userId: string, profile: OfflineProfile) =>
+  run(META, "readwrite", (store) => store.put(profile, `profile:${userId}`));
+
+export const getOfflineProfile = (userId: string) =>
+  run<OfflineProfile | undefined>(META, "readonly", (store) => store.get(`profile:${userId}`));
+
+// ── Completion queue ────────────────────────────────────────────
+
+export const queueCompletion = (completion: Omit<QueuedCompletion, "id" | "queuedAt">) =>
+  run(COMPLETIONS, "readwrite", (store) => store.add({ ...completion, queuedAt: Date.now() }));
+
+export const getQueuedCompletions = () =>
+  run<QueuedCompletion[]>(COMPLETIONS, "readonly", (store) => store.getAll());
+
+export const removeQueuedCompletion = (id: number) =>
+  run(COMPLETIONS, "readwrite", (store) => store.delete(id));
@@ -104,3 +104,43 @@ export function getRingColor(xp: number): string {
 export function isMastered(xp: number): boolean {
   return xp >= 1500;
 }
+
+/**
+ * Ability levels used to pick lesson difficulty. Driven by the per-topic
+ * ability rating (Elo-style), not XP — keep in sync with generate-lesson.
+ */
+export interface AbilityLevel {
+  name: string;
+  minRating: number;
+  colorClass: string;
+}
+
+export const DEFAULT_ABILITY_RATING = 800;
+
+export const ABILITY_LEVELS: AbilityLevel[] = [
+  { name: "Beginning", minRating: -Infinity, colorClass: "bg-muted text-muted-foreground" },
+  { name: "Developing", minRating: 850, colorClass: "bg-ochre/10 text-ochre" },
+  { name: "Consolidating", minRating: 950, colorClass: "bg-sky/10 text-sky" },
+  { name: "Extending", minRating: 1050, colorClass: "bg-eucalyptus/10 text-eucalyptus" },
+  { name: "Mastering", minRating: 1150, colorClass: "bg-purple-500/10 text-purple-600" },
+];
+
+/**
+ * Get the ability level for a topic rating
+ */
+export function getAbilityLevel(rating: number = DEFAULT_ABILITY_RATING): AbilityLevel {
+  for (let i = ABILITY_LEVELS.length - 1; i >= 0; i--) {
+    if (rating >= ABILITY_LEVELS[i].minRating) {
+      return ABILITY_LEVELS[i];
+    }
+  }
+  return ABILITY_LEVELS[0];
+}
+
+/**
+ * The rating a topic's lessons are pitched at, after the student's Easier /
+ * Harder preference (-1 to 1). Keep in sync with generate-lesson.
+ */
+export function getPitchedRating(rating: number = DEFAULT_ABILITY_RATING, levelShift = 0): number {
+  return Math.min(Math.max(rating, 800), 1200) + 100 * levelShift;
+}
@@ -0,0 +1,154 @@
+/**
+ * Challenge question type utilities
+ * Keep the answer checks in sync with supabase/functions/complete-mission.
+ */
+
+import { checkTypedAnswer, parseTypedAnswer, type AnswerCheck } from "./mathsAnswerUtils";
+
+export type ChallengeType =
+  | "multiple_choice"
+  | "free_text"
+  | "worked_solution"
+  | "ordering"
+  | "matching"
+  | "number_line"
+  | "cloze"
+  | "numeric";
+
+// Types the student answers on screen and that are marked straight away
+export const INTERACTIVE_TYPES: ChallengeType[] = ["ordering", "matching", "number_line", "cloze", "numeric"];
+
+/**
+ * An answer to a multiple choice or interactive question:
+ * - multiple_choice: the chosen option index
+ * - ordering: item indexes in the order the student placed them
+ * - matching: for each left-hand item, the index of the chosen right-hand item (-1 when unset)
+ * - number_line: the value the student placed
+ * - cloze: the text typed into each blank
+ * - numeric: the typed answer
+ */
+export type ChallengeAnswer = number | number[] | string[] | string;
+
+export interface MatchingPair {
+  left: string;
+  right: string;
+}
+
+export interface InteractiveQuestionFields {
+  type?: ChallengeType;
+  correct_answer?: number;
+  items?: string[];
+  pairs?: MatchingPair[];
+  min?: number;
+  max?: number;
+  step?: number;
+  target?: number;
+  tolerance?: number;
+  cloze_text?: string;
+  blanks?: string[];
+  answer_expression?: string;
+  answer_unit?: string;
+}
+
+export const CLOZE_BLANK = "___";
+
+export function isInteractiveType(type?: string): boolean {
+  return INTERACTIVE_TYPES.includes(type as ChallengeType);
+}
+
+/** How close a number line answer must be: the given tolerance, else 1/40 of the line. */
+export function getNumberLineTolerance(question: InteractiveQuestionFields): number {
+  if (typeof question.tolerance === "number" && question.tolerance >= 0) return question.tolerance;
+  return ((question.max ?? 0) - (question.min ?? 0)) / 40;
+}
+
+/**
+ * Whether a typed blank matches the expected answer. Numeric answers compare
+ * by value (so "0.5" matches "1/2"); word answers ignore case and spacing.
+ */
+export function isBlankMatch(typed: string, expected: string): boolean {
+  if (parseTypedAnswer(expected)) return checkTypedAnswer(typed, expected).credit === 1;
+  const normalise = (s: string) => s.trim().replace(/\s+/g, " ").toLowerCase();
+  return normalise(typed) === normalise(expected);
+}
+
+const isIdentity = (answer: number[], length: number) =>
+  answer.length === length && answer.every((value, i) => value === i);
+
+/** Whether every part of the question has been answered, so it can be checked. */
+export function isAnswerComplete(question: InteractiveQuestionFields, answer: ChallengeAnswer | null | undefined): boolean {
+  if (answer === null || answer === undefined) return false;
+  switch (question.type) {
+    case "ordering":
+      return Array.isArray(answer) && answer.length === (question.items?.length ?? 0);
+    case "matching":
+      return Array.isArray(answer) && answer.length === (question.pairs?.length ?? 0) && (answer as number[]).every((v) => v >= 0);
+    case "number_line":
+      return typeof answer === "number";
+    case "cloze":
+      return Array.isArray(answer) && answer.length === (question.blanks?.length ?? 0) && (answer as string[]).every((v) => v.trim() !== "");
+    case "numeric":
+      return typeof answer === "string" && answer.trim() !== "";
+    default:
+      return typeof answer === "number";
+  }
+}
+
+/** Marks a multiple choice or interactive answer against the question. */
+export function isAnswerCorrect(question: InteractiveQuestionFields, answer: ChallengeAnswer | null | undefined): boolean {
+  if (!isAnswerComplete(question, answer)) return false;
+  switch (question.type) {
+    case "ordering":
+      return isIdentity(answer as number[], question.items!.length);
+    case "matching":
+      return isIdentity(answer as number[], question.pairs!.length);
+    case "number_line":
+      return Math.abs((answer as number) - (question.target ?? NaN)) <= getNumberLineTolerance(question);
+    case "cloze":
+      return (answer as string[]).every((typed, i) => isBlankMatch(typed, question.blanks![i]));
+    case "numeric":
+      return markAnswer(question, answer).credit === 1;
+    default:
+      return answer === question.correct_answer;
+  }
+}
+
+/**
+ * Marks an answer with its share of the points. Typed maths answers can earn
+ * half credit and come with feedback; everything else is right or wrong.
+ */
+export function markAnswer(question: InteractiveQuestionFields, answer: ChallengeAnswer | null | undefined): AnswerCheck {
+  if (question.type === "numeric" && typeof answer === "string") {
+    return checkTypedAnswer(answer, question.answer_expression || "", question.answer_unit);
+  }
+  return isAnswerCorrect(question, answer)
+    ? { verdict: "correct", credit: 1, feedback: "Correct!" }
+    : { verdict: "incorrect", credit: 0, feedback: "Not quite — check your working and try again." };
+}
+
+/**
+ * The answer as Mirri should see it: the option index for multiple choice,
+ * otherwise a readable summary of what the student has placed or typed.
+ */
+export function describeAnswer(
+  question: InteractiveQuestionFields,
+  answer: ChallengeAnswer | null | undefined
+): number | string | undefined {
+  if (answer === null || answer === undefined) return undefined;
+  switch (question.type) {
+    case "ordering":
+      return (answer as number[]).map((i) => question.items?.[i]).join(", then ");
+    case "matching":
+      return (answer as number[])
+        .map((right, left) => `${question.pairs?.[left]?.left} → ${right >= 0 ? question.pairs?.[right]?.right : "?"}`)
+        .join("; ");
+    case "number_line":
+      return `placed at ${Math.round((answer as number) * 100) / 100}`;
+    case "cloze":
+      return (answer as string[]).map((typed) => typed || "(blank)").join(", ");
+    case "numeric":
+      return answer as string;
+    default:
+      return typeof answer === "number" ? answer : undefined;
+  }
+}
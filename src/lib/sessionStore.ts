@@ -0,0 +1,85 @@
+// Server-side store for training sessions in progress, so a mission can be
+// picked up on any device. One session is kept per student and topic; photos
+// of working are uploaded as drafts alongside it.
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+
+const DRAFT_BUCKET = "handwriting-submissions";
+
+export interface SessionSummary {
+  progress: number;
+  earnedXp: number;
+  draftPaths: string[];
+}
+
+// ── Sessions ────────────────────────────────────────────────────
+
+export const loadSession = async (profileId: string, topicId: string): Promise<unknown | null> => {
+  const { data, error } = await supabase
+    .from("training_sessions")
+    .select("state")
+    .eq("profile_id", profileId)
+    .eq("topic_id", topicId)
+    .gt("expires_at", new Date().toISOString())
+    .maybeSingle();
+  if (error) throw error;
+  return data?.state ?? null;
+};
+
+export const saveSession = async (profileId: string, topicId: string, state: unknown, summary: SessionSummary) => {
+  const { error } = await supabase.from("training_sessions").upsert(
+    {
+      profile_id: profileId,
+      topic_id: topicId,
+      state: state as Json,
+      progress: summary.progress,
+      earned_xp: summary.earnedXp,
+      draft_paths: summary.draftPaths,
+    },
+    { onConflict: "profile_id,topic_id" }
+  );
+  if (error) throw error;
+};
+
+export const clearSession = async (profileId: string, topicId: string) => {
+  const { data } = await supabase
+    .from("training_sessions")
+    .delete()
+    .eq("profile_id", profileId)
+    .eq("topic_id", topicId)
+    .select("draft_paths");
+  await removeDrafts((data || []).flatMap((row) => row.draft_paths));
+};
+
+// Sessions a week old are dropped along with their photo drafts
+export const clearExpiredSessions = async (profileId: string) => {
+  const { data } = await supabase
+    .from("training_sessions")
+    .delete()
+    .eq("profile_id", profileId)
+    .lte("expires_at", new Date().toISOString())
+    .select("draft_paths");
+  await removeDrafts((data || []).flatMap((row) => row.draft_paths));
+};
+
+// ── Photo drafts ────────────────────────────────────────────────
+
+export const uploadPhotoDraft = async (profileId: string, topicId: string, key: string, file: File): Promise<string> => {
+  const extension = file.name.split(".").pop()?.toLowerCase() || "jpg";
+  const path = `${profileId}/drafts/${topicId}/${key}-${Date.now()}.${extension}`;
+  const { error } = await supabase.storage.from(DRAFT_BUCKET).upload(path, file, { contentType: file.type });
+  if (error) throw error;
+  return path;
+};
+
+export const downloadPhotoDraft = async (path: string): Promise<File | null> => {
+  const { data } = await supabase.storage.from(DRAFT_BUCKET).download(path);
+  return data ? new File([data], path.split("/").pop()!, { type: data.type }) : null;
+};
+
+export const removeDrafts = async (paths: string[]) => {
+  if (paths.length === 0) return;
+  const { error } = await supabase.storage.from(DRAFT_BUCKET).remove(paths);
+  if (error) console.error("Failed to remove photo drafts:", error);
+};
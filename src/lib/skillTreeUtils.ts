@@ -0,0 +1,49 @@
+/**
+ * Topic prerequisite and skill tree utilities
+ */
+
+export interface TopicPrerequisite {
+  topic_id: string;
+  prerequisite_id: string;
+}
+
+// A prerequisite counts as done from Green Belt on the topic
+export const PREREQUISITE_MIN_XP = 300;
+
+/**
+ * Prerequisites of a topic that are still below PREREQUISITE_MIN_XP.
+ * An empty list means the topic is unlocked.
+ */
+export function getUnmetPrerequisites(
+  topicId: string,
+  prerequisites: TopicPrerequisite[],
+  xpByTopic: Record<string, number>
+): string[] {
+  return prerequisites
+    .filter((p) => p.topic_id === topicId && (xpByTopic[p.prerequisite_id] || 0) < PREREQUISITE_MIN_XP)
+    .map((p) => p.prerequisite_id);
+}
+
+/**
+ * Skill tree column for each topic: 0 for topics with no prerequisites,
+ * otherwise one more than the deepest prerequisite. Edges to topics outside
+ * the list are ignored, and a cycle just stops deepening.
+ */
+export function getTopicDepths(topicIds: string[], prerequisites: TopicPrerequisite[]): Record<string, number> {
+  const ids = new Set(topicIds);
+  const depths: Record<string, number> = {};
+
+  const depthOf = (id: string, visiting: Set<string>): number => {
+    if (depths[id] !== undefined) return depths[id];
+    if (visiting.has(id)) return 0;
+    visiting.add(id);
+    const parents = prerequisites.filter((p) => p.topic_id === id && ids.has(p.prerequisite_id));
+    const depth = parents.length === 0 ? 0 : 1 + Math.max(...parents.map((p) => depthOf(p.prerequisite_id, visiting)));
+    visiting.delete(id);
+    depths[id] = depth;
+    return depth;
+  };
+
+  for (const id of topicIds) depthOf(id, new Set());
+  return depths;
+}
@@ -0,0 +1,204 @@
+/**
+ * Drawing stroke capture and replay utilities
+ */
+
+// x, y in canvas pixels, pressure 0-1, and ms since the first stroke began
+export type StrokePoint = [number, number, number, number];
+
+export type StrokeTool = "pen" | "eraser" | "line" | "rect" | "circle" | "text";
+
+// Lines, rectangles and circles are stored as their first and latest points
+export const SHAPE_TOOLS: StrokeTool[] = ["line", "rect", "circle"];
+
+export interface Stroke {
+  tool: StrokeTool;
+  color: string;
+  // Line width, or the font size for text
+  width: number;
+  points: StrokePoint[];
+  text?: string;
+}
+
+export type CanvasBackground = "plain" | "grid" | "dots" | "graph";
+
+export interface StrokeRecording {
+  version: 1;
+  width: number;
+  height: number;
+  background?: CanvasBackground;
+  strokes: Stroke[];
+}
+
+// Keep in sync with the limits in supabase/functions/assess-maths-working
+export const MAX_STROKES = 500;
+export const MAX_STROKE_POINTS = 20000;
+export const MAX_TEXT_LENGTH = 40;
+
+export const TEXT_SIZE = 18;
+const GRID_SPACING = 20;
+const GRAPH_MINOR_SPACING = 10;
+
+// Pauses longer than this are shortened on replay so it doesn't stall
+const MAX_REPLAY_GAP_MS = 1000;
+
+/** Rounds a point for storage: tenths of a pixel, hundredths of pressure, whole ms. */
+export function toStrokePoint(x: number, y: number, pressure: number, t: number): StrokePoint {
+  return [Math.round(x * 10) / 10, Math.round(y * 10) / 10, Math.round(pressure * 100) / 100, Math.round(t)];
+}
+
+export function countStrokePoints(strokes: Stroke[]): number {
+  return strokes.reduce((total, stroke) => total + stroke.points.length, 0);
+}
+
+/**
+ * Paints strokes onto a context already scaled to the recording's size. With
+ * `untilMs`, only the points drawn up to that time are painted. The eraser
+ * clears to transparent, so draw onto a layer above the background.
+ */
+export function drawStrokes(ctx: CanvasRenderingContext2D, strokes: Stroke[], untilMs = Infinity) {
+  ctx.save();
+  ctx.lineCap = "round";
+  ctx.lineJoin = "round";
+  for (const stroke of strokes) {
+    if (stroke.points.length === 0 || stroke.points[0][3] > untilMs) break;
+    ctx.globalCompositeOperation = stroke.tool === "eraser" ? "destination-out" : "source-over";
+    ctx.strokeStyle = stroke.color;
+    ctx.fillStyle = stroke.color;
+    ctx.lineWidth = stroke.width;
+
+    const [x0, y0] = stroke.points[0];
+    if (stroke.tool === "text") {
+      ctx.font = `${stroke.width}px sans-serif`;
+      ctx.textBaseline = "middle";
+      ctx.fillText(stroke.text || "", x0, y0);
+      continue;
+    }
+    // A tap without movement leaves no mark on the canvas either
+    if (stroke.points.length === 1) continue;
+
+    const drawn = stroke.points.filter(([, , , t]) => t <= untilMs);
+    const [x1, y1] = drawn[drawn.length - 1];
+    ctx.beginPath();
+    if (stroke.tool === "line") {
+      ctx.moveTo(x0, y0);
+      ctx.lineTo(x1, y1);
+    } else if (stroke.tool === "rect") {
+      ctx.rect(Math.min(x0, x1), Math.min(y0, y1), Math.abs(x1 - x0), Math.abs(y1 - y0));
+    } else if (stroke.tool === "circle") {
+      // Dragged out from the centre
+      ctx.arc(x0, y0, Math.hypot(x1 - x0, y1 - y0), 0, Math.PI * 2);
+    } else {
+      ctx.moveTo(x0, y0);
+      for (const [x, y] of drawn.slice(1)) ctx.lineTo(x, y);
+    }
+    ctx.stroke();
+  }
+  ctx.restore();
+}
+
+/** Fills the page white and rules it for the chosen background. */
+export function drawBackground(ctx: CanvasRenderingContext2D, background: CanvasBackground, width: number, height: number) {
+  ctx.save();
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(0, 0, width, height);
+
+  const rule = (spacing: number, color: string, lineWidth: number) => {
+    ctx.strokeStyle = color;
+    ctx.lineWidth = lineWidth;
+    ctx.beginPath();
+    for (let x = spacing; x < width; x += spacing) {
+      ctx.moveTo(x, 0);
+      ctx.lineTo(x, height);
+    }
+    for (let y = spacing; y < height; y += spacing) {
+      ctx.moveTo(0, y);
+      ctx.lineTo(width, y);
+    }
+    ctx.stroke();
+  };
+
+  if (background === "grid") {
+    rule(GRID_SPACING, "#c7d7ea", 1);
+  } else if (background === "graph") {
+    rule(GRAPH_MINOR_SPACING, "#e2ebf5", 0.5);
+    rule(GRAPH_MINOR_SPACING * 5, "#a9c0dc", 1);
+  } else if (background === "dots") {
+    ctx.fillStyle = "#9fb3cc";
+    for (let x = GRID_SPACING; x < width; x += GRID_SPACING) {
+      for (let y = GRID_SPACING; y < height; y += GRID_SPACING) {
+        ctx.fillRect(x - 1, y - 1, 2, 2);
+      }
+    }
+  }
+  ctx.restore();
+}
+
+/**
+ * Paints a whole recording, background and all, with whatever transform the
+ * context already has. The strokes go on a separate layer so erasing doesn't
+ * rub out the grid.
+ */
+export function renderRecording(ctx: CanvasRenderingContext2D, recording: StrokeRecording, untilMs = Infinity) {
+  const transform = ctx.getTransform();
+  const layer = document.createElement("canvas");
+  layer.width = ctx.canvas.width;
+  layer.height = ctx.canvas.height;
+  const layerCtx = layer.getContext("2d");
+  if (!layerCtx) return;
+  layerCtx.setTransform(transform);
+  drawStrokes(layerCtx, recording.strokes, untilMs);
+
+  drawBackground(ctx, recording.background || "plain", recording.width, recording.height);
+  ctx.save();
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.drawImage(layer, 0, 0);
+  ctx.restore();
+}
+
+/**
+ * Line strokes for a pair of axes with tick marks, origin near the bottom
+ * left, ready to be added to a drawing as one step.
+ */
+export function createAxesStrokes(width: number, height: number, color: string, t: number): Stroke[] {
+  const origin = { x: Math.round(width * 0.12), y: Math.round(height * 0.88) };
+  const xEnd = Math.round(width * 0.94);
+  const yEnd = Math.round(height * 0.08);
+  const line = (x0: number, y0: number, x1: number, y1: number, lineWidth = 2): Stroke => ({
+    tool: "line",
+    color,
+    width: lineWidth,
+    points: [toStrokePoint(x0, y0, 0.5, t), toStrokePoint(x1, y1, 0.5, t)],
+  });
+
+  const strokes = [line(origin.x, origin.y, xEnd, origin.y), line(origin.x, origin.y, origin.x, yEnd)];
+  for (let x = origin.x + GRID_SPACING * 2; x < xEnd - GRID_SPACING; x += GRID_SPACING * 2) {
+    strokes.push(line(x, origin.y - 4, x, origin.y + 4, 1.5));
+  }
+  for (let y = origin.y - GRID_SPACING * 2; y > yEnd + GRID_SPACING; y -= GRID_SPACING * 2) {
+    strokes.push(line(origin.x - 4, y, origin.x + 4, y, 1.5));
+  }
+  return strokes;
+}
+
+/**
+ * The recording with long pauses between strokes shortened to
+ * MAX_REPLAY_GAP_MS, so a replay shows the order without the waiting.
+ */
+export function compressPauses(recording: StrokeRecording): StrokeRecording {
+  let shift = 0;
+  let lastT = 0;
+  const strokes = recording.strokes.map((stroke) => {
+    const start = stroke.points[0]?.[3] ?? lastT;
+    const gap = start - shift - lastT;
+    if (gap > MAX_REPLAY_GAP_MS) shift += gap - MAX_REPLAY_GAP_MS;
+    const points = stroke.points.map(([x, y, p, t]) => [x, y, p, t - shift] as StrokePoint);
+    lastT = points[points.length - 1]?.[3] ?? lastT;
+    return { ...stroke, points };
+  });
+  return { ...recording, strokes };
+}
+
+export function getRecordingDuration(recording: StrokeRecording): number {
+  const last = recording.strokes[recording.strokes.length - 1];
+  return last?.points[last.points.length - 1]?.[3] ?? 0;
+}
@@ -0,0 +1,36 @@
+/**
+ * Submission history utilities
+ */
+
+import type { Tables } from "@/integrations/supabase/types";
+import type { SubmissionDetail } from "@/components/SubmissionDetailModal";
+import type { StrokeRecording } from "@/lib/strokeUtils";
+
+/** Shows a maths working submission in the same modal as writing submissions. */
+export function fromMathsWorking(row: Tables<"maths_working_submissions">): SubmissionDetail {
+  return {
+    id: row.id,
+    submission_type: "maths_working",
+    subject_name: row.subject_name,
+    topic_name: row.topic_name,
+    question: row.question,
+    student_text: null,
+    image_path: row.image_path,
+    content_score: row.bonus_xp_awarded,
+    content_max_score: null,
+    content_feedback: row.feedback,
+    content_overall_rating: row.overall_rating,
+    strengths: [],
+    improvements: [],
+    annotations: [],
+    letter_formation: null,
+    spacing_sizing: null,
+    presentation: null,
+    composite_score: null,
+    letter_formation_comment: null,
+    spacing_sizing_comment: null,
+    presentation_comment: null,
+    created_at: row.created_at,
+    strokes: row.strokes as unknown as StrokeRecording | null,
+  };
+}
@@ -0,0 +1,83 @@
+/**
+ * Writing revision and portfolio utilities
+ */
+
+export interface WritingAnnotation {
+  originalText: string;
+  suggestion: string;
+  type: "spelling" | "grammar" | "punctuation" | "style" | "praise";
+  comment: string;
+}
+
+// How a revised draft compares with the annotations on the one before it,
+// worked out by assess-writing
+export interface WritingRevision {
+  fixed: WritingAnnotation[];
+  remaining: WritingAnnotation[];
+  bonusXp: number;
+}
+
+// An earlier draft kept on the submission row
+export interface WritingDraft {
+  student_text: string;
+  content_score: number;
+  annotations: WritingAnnotation[];
+  created_at: string;
+}
+
+export const MAX_REVISIONS = 2;
+// Keep in sync with assess-writing and complete-mission
+export const MAX_REVISION_BONUS_XP = 10;
+
+const CORRECTION_TYPES: WritingAnnotation["type"][] = ["spelling", "grammar", "punctuation"];
+
+/** The spelling, grammar and punctuation annotations a revision can fix. */
+export function getCorrections(annotations: WritingAnnotation[] | undefined): WritingAnnotation[] {
+  return (annotations || []).filter((annotation) => CORRECTION_TYPES.includes(annotation.type));
+}
+
+// ── Portfolio ────────────────────────────────────────────────────────
+// Keep in sync with assess-writing and assess-handwriting
+
+export type WritingGenre = "narrative" | "persuasive" | "informative";
+
+export const WRITING_GENRES: { value: WritingGenre; label: string; emoji: string }[] = [
+  { value: "narrative", label: "Narrative", emoji: "📖" },
+  { value: "persuasive", label: "Persuasive", emoji: "📣" },
+  { value: "informative", label: "Informative", emoji: "🔎" },
+];
+
+export type RubricCriterion = "ideas" | "structure" | "vocabulary" | "sentences" | "punctuation" | "spelling";
+
+// Each scored 1-5 against the student's year level
+export type WritingRubric = Partial<Record<RubricCriterion, number>>;
+
+export const RUBRIC_CRITERIA: { key: RubricCriterion; label: string }[] = [
+  { key: "ideas", label: "Ideas" },
+  { key: "structure", label: "Structure" },
+  { key: "vocabulary", label: "Vocabulary" },
+  { key: "sentences", label: "Sentences" },
+  { key: "punctuation", label: "Punctuation" },
+  { key: "spelling", label: "Spelling" },
+];
+
+export function countWords(text: string | null | undefined): number {
+  return (text || "").trim().split(/\s+/).filter((word) => word.length > 0).length;
+}
+
+/** How many annotations of each type a piece of writing got. */
+export function countAnnotationsByType(annotations: WritingAnnotation[] | undefined): Record<WritingAnnotation["type"], number> {
+  const counts = { spelling: 0, grammar: 0, punctuation: 0, style: 0, praise: 0 };
+  for (const annotation of annotations || []) {
+    if (annotation.type in counts) counts[annotation.type]++;
+  }
+  return counts;
+}
+
+/**
+ * Corrections per 100 words, so long and short pieces compare fairly. Very
+ * short pieces are counted as 50 words to stop one slip looking like a trend.
+ */
+export function getErrorRate(count: number, wordCount: number): number {
+  return Math.round((count / Math.max(wordCount, 50)) * 1000) / 10;
+}
@@ -0,0 +1,20 @@
+/**
+ * Year level and NSW stage utilities (Years 3–8)
+ */
+
+export type Stage = "Stage 2" | "Stage 3" | "Stage 4";
+
+export const YEAR_LEVELS = ["Year 3", "Year 4", "Year 5", "Year 6", "Year 7", "Year 8"];
+
+export const DEFAULT_YEAR_LEVEL = "Year 5";
+
+/**
+ * NSW stage for a year level: Stage 2 is Years 3–4, Stage 3 is Years 5–6
+ * and Stage 4 is Years 7–8. Unknown values fall back to Stage 3.
+ */
+export function getStage(yearLevel?: string | null): Stage {
+  const year = parseInt((yearLevel || "").replace(/\D/g, ""), 10);
+  if (year <= 4) return "Stage 2";
+  if (year >= 7) return "Stage 4";
+  return "Stage 3";
+}
@@ -127,7 +127,7 @@ export default function AITransparency() {
           <h3>4.1 What data is sent to the AI model</h3>
           <ul>
             <li>Topic and subject name (e.g. 'Fractions', 'Maths')</li>
-            <li>Year level (e.g. 'Year 5' or 'Year 6')</li>
+            <li>Year level (Year 3 to Year 8)</li>
             <li>Student's XP progress within a topic</li>
             <li>Student's typed writing responses (for writing assessment)</li>
             <li>Images submitted by the student (photos or drawings)</li>
@@ -216,7 +216,7 @@ export default function AITransparency() {
           </ul>
 
           <h2>8. Curriculum Alignment and Content Safety</h2>
-          <p>All AI-generated lesson content is anchored to the NSW Mathematics Stage 3 curriculum and general Australian primary English standards. Content safety measures built into our AI prompts include:</p>
+          <p>All AI-generated lesson content is anchored to the NSW syllabus outcomes mapped to each topic across English, Mathematics, Science & Technology, Geography and History. Content safety measures built into our AI prompts include:</p>
           <ul>
             <li>The AI is instructed to use Australian English spelling and Australian contexts</li>
             <li>All AI responses are required to be age-appropriate for school aged students</li>
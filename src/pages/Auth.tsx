@@ -1,7 +1,7 @@
 import { useState } from "react";
 import dingoLogo from "@/assets/dingo-logo.png";
 import { useNavigate, Navigate } from "react-router-dom";
-import { useAuth } from "@/contexts/AuthContext";
+import { useAuth, type AccountType } from "@/contexts/AuthContext";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -13,6 +13,7 @@ export default function Auth() {
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [firstName, setFirstName] = useState("");
+  const [accountType, setAccountType] = useState<AccountType>("student");
   const [promoCode, setPromoCode] = useState("");
   const [showPromoField, setShowPromoField] = useState(false);
   const [loading, setLoading] = useState(false);
@@ -48,7 +49,7 @@ export default function Auth() {
           return;
         }
         
-        const { error } = await signUp(email, password, firstName);
+        const { error } = await signUp(email, password, firstName, accountType);
         if (error) {
           if (error.message.includes("already registered")) {
             toast.error("This email is already registered. Try logging in!");
@@ -61,7 +62,9 @@ export default function Auth() {
             sessionStorage.setItem("dingo_promo_code", promoCode.trim().toUpperCase());
           }
           toast.success("Welcome to Dingo Dojo! 🦊");
-          navigate("/onboarding");
+          navigate(
+            accountType === "teacher" ? "/classroom" : accountType === "parent" ? "/dashboard" : "/onboarding"
+          );
         }
       }
     } catch (err) {
@@ -99,6 +102,30 @@ export default function Auth() {
         {/* Auth Form */}
         <div className="bento-card bg-card p-8 animate-slide-up stagger-2">
           <form onSubmit={handleSubmit} className="space-y-5">
+            {!isLogin && (
+              <div className="grid grid-cols-3 gap-2">
+                {([
+                  { type: "student", emoji: "🥋", label: "I'm a student" },
+                  { type: "parent", emoji: "👪", label: "I'm a parent" },
+                  { type: "teacher", emoji: "🍎", label: "I'm a teacher" },
+                ] as const).map((opt) => (
+                  <button
+                    key={opt.type}
+                    type="button"
+                    onClick={() => setAccountType(opt.type)}
+                    className={`p-3 rounded-xl border-2 transition-all text-center ${
+                      accountType === opt.type
+                        ? "border-primary bg-primary/5"
+                        : "border-border hover:border-primary/50"
+                    }`}
+                  >
+                    <span className="text-2xl block">{opt.emoji}</span>
+                    <span className="text-sm font-semibold text-foreground">{opt.label}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+
             {!isLogin && (
               <div className="space-y-2">
                 <Label htmlFor="firstName" className="text-base font-semibold">
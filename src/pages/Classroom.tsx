@@ -0,0 +1,445 @@
+import { useEffect, useState } from "react";
+import dingoLogo from "@/assets/dingo-logo.png";
+import { useNavigate } from "react-router-dom";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "sonner";
+import { LogOut, Plus, Users, BookOpen, Trash2, Copy, Printer } from "lucide-react";
+
+interface TeacherProfile {
+  id: string;
+  first_name: string | null;
+  account_type: string;
+}
+
+interface ClassRow {
+  id: string;
+  name: string;
+  join_code: string;
+}
+
+interface TopicOption {
+  id: string;
+  name: string;
+  emoji: string | null;
+  subjectName: string;
+}
+
+interface Assignment {
+  id: string;
+  topic_id: string;
+  due_date: string | null;
+}
+
+interface StudentRow {
+  id: string;
+  first_name: string | null;
+  total_xp: number;
+  missions: number;
+  topicXp: Record<string, number>;
+  latestScore: { score: number; max: number; topic: string | null } | null;
+}
+
+export default function Classroom() {
+  const { user, signOut, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const [teacher, setTeacher] = useState<TeacherProfile | null>(null);
+  const [classes, setClasses] = useState<ClassRow[]>([]);
+  const [activeClassId, setActiveClassId] = useState<string | null>(null);
+  const [topics, setTopics] = useState<TopicOption[]>([]);
+  const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [students, setStudents] = useState<StudentRow[]>([]);
+  const [newClassName, setNewClassName] = useState("");
+  const [newTopicId, setNewTopicId] = useState("");
+  const [newDueDate, setNewDueDate] = useState("");
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate("/auth");
+    }
+  }, [user, authLoading, navigate]);
+
+  useEffect(() => {
+    if (user) fetchData();
+  }, [user]);
+
+  useEffect(() => {
+    if (activeClassId) fetchClassData(activeClassId);
+  }, [activeClassId]);
+
+  const fetchData = async () => {
+    try {
+      const { data: profileData } = await supabase
+        .from("user_profiles")
+        .select("id, first_name, account_type")
+        .eq("user_id", user?.id)
+        .maybeSingle();
+
+      if (!profileData || profileData.account_type !== "teacher") {
+        navigate("/dashboard");
+        return;
+      }
+      setTeacher(profileData as TeacherProfile);
+
+      const [classesRes, topicsRes] = await Promise.all([
+        supabase
+          .from("classes")
+          .select("id, name, join_code")
+          .eq("teacher_id", profileData.id)
+          .order("created_at"),
+        supabase.from("topics").select("id, name, emoji, order_index, subjects!inner(name)").order("order_index"),
+      ]);
+
+      const classList = classesRes.data || [];
+      setClasses(classList);
+      if (classList.length > 0) setActiveClassId(classList[0].id);
+
+      setTopics(
+        (topicsRes.data || [])
+          .map((t) => ({
+            id: t.id,
+            name: t.name,
+            emoji: t.emoji,
+            subjectName: (t.subjects as { name: string }).name,
+          }))
+          .sort((a, b) => a.subjectName.localeCompare(b.subjectName))
+      );
+    } catch (err) {
+      console.error("Error fetching classroom:", err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchClassData = async (classId: string) => {
+    try {
+      const [membersRes, assignmentsRes] = await Promise.all([
+        supabase.from("class_members").select("student_id").eq("class_id", classId),
+        supabase
+          .from("class_assignments")
+          .select("id, topic_id, due_date")
+          .eq("class_id", classId)
+          .order("due_date", { ascending: true, nullsFirst: false }),
+      ]);
+
+      setAssignments(assignmentsRes.data || []);
+
+      const studentIds = (membersRes.data || []).map((m) => m.student_id);
+      if (studentIds.length === 0) {
+        setStudents([]);
+        return;
+      }
+
+      const [profilesRes, progressRes, submissionsRes] = await Promise.all([
+        supabase.rpc("get_student_profiles", { _student_ids: studentIds }),
+        supabase
+          .from("student_progress")
+          .select("student_id, topic_id, xp_earned, missions_this_week")
+          .in("student_id", studentIds),
+        supabase
+          .from("submissions")
+          .select("profile_id, topic_name, content_score, content_max_score, created_at")
+          .in("profile_id", studentIds)
+          .not("content_score", "is", null)
+          .order("created_at", { ascending: false })
+          .limit(200),
+      ]);
+
+      const rows: StudentRow[] = (profilesRes.data || []).map((p) => {
+        const progress = (progressRes.data || []).filter((sp) => sp.student_id === p.id);
+        const latest = (submissionsRes.data || []).find((s) => s.profile_id === p.id);
+        return {
+          id: p.id,
+          first_name: p.first_name,
+          total_xp: p.total_xp || 0,
+          missions: progress.reduce((sum, sp) => sum + (sp.missions_this_week || 0), 0),
+          topicXp: Object.fromEntries(progress.map((sp) => [sp.topic_id, sp.xp_earned || 0])),
+          latestScore: latest
+            ? { score: latest.content_score!, max: latest.content_max_score || 0, topic: latest.topic_name }
+            : null,
+        };
+      });
+
+      setStudents(rows.sort((a, b) => (a.first_name || "").localeCompare(b.first_name || "")));
+    } catch (err) {
+      console.error("Error fetching class data:", err);
+    }
+  };
+
+  const handleCreateClass = async () => {
+    if (!teacher || !newClassName.trim()) return;
+    const { data, error } = await supabase
+      .from("classes")
+      .insert({ teacher_id: teacher.id, name: newClassName.trim() })
+      .select("id, name, join_code")
+      .single();
+
+    if (error || !data) {
+      toast.error("Couldn't create class. Please try again.");
+      return;
+    }
+    setClasses((prev) => [...prev, data]);
+    setActiveClassId(data.id);
+    setNewClassName("");
+    toast.success(`Class created! Join code: ${data.join_code}`);
+  };
+
+  const handleAssignTopic = async () => {
+    if (!activeClassId || !newTopicId) return;
+    const { error } = await supabase.from("class_assignments").upsert(
+      { class_id: activeClassId, topic_id: newTopicId, due_date: newDueDate || null },
+      { onConflict: "class_id,topic_id" }
+    );
+
+    if (error) {
+      toast.error("Couldn't assign topic. Please try again.");
+      return;
+    }
+    setNewTopicId("");
+    setNewDueDate("");
+    fetchClassData(activeClassId);
+  };
+
+  const handleRemoveAssignment = async (assignmentId: string) => {
+    await supabase.from("class_assignments").delete().eq("id", assignmentId);
+    setAssignments((prev) => prev.filter((a) => a.id !== assignmentId));
+  };
+
+  const handleLogout = async () => {
+    await signOut();
+    navigate("/auth");
+  };
+
+  const formatDate = (dateStr: string) =>
+    new Date(dateStr).toLocaleDateString("en-AU", { day: "numeric", month: "short" });
+
+  const activeClass = classes.find((c) => c.id === activeClassId) || null;
+  const topicById = (id: string) => topics.find((t) => t.id === id);
+
+  if (authLoading || loading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="text-center">
+          <img src={dingoLogo} alt="Dingo Dojo" className="w-16 h-16 mx-auto animate-float mb-4" />
+          <p className="text-muted-foreground text-lg animate-pulse">Loading your classroom...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-8">
+      <div className="max-w-6xl mx-auto space-y-6">
+        {/* Header */}
+        <header className="flex items-center justify-between animate-slide-up">
+          <div className="flex items-center gap-4">
+            <img src={dingoLogo} alt="Dingo Dojo" className="w-16 h-16 animate-float" />
+            <div>
+              <h1 className="text-2xl md:text-3xl font-display font-bold text-foreground">Classroom</h1>
+              <p className="text-muted-foreground">G'day, {teacher?.first_name || "Teacher"}</p>
+            </div>
+          </div>
+          <Button variant="outline" size="sm" onClick={handleLogout} className="rounded-xl gap-2">
+            <LogOut className="w-4 h-4" />
+            <span className="hidden sm:inline">Logout</span>
+          </Button>
+        </header>
+
+        {/* Class picker + create */}
+        <div className="bento-card bg-card p-6 animate-slide-up stagger-1">
+          <div className="flex flex-wrap items-center gap-2 mb-4">
+            {classes.map((c) => (
+              <button
+                key={c.id}
+                onClick={() => setActiveClassId(c.id)}
+                className={`px-4 py-2 rounded-xl border-2 font-semibold transition-all ${
+                  c.id === activeClassId
+                    ? "border-primary bg-primary/10 text-foreground"
+                    : "border-border text-muted-foreground hover:border-primary/50"
+                }`}
+              >
+                {c.name}
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <Input
+              placeholder="New class name (e.g. 5/6 Banksia)"
+              value={newClassName}
+              onChange={(e) => setNewClassName(e.target.value)}
+              className="h-11 rounded-xl"
+            />
+            <Button onClick={handleCreateClass} disabled={!newClassName.trim()} className="rounded-xl gap-2">
+              <Plus className="w-4 h-4" />
+              Create
+            </Button>
+          </div>
+        </div>
+
+        {activeClass && (
+          <>
+            {/* Join code */}
+            <div className="bento-card bg-card p-6 flex items-center justify-between animate-slide-up stagger-2">
+              <div>
+                <p className="text-sm text-muted-foreground">Students join {activeClass.name} with this code</p>
+                <p className="text-2xl font-mono font-bold tracking-widest text-foreground">{activeClass.join_code}</p>
+              </div>
+              <Button
+                variant="outline"
+                size="icon"
+                className="rounded-xl"
+                onClick={() => {
+                  navigator.clipboard.writeText(activeClass.join_code);
+                  toast.success("Join code copied!");
+                }}
+              >
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+
+            {/* Assignments */}
+            <div className="bento-card bg-card p-6 animate-slide-up stagger-3">
+              <h2 className="text-lg font-display font-bold text-foreground mb-4 flex items-center gap-2">
+                <BookOpen className="w-5 h-5 text-primary" /> Assigned Topics
+              </h2>
+              <div className="space-y-2 mb-4">
+                {assignments.length === 0 && (
+                  <p className="text-sm text-muted-foreground">No topics assigned yet.</p>
+                )}
+                {assignments.map((a) => {
+                  const topic = topicById(a.topic_id);
+                  return (
+                    <div key={a.id} className="flex items-center justify-between p-3 rounded-xl bg-muted/50">
+                      <span className="text-sm text-foreground">
+                        {topic?.emoji} {topic?.name}{" "}
+                        <span className="text-muted-foreground">• {topic?.subjectName}</span>
+                      </span>
+                      <div className="flex items-center gap-2">
+                        <span className="text-xs text-muted-foreground">
+                          {a.due_date ? `Due ${formatDate(a.due_date)}` : "No due date"}
+                        </span>
+                        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleRemoveAssignment(a.id)}>
+                          <Trash2 className="w-4 h-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Select value={newTopicId} onValueChange={setNewTopicId}>
+                  <SelectTrigger className="h-11 rounded-xl">
+                    <SelectValue placeholder="Choose a topic" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {topics.map((t) => (
+                      <SelectItem key={t.id} value={t.id}>
+                        {t.subjectName} — {t.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="date"
+                  value={newDueDate}
+                  onChange={(e) => setNewDueDate(e.target.value)}
+                  className="h-11 rounded-xl sm:w-48"
+                />
+                <Button onClick={handleAssignTopic} disabled={!newTopicId} className="rounded-xl">
+                  Assign
+                </Button>
+              </div>
+            </div>
+
+            {/* Student grid */}
+            <div className="bento-card bg-card p-6 animate-slide-up stagger-4">
+              <h2 className="text-lg font-display font-bold text-foreground mb-4 flex items-center gap-2">
+                <Users className="w-5 h-5 text-primary" /> Students ({students.length})
+              </h2>
+              {students.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No students yet — share the join code above. Students enter it on their Profile page.
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Student</TableHead>
+                      <TableHead className="text-right">Total XP</TableHead>
+                      <TableHead className="text-right">Missions this week</TableHead>
+                      {assignments.map((a) => (
+                        <TableHead key={a.id} className="text-center whitespace-nowrap">
+                          {topicById(a.topic_id)?.emoji} {topicById(a.topic_id)?.name}
+                        </TableHead>
+                      ))}
+                      <TableHead>Latest writing score</TableHead>
+                      <TableHead className="w-10" />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {students.map((s) => (
+                      <TableRow key={s.id}>
+                        <TableCell className="font-semibold">{s.first_name || "Student"}</TableCell>
+                        <TableCell className="text-right">{s.total_xp.toLocaleString()}</TableCell>
+                        <TableCell className="text-right">{s.missions}</TableCell>
+                        {assignments.map((a) => {
+                          const xp = s.topicXp[a.topic_id] || 0;
+                          return (
+                            <TableCell key={a.id} className={`text-center ${xp > 0 ? "text-foreground" : "text-muted-foreground"}`}>
+                              {xp > 0 ? `${xp} XP` : "—"}
+                            </TableCell>
+                          );
+                        })}
+                        <TableCell>
+                          {s.latestScore ? (
+                            <span>
+                              {s.latestScore.score}/{s.latestScore.max}
+                              {s.latestScore.topic && (
+                                <span className="text-xs text-muted-foreground ml-1">({s.latestScore.topic})</span>
+                              )}
+                            </span>
+                          ) : (
+                            <span className="text-muted-foreground">—</span>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => navigate(`/report?student=${s.id}`)}
+                            title="Progress report"
+                          >
+                            <Printer className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => navigate(`/portfolio?student=${s.id}`)}
+                            title="Writing portfolio"
+                          >
+                            <BookOpen className="w-4 h-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -6,7 +6,7 @@ import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
-import { Flame, Trophy, LogOut, Zap, Settings, Crown, Star, Sparkles, Play, BarChart2, PenTool, User } from "lucide-react";
+import { Flame, Trophy, LogOut, Zap, Settings, Crown, Star, Sparkles, Play, BarChart2, PenTool, User, RotateCcw, ChevronRight, MessageSquare } from "lucide-react";
 import { HomeworkHelpDrawer } from "@/components/HomeworkHelpDrawer";
 import { toast } from "sonner";
 import { ProgressRing } from "@/components/ProgressRing";
@@ -21,12 +21,19 @@ import {
   TERMS_2026,
 } from "@/lib/weeklyGoalUtils";
 import { useSmartMission } from "@/hooks/useSmartMission";
+import type { TopicPrerequisite } from "@/lib/skillTreeUtils";
+import { useReviewQueue } from "@/hooks/useReviewQueue";
+import { useResumableSession } from "@/hooks/useResumableSession";
 import { MyBadges } from "@/components/MyBadges";
 import { DojoCrew } from "@/components/DojoCrew";
 import { StripeCheckoutModal } from "@/components/StripeCheckoutModal";
-import { getDojoBelt, getNextDojoBelt, getDojoProgress, DOJO_BELT_LEVELS, getSubjectBelt } from "@/lib/beltUtils";
+import { ParentDashboard } from "@/components/ParentDashboard";
+import { ClassAssignments } from "@/components/ClassAssignments";
+import { getDojoBelt, getNextDojoBelt, getDojoProgress, getDojoBeltLevels, getSubjectBelt } from "@/lib/beltUtils";
+import { DEFAULT_YEAR_LEVEL } from "@/lib/yearLevelUtils";
 import { getMasteryLevel } from "@/lib/progressUtils";
 import { LineChart, Line, XAxis, YAxis, CartesianGrid } from "recharts";
+import { formatDistanceToNow } from "date-fns";
 import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
 
 interface Profile {
@@ -44,6 +51,7 @@ interface Profile {
   last_mission_date: string | null;
   subscription_tier: string;
   onboarding_completed: boolean;
+  account_type: string;
 }
 
 interface Subject {
@@ -81,6 +89,7 @@ export default function Dashboard() {
   const [subjects, setSubjects] = useState<Subject[]>([]);
   const [subjectXps, setSubjectXps] = useState<Record<string, number>>({});
   const [topics, setTopics] = useState<Topic[]>([]);
+  const [prerequisites, setPrerequisites] = useState<TopicPrerequisite[]>([]);
   const [topicProgressData, setTopicProgressData] = useState<TopicProgress[]>([]);
   const [loading, setLoading] = useState(true);
   const [checkoutModalOpen, setCheckoutModalOpen] = useState(false);
@@ -151,6 +160,17 @@ export default function Dashboard() {
           return;
         }
 
+        if (profileData.account_type === "teacher") {
+          navigate("/classroom");
+          return;
+        }
+
+        // Parents get a read-only view of their linked children instead of the dojo
+        if (profileData.account_type === "parent") {
+          setProfile(profileData as unknown as Profile);
+          return;
+        }
+
         const currentWeekStart = getSydneyWeekStart();
         const wasNewWeek = isNewWeek(profileData.week_start_date);
 
@@ -247,11 +267,12 @@ export default function Dashboard() {
           weekly_xp_goal: updatedProfile.weekly_xp_goal || 500,
           vacation_passes: updatedProfile.vacation_passes ?? 2,
           last_term_replenish_date: updatedProfile.last_term_replenish_date || null,
-          grade_level: updatedProfile.grade_level || "Year 5",
+          grade_level: updatedProfile.grade_level || DEFAULT_YEAR_LEVEL,
           week_start_date: updatedProfile.week_start_date || null,
           last_mission_date: updatedProfile.last_mission_date || null,
           subscription_tier: updatedProfile.subscription_tier || "explorer",
           onboarding_completed: updatedProfile.onboarding_completed || false,
+          account_type: updatedProfile.account_type || "student",
         });
 
         const { data: subjectsData } = await supabase.from("subjects").select("*").order("name");
@@ -263,6 +284,11 @@ export default function Dashboard() {
           
           if (topicsData) {
             setTopics(topicsData);
+
+            const { data: prerequisiteData } = await supabase
+              .from("topic_prerequisites")
+              .select("topic_id, prerequisite_id");
+            setPrerequisites(prerequisiteData || []);
             
             const { data: progressData } = await supabase
               .from("student_progress")
@@ -393,9 +419,9 @@ export default function Dashboard() {
   }, [topicProgressData]);
 
   const totalXp = profile?.total_xp || 0;
-  const dojoBelt = getDojoBelt(totalXp);
-  const nextDojoBelt = getNextDojoBelt(totalXp);
-  const dojoProgress = getDojoProgress(totalXp);
+  const dojoBelt = getDojoBelt(totalXp, profile?.grade_level);
+  const nextDojoBelt = getNextDojoBelt(totalXp, profile?.grade_level);
+  const dojoProgress = getDojoProgress(totalXp, profile?.grade_level);
   const bestStreak = profile?.best_streak || 0;
 
   const coreXp = useMemo(() => {
@@ -467,7 +493,9 @@ export default function Dashboard() {
     }).filter(t => prioritySubjects.includes(t.subjectSlug));
   }, [topics, subjects, topicProgressData]);
 
-  const smartMission = useSmartMission({ topicProgress: smartMissionTopics });
+  const smartMission = useSmartMission({ topicProgress: smartMissionTopics, prerequisites });
+  const reviewQueue = useReviewQueue(profile?.id || null);
+  const resumableSession = useResumableSession(profile?.id || null);
 
   const handleStartSmartMission = () => {
     if (smartMission) {
@@ -486,6 +514,10 @@ export default function Dashboard() {
     );
   }
 
+  if (profile?.account_type === "parent") {
+    return <ParentDashboard parent={profile} onLogout={handleLogout} />;
+  }
+
   return (
     <div className="min-h-screen bg-background">
       {/* Wavy Header Background */}
@@ -499,11 +531,11 @@ export default function Dashboard() {
                   <h1 className="text-2xl md:text-3xl font-display font-bold text-primary-foreground drop-shadow-sm">
                     G'day, {profile?.first_name || "Ninja"}!
                   </h1>
-                  <p className="text-primary-foreground/75">{profile?.grade_level || "Year 5"} • The Dojo</p>
+                  <p className="text-primary-foreground/75">{profile?.grade_level || DEFAULT_YEAR_LEVEL} • The Dojo</p>
                 </div>
               </div>
               <div className="flex items-center gap-1">
-                <HomeworkHelpDrawer gradeLevel={profile?.grade_level || "Year 5"} subscriptionTier={profile?.subscription_tier} />
+                <HomeworkHelpDrawer profileId={profile?.id} gradeLevel={profile?.grade_level || DEFAULT_YEAR_LEVEL} subscriptionTier={profile?.subscription_tier} />
                 <DropdownMenu>
                   <DropdownMenuTrigger asChild>
                     <Button variant="ghost" size="icon" className="rounded-xl text-primary-foreground hover:bg-white/20 w-12 h-12">
@@ -515,6 +547,10 @@ export default function Dashboard() {
                       <BarChart2 className="w-4 h-4" />
                       Progress Report
                     </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => navigate("/questions")} className="gap-2 cursor-pointer">
+                      <MessageSquare className="w-4 h-4" />
+                      My Questions
+                    </DropdownMenuItem>
                     <DropdownMenuItem onClick={() => navigate("/profile")} className="gap-2 cursor-pointer">
                       <User className="w-4 h-4" />
                       Profile
@@ -577,6 +613,8 @@ export default function Dashboard() {
           </div>
         )}
 
+        <ClassAssignments profileId={profile?.id || null} />
+
         {/* Stats Row — 4 clickable cards */}
         <div className={`grid ${handwritingHistory.length > 0 ? 'grid-cols-2 sm:grid-cols-4' : 'grid-cols-1 sm:grid-cols-3'} gap-4 mb-8`}>
           {/* Card 1: Dojo Rank */}
@@ -658,6 +696,33 @@ export default function Dashboard() {
         </div>
 
 
+        {/* A mission left part-way, on this device or another */}
+        {resumableSession && (
+          <section className="mb-8 animate-slide-up stagger-5">
+            <button
+              onClick={() => navigate(`/learn/${resumableSession.subjectSlug}/${resumableSession.topicSlug}`)}
+              className="w-full bento-card flex items-center justify-between gap-4 text-left hover:border-primary/50 transition-all"
+            >
+              <div className="flex items-center gap-4 min-w-0">
+                <div className="w-12 h-12 rounded-2xl bg-ochre/15 flex items-center justify-center text-2xl shrink-0">
+                  {resumableSession.topicEmoji}
+                </div>
+                <div className="min-w-0">
+                  <h3 className="font-display font-bold text-foreground">Continue where you left off</h3>
+                  <p className="text-sm text-muted-foreground truncate">
+                    {resumableSession.topicName} · {resumableSession.progress}% done
+                    {resumableSession.earnedXp > 0 && ` · ${resumableSession.earnedXp} XP so far`}
+                  </p>
+                  <p className="text-[10px] text-muted-foreground">
+                    Last worked on {formatDistanceToNow(new Date(resumableSession.updatedAt), { addSuffix: true })}
+                  </p>
+                </div>
+              </div>
+              <ChevronRight className="w-5 h-5 text-muted-foreground shrink-0" />
+            </button>
+          </section>
+        )}
+
         {/* Start Training Button */}
         {smartMission && (
           <section className="mb-8 animate-slide-up stagger-5">
@@ -686,6 +751,49 @@ export default function Dashboard() {
           </section>
         )}
 
+        {/* Spaced-repetition review of missed questions */}
+        {reviewQueue && (
+          <section className="mb-8 animate-slide-up stagger-5">
+            <button
+              onClick={() => navigate(`/review/${reviewQueue.subjectSlug}/${reviewQueue.topicSlug}`)}
+              className="w-full bento-card flex items-center justify-between gap-4 text-left hover:border-primary/50 transition-all"
+            >
+              <div className="flex items-center gap-4">
+                <div className="w-12 h-12 rounded-2xl bg-sky/15 flex items-center justify-center">
+                  <RotateCcw className="w-6 h-6 text-sky" />
+                </div>
+                <div>
+                  <h3 className="font-display font-bold text-foreground">Quick Review</h3>
+                  <p className="text-sm text-muted-foreground">
+                    {reviewQueue.dueCount} question{reviewQueue.dueCount === 1 ? "" : "s"} due from {reviewQueue.topicName}
+                    {reviewQueue.totalDue > reviewQueue.dueCount && ` · ${reviewQueue.totalDue} due in total`}
+                  </p>
+                </div>
+              </div>
+              <ChevronRight className="w-5 h-5 text-muted-foreground" />
+            </button>
+          </section>
+        )}
+
+        {/* Traced letter drills */}
+        <section className="mb-8 animate-slide-up stagger-5">
+          <button
+            onClick={() => navigate("/handwriting")}
+            className="w-full bento-card flex items-center justify-between gap-4 text-left hover:border-primary/50 transition-all"
+          >
+            <div className="flex items-center gap-4">
+              <div className="w-12 h-12 rounded-2xl bg-eucalyptus/15 flex items-center justify-center">
+                <PenTool className="w-6 h-6 text-eucalyptus" />
+              </div>
+              <div>
+                <h3 className="font-display font-bold text-foreground">Handwriting Practice</h3>
+                <p className="text-sm text-muted-foreground">Trace NSW Foundation Style letters and words</p>
+              </div>
+            </div>
+            <ChevronRight className="w-5 h-5 text-muted-foreground" />
+          </button>
+        </section>
+
         {/* Subject Cards */}
         <section className="animate-slide-up stagger-6">
           <h2 className="text-xl font-display font-bold mb-5 text-foreground flex items-center gap-2">
@@ -808,11 +916,7 @@ export default function Dashboard() {
 
         {/* Badges & Dojo Crew */}
         <section className="mt-8 grid grid-cols-1 md:grid-cols-2 gap-4 animate-slide-up stagger-7">
-          <MyBadges
-            profileId={profile?.id || null}
-            currentStreak={profile?.current_streak || 0}
-            totalXp={profile?.total_xp || 0}
-          />
+          <MyBadges profileId={profile?.id || null} />
           <DojoCrew
             profileId={profile?.id || null}
             firstName={profile?.first_name || null}
@@ -862,7 +966,7 @@ export default function Dashboard() {
               )}
               <div className="space-y-1.5 pt-2 border-t border-border">
                 <p className="text-xs font-semibold text-muted-foreground mb-2">Belt Tiers</p>
-                {DOJO_BELT_LEVELS.map(belt => (
+                {getDojoBeltLevels(profile?.grade_level).map(belt => (
                   <div key={belt.name} className={`flex items-center justify-between py-1.5 px-2 rounded-lg text-sm ${belt.name === dojoBelt.name ? 'bg-primary/10 ring-1 ring-primary/30' : '' }`}>
                     <span className="flex items-center gap-2">
                       <span className={`w-4 h-4 rounded-full inline-block ${belt.colorClass}`} />
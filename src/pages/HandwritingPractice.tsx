@@ -0,0 +1,371 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { ArrowLeft, CheckCircle2, ChevronRight, PenTool, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { DrawingCanvas } from "@/components/DrawingCanvas";
+import type { Json } from "@/integrations/supabase/types";
+import type { StrokeRecording } from "@/lib/strokeUtils";
+import {
+  buildDrill,
+  checkTracing,
+  getWeakestDimension,
+  HANDWRITING_DIMENSIONS,
+  layoutTemplate,
+  LETTER_STATUS_LABELS,
+  type HandwritingDimension,
+  type PracticeItem,
+  type TracingResult,
+} from "@/lib/handwritingUtils";
+
+interface PracticeProfile {
+  id: string;
+  first_name: string | null;
+}
+
+interface PracticeSession {
+  id: string;
+  focus: string;
+  items: PracticeItem[];
+  formation_score: number;
+  sizing_score: number;
+  created_at: string;
+}
+
+type Phase = "choose" | "practice" | "done";
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString("en-AU", { day: "numeric", month: "short" });
+
+const dimensionLabel = (key: string) => HANDWRITING_DIMENSIONS.find(d => d.key === key)?.label || key;
+
+const average = (values: number[]) => Math.round(values.reduce((sum, v) => sum + v, 0) / Math.max(values.length, 1));
+
+export default function HandwritingPractice() {
+  const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  // Parents and teachers see a student's practice history with ?student=<profile id>
+  const studentId = searchParams.get("student");
+
+  const [profile, setProfile] = useState<PracticeProfile | null>(null);
+  const [sessions, setSessions] = useState<PracticeSession[]>([]);
+  const [suggested, setSuggested] = useState<HandwritingDimension>("letter_formation");
+  const [dimension, setDimension] = useState<HandwritingDimension>("letter_formation");
+  const [drill, setDrill] = useState<{ focus: string; items: string[] } | null>(null);
+  const [itemIndex, setItemIndex] = useState(0);
+  // Bumped to clear the canvas for another go at the same item
+  const [attempt, setAttempt] = useState(0);
+  const [result, setResult] = useState<TracingResult | null>(null);
+  // The best go at each item so far
+  const [bestResults, setBestResults] = useState<TracingResult[]>([]);
+  const [phase, setPhase] = useState<Phase>("choose");
+  const [saving, setSaving] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const getStrokesRef = useRef<(() => StrokeRecording | null) | null>(null);
+
+  useEffect(() => {
+    if (!authLoading && !user) navigate("/auth");
+  }, [user, authLoading, navigate]);
+
+  useEffect(() => {
+    if (user) fetchPractice();
+  }, [user, studentId]);
+
+  const fetchPractice = async () => {
+    try {
+      const query = supabase.from("profiles").select("id, first_name");
+      const { data: profileData } = studentId
+        ? await supabase.rpc("get_student_profiles", { _student_ids: [studentId] }).maybeSingle()
+        : await query.eq("user_id", user!.id).maybeSingle();
+
+      if (!profileData) {
+        navigate("/dashboard");
+        return;
+      }
+      setProfile(profileData);
+
+      const [hwRes, practiceRes] = await Promise.all([
+        supabase
+          .from("handwriting_submissions")
+          .select("letter_formation, spacing_sizing, presentation")
+          .eq("profile_id", profileData.id)
+          .order("created_at", { ascending: false })
+          .limit(5),
+        supabase
+          .from("handwriting_practice")
+          .select("*")
+          .eq("profile_id", profileData.id)
+          .order("created_at", { ascending: false })
+          .limit(20),
+      ]);
+
+      const weakest = getWeakestDimension(hwRes.data || []);
+      setSuggested(weakest);
+      setDimension(weakest);
+      setSessions(
+        (practiceRes.data || []).map(session => ({
+          ...session,
+          items: Array.isArray(session.items) ? (session.items as unknown as PracticeItem[]) : [],
+        }))
+      );
+    } catch (err) {
+      console.error("Error fetching handwriting practice:", err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCanvasReady = useCallback((_getDataUrl: () => string | null, getStrokes: () => StrokeRecording | null) => {
+    getStrokesRef.current = getStrokes;
+  }, []);
+
+  const startPractice = () => {
+    // Letter drills aim at whatever went wrong in the last few sessions
+    const recentItems = sessions.slice(0, 3).flatMap(s => s.items);
+    setDrill(buildDrill(dimension, recentItems, sessions.length));
+    setItemIndex(0);
+    setAttempt(0);
+    setResult(null);
+    setBestResults([]);
+    setPhase("practice");
+  };
+
+  const checkItem = () => {
+    const recording = getStrokesRef.current?.();
+    if (!drill || !recording) {
+      toast.error("Trace the letters first!");
+      return;
+    }
+    const layout = layoutTemplate(drill.items[itemIndex], recording.width, recording.height);
+    const checked = checkTracing(layout, recording.strokes);
+    setResult(checked);
+    setBestResults(prev => {
+      const best = prev[itemIndex];
+      const next = [...prev];
+      if (!best || checked.formation + checked.sizing > best.formation + best.sizing) next[itemIndex] = checked;
+      return next;
+    });
+  };
+
+  const tryAgain = () => {
+    setResult(null);
+    setAttempt(a => a + 1);
+  };
+
+  const nextItem = async () => {
+    if (!drill || !profile) return;
+    if (itemIndex < drill.items.length - 1) {
+      setItemIndex(itemIndex + 1);
+      setAttempt(0);
+      setResult(null);
+      return;
+    }
+
+    setSaving(true);
+    const items: PracticeItem[] = drill.items.map((text, i) => ({ text, letters: bestResults[i]?.letters || [] }));
+    const { data, error } = await supabase
+      .from("handwriting_practice")
+      .insert({
+        profile_id: profile.id,
+        focus: dimension,
+        items: items as unknown as Json,
+        formation_score: average(bestResults.map(r => r.formation)),
+        sizing_score: average(bestResults.map(r => r.sizing)),
+      })
+      .select("*")
+      .single();
+    setSaving(false);
+    if (error || !data) {
+      console.error("Error saving handwriting practice:", error);
+      toast.error("Couldn't save your practice. Please try again.");
+      return;
+    }
+    setSessions(prev => [{ ...data, items }, ...prev]);
+    setPhase("done");
+  };
+
+  if (authLoading || loading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="text-center">
+          <div className="text-6xl animate-float mb-4">✍️</div>
+          <p className="text-muted-foreground text-lg animate-pulse">Loading handwriting practice...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const latest = sessions[0];
+  // Letters that still weren't right after the best go at them
+  const lettersToPractise = latest
+    ? [...new Set(latest.items.flatMap(item => item.letters.filter(l => l.status !== "good").map(l => l.char)))]
+    : [];
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-8">
+      <div className="max-w-2xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center gap-4 mb-8">
+          <Button variant="ghost" size="icon" onClick={() => navigate(-1)} className="rounded-xl">
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div>
+            <h1 className="text-2xl md:text-3xl font-display font-bold text-foreground">Handwriting Practice</h1>
+            <p className="text-muted-foreground">
+              {studentId && profile?.first_name ? `${profile.first_name}'s practice` : "Trace NSW Foundation Style letters"}
+            </p>
+          </div>
+        </div>
+
+        <div className="space-y-6">
+          {phase === "choose" && !studentId && (
+            <div className="bento-card bg-card p-6 space-y-4 animate-slide-up">
+              <h2 className="text-lg font-display font-bold text-foreground flex items-center gap-2">
+                <PenTool className="w-5 h-5 text-primary" /> Choose a drill
+              </h2>
+              <div className="space-y-2">
+                {HANDWRITING_DIMENSIONS.map(option => (
+                  <button
+                    key={option.key}
+                    onClick={() => setDimension(option.key)}
+                    className={cn(
+                      "w-full text-left rounded-xl border p-3 transition-colors",
+                      dimension === option.key ? "border-primary bg-primary/5" : "border-border/60 bg-muted/30 hover:bg-muted/60"
+                    )}
+                  >
+                    <div className="flex items-center gap-2">
+                      <span className="font-semibold text-foreground">{option.label}</span>
+                      {option.key === suggested && (
+                        <span className="text-xs font-semibold px-2 py-0.5 rounded-full bg-ochre/15 text-ochre">Suggested</span>
+                      )}
+                    </div>
+                    <p className="text-sm text-muted-foreground">{option.description}</p>
+                  </button>
+                ))}
+              </div>
+              <Button onClick={startPractice} className="w-full rounded-xl gap-2">
+                Start practice <ChevronRight className="w-4 h-4" />
+              </Button>
+            </div>
+          )}
+
+          {phase === "practice" && drill && (
+            <div className="bento-card bg-card p-6 space-y-4 animate-slide-up">
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">{drill.focus}</p>
+                  <h2 className="text-2xl font-display font-bold text-foreground">{drill.items[itemIndex]}</h2>
+                </div>
+                <span className="text-sm text-muted-foreground">
+                  {itemIndex + 1} of {drill.items.length}
+                </span>
+              </div>
+              <Progress value={((itemIndex + (result ? 1 : 0)) / drill.items.length) * 100} className="h-2" />
+
+              <DrawingCanvas
+                key={`${itemIndex}-${attempt}`}
+                template={drill.items[itemIndex]}
+                onCanvasReady={handleCanvasReady}
+                disabled={!!result}
+              />
+
+              {result ? (
+                <div className="space-y-3">
+                  <div className="flex gap-2 flex-wrap">
+                    {result.letters.map((letter, i) => (
+                      <div
+                        key={i}
+                        className={cn(
+                          "rounded-xl px-3 py-2 text-sm",
+                          letter.status === "good" ? "bg-eucalyptus/10 text-eucalyptus" : "bg-ochre/10 text-ochre"
+                        )}
+                      >
+                        <span className="font-display font-bold text-lg mr-2">{letter.char}</span>
+                        {LETTER_STATUS_LABELS[letter.status]}
+                      </div>
+                    ))}
+                  </div>
+                  <div className="flex gap-2">
+                    <Button variant="outline" onClick={tryAgain} className="flex-1 rounded-xl gap-2">
+                      <RotateCcw className="w-4 h-4" /> Try again
+                    </Button>
+                    <Button onClick={nextItem} disabled={saving} className="flex-1 rounded-xl gap-2">
+                      {itemIndex < drill.items.length - 1 ? "Next" : saving ? "Saving..." : "Finish"}
+                      <ChevronRight className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <Button onClick={checkItem} className="w-full rounded-xl gap-2">
+                  <CheckCircle2 className="w-4 h-4" /> Check my letters
+                </Button>
+              )}
+            </div>
+          )}
+
+          {phase === "done" && latest && (
+            <div className="bento-card bg-card p-6 space-y-4 text-center animate-slide-up">
+              <div className="text-5xl">🌟</div>
+              <h2 className="text-xl font-display font-bold text-foreground">Practice complete!</h2>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="bg-muted/50 rounded-xl p-4">
+                  <p className="text-3xl font-display font-bold text-foreground">{latest.formation_score}/5</p>
+                  <p className="text-xs text-muted-foreground">Letter Formation</p>
+                </div>
+                <div className="bg-muted/50 rounded-xl p-4">
+                  <p className="text-3xl font-display font-bold text-foreground">{latest.sizing_score}/5</p>
+                  <p className="text-xs text-muted-foreground">Sizing</p>
+                </div>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {lettersToPractise.length > 0
+                  ? `Keep practising: ${lettersToPractise.join(", ")}`
+                  : "Every letter was formed the NSW Foundation way. Brilliant!"}
+              </p>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={() => setPhase("choose")} className="flex-1 rounded-xl">
+                  Practise again
+                </Button>
+                <Button onClick={() => navigate("/dashboard")} className="flex-1 rounded-xl">
+                  Back to dashboard
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {/* History */}
+          {phase !== "practice" && (
+            <div className="bento-card bg-card p-6 animate-slide-up stagger-1">
+              <h2 className="text-lg font-display font-bold text-foreground mb-4">Recent practice</h2>
+              {sessions.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No practice sessions yet.</p>
+              ) : (
+                <div className="space-y-2">
+                  {sessions.slice(0, 10).map(session => (
+                    <div key={session.id} className="flex items-center justify-between gap-3 rounded-xl bg-muted/30 p-3">
+                      <div className="min-w-0">
+                        <p className="font-semibold text-foreground text-sm">{dimensionLabel(session.focus)}</p>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {formatDate(session.created_at)} · {session.items.map(item => item.text).join(" · ")}
+                        </p>
+                      </div>
+                      <div className="text-right text-xs text-muted-foreground shrink-0">
+                        <p>Formation <span className="font-bold text-foreground">{session.formation_score}/5</span></p>
+                        <p>Sizing <span className="font-bold text-foreground">{session.sizing_score}/5</span></p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
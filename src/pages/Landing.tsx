@@ -66,7 +66,7 @@ export default function Landing() {
             <div className="animate-slide-up">
               <div className="inline-flex items-center gap-2 bg-white/15 backdrop-blur-sm text-primary-foreground px-4 py-2 rounded-full text-sm font-semibold mb-6">
                 <Star className="w-4 h-4" />
-                NSW Curriculum · Years 5-6
+                NSW Curriculum · Years 3-8
               </div>
               <h1 className="text-4xl md:text-5xl lg:text-6xl font-display font-bold text-primary-foreground leading-tight mb-6 drop-shadow-sm">
                 Get Your Kid High School Ready
@@ -143,7 +143,7 @@ export default function Landing() {
           </div>
           <div className="flex items-center gap-2">
             <Target className="w-5 h-5 text-primary" />
-            <span className="font-medium">Years 5-6 Focused</span>
+            <span className="font-medium">Years 3-8 Focused</span>
           </div>
           <div className="flex items-center gap-2">
             <Clock className="w-5 h-5 text-accent" />
@@ -0,0 +1,156 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import dingoLogo from "@/assets/dingo-logo.png";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ArrowLeft, Loader2, Search } from "lucide-react";
+import { loadReply, searchChatQuestions, type SavedChatMessage } from "@/lib/chatHistory";
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString("en-AU", { day: "numeric", month: "short", year: "numeric" });
+
+export default function MyQuestions() {
+  const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const [profileId, setProfileId] = useState<string | null>(null);
+  const [questions, setQuestions] = useState<SavedChatMessage[]>([]);
+  const [search, setSearch] = useState("");
+  const [searching, setSearching] = useState(false);
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [replies, setReplies] = useState<Record<string, string | null>>({});
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!authLoading && !user) navigate("/auth");
+  }, [user, authLoading, navigate]);
+
+  useEffect(() => {
+    if (user) fetchProfile();
+  }, [user]);
+
+  const fetchProfile = async () => {
+    try {
+      const { data } = await supabase.from("profiles").select("id").eq("user_id", user!.id).maybeSingle();
+      if (!data) {
+        navigate("/dashboard");
+        return;
+      }
+      setProfileId(data.id);
+      setQuestions(await searchChatQuestions(data.id, ""));
+    } catch (err) {
+      console.error("Error fetching questions:", err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runSearch = async () => {
+    if (!profileId) return;
+    setSearching(true);
+    try {
+      setQuestions(await searchChatQuestions(profileId, search));
+      setOpenId(null);
+    } catch (err) {
+      console.error("Error searching questions:", err);
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const toggleQuestion = async (question: SavedChatMessage) => {
+    if (openId === question.id) {
+      setOpenId(null);
+      return;
+    }
+    setOpenId(question.id);
+    if (profileId && !(question.id in replies)) {
+      const reply = await loadReply(profileId, question).catch(() => null);
+      setReplies(prev => ({ ...prev, [question.id]: reply }));
+    }
+  };
+
+  if (authLoading || loading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="text-center">
+          <div className="text-6xl animate-float mb-4">💬</div>
+          <p className="text-muted-foreground text-lg animate-pulse">Loading your questions...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-8">
+      <div className="max-w-2xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center gap-4 mb-8">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/dashboard")} className="rounded-xl">
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div>
+            <h1 className="text-2xl md:text-3xl font-display font-bold text-foreground">My Questions</h1>
+            <p className="text-muted-foreground">Everything you've asked Mirri</p>
+          </div>
+        </div>
+
+        <div className="space-y-6">
+          {/* Search */}
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              runSearch();
+            }}
+            className="flex gap-2 animate-slide-up"
+          >
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search your questions (e.g. fractions)"
+              className="h-11 rounded-xl"
+            />
+            <Button type="submit" disabled={searching} className="rounded-xl h-11 gap-2">
+              {searching ? <Loader2 className="w-4 h-4 animate-spin" /> : <Search className="w-4 h-4" />}
+              Search
+            </Button>
+          </form>
+
+          {questions.length === 0 ? (
+            <div className="bento-card bg-card p-6 text-center animate-slide-up stagger-1">
+              <p className="text-muted-foreground">
+                {search.trim() ? "No questions match that search." : "No questions yet. Ask Mirri for help during training and they'll appear here."}
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-2 animate-slide-up stagger-1">
+              {questions.map(question => (
+                <div key={question.id} className="bento-card bg-card p-4">
+                  <button onClick={() => toggleQuestion(question)} className="w-full text-left">
+                    <p className="text-xs text-muted-foreground mb-1">
+                      {question.topics ? `${question.topics.emoji || "📖"} ${question.topics.name}` : "📚 Homework help"} · {formatDate(question.created_at)}
+                    </p>
+                    <p className="text-foreground">{question.content}</p>
+                  </button>
+                  {openId === question.id && (
+                    <div className="flex items-start gap-2 mt-3 pt-3 border-t border-border">
+                      <img src={dingoLogo} alt="Mirri" className="w-8 h-8 flex-shrink-0" />
+                      {question.id in replies ? (
+                        <p className="text-sm text-foreground/80 whitespace-pre-wrap">
+                          {replies[question.id] || "Mirri didn't get to answer this one."}
+                        </p>
+                      ) : (
+                        <Loader2 className="w-4 h-4 animate-spin text-muted-foreground mt-2" />
+                      )}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
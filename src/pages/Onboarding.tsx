@@ -3,37 +3,27 @@ import dingoLogo from "@/assets/dingo-logo.png";
 import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/integrations/supabase/client";
+import { DEFAULT_YEAR_LEVEL, YEAR_LEVELS } from "@/lib/yearLevelUtils";
 import { Button } from "@/components/ui/button";
+import { PlacementQuiz } from "@/components/PlacementQuiz";
 import { toast } from "sonner";
-import { Check, ChevronRight, ChevronLeft, LogOut } from "lucide-react";
+import { Check, ChevronRight, ChevronLeft, Lock, LogOut } from "lucide-react";
 
-type ConfidenceLevel = "tricky" | "okay" | "strong";
-
-interface SubjectConfidence {
+interface PlacementSubject {
   id: string;
   name: string;
   emoji: string;
-  confidence: ConfidenceLevel | null;
+  locked: boolean;
+  placed: boolean;
 }
 
-const confidenceOptions: { level: ConfidenceLevel; emoji: string; label: string }[] = [
-  { level: "tricky", emoji: "😬", label: "Tricky" },
-  { level: "okay", emoji: "🙂", label: "Okay" },
-  { level: "strong", emoji: "😎", label: "Strong" },
-];
-
-const XP_MAP: Record<ConfidenceLevel, number> = {
-  tricky: 0,
-  okay: 50,
-  strong: 150,
-};
-
 export default function Onboarding() {
   const { user, signOut } = useAuth();
   const navigate = useNavigate();
   const [step, setStep] = useState(1);
-  const [gradeLevel, setGradeLevel] = useState("Year 5");
-  const [subjects, setSubjects] = useState<SubjectConfidence[]>([]);
+  const [gradeLevel, setGradeLevel] = useState(DEFAULT_YEAR_LEVEL);
+  const [subjects, setSubjects] = useState<PlacementSubject[]>([]);
+  const [activeSubject, setActiveSubject] = useState<PlacementSubject | null>(null);
   const [loading, setLoading] = useState(false);
   const [profileId, setProfileId] = useState<string | null>(null);
 
@@ -66,63 +56,63 @@ export default function Onboarding() {
       setProfileId(profile.id);
     }
 
-    const { data: subjectsData } = await supabase
-      .from("subjects")
-      .select("id, name, emoji")
-      .order("name");
+    const [{ data: subjectsData }, { data: status }] = await Promise.all([
+      supabase.from("subjects").select("id, name, emoji").order("name"),
+      supabase.functions.invoke("placement-quiz", { body: { action: "status" } }),
+    ]);
 
     if (subjectsData) {
+      const statuses = (status?.subjects || []) as { subjectId: string; locked: boolean; canRun: boolean }[];
       setSubjects(
-        subjectsData.map((s) => ({
-          id: s.id,
-          name: s.name,
-          emoji: s.emoji || "📚",
-          confidence: null,
-        }))
+        subjectsData.map((s) => {
+          const subjectStatus = statuses.find((st) => st.subjectId === s.id);
+          return {
+            id: s.id,
+            name: s.name,
+            emoji: s.emoji || "📚",
+            locked: subjectStatus?.locked ?? false,
+            placed: subjectStatus ? !subjectStatus.canRun : false,
+          };
+        })
       );
     }
   };
 
-  const setConfidence = (subjectId: string, level: ConfidenceLevel) => {
-    setSubjects((prev) =>
-      prev.map((s) => (s.id === subjectId ? { ...s, confidence: level } : s))
-    );
+  // The placement quiz pitches questions at the student's stage, so save the year first
+  const handleNext = async () => {
+    if (!profileId) return;
+    setLoading(true);
+    const { error } = await supabase
+      .from("profiles")
+      .update({ grade_level: gradeLevel })
+      .eq("id", profileId);
+    setLoading(false);
+
+    if (error) {
+      console.error("Error saving year level:", error);
+      toast.error("Something went wrong. Please try again!");
+      return;
+    }
+    setStep(2);
   };
 
-  const allRated = subjects.every((s) => s.confidence !== null);
+  const handlePlacementDone = (subjectId: string, placed: boolean) => {
+    if (placed) {
+      setSubjects((prev) => prev.map((s) => (s.id === subjectId ? { ...s, placed: true } : s)));
+    }
+    setActiveSubject(null);
+  };
 
   const handleComplete = async () => {
     if (!profileId) return;
     setLoading(true);
 
     try {
-      await supabase
+      const { error } = await supabase
         .from("profiles")
         .update({ grade_level: gradeLevel, onboarding_completed: true })
         .eq("id", profileId);
-
-      // Fetch all topics grouped by subject
-      const { data: topicsData } = await supabase
-        .from("topics")
-        .select("id, subject_id");
-
-      if (topicsData) {
-        const progressRecords = topicsData
-          .map((topic) => {
-            const subject = subjects.find((s) => s.id === topic.subject_id);
-            if (!subject?.confidence) return null;
-            return {
-              student_id: profileId,
-              topic_id: topic.id,
-              xp_earned: XP_MAP[subject.confidence],
-            };
-          })
-          .filter(Boolean);
-
-        if (progressRecords.length > 0) {
-          await supabase.from("student_progress").insert(progressRecords);
-        }
-      }
+      if (error) throw error;
 
       toast.success("Welcome to Dingo Dojo! Let's start training! 🦊");
       navigate("/dashboard");
@@ -134,7 +124,6 @@ export default function Onboarding() {
     }
   };
 
-  const gradeOptions = ["Year 5", "Year 6"];
 
   return (
     <div className="min-h-screen bg-background p-4 md:p-8">
@@ -200,8 +189,8 @@ export default function Onboarding() {
                 </p>
               </div>
 
-              <div className="grid grid-cols-2 gap-4 max-w-md mx-auto">
-                {gradeOptions.map((grade) => (
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-4 max-w-md mx-auto">
+                {YEAR_LEVELS.map((grade) => (
                   <button
                     key={grade}
                     onClick={() => setGradeLevel(grade)}
@@ -219,57 +208,56 @@ export default function Onboarding() {
             </div>
           )}
 
-          {step === 2 && (
+          {step === 2 && activeSubject && (
+            <PlacementQuiz
+              subjectId={activeSubject.id}
+              subjectName={activeSubject.name}
+              onComplete={(result) => handlePlacementDone(activeSubject.id, !!result)}
+            />
+          )}
+
+          {step === 2 && !activeSubject && (
             <div className="space-y-6">
               <div className="text-center">
                 <h2 className="text-2xl font-display font-bold text-foreground mb-2">
-                  How do you feel about each subject?
+                  Let's find your starting level
                 </h2>
                 <p className="text-muted-foreground">
-                  Tap how you feel — there's no wrong answer!
+                  Take a short quiz for each subject so your missions start at the right level
                 </p>
               </div>
 
-              <div className="space-y-4">
+              <div className="space-y-3">
                 {subjects.map((subject) => (
                   <div
                     key={subject.id}
-                    className="rounded-2xl border-2 border-border p-4 transition-all"
+                    className="flex items-center justify-between gap-3 rounded-2xl border-2 border-border p-4 transition-all"
                   >
-                    <div className="flex items-center gap-3 mb-3">
+                    <div className="flex items-center gap-3">
                       <span className="text-3xl">{subject.emoji}</span>
                       <span className="text-lg font-display font-bold text-foreground">
                         {subject.name}
                       </span>
                     </div>
 
-                    <div className="grid grid-cols-3 gap-2">
-                      {confidenceOptions.map((opt) => {
-                        const isSelected = subject.confidence === opt.level;
-                        return (
-                          <button
-                            key={opt.level}
-                            onClick={() => setConfidence(subject.id, opt.level)}
-                            className={`flex flex-col items-center gap-1 p-3 rounded-xl border-2 transition-all ${
-                              isSelected
-                                ? opt.level === "strong"
-                                  ? "border-eucalyptus bg-eucalyptus/10"
-                                  : opt.level === "okay"
-                                  ? "border-primary bg-primary/10"
-                                  : "border-ochre bg-ochre/10"
-                                : "border-transparent hover:bg-muted"
-                            }`}
-                          >
-                            <span className="text-3xl">{opt.emoji}</span>
-                            <span className={`text-xs font-semibold ${
-                              isSelected ? "text-foreground" : "text-muted-foreground"
-                            }`}>
-                              {opt.label}
-                            </span>
-                          </button>
-                        );
-                      })}
-                    </div>
+                    {subject.placed ? (
+                      <span className="flex items-center gap-1 text-sm font-semibold text-eucalyptus">
+                        <Check className="w-4 h-4" /> Placed
+                      </span>
+                    ) : subject.locked ? (
+                      <span className="flex items-center gap-1 text-sm text-muted-foreground">
+                        <Lock className="w-4 h-4" /> Champion
+                      </span>
+                    ) : (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="rounded-xl"
+                        onClick={() => setActiveSubject(subject)}
+                      >
+                        Take quiz
+                      </Button>
+                    )}
                   </div>
                 ))}
               </div>
@@ -277,48 +265,51 @@ export default function Onboarding() {
           )}
 
           {/* Navigation */}
-          <div className="flex items-center justify-between mt-8 pt-6 border-t border-border">
-            {step > 1 ? (
-              <Button
-                variant="outline"
-                onClick={() => setStep(1)}
-                className="rounded-xl gap-2"
-              >
-                <ChevronLeft className="w-4 h-4" />
-                Back
-              </Button>
-            ) : (
-              <div />
-            )}
+          {!activeSubject && (
+            <div className="flex items-center justify-between mt-8 pt-6 border-t border-border">
+              {step > 1 ? (
+                <Button
+                  variant="outline"
+                  onClick={() => setStep(1)}
+                  className="rounded-xl gap-2"
+                >
+                  <ChevronLeft className="w-4 h-4" />
+                  Back
+                </Button>
+              ) : (
+                <div />
+              )}
 
-            {step === 1 ? (
-              <Button
-                onClick={() => setStep(2)}
-                className="rounded-xl gap-2"
-              >
-                Next
-                <ChevronRight className="w-4 h-4" />
-              </Button>
-            ) : (
-              <Button
-                onClick={handleComplete}
-                disabled={loading || !allRated}
-                className="rounded-xl gap-2 px-8"
-              >
-                {loading ? "Setting up..." : "Start Training! 🎯"}
-              </Button>
-            )}
-          </div>
+              {step === 1 ? (
+                <Button
+                  onClick={handleNext}
+                  disabled={loading}
+                  className="rounded-xl gap-2"
+                >
+                  Next
+                  <ChevronRight className="w-4 h-4" />
+                </Button>
+              ) : (
+                <Button
+                  onClick={handleComplete}
+                  disabled={loading || !subjects.some((s) => s.placed)}
+                  className="rounded-xl gap-2 px-8"
+                >
+                  {loading ? "Setting up..." : "Start Training! 🎯"}
+                </Button>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Skip option */}
-        {step === 2 && (
+        {step === 2 && !activeSubject && (
           <p className="text-center text-muted-foreground mt-4">
             <button
               onClick={handleComplete}
               className="hover:text-primary transition-colors underline"
             >
-              Skip this step
+              Skip for now — start everything at the beginning
             </button>
           </p>
         )}
@@ -0,0 +1,316 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid } from "recharts";
+import { ArrowLeft, Camera, PenTool } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { SubmissionDetailModal, type SubmissionDetail } from "@/components/SubmissionDetailModal";
+import {
+  countAnnotationsByType,
+  countWords,
+  getErrorRate,
+  RUBRIC_CRITERIA,
+  WRITING_GENRES,
+  type RubricCriterion,
+  type WritingAnnotation,
+  type WritingGenre,
+  type WritingRubric,
+} from "@/lib/writingUtils";
+
+interface PortfolioProfile {
+  id: string;
+  first_name: string | null;
+}
+
+interface PortfolioPiece extends SubmissionDetail {
+  genre: WritingGenre | null;
+  word_count: number;
+  rubric: WritingRubric | null;
+}
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString("en-AU", { day: "numeric", month: "short" });
+
+const chartConfig = {
+  score: { label: "Score", color: "hsl(var(--primary))" },
+  spelling: { label: "Spelling", color: "hsl(var(--destructive))" },
+  grammar: { label: "Grammar", color: "hsl(var(--secondary))" },
+  punctuation: { label: "Punctuation", color: "hsl(var(--accent))" },
+};
+
+export default function Portfolio() {
+  const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  // Parents and teachers open a student's portfolio with ?student=<profile id>
+  const studentId = searchParams.get("student");
+
+  const [profile, setProfile] = useState<PortfolioProfile | null>(null);
+  const [pieces, setPieces] = useState<PortfolioPiece[]>([]);
+  const [genreFilter, setGenreFilter] = useState<WritingGenre | "all">("all");
+  const [criterion, setCriterion] = useState<RubricCriterion>("ideas");
+  const [selected, setSelected] = useState<SubmissionDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!authLoading && !user) navigate("/auth");
+  }, [user, authLoading, navigate]);
+
+  useEffect(() => {
+    if (user) fetchPortfolio();
+  }, [user, studentId]);
+
+  const fetchPortfolio = async () => {
+    try {
+      const query = supabase.from("profiles").select("id, first_name");
+      const { data: profileData } = studentId
+        ? await supabase.rpc("get_student_profiles", { _student_ids: [studentId] }).maybeSingle()
+        : await query.eq("user_id", user!.id).maybeSingle();
+
+      if (!profileData) {
+        navigate("/dashboard");
+        return;
+      }
+      setProfile(profileData);
+
+      const { data } = await supabase
+        .from("submissions")
+        .select("*")
+        .eq("profile_id", profileData.id)
+        .order("created_at", { ascending: false })
+        .limit(500);
+
+      setPieces(
+        (data || []).map(sub => ({
+          ...sub,
+          strengths: Array.isArray(sub.strengths) ? (sub.strengths as string[]) : [],
+          improvements: Array.isArray(sub.improvements) ? (sub.improvements as string[]) : [],
+          annotations: Array.isArray(sub.annotations) ? (sub.annotations as unknown as WritingAnnotation[]) : [],
+          genre: sub.genre as WritingGenre | null,
+          // Older pieces were saved before word counts were
+          word_count: sub.word_count ?? countWords(sub.student_text),
+          rubric: sub.rubric as WritingRubric | null,
+        }))
+      );
+    } catch (err) {
+      console.error("Error fetching portfolio:", err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openPiece = async (piece: PortfolioPiece) => {
+    // Handwriting photos are in the student's own storage folder
+    if (!studentId && piece.submission_type === "handwritten" && piece.image_path && !piece.signedUrl) {
+      const { data } = await supabase.storage.from("handwriting-submissions").createSignedUrl(piece.image_path, 3600);
+      if (data?.signedUrl) piece = { ...piece, signedUrl: data.signedUrl };
+    }
+    setSelected(piece);
+  };
+
+  const filtered = useMemo(
+    () => (genreFilter === "all" ? pieces : pieces.filter(p => p.genre === genreFilter)),
+    [pieces, genreFilter]
+  );
+
+  // Oldest first, so the charts read left to right through the term
+  const trendData = useMemo(
+    () =>
+      [...filtered].reverse().map(piece => {
+        const counts = countAnnotationsByType(piece.annotations);
+        return {
+          date: formatDate(piece.created_at),
+          score: piece.rubric?.[criterion] ?? null,
+          spelling: getErrorRate(counts.spelling, piece.word_count),
+          grammar: getErrorRate(counts.grammar, piece.word_count),
+          punctuation: getErrorRate(counts.punctuation, piece.word_count),
+        };
+      }),
+    [filtered, criterion]
+  );
+  const hasRubricTrend = trendData.filter(d => d.score !== null).length >= 2;
+
+  if (authLoading || loading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="text-center">
+          <div className="text-6xl animate-float mb-4">📚</div>
+          <p className="text-muted-foreground text-lg animate-pulse">Loading portfolio...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const totalWords = filtered.reduce((sum, p) => sum + p.word_count, 0);
+  const criterionLabel = RUBRIC_CRITERIA.find(c => c.key === criterion)?.label;
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-8">
+      <div className="max-w-2xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center gap-4 mb-8">
+          <Button variant="ghost" size="icon" onClick={() => navigate(-1)} className="rounded-xl">
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div>
+            <h1 className="text-2xl md:text-3xl font-display font-bold text-foreground">Writing Portfolio</h1>
+            <p className="text-muted-foreground">
+              {studentId && profile?.first_name ? `${profile.first_name}'s writing` : "Every piece you've written"}
+            </p>
+          </div>
+        </div>
+
+        <div className="space-y-6">
+          {/* Genre filter */}
+          <div className="flex gap-2 flex-wrap animate-slide-up">
+            {[{ value: "all" as const, label: "All writing", emoji: "📝" }, ...WRITING_GENRES].map(option => (
+              <button
+                key={option.value}
+                onClick={() => setGenreFilter(option.value)}
+                className={cn(
+                  "px-3 py-1.5 rounded-full text-sm font-semibold transition-all",
+                  genreFilter === option.value ? "bg-primary text-primary-foreground" : "bg-muted text-muted-foreground hover:text-foreground"
+                )}
+              >
+                {option.emoji} {option.label}
+              </button>
+            ))}
+          </div>
+
+          {filtered.length === 0 ? (
+            <div className="bento-card bg-card p-6 text-center animate-slide-up">
+              <p className="text-muted-foreground">No writing here yet. Written answers in training sessions will appear in the portfolio.</p>
+            </div>
+          ) : (
+            <>
+              {/* Summary */}
+              <div className="bento-card bg-card p-6 animate-slide-up stagger-1">
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="bg-muted/50 rounded-xl p-4 text-center">
+                    <p className="text-2xl font-display font-bold text-foreground">{filtered.length}</p>
+                    <p className="text-xs text-muted-foreground">Pieces of writing</p>
+                  </div>
+                  <div className="bg-muted/50 rounded-xl p-4 text-center">
+                    <p className="text-2xl font-display font-bold text-foreground">{totalWords.toLocaleString()}</p>
+                    <p className="text-xs text-muted-foreground">Words written</p>
+                  </div>
+                </div>
+              </div>
+
+              {/* Skill trends */}
+              <div className="bento-card bg-card p-6 animate-slide-up stagger-2 space-y-6">
+                <h2 className="text-xl font-display font-bold text-foreground flex items-center gap-2">📈 Skills Over Time</h2>
+
+                <div>
+                  <div className="flex gap-1.5 flex-wrap mb-3">
+                    {RUBRIC_CRITERIA.map(c => (
+                      <button
+                        key={c.key}
+                        onClick={() => setCriterion(c.key)}
+                        className={cn(
+                          "px-2.5 py-1 rounded-lg text-xs font-semibold transition-all",
+                          criterion === c.key ? "bg-secondary text-secondary-foreground" : "bg-muted text-muted-foreground hover:text-foreground"
+                        )}
+                      >
+                        {c.label}
+                      </button>
+                    ))}
+                  </div>
+                  {hasRubricTrend ? (
+                    <ChartContainer config={{ score: { ...chartConfig.score, label: criterionLabel } }} className="h-[200px] w-full">
+                      <LineChart data={trendData}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis dataKey="date" fontSize={12} />
+                        <YAxis domain={[1, 5]} ticks={[1, 2, 3, 4, 5]} fontSize={12} />
+                        <ChartTooltip content={<ChartTooltipContent />} />
+                        <Line type="monotone" dataKey="score" stroke="var(--color-score)" strokeWidth={2} dot={{ r: 4 }} connectNulls />
+                      </LineChart>
+                    </ChartContainer>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">A trend appears after two pieces have been marked against the rubric.</p>
+                  )}
+                  <p className="text-xs text-muted-foreground mt-1">3 is where a student at this year level is expected to be.</p>
+                </div>
+
+                {trendData.length >= 2 && (
+                  <div>
+                    <p className="text-sm font-semibold text-foreground mb-2">Mistakes per 100 words</p>
+                    <ChartContainer config={chartConfig} className="h-[200px] w-full">
+                      <LineChart data={trendData}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis dataKey="date" fontSize={12} />
+                        <YAxis allowDecimals fontSize={12} />
+                        <ChartTooltip content={<ChartTooltipContent />} />
+                        <Line type="monotone" dataKey="spelling" stroke="var(--color-spelling)" strokeWidth={2} dot={{ r: 3 }} />
+                        <Line type="monotone" dataKey="grammar" stroke="var(--color-grammar)" strokeWidth={2} dot={{ r: 3 }} />
+                        <Line type="monotone" dataKey="punctuation" stroke="var(--color-punctuation)" strokeWidth={2} dot={{ r: 3 }} />
+                      </LineChart>
+                    </ChartContainer>
+                  </div>
+                )}
+              </div>
+
+              {/* Every piece */}
+              <div className="bento-card bg-card p-6 animate-slide-up stagger-3">
+                <h2 className="text-xl font-display font-bold text-foreground mb-4 flex items-center gap-2">📚 All Writing</h2>
+                <div className="space-y-2">
+                  {filtered.map(piece => {
+                    const counts = countAnnotationsByType(piece.annotations);
+                    const genre = WRITING_GENRES.find(g => g.value === piece.genre);
+                    return (
+                      <button
+                        key={piece.id}
+                        onClick={() => openPiece(piece)}
+                        className="w-full text-left rounded-xl border border-border/60 bg-muted/30 hover:bg-muted/60 transition-colors p-3 space-y-2"
+                      >
+                        <div className="flex items-center gap-3">
+                          <div className={cn(
+                            "w-9 h-9 rounded-lg flex items-center justify-center flex-shrink-0",
+                            piece.submission_type === "handwritten" ? "bg-sky/15 text-sky" : "bg-eucalyptus/15 text-eucalyptus"
+                          )}>
+                            {piece.submission_type === "handwritten" ? <Camera className="w-4 h-4" /> : <PenTool className="w-4 h-4" />}
+                          </div>
+                          <div className="flex-1 min-w-0">
+                            <p className="text-sm font-semibold text-foreground truncate">{piece.topic_name || "Writing task"}</p>
+                            <p className="text-xs text-muted-foreground truncate">
+                              {genre ? `${genre.emoji} ${genre.label} · ` : ""}{piece.word_count} words · {formatDate(piece.created_at)}
+                            </p>
+                          </div>
+                          <span className="text-sm font-bold text-primary flex-shrink-0">
+                            {piece.content_score ?? 0}/{piece.content_max_score ?? 0}
+                          </span>
+                        </div>
+
+                        {piece.rubric && (
+                          <div className="grid grid-cols-3 sm:grid-cols-6 gap-1.5">
+                            {RUBRIC_CRITERIA.map(c => (
+                              <div key={c.key} className="text-center">
+                                <div className="h-1.5 rounded-full bg-muted overflow-hidden">
+                                  <div className="h-full bg-primary" style={{ width: `${((piece.rubric?.[c.key] ?? 0) / 5) * 100}%` }} />
+                                </div>
+                                <p className="text-[10px] text-muted-foreground mt-0.5">{c.label} {piece.rubric?.[c.key] ?? "–"}</p>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+
+                        <p className="text-xs text-muted-foreground">
+                          {counts.spelling} spelling · {counts.grammar} grammar · {counts.punctuation} punctuation · {counts.praise} praise
+                        </p>
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+
+      <SubmissionDetailModal isOpen={!!selected} onClose={() => setSelected(null)} submission={selected} />
+    </div>
+  );
+}
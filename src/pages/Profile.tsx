@@ -3,6 +3,7 @@ import { useNavigate } from "react-router-dom";
 import dingoLogo from "@/assets/dingo-logo.png";
 import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/integrations/supabase/client";
+import { DEFAULT_YEAR_LEVEL, YEAR_LEVELS } from "@/lib/yearLevelUtils";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -24,8 +25,10 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { PlacementQuiz } from "@/components/PlacementQuiz";
 import { toast } from "sonner";
-import { ArrowLeft, User, Key, RefreshCw, Crown, Trash2, CreditCard, ExternalLink, Loader2 } from "lucide-react";
+import { ArrowLeft, User, Key, RefreshCw, Crown, Trash2, CreditCard, ExternalLink, Loader2, Users, School, Target } from "lucide-react";
 
 interface Profile {
   id: string;
@@ -35,6 +38,22 @@ interface Profile {
   total_xp: number;
   username: string | null;
   vacation_passes: number;
+  account_type: string;
+  guardian_code: string | null;
+}
+
+interface JoinedClass {
+  id: string;
+  name: string;
+}
+
+interface PlacementSubject {
+  id: string;
+  name: string;
+  emoji: string;
+  canRun: boolean;
+  locked: boolean;
+  lastCompletedAt: string | null;
 }
 
 interface SubscriptionInfo {
@@ -55,7 +74,7 @@ export default function ProfilePage() {
   
   // Form states
   const [firstName, setFirstName] = useState("");
-  const [gradeLevel, setGradeLevel] = useState("Year 5");
+  const [gradeLevel, setGradeLevel] = useState(DEFAULT_YEAR_LEVEL);
   const [currentPassword, setCurrentPassword] = useState("");
   const [newPassword, setNewPassword] = useState("");
   const [confirmPassword, setConfirmPassword] = useState("");
@@ -64,6 +83,11 @@ export default function ProfilePage() {
   const [saving, setSaving] = useState(false);
   const [changingPassword, setChangingPassword] = useState(false);
   const [resetting, setResetting] = useState(false);
+  const [classes, setClasses] = useState<JoinedClass[]>([]);
+  const [classCode, setClassCode] = useState("");
+  const [joiningClass, setJoiningClass] = useState(false);
+  const [placementSubjects, setPlacementSubjects] = useState<PlacementSubject[]>([]);
+  const [activePlacement, setActivePlacement] = useState<PlacementSubject | null>(null);
 
   useEffect(() => {
     if (!user) {
@@ -72,8 +96,66 @@ export default function ProfilePage() {
     }
     fetchProfile();
     fetchSubscription();
+    fetchClasses();
+    fetchPlacementStatus();
   }, [user, navigate]);
 
+  const fetchPlacementStatus = async () => {
+    const [{ data: subjectsData }, { data: status }] = await Promise.all([
+      supabase.from("subjects").select("id, name, emoji").order("name"),
+      supabase.functions.invoke("placement-quiz", { body: { action: "status" } }),
+    ]);
+    if (!subjectsData || !status?.success) return;
+
+    const statuses = status.subjects as { subjectId: string; canRun: boolean; locked: boolean; lastCompletedAt: string | null }[];
+    setPlacementSubjects(
+      subjectsData.map((s) => {
+        const subjectStatus = statuses.find((st) => st.subjectId === s.id);
+        return {
+          id: s.id,
+          name: s.name,
+          emoji: s.emoji || "📚",
+          canRun: subjectStatus?.canRun ?? false,
+          locked: subjectStatus?.locked ?? false,
+          lastCompletedAt: subjectStatus?.lastCompletedAt ?? null,
+        };
+      })
+    );
+  };
+
+  const fetchClasses = async () => {
+    const { data } = await supabase.from("classes").select("id, name").order("name");
+    if (data) setClasses(data);
+  };
+
+  const handleJoinClass = async () => {
+    if (!classCode.trim()) return;
+    setJoiningClass(true);
+    const { error } = await supabase.rpc("join_class_by_code", { _code: classCode.trim() });
+    if (error) {
+      toast.error(error.message.includes("No class") ? "We couldn't find a class with that code." : "Couldn't join that class. Please try again.");
+    } else {
+      toast.success("You've joined the class! 🎒");
+      setClassCode("");
+      fetchClasses();
+    }
+    setJoiningClass(false);
+  };
+
+  const handleLeaveClass = async (classId: string) => {
+    if (!profile) return;
+    const { error } = await supabase
+      .from("class_members")
+      .delete()
+      .eq("class_id", classId)
+      .eq("student_id", profile.id);
+    if (error) {
+      toast.error("Couldn't leave that class");
+    } else {
+      setClasses((prev) => prev.filter((c) => c.id !== classId));
+    }
+  };
+
   const fetchSubscription = async () => {
     setSubLoading(true);
     try {
@@ -115,7 +197,7 @@ export default function ProfilePage() {
     } else if (data) {
       setProfile(data);
       setFirstName(data.first_name || "");
-      setGradeLevel(data.grade_level || "Year 5");
+      setGradeLevel(data.grade_level || DEFAULT_YEAR_LEVEL);
       setUsername(data.username || "");
     }
     setLoading(false);
@@ -192,29 +274,10 @@ export default function ProfilePage() {
     if (!profile) return;
     setResetting(true);
 
-    // Delete all student progress
-    const { error: progressError } = await supabase
-      .from("student_progress")
-      .delete()
-      .eq("student_id", profile.id);
-
-    // Delete all chat messages
-    const { error: chatError } = await supabase
-      .from("chat_messages")
-      .delete()
-      .eq("student_id", profile.id);
+    // Progress, chat history and XP are cleared together server-side
+    const { error } = await supabase.rpc("reset_my_progress");
 
-    // Reset profile stats
-    const { error: profileError } = await supabase
-      .from("profiles")
-      .update({
-        total_xp: 0,
-        current_streak: 0,
-        missions_this_week: 0,
-      })
-      .eq("id", profile.id);
-
-    if (progressError || chatError || profileError) {
+    if (error) {
       toast.error("Failed to reset progress");
     } else {
       toast.success("Progress reset! Starting fresh 🌟");
@@ -388,8 +451,9 @@ export default function ProfilePage() {
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="Year 5">Year 5</SelectItem>
-                    <SelectItem value="Year 6">Year 6</SelectItem>
+                    {YEAR_LEVELS.map((year) => (
+                      <SelectItem key={year} value={year}>{year}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
@@ -404,6 +468,117 @@ export default function ProfilePage() {
             </div>
           </div>
 
+          {/* Parent Link Card - students only */}
+          {profile?.account_type === "student" && profile.guardian_code && (
+            <div className="bento-card bg-card p-6 animate-slide-up stagger-1">
+              <div className="flex items-center gap-3 mb-4">
+                <div className="w-10 h-10 rounded-xl bg-eucalyptus/10 flex items-center justify-center">
+                  <Users className="w-5 h-5 text-eucalyptus" />
+                </div>
+                <h2 className="text-xl font-display font-bold text-foreground">Parent Code</h2>
+              </div>
+              <p className="text-sm text-muted-foreground mb-3">
+                Give this code to your parent or guardian so they can follow your training from their own account.
+              </p>
+              <p className="text-2xl font-mono font-bold tracking-widest text-foreground bg-muted/50 rounded-xl p-4 text-center">
+                {profile.guardian_code}
+              </p>
+            </div>
+          )}
+
+          {/* Class Card - students only */}
+          {profile?.account_type === "student" && (
+            <div className="bento-card bg-card p-6 animate-slide-up stagger-1">
+              <div className="flex items-center gap-3 mb-4">
+                <div className="w-10 h-10 rounded-xl bg-primary/10 flex items-center justify-center">
+                  <School className="w-5 h-5 text-primary" />
+                </div>
+                <h2 className="text-xl font-display font-bold text-foreground">My Classes</h2>
+              </div>
+              {classes.length > 0 && (
+                <div className="space-y-2 mb-4">
+                  {classes.map((c) => (
+                    <div key={c.id} className="flex items-center justify-between p-3 bg-muted/50 rounded-xl">
+                      <span className="font-semibold text-foreground">{c.name}</span>
+                      <Button variant="ghost" size="sm" onClick={() => handleLeaveClass(c.id)} className="rounded-xl text-muted-foreground">
+                        Leave
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <div className="flex gap-2">
+                <Input
+                  placeholder="Class code from your teacher"
+                  value={classCode}
+                  onChange={(e) => setClassCode(e.target.value.toUpperCase())}
+                  className="h-12 rounded-xl uppercase"
+                />
+                <Button onClick={handleJoinClass} disabled={joiningClass || !classCode.trim()} className="h-12 rounded-xl">
+                  {joiningClass ? "Joining..." : "Join"}
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {/* Placement Quiz Card - students only, once per subject each term */}
+          {profile?.account_type === "student" && placementSubjects.length > 0 && (
+            <div className="bento-card bg-card p-6 animate-slide-up stagger-1">
+              <div className="flex items-center gap-3 mb-4">
+                <div className="w-10 h-10 rounded-xl bg-ochre/10 flex items-center justify-center">
+                  <Target className="w-5 h-5 text-ochre" />
+                </div>
+                <h2 className="text-xl font-display font-bold text-foreground">Placement Quiz</h2>
+              </div>
+              <p className="text-sm text-muted-foreground mb-4">
+                A new term? Re-take the quiz for a subject to reset where your missions start. You can take it once per subject each term.
+              </p>
+              <div className="space-y-2">
+                {placementSubjects.map((s) => (
+                  <div key={s.id} className="flex items-center justify-between p-3 bg-muted/50 rounded-xl">
+                    <div>
+                      <span className="font-semibold text-foreground">
+                        {s.emoji} {s.name}
+                      </span>
+                      {s.lastCompletedAt && (
+                        <p className="text-xs text-muted-foreground">
+                          Last taken {new Date(s.lastCompletedAt).toLocaleDateString("en-AU")}
+                        </p>
+                      )}
+                    </div>
+                    {s.locked ? (
+                      <span className="text-xs text-muted-foreground">Champion</span>
+                    ) : s.canRun ? (
+                      <Button variant="outline" size="sm" onClick={() => setActivePlacement(s)} className="rounded-xl">
+                        Take quiz
+                      </Button>
+                    ) : (
+                      <span className="text-xs text-muted-foreground">Done this term</span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <Dialog open={!!activePlacement} onOpenChange={(open) => !open && setActivePlacement(null)}>
+            <DialogContent className="rounded-2xl max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle className="font-display">{activePlacement?.name} placement quiz</DialogTitle>
+              </DialogHeader>
+              {activePlacement && (
+                <PlacementQuiz
+                  subjectId={activePlacement.id}
+                  subjectName={activePlacement.name}
+                  onComplete={() => {
+                    setActivePlacement(null);
+                    fetchPlacementStatus();
+                  }}
+                />
+              )}
+            </DialogContent>
+          </Dialog>
+
           {/* Password Card */}
           <div className="bento-card bg-card p-6 animate-slide-up stagger-1">
             <div className="flex items-center gap-3 mb-6">
@@ -3,7 +3,7 @@ import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
-import { ArrowLeft, Printer, Trophy, Flame, Target, BookOpen, ChevronDown, Camera, PenTool } from "lucide-react";
+import { ArrowLeft, Printer, Trophy, Flame, Target, BookOpen, ChevronDown, Camera, PenTool, Calculator } from "lucide-react";
 import { Collapsible, CollapsibleTrigger, CollapsibleContent } from "@/components/ui/collapsible";
 import {
   ChartContainer,
@@ -14,6 +14,9 @@ import { LineChart, Line, XAxis, YAxis, CartesianGrid } from "recharts";
 import { getMasteryLevel, getProgressPercentage } from "@/lib/progressUtils";
 import { cn } from "@/lib/utils";
 import { SubmissionDetailModal, type SubmissionDetail } from "@/components/SubmissionDetailModal";
+import { fromMathsWorking } from "@/lib/submissionUtils";
+import { OutcomeCoverage } from "@/components/OutcomeCoverage";
+import { CommonMistakes } from "@/components/CommonMistakes";
 
 interface Profile {
   id: string;
@@ -141,12 +144,13 @@ export default function ProgressPage() {
       if (!profileData) { setLoading(false); return; }
       setProfile(profileData);
 
-      const [subjectsRes, topicsRes, progressRes, hwRes, submissionsRes] = await Promise.all([
+      const [subjectsRes, topicsRes, progressRes, hwRes, submissionsRes, mathsWorkingRes] = await Promise.all([
         supabase.from("subjects").select("id, name, emoji").order("name"),
         supabase.from("topics").select("id, subject_id, name, emoji, order_index").order("order_index"),
         supabase.from("student_progress").select("topic_id, xp_earned, missions_this_week").eq("student_id", profileData.id),
         supabase.from("handwriting_submissions").select("id, image_path, letter_formation, spacing_sizing, presentation, composite_score, created_at").eq("profile_id", profileData.id).order("created_at", { ascending: true }),
         supabase.from("submissions").select("*").eq("profile_id", profileData.id).order("created_at", { ascending: false }).limit(10),
+        supabase.from("maths_working_submissions").select("*").eq("profile_id", profileData.id).order("created_at", { ascending: false }).limit(10),
       ]);
 
       const subjects = subjectsRes.data || [];
@@ -187,22 +191,28 @@ export default function ProgressPage() {
       setSubjectProgress(sp);
       setHandwritingData(hwRes.data || []);
 
-      // Process submissions and sign URLs for handwritten ones
+      // Process submissions, newest first across writing and maths working, and
+      // sign URLs for photographed ones
       const rawSubmissions = (submissionsRes.data || []) as any[];
       const submissionDetails: SubmissionDetail[] = [];
-
-      for (const sub of rawSubmissions) {
-        const detail: SubmissionDetail = {
+      const allSubmissions: SubmissionDetail[] = [
+        ...rawSubmissions.map(sub => ({
           ...sub,
           strengths: Array.isArray(sub.strengths) ? sub.strengths : [],
           improvements: Array.isArray(sub.improvements) ? sub.improvements : [],
           annotations: Array.isArray(sub.annotations) ? sub.annotations : [],
-        };
-
-        if (sub.submission_type === "handwritten" && sub.image_path) {
+        })),
+        ...(mathsWorkingRes.data || []).map(fromMathsWorking),
+      ]
+        .sort((a, b) => b.created_at.localeCompare(a.created_at))
+        .slice(0, 10);
+
+      for (const detail of allSubmissions) {
+        const isPhoto = detail.submission_type === "handwritten" || (detail.submission_type === "maths_working" && !detail.strokes);
+        if (isPhoto && detail.image_path) {
           const { data: urlData } = await supabase.storage
             .from("handwriting-submissions")
-            .createSignedUrl(sub.image_path, 3600);
+            .createSignedUrl(detail.image_path, 3600);
           if (urlData?.signedUrl) detail.signedUrl = urlData.signedUrl;
         }
 
@@ -266,7 +276,7 @@ export default function ProgressPage() {
               <p className="text-muted-foreground">Your learning journey</p>
             </div>
           </div>
-          <Button variant="outline" size="icon" onClick={() => window.print()} className="rounded-xl">
+          <Button variant="outline" size="icon" onClick={() => navigate("/report")} className="rounded-xl">
             <Printer className="w-5 h-5" />
           </Button>
         </div>
@@ -374,12 +384,23 @@ export default function ProgressPage() {
             </div>
           </div>
 
-          {/* Section 3: Handwriting Progress */}
+          {/* Section 3: Syllabus outcomes */}
+          {profile && <OutcomeCoverage profileId={profile.id} className="animate-slide-up stagger-2" />}
+
+          {/* Section 4: Common mistakes */}
+          {profile && <CommonMistakes profileId={profile.id} className="animate-slide-up stagger-2" />}
+
+          {/* Section 5: Handwriting Progress */}
           {handwritingData.length > 0 && (
             <div className="bento-card bg-card p-6 animate-slide-up stagger-2">
-              <h2 className="text-xl font-display font-bold text-foreground mb-4 flex items-center gap-2">
-                ✍️ Handwriting Progress
-              </h2>
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-display font-bold text-foreground flex items-center gap-2">
+                  ✍️ Handwriting Progress
+                </h2>
+                <Button variant="outline" size="sm" onClick={() => navigate("/handwriting")} className="rounded-xl">
+                  Practise letters
+                </Button>
+              </div>
 
               {/* Main composite chart */}
               <div className="mb-6">
@@ -413,12 +434,17 @@ export default function ProgressPage() {
             </div>
           )}
 
-          {/* Section 4: Recent Submissions */}
+          {/* Section 6: Recent Submissions */}
           {submissions.length > 0 && (
             <div className="bento-card bg-card p-6 animate-slide-up stagger-3">
-              <h2 className="text-xl font-display font-bold text-foreground mb-4 flex items-center gap-2">
-                📝 Recent Submissions
-              </h2>
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-display font-bold text-foreground flex items-center gap-2">
+                  📝 Recent Submissions
+                </h2>
+                <Button variant="outline" size="sm" onClick={() => navigate("/portfolio")} className="rounded-xl">
+                  Writing portfolio
+                </Button>
+              </div>
               <div className="space-y-2">
                 {submissions.map(sub => (
                   <button
@@ -431,10 +457,14 @@ export default function ProgressPage() {
                       "w-10 h-10 rounded-lg flex items-center justify-center flex-shrink-0",
                       sub.submission_type === "handwritten"
                         ? "bg-sky/15 text-sky"
+                        : sub.submission_type === "maths_working"
+                        ? "bg-ochre/15 text-ochre"
                         : "bg-eucalyptus/15 text-eucalyptus"
                     )}>
                       {sub.submission_type === "handwritten" ? (
                         <Camera className="w-5 h-5" />
+                      ) : sub.submission_type === "maths_working" ? (
+                        <Calculator className="w-5 h-5" />
                       ) : (
                         <PenTool className="w-5 h-5" />
                       )}
@@ -459,7 +489,7 @@ export default function ProgressPage() {
                         +{sub.content_score || 0}
                       </span>
                       <p className="text-[10px] text-muted-foreground">
-                        /{sub.content_max_score || 0} XP
+                        {sub.content_max_score != null ? `/${sub.content_max_score} ` : ""}XP
                       </p>
                     </div>
                   </button>
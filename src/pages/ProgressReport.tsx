@@ -0,0 +1,469 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChartContainer } from "@/components/ui/chart";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid } from "recharts";
+import { ArrowLeft, Printer } from "lucide-react";
+import { AnnotatedWriting } from "@/components/AnnotatedWriting";
+import type { SubmissionDetail } from "@/components/SubmissionDetailModal";
+import { getDojoBelt, getDojoBeltLevels } from "@/lib/beltUtils";
+import { applySubjectMultiplier, TERMS_2026 } from "@/lib/weeklyGoalUtils";
+import { getSydneyToday } from "@/lib/dailyUtils";
+import dingoLogo from "@/assets/dingo-logo.png";
+
+// Writing samples included in the report
+const MAX_WRITING_SAMPLES = 3;
+
+interface ReportProfile {
+  id: string;
+  first_name: string | null;
+  grade_level: string | null;
+  total_xp: number | null;
+}
+
+interface Activity {
+  subject_name: string | null;
+  xp_earned: number | null;
+  created_at: string;
+}
+
+interface SubjectRow {
+  name: string;
+  emoji: string;
+  missions: number;
+  xp: number;
+}
+
+interface BeltChange {
+  name: string;
+  emoji: string;
+  date: string;
+}
+
+interface GoalWeek {
+  week_start_date: string;
+  xp_earned: number;
+  xp_goal: number;
+  goal_met: boolean;
+}
+
+interface HandwritingPoint {
+  created_at: string;
+  composite_score: number | null;
+}
+
+const addDays = (date: string, days: number) => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+};
+
+// When a Sydney calendar day starts, as a UTC timestamp, so the range matches
+// the dates picked from getSydneyToday(). The offset is read at midnight AEST,
+// which is 00:00 or 01:00 that day — before either DST changeover at 2-3am
+const sydneyDayStart = (date: string) => {
+  const utcMidnight = new Date(`${date}T00:00:00Z`).getTime();
+  const offset = new Intl.DateTimeFormat("en-AU", { timeZone: "Australia/Sydney", timeZoneName: "shortOffset" })
+    .formatToParts(new Date(utcMidnight - 10 * 60 * 60 * 1000))
+    .find((part) => part.type === "timeZoneName")?.value;
+  const hours = Number(offset?.replace("GMT", "") || 10);
+  return new Date(utcMidnight - hours * 60 * 60 * 1000).toISOString();
+};
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString("en-AU", { day: "numeric", month: "short", year: "numeric" });
+
+export default function ProgressReport() {
+  const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const studentId = searchParams.get("student");
+
+  const today = getSydneyToday();
+  const currentTerm = TERMS_2026.find((t) => t.start <= today && today <= t.end);
+  const [fromDate, setFromDate] = useState(addDays(today, -28));
+  const [toDate, setToDate] = useState(today);
+
+  const [profile, setProfile] = useState<ReportProfile | null>(null);
+  const [subjects, setSubjects] = useState<{ name: string; slug: string; emoji: string | null }[]>([]);
+  const [activity, setActivity] = useState<Activity[]>([]);
+  const [goalHistory, setGoalHistory] = useState<GoalWeek[]>([]);
+  const [handwriting, setHandwriting] = useState<HandwritingPoint[]>([]);
+  const [writingSamples, setWritingSamples] = useState<SubmissionDetail[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!authLoading && !user) navigate("/auth");
+  }, [user, authLoading, navigate]);
+
+  useEffect(() => {
+    if (user) fetchProfile();
+  }, [user, studentId]);
+
+  useEffect(() => {
+    if (profile && fromDate && toDate) fetchReport();
+  }, [profile, fromDate, toDate]);
+
+  const fetchProfile = async () => {
+    try {
+      // Parents and teachers open a student's report with ?student=<profile id>
+      const query = supabase.from("profiles").select("id, first_name, grade_level, total_xp");
+      const { data } = studentId
+        ? await supabase.rpc("get_student_profiles", { _student_ids: [studentId] }).maybeSingle()
+        : await query.eq("user_id", user!.id).maybeSingle();
+
+      if (!data) {
+        navigate("/dashboard");
+        return;
+      }
+      setProfile(data);
+
+      const { data: subjectData } = await supabase.from("subjects").select("name, slug, emoji").order("name");
+      setSubjects(subjectData || []);
+    } catch (err) {
+      console.error("Error fetching report profile:", err);
+      setLoading(false);
+    }
+  };
+
+  const fetchReport = async () => {
+    setLoading(true);
+    try {
+      // Activity from the start of the range onwards, so belts can be
+      // worked back from today's total
+      const rangeStart = sydneyDayStart(fromDate);
+      const rangeEnd = sydneyDayStart(addDays(toDate, 1));
+
+      const [activityRes, goalsRes, handwritingRes, submissionsRes] = await Promise.all([
+        supabase
+          .from("activity_feed")
+          .select("subject_name, xp_earned, created_at")
+          .eq("profile_id", profile!.id)
+          .eq("activity_type", "mission_complete")
+          .gte("created_at", rangeStart)
+          .order("created_at", { ascending: true }),
+        supabase
+          .from("weekly_goal_history")
+          .select("week_start_date, xp_earned, xp_goal, goal_met")
+          .eq("profile_id", profile!.id)
+          .gte("week_start_date", fromDate)
+          .lte("week_start_date", toDate)
+          .order("week_start_date", { ascending: true }),
+        supabase
+          .from("handwriting_submissions")
+          .select("created_at, composite_score")
+          .eq("profile_id", profile!.id)
+          .gte("created_at", rangeStart)
+          .lt("created_at", rangeEnd)
+          .order("created_at", { ascending: true }),
+        supabase
+          .from("submissions")
+          .select("*")
+          .eq("profile_id", profile!.id)
+          .not("student_text", "is", null)
+          .gte("created_at", rangeStart)
+          .lt("created_at", rangeEnd)
+          .order("content_score", { ascending: false, nullsFirst: false })
+          .limit(MAX_WRITING_SAMPLES),
+      ]);
+
+      setActivity(activityRes.data || []);
+      setGoalHistory(goalsRes.data || []);
+      setHandwriting(handwritingRes.data || []);
+      setWritingSamples(
+        (submissionsRes.data || []).map((sub) => ({
+          ...sub,
+          strengths: Array.isArray(sub.strengths) ? (sub.strengths as string[]) : [],
+          improvements: Array.isArray(sub.improvements) ? (sub.improvements as string[]) : [],
+          annotations: Array.isArray(sub.annotations) ? (sub.annotations as unknown as SubmissionDetail["annotations"]) : [],
+        }))
+      );
+    } catch (err) {
+      console.error("Error fetching report:", err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const report = useMemo(() => {
+    const rangeEnd = new Date(sydneyDayStart(addDays(toDate, 1))).getTime();
+    const slugByName = Object.fromEntries(subjects.map((s) => [s.name, s.slug]));
+    const finalXp = (a: Activity) => applySubjectMultiplier(a.xp_earned || 0, slugByName[a.subject_name || ""] || "");
+
+    const inRange = activity.filter((a) => new Date(a.created_at).getTime() < rangeEnd);
+    const afterRange = activity.filter((a) => new Date(a.created_at).getTime() >= rangeEnd);
+
+    const bySubject = new Map<string, SubjectRow>();
+    for (const a of inRange) {
+      const name = a.subject_name || "Other";
+      const row = bySubject.get(name) || {
+        name,
+        emoji: subjects.find((s) => s.name === name)?.emoji || "📚",
+        missions: 0,
+        xp: 0,
+      };
+      row.missions += 1;
+      row.xp += finalXp(a);
+      bySubject.set(name, row);
+    }
+
+    // Work back from today's total to the XP held at each end of the range
+    const xpAtEnd = (profile?.total_xp || 0) - afterRange.reduce((sum, a) => sum + finalXp(a), 0);
+    const xpInRange = inRange.reduce((sum, a) => sum + finalXp(a), 0);
+    const xpAtStart = Math.max(0, xpAtEnd - xpInRange);
+
+    const beltChanges: BeltChange[] = [];
+    const gradeLevel = profile?.grade_level;
+    let running = xpAtStart;
+    for (const a of inRange) {
+      const before = getDojoBelt(running, gradeLevel);
+      running += finalXp(a);
+      const after = getDojoBelt(running, gradeLevel);
+      if (after.name !== before.name) {
+        getDojoBeltLevels(gradeLevel).filter((b) => b.minXp > before.minXp && b.minXp <= after.minXp).forEach((b) =>
+          beltChanges.push({ name: b.name, emoji: b.emoji, date: a.created_at })
+        );
+      }
+    }
+
+    return {
+      subjects: [...bySubject.values()].sort((a, b) => b.xp - a.xp),
+      missions: inRange.length,
+      xpInRange,
+      startBelt: getDojoBelt(xpAtStart, gradeLevel),
+      endBelt: getDojoBelt(xpAtEnd, gradeLevel),
+      beltChanges,
+    };
+  }, [activity, subjects, profile, toDate]);
+
+  if (authLoading || (loading && !profile)) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="text-center">
+          <div className="text-6xl animate-float mb-4">📄</div>
+          <p className="text-muted-foreground text-lg animate-pulse">Preparing report...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const handwritingData = handwriting
+    .filter((h) => h.composite_score != null)
+    .map((h) => ({
+      date: new Date(h.created_at).toLocaleDateString("en-AU", { day: "numeric", month: "short" }),
+      composite: Number(Number(h.composite_score).toFixed(1)),
+    }));
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-8 print:p-0 print:bg-white">
+      <div className="max-w-3xl mx-auto">
+        {/* Controls — not printed */}
+        <div className="print:hidden mb-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <Button variant="ghost" onClick={() => navigate(-1)} className="gap-2">
+              <ArrowLeft className="w-4 h-4" /> Back
+            </Button>
+            <Button onClick={() => window.print()} className="gap-2">
+              <Printer className="w-4 h-4" /> Print / Save as PDF
+            </Button>
+          </div>
+          <div className="bento-card flex flex-wrap items-end gap-3">
+            <label className="text-sm font-medium text-foreground">
+              From
+              <Input type="date" value={fromDate} max={toDate} onChange={(e) => setFromDate(e.target.value)} className="mt-1" />
+            </label>
+            <label className="text-sm font-medium text-foreground">
+              To
+              <Input type="date" value={toDate} min={fromDate} max={today} onChange={(e) => setToDate(e.target.value)} className="mt-1" />
+            </label>
+            <Button variant="outline" size="sm" onClick={() => { setFromDate(addDays(today, -28)); setToDate(today); }}>
+              Last 4 weeks
+            </Button>
+            {currentTerm && (
+              <Button variant="outline" size="sm" onClick={() => { setFromDate(currentTerm.start); setToDate(today); }}>
+                This term
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {/* Report */}
+        <article className="space-y-6 print:space-y-4 print:text-black">
+          <header className="flex items-center justify-between border-b border-border pb-4">
+            <div>
+              <h1 className="text-2xl md:text-3xl font-display font-bold text-foreground print:text-black">
+                {profile?.first_name || "Student"}'s Progress Report
+              </h1>
+              <p className="text-muted-foreground">
+                {profile?.grade_level ? `${profile.grade_level} · ` : ""}
+                {formatDate(fromDate)} – {formatDate(toDate)}
+              </p>
+            </div>
+            <img src={dingoLogo} alt="Dingo Dojo" className="w-12 h-12" />
+          </header>
+
+          {/* Summary */}
+          <section className="grid grid-cols-3 gap-4 break-inside-avoid">
+            <div className="bg-muted/50 rounded-xl p-4 text-center print:border print:border-border">
+              <p className="text-2xl font-display font-bold text-foreground">{report.xpInRange.toLocaleString()}</p>
+              <p className="text-xs text-muted-foreground">XP earned</p>
+            </div>
+            <div className="bg-muted/50 rounded-xl p-4 text-center print:border print:border-border">
+              <p className="text-2xl font-display font-bold text-foreground">{report.missions}</p>
+              <p className="text-xs text-muted-foreground">Training sessions</p>
+            </div>
+            <div className="bg-muted/50 rounded-xl p-4 text-center print:border print:border-border">
+              <p className="text-lg font-display font-bold text-foreground">
+                {report.endBelt.emoji} {report.endBelt.name}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {report.startBelt.name === report.endBelt.name ? "Dojo belt" : `Up from ${report.startBelt.name}`}
+              </p>
+            </div>
+          </section>
+
+          {/* XP by subject */}
+          <section className="break-inside-avoid">
+            <h2 className="text-lg font-display font-bold text-foreground mb-2">XP by Subject</h2>
+            {report.subjects.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No training in this period.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Subject</TableHead>
+                    <TableHead className="text-right">Sessions</TableHead>
+                    <TableHead className="text-right">XP</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.subjects.map((s) => (
+                    <TableRow key={s.name}>
+                      <TableCell>{s.emoji} {s.name}</TableCell>
+                      <TableCell className="text-right">{s.missions}</TableCell>
+                      <TableCell className="text-right font-semibold">{s.xp.toLocaleString()}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </section>
+
+          {/* Belt changes */}
+          {report.beltChanges.length > 0 && (
+            <section className="break-inside-avoid">
+              <h2 className="text-lg font-display font-bold text-foreground mb-2">Belts Earned</h2>
+              <ul className="space-y-1 text-sm">
+                {report.beltChanges.map((b) => (
+                  <li key={b.name} className="flex justify-between">
+                    <span>{b.emoji} {b.name}</span>
+                    <span className="text-muted-foreground">{formatDate(b.date)}</span>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+
+          {/* Weekly goals */}
+          <section className="break-inside-avoid">
+            <h2 className="text-lg font-display font-bold text-foreground mb-2">Weekly Goals</h2>
+            {goalHistory.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No completed weeks in this period.</p>
+            ) : (
+              <>
+                <p className="text-sm text-muted-foreground mb-2">
+                  Goal met in {goalHistory.filter((w) => w.goal_met).length} of {goalHistory.length} weeks
+                </p>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Week of</TableHead>
+                      <TableHead className="text-right">XP / Goal</TableHead>
+                      <TableHead className="text-right">Met</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {goalHistory.map((w) => (
+                      <TableRow key={w.week_start_date}>
+                        <TableCell>{formatDate(w.week_start_date)}</TableCell>
+                        <TableCell className="text-right">{w.xp_earned} / {w.xp_goal}</TableCell>
+                        <TableCell className="text-right">{w.goal_met ? "✅" : "—"}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </>
+            )}
+          </section>
+
+          {/* Handwriting trend */}
+          {handwritingData.length > 0 && (
+            <section className="break-inside-avoid">
+              <h2 className="text-lg font-display font-bold text-foreground mb-2">Handwriting</h2>
+              <p className="text-sm text-muted-foreground mb-2">
+                Overall score {handwritingData[0].composite} → {handwritingData[handwritingData.length - 1].composite} (out of 5)
+                across {handwritingData.length} sample{handwritingData.length === 1 ? "" : "s"}
+              </p>
+              <ChartContainer config={{ composite: { label: "Overall", color: "hsl(var(--primary))" } }} className="h-[180px] w-full">
+                <LineChart data={handwritingData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="date" fontSize={12} />
+                  <YAxis domain={[0, 5]} fontSize={12} />
+                  <Line type="monotone" dataKey="composite" stroke="var(--color-composite)" strokeWidth={2} dot={{ r: 3 }} isAnimationActive={false} />
+                </LineChart>
+              </ChartContainer>
+            </section>
+          )}
+
+          {/* Writing samples */}
+          {writingSamples.length > 0 && (
+            <section>
+              <h2 className="text-lg font-display font-bold text-foreground mb-2">Writing Samples</h2>
+              <div className="space-y-4">
+                {writingSamples.map((sub) => (
+                  <div key={sub.id} className="rounded-xl border border-border p-4 break-inside-avoid">
+                    <div className="flex items-center justify-between mb-2">
+                      <p className="text-sm font-semibold text-foreground">
+                        {sub.topic_name || sub.subject_name || "Writing task"}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {sub.content_score != null ? `${sub.content_score}/${sub.content_max_score} · ` : ""}
+                        {formatDate(sub.created_at)}
+                      </p>
+                    </div>
+                    {sub.question && <p className="text-xs text-muted-foreground italic mb-2">{sub.question}</p>}
+                    <AnnotatedWriting originalText={sub.student_text || ""} annotations={sub.annotations} />
+                    {(sub.strengths.length > 0 || sub.improvements.length > 0) && (
+                      <div className="grid grid-cols-2 gap-4 mt-3 text-xs">
+                        <div>
+                          <p className="font-semibold text-eucalyptus mb-1">Strengths</p>
+                          <ul className="list-disc pl-4 space-y-0.5">
+                            {sub.strengths.map((s, i) => <li key={i}>{s}</li>)}
+                          </ul>
+                        </div>
+                        <div>
+                          <p className="font-semibold text-ochre mb-1">Next steps</p>
+                          <ul className="list-disc pl-4 space-y-0.5">
+                            {sub.improvements.map((s, i) => <li key={i}>{s}</li>)}
+                          </ul>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </section>
+          )}
+
+          <footer className="text-xs text-muted-foreground border-t border-border pt-3">
+            Generated {formatDate(today)} by Dingo Dojo
+          </footer>
+        </article>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,244 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, CheckCircle, ChevronRight, Loader2, RotateCcw, XCircle } from "lucide-react";
+import { toast } from "sonner";
+import { getSydneyToday } from "@/lib/dailyUtils";
+import { REVIEW_SESSION_SIZE } from "@/hooks/useReviewQueue";
+
+interface Topic {
+  id: string;
+  name: string;
+  emoji: string | null;
+}
+
+interface ReviewQuestion {
+  question: string;
+  options: string[];
+  correct_answer: number;
+  hint?: string;
+  explanation?: string;
+}
+
+interface ReviewItem {
+  id: string;
+  question: ReviewQuestion;
+}
+
+export default function Review() {
+  const { subjectSlug, topicSlug } = useParams();
+  const navigate = useNavigate();
+  const { user, loading: authLoading } = useAuth();
+  const [topic, setTopic] = useState<Topic | null>(null);
+  const [items, setItems] = useState<ReviewItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [answers, setAnswers] = useState<Record<string, number>>({});
+  const [submitting, setSubmitting] = useState(false);
+  const [earnedXp, setEarnedXp] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate("/auth");
+    }
+  }, [user, authLoading, navigate]);
+
+  useEffect(() => {
+    if (user && topicSlug) fetchReviewItems();
+  }, [user, topicSlug]);
+
+  const fetchReviewItems = async () => {
+    try {
+      const { data: profileData } = await supabase
+        .from("profiles")
+        .select("id")
+        .eq("user_id", user!.id)
+        .single();
+
+      const { data: topicData } = await supabase
+        .from("topics")
+        .select("id, name, emoji")
+        .eq("slug", topicSlug!)
+        .single();
+
+      if (!profileData || !topicData) {
+        navigate("/dashboard");
+        return;
+      }
+
+      setTopic(topicData);
+
+      const { data: itemData } = await supabase
+        .from("review_items")
+        .select("id, question")
+        .eq("profile_id", profileData.id)
+        .eq("topic_id", topicData.id)
+        .lte("due_date", getSydneyToday())
+        .order("due_date", { ascending: true })
+        .limit(REVIEW_SESSION_SIZE);
+
+      setItems((itemData || []) as unknown as ReviewItem[]);
+    } catch (err) {
+      console.error("Error fetching review items:", err);
+      toast.error("Couldn't load your review questions");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const finishReview = async () => {
+    if (!topic) return;
+    setSubmitting(true);
+    try {
+      const { data: result, error } = await supabase.functions.invoke("complete-mission", {
+        body: {
+          mode: "review",
+          topicId: topic.id,
+          reviews: items.map((item) => ({ itemId: item.id, answer: answers[item.id] })),
+        },
+      });
+
+      if (error || !result?.success) throw error || new Error("Review completion failed");
+
+      for (const badge of (result.new_badges || []) as { name: string; emoji: string }[]) {
+        toast.success(`${badge.emoji} Badge Unlocked: ${badge.name}!`);
+      }
+
+      setEarnedXp(result.final_xp);
+    } catch (err) {
+      console.error("Error completing review:", err);
+      toast.error("Couldn't save your review. Please try again.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (authLoading || loading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="text-center">
+          <div className="text-6xl animate-float mb-4">🔁</div>
+          <p className="text-muted-foreground text-lg animate-pulse">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const currentItem = items[currentIndex];
+  const selectedAnswer = currentItem ? answers[currentItem.id] : undefined;
+  const isAnswered = selectedAnswer !== undefined;
+  const isLast = currentIndex === items.length - 1;
+  const correctCount = items.filter((item) => answers[item.id] === item.question.correct_answer).length;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="bg-card border-b border-border p-3 flex items-center justify-between">
+        <Button variant="ghost" onClick={() => navigate("/dashboard")} className="gap-2">
+          <ArrowLeft className="w-4 h-4" />
+          <span className="hidden sm:inline">Back</span>
+        </Button>
+        <div className="flex items-center gap-2">
+          <span className="text-2xl">{topic?.emoji || "📖"}</span>
+          <h1 className="text-lg font-display font-bold truncate max-w-[200px] sm:max-w-none">
+            Review: {topic?.name}
+          </h1>
+        </div>
+        <div className="text-sm text-muted-foreground font-medium">
+          {items.length > 0 && earnedXp === null ? `${currentIndex + 1} / ${items.length}` : ""}
+        </div>
+      </header>
+
+      <main className="max-w-2xl mx-auto p-4 md:p-6">
+        {items.length === 0 ? (
+          <div className="bento-card text-center py-10 animate-slide-up">
+            <CheckCircle className="w-12 h-12 text-eucalyptus mx-auto mb-3" />
+            <h2 className="text-xl font-display font-bold mb-2">Nothing to review</h2>
+            <p className="text-muted-foreground mb-6">You're all caught up on this topic. Nice work!</p>
+            <Button onClick={() => navigate(`/learn/${subjectSlug}/${topicSlug}`)}>Train this topic</Button>
+          </div>
+        ) : earnedXp !== null ? (
+          <div className="bento-card text-center py-10 animate-slide-up">
+            <div className="text-6xl mb-4">🎉</div>
+            <h2 className="text-2xl font-display font-bold mb-2">Review complete!</h2>
+            <p className="text-muted-foreground mb-4">
+              You got {correctCount} of {items.length} right. Questions you missed will come back sooner.
+            </p>
+            <div className="xp-badge inline-flex mb-6">+{earnedXp} XP</div>
+            <div>
+              <Button onClick={() => navigate("/dashboard")}>Back to Dashboard</Button>
+            </div>
+          </div>
+        ) : (
+          <div className="bento-card animate-slide-up">
+            <p className="text-xs font-semibold text-primary uppercase tracking-wide mb-2 flex items-center gap-1">
+              <RotateCcw className="w-3 h-3" /> From a past mission
+            </p>
+            <h2 className="text-lg font-display font-bold text-foreground mb-4">{currentItem.question.question}</h2>
+
+            <div className="space-y-3 mb-4">
+              {currentItem.question.options.map((option, index) => {
+                const isCorrect = index === currentItem.question.correct_answer;
+                const isSelected = selectedAnswer === index;
+
+                return (
+                  <button
+                    key={index}
+                    onClick={() => setAnswers((prev) => ({ ...prev, [currentItem.id]: index }))}
+                    disabled={isAnswered}
+                    className={`w-full p-4 rounded-xl text-left font-medium transition-all ${
+                      isAnswered
+                        ? isCorrect
+                          ? "bg-eucalyptus text-eucalyptus-foreground"
+                          : isSelected
+                          ? "bg-destructive/15 text-destructive"
+                          : "bg-muted text-muted-foreground"
+                        : "bg-muted hover:bg-muted/80 text-foreground"
+                    }`}
+                  >
+                    <span className="mr-2">{String.fromCharCode(65 + index)}.</span>
+                    {option}
+                  </button>
+                );
+              })}
+            </div>
+
+            {isAnswered && (
+              <div className="animate-slide-up">
+                <div
+                  className={`flex items-start gap-2 rounded-xl p-4 mb-4 ${
+                    selectedAnswer === currentItem.question.correct_answer
+                      ? "bg-eucalyptus/10 border border-eucalyptus/20"
+                      : "bg-destructive/10 border border-destructive/20"
+                  }`}
+                >
+                  {selectedAnswer === currentItem.question.correct_answer ? (
+                    <CheckCircle className="w-5 h-5 text-eucalyptus flex-shrink-0 mt-0.5" />
+                  ) : (
+                    <XCircle className="w-5 h-5 text-destructive flex-shrink-0 mt-0.5" />
+                  )}
+                  <p className="text-foreground/80 text-sm">
+                    {currentItem.question.explanation ||
+                      (selectedAnswer === currentItem.question.correct_answer ? "Correct!" : "Not quite this time.")}
+                  </p>
+                </div>
+
+                {isLast ? (
+                  <Button onClick={finishReview} disabled={submitting} className="w-full">
+                    {submitting ? <Loader2 className="w-5 h-5 animate-spin mr-2" /> : null}
+                    Finish Review
+                  </Button>
+                ) : (
+                  <Button onClick={() => setCurrentIndex((i) => i + 1)} className="w-full gap-2">
+                    Next Question <ChevronRight className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
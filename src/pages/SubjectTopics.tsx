@@ -3,12 +3,24 @@ import { useNavigate, useParams } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
-import { ArrowLeft, Trophy } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ArrowLeft, GitBranch, List, Trophy } from "lucide-react";
 import { TopicCard } from "@/components/TopicCard";
+import { SkillTree } from "@/components/SkillTree";
 import { getSydneyWeekStart, isNewWeek } from "@/lib/weekUtils";
 import { toast } from "sonner";
-import { isMastered } from "@/lib/progressUtils";
+import { getPitchedRating, isMastered } from "@/lib/progressUtils";
 import { SenseiSuggestion } from "@/components/SenseiSuggestion";
+import { getUnmetPrerequisites, PREREQUISITE_MIN_XP, type TopicPrerequisite } from "@/lib/skillTreeUtils";
 
 interface Subject {
   id: string;
@@ -45,6 +57,11 @@ export default function SubjectTopics() {
   const [loading, setLoading] = useState(true);
   const [subjectTotalXp, setSubjectTotalXp] = useState(0);
   const [profileId, setProfileId] = useState<string | null>(null);
+  const [abilities, setAbilities] = useState<Record<string, { rating: number; levelShift: number }>>({});
+  const [topicOutcomes, setTopicOutcomes] = useState<Record<string, { code: string; description: string }[]>>({});
+  const [prerequisites, setPrerequisites] = useState<TopicPrerequisite[]>([]);
+  const [view, setView] = useState<"list" | "tree">("list");
+  const [lockedTopic, setLockedTopic] = useState<Topic | null>(null);
 
   useEffect(() => {
     if (!authLoading && !user) {
@@ -86,6 +103,26 @@ export default function SubjectTopics() {
         console.error("Topics error:", topicsError);
       } else {
         setTopics(topicsData || []);
+
+        // Syllabus outcomes each topic covers
+        const { data: outcomeData } = await supabase
+          .from("topic_outcomes")
+          .select("topic_id, curriculum_outcomes(code, description)")
+          .in("topic_id", (topicsData || []).map((t) => t.id));
+
+        const outcomesByTopic: Record<string, { code: string; description: string }[]> = {};
+        for (const row of outcomeData || []) {
+          const outcome = row.curriculum_outcomes as { code: string; description: string } | null;
+          if (!outcome) continue;
+          (outcomesByTopic[row.topic_id] ||= []).push(outcome);
+        }
+        setTopicOutcomes(outcomesByTopic);
+
+        const { data: prerequisiteData } = await supabase
+          .from("topic_prerequisites")
+          .select("topic_id, prerequisite_id")
+          .in("topic_id", (topicsData || []).map((t) => t.id));
+        setPrerequisites(prerequisiteData || []);
       }
 
       // Fetch progress
@@ -115,6 +152,14 @@ export default function SubjectTopics() {
 
         setProgress(processedProgress);
 
+        const { data: abilityData } = await supabase
+          .from("topic_ability")
+          .select("topic_id, rating, level_shift")
+          .eq("profile_id", profileData.id)
+          .in("topic_id", topicIds);
+
+        setAbilities(Object.fromEntries((abilityData || []).map((a) => [a.topic_id, { rating: Number(a.rating), levelShift: a.level_shift }])));
+
         // Calculate total XP for this subject
         const totalXp = processedProgress.reduce((sum, p) => sum + (p.xp_earned || 0), 0);
         setSubjectTotalXp(totalXp);
@@ -126,63 +171,21 @@ export default function SubjectTopics() {
     }
   };
 
+  // "Easier" / "Harder" pitches lessons a level either side of the ability
+  // rating; the rating itself only moves with marked work
   const handleLevelChange = async (topicId: string, newXp: number) => {
     if (!profileId) return;
 
     try {
-      // Check if progress record exists
       const existingProgress = progress.find(p => p.topic_id === topicId);
-      
-      if (existingProgress) {
-        // Update existing record
-        await supabase
-          .from("student_progress")
-          .update({ 
-            xp_earned: newXp,
-            is_completed: isMastered(newXp)
-          })
-          .eq("student_id", profileId)
-          .eq("topic_id", topicId);
-      } else {
-        // Create new record
-        await supabase
-          .from("student_progress")
-          .insert({
-            student_id: profileId,
-            topic_id: topicId,
-            xp_earned: newXp,
-            is_completed: isMastered(newXp)
-          });
+      const direction = newXp > (existingProgress?.xp_earned || 0) ? 1 : -1;
+      const { data: levelShift, error } = await supabase.rpc("shift_topic_level", { _topic_id: topicId, _direction: direction });
+      if (error) throw error;
+      if (levelShift !== null) {
+        setAbilities(prev => ({ ...prev, [topicId]: { rating: prev[topicId]?.rating ?? 800, levelShift } }));
       }
 
-      // Update local state
-      setProgress(prev => {
-        const existing = prev.find(p => p.topic_id === topicId);
-        if (existing) {
-          return prev.map(p => 
-            p.topic_id === topicId 
-              ? { ...p, xp_earned: newXp, is_completed: isMastered(newXp) }
-              : p
-          );
-        } else {
-          return [...prev, { 
-            topic_id: topicId, 
-            xp_earned: newXp, 
-            weekly_xp: 0, 
-            week_start_date: null,
-            is_completed: isMastered(newXp)
-          }];
-        }
-      });
-
-      // Recalculate total XP
-      const newTotal = progress.reduce((sum, p) => {
-        if (p.topic_id === topicId) return sum + newXp;
-        return sum + (p.xp_earned || 0);
-      }, 0);
-      setSubjectTotalXp(newTotal);
-
-      toast.success("Level updated! 🎯");
+      toast.success("Difficulty updated! 🎯");
     } catch (err) {
       console.error("Error updating level:", err);
       toast.error("Failed to update level");
@@ -197,6 +200,22 @@ export default function SubjectTopics() {
     };
   };
 
+  const xpByTopic = Object.fromEntries(progress.map((p) => [p.topic_id, p.xp_earned || 0]));
+
+  const getLockedBy = (topicId: string) =>
+    getUnmetPrerequisites(topicId, prerequisites, xpByTopic)
+      .map((id) => topics.find((t) => t.id === id)?.name)
+      .filter((name): name is string => !!name);
+
+  // Locked topics are a recommendation, not a wall — ask before starting one
+  const openTopic = (topic: Topic) => {
+    if (getLockedBy(topic.id).length > 0) {
+      setLockedTopic(topic);
+      return;
+    }
+    navigate(`/learn/${subject?.slug}/${topic.slug}`);
+  };
+
   const getHeaderGradient = (color: string) => {
     switch (color) {
       case "eucalyptus":
@@ -300,22 +319,62 @@ export default function SubjectTopics() {
           />
         </div>
 
-        <div className="space-y-3">
-          {topics.map((topic, index) => {
-            const { xpEarned, weeklyXp } = getTopicProgress(topic.id);
-            return (
-              <TopicCard
-                key={topic.id}
-                topic={topic}
-                xpEarned={xpEarned}
-                weeklyXp={weeklyXp}
-                onClick={() => navigate(`/learn/${subject?.slug}/${topic.slug}`)}
-                onLevelChange={handleLevelChange}
-                animationDelay={`${0.05 * (index + 1)}s`}
-              />
-            );
-          })}
-        </div>
+        {prerequisites.length > 0 && (
+          <div className="flex justify-end gap-2 mb-3">
+            <Button
+              variant={view === "list" ? "default" : "outline"}
+              size="sm"
+              onClick={() => setView("list")}
+              className="rounded-xl gap-1"
+            >
+              <List className="w-4 h-4" />
+              List
+            </Button>
+            <Button
+              variant={view === "tree" ? "default" : "outline"}
+              size="sm"
+              onClick={() => setView("tree")}
+              className="rounded-xl gap-1"
+            >
+              <GitBranch className="w-4 h-4" />
+              Skill tree
+            </Button>
+          </div>
+        )}
+
+        {view === "tree" && prerequisites.length > 0 ? (
+          <div className="bento-card bg-card p-4 animate-slide-up">
+            <SkillTree
+              topics={topics}
+              prerequisites={prerequisites}
+              xpByTopic={xpByTopic}
+              onSelect={(topicId) => {
+                const topic = topics.find((t) => t.id === topicId);
+                if (topic) openTopic(topic);
+              }}
+            />
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {topics.map((topic, index) => {
+              const { xpEarned, weeklyXp } = getTopicProgress(topic.id);
+              return (
+                <TopicCard
+                  key={topic.id}
+                  topic={topic}
+                  xpEarned={xpEarned}
+                  weeklyXp={weeklyXp}
+                  abilityRating={getPitchedRating(abilities[topic.id]?.rating, abilities[topic.id]?.levelShift)}
+                  outcomes={topicOutcomes[topic.id]}
+                  lockedBy={getLockedBy(topic.id)}
+                  onClick={() => openTopic(topic)}
+                  onLevelChange={handleLevelChange}
+                  animationDelay={`${0.05 * (index + 1)}s`}
+                />
+              );
+            })}
+          </div>
+        )}
 
         {topics.length === 0 && (
           <div className="text-center py-12">
@@ -325,6 +384,29 @@ export default function SubjectTopics() {
           </div>
         )}
       </main>
+
+      <AlertDialog open={!!lockedTopic} onOpenChange={(open) => !open && setLockedTopic(null)}>
+        <AlertDialogContent className="rounded-2xl">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="font-display">
+              {lockedTopic?.emoji} {lockedTopic?.name} isn't unlocked yet
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              It builds on {lockedTopic ? getLockedBy(lockedTopic.id).join(" and ") : ""}. Reach{" "}
+              {PREREQUISITE_MIN_XP} XP there first for the best start — or jump in anyway if you're ready.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel className="rounded-xl">Not yet</AlertDialogCancel>
+            <AlertDialogAction
+              className="rounded-xl"
+              onClick={() => lockedTopic && navigate(`/learn/${subject?.slug}/${lockedTopic.slug}`)}
+            >
+              Train anyway
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
@@ -3,25 +3,55 @@ import dingoLogo from "@/assets/dingo-logo.png";
 import { useNavigate, useParams } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/integrations/supabase/client";
+import { FunctionsFetchError } from "@supabase/supabase-js";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { ArrowLeft, Send, Sparkles, CheckCircle, Loader2, ChevronRight, HelpCircle, Camera, PenTool, Crown, Mic, MicOff, Square } from "lucide-react";
+import { ArrowLeft, Send, Sparkles, CheckCircle, Loader2, ChevronRight, HelpCircle, Camera, PenTool, Crown, Mic, MicOff, Square, WifiOff } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
 import { toast } from "sonner";
 import confetti from "canvas-confetti";
-import { getSydneyWeekStart, isNewWeek } from "@/lib/weekUtils";
-import { getSydneyToday, isNewDay } from "@/lib/dailyUtils";
-import { applySubjectMultiplier } from "@/lib/weeklyGoalUtils";
+import { isNewDay } from "@/lib/dailyUtils";
 import { SenseiChatDrawer } from "@/components/SenseiChatDrawer";
-import { getMasteryLevel } from "@/lib/progressUtils";
+import { getAbilityLevel } from "@/lib/progressUtils";
+import { DEFAULT_YEAR_LEVEL, getStage } from "@/lib/yearLevelUtils";
 import { AnnotatedWriting } from "@/components/AnnotatedWriting";
 import { WritingFeedbackModal } from "@/components/WritingFeedbackModal";
 import { MathsWorkingFeedbackModal } from "@/components/MathsWorkingFeedbackModal";
 import { DrawingCanvas } from "@/components/DrawingCanvas";
+import { ReportQuestionButton } from "@/components/ReportQuestionButton";
 import { useWakeLock } from "@/hooks/useWakeLock";
 import { useMirriVoice } from "@/hooks/useMirriVoice";
+import { useNarration } from "@/hooks/useNarration";
+import { NarratedText } from "@/components/NarratedText";
+import { NarrationControls } from "@/components/NarrationControls";
+import { buildNarration } from "@/lib/narrationUtils";
+import { HintLadder } from "@/components/HintLadder";
+import { applyHintCost, getHintLadder, getNextHintCost } from "@/lib/hintUtils";
+import { clearOfflineSession, getOfflineLesson, getOfflineProfile, queueCompletion, saveOfflineLesson } from "@/lib/offlineStore";
+import { buildChatContext, loadChatHistory, mergeChatHistory, saveChatMessages } from "@/lib/chatHistory";
+import { clearSession, downloadPhotoDraft, loadSession, removeDrafts, saveSession, uploadPhotoDraft } from "@/lib/sessionStore";
+import type { StrokeRecording } from "@/lib/strokeUtils";
+import {
+  countWords,
+  getCorrections,
+  MAX_REVISION_BONUS_XP,
+  MAX_REVISIONS,
+  type WritingDraft,
+  type WritingGenre,
+  type WritingRevision,
+  type WritingRubric,
+} from "@/lib/writingUtils";
+import { InteractiveQuestion } from "@/components/InteractiveQuestion";
+import {
+  describeAnswer,
+  isAnswerComplete,
+  isInteractiveType,
+  markAnswer,
+  type ChallengeAnswer,
+  type InteractiveQuestionFields,
+} from "@/lib/questionTypes";
 
 interface Topic {
   id: string;
@@ -38,14 +68,16 @@ interface Subject {
   name: string;
 }
 
-interface CheckQuestion {
+interface CheckQuestion extends InteractiveQuestionFields {
   question: string;
   options?: string[];
-  correct_answer?: number;
   hint: string;
+  // Nudge, strategy, worked step
+  hints?: string[];
+  // The mistake behind each wrong option, null for the correct one
+  misconceptions?: (string | null)[];
   explanation: string;
   points?: number;
-  type?: "multiple_choice" | "free_text" | "worked_solution";
   assessment_criteria?: string[];
   example_elements?: string[];
   max_words?: number;
@@ -54,6 +86,7 @@ interface CheckQuestion {
   correct_answer_value?: string;
   working_steps_expected?: string[];
   bonus_xp?: number;
+  bank_id?: string;
 }
 
 interface WritingAnnotation {
@@ -71,6 +104,17 @@ interface FreeTextFeedback {
   improvements: string[];
   overallRating: string;
   annotations?: WritingAnnotation[];
+  revision?: WritingRevision;
+  genre?: WritingGenre | null;
+  rubric?: WritingRubric | null;
+}
+
+// Every assessed draft of a typed answer, for the revision loop
+interface WritingRevisionState {
+  submissionId: string | null;
+  drafts: WritingDraft[];
+  bestScore: number;
+  bonusXp: number;
 }
 
 interface HandwritingResult {
@@ -92,12 +136,15 @@ interface LessonSection {
   options?: string[];
   correct_answer?: number;
   hint?: string;
+  hints?: string[];
+  misconceptions?: (string | null)[];
   explanation?: string;
   question_type?: "multiple_choice" | "free_text";
   assessment_criteria?: string[];
   example_elements?: string[];
   max_words?: number;
   min_words?: number;
+  bank_id?: string;
 }
 
 interface FinalChallenge {
@@ -132,6 +179,40 @@ interface Profile {
   last_mission_date: string | null;
 }
 
+// Everything needed to pick a session back up, on this device or another
+interface SessionSnapshot {
+  lessonContent: LessonContent;
+  // The server-side mission session complete-mission closes
+  missionSessionId?: string | null;
+  currentSectionIndex: number;
+  sectionAnswers: Record<number, number | null>;
+  sectionCompleted: Record<number, boolean>;
+  sectionAttempts: Record<number, number>;
+  sectionHintLevel: Record<number, number>;
+  sectionHintLog: Record<number, number[]>;
+  inFinalChallenge: boolean;
+  currentChallengeIndex: number;
+  challengeAnswers: Record<number, ChallengeAnswer | null>;
+  challengeCompleted: Record<number, boolean>;
+  challengeAttempts: Record<number, number>;
+  challengeFeedback: Record<number, string>;
+  challengeHintLevel: Record<number, number>;
+  challengeHintLog: Record<number, number[]>;
+  earnedXp: number;
+  answerMode: Record<string, "type" | "photo" | "draw">;
+  freeTextAnswers: Record<string, string>;
+  freeTextFeedback: Record<string, FreeTextFeedback>;
+  writingRevisions: Record<string, WritingRevisionState>;
+  handwritingResults: Record<string, HandwritingResult>;
+  mathsWorkingFeedback: Record<string, unknown>;
+  drawingDrafts: Record<string, StrokeRecording>;
+  // Storage paths of uploaded photos not yet assessed
+  photoDrafts: Record<string, string>;
+}
+
+// Waits for a pause in answering before saving to the server
+const SESSION_SAVE_DELAY_MS = 1500;
+
 interface StudentProgress {
   xp_earned: number;
   weekly_xp: number;
@@ -139,6 +220,33 @@ interface StudentProgress {
   missions_this_week: number;
 }
 
+// Share of the lesson worked through: sections passed, then challenges answered
+const getSessionProgress = (
+  content: LessonContent,
+  inFinalChallenge: boolean,
+  currentSectionIndex: number,
+  challengeCompleted: Record<number, boolean>
+): number => {
+  const total = content.sections.length + content.final_challenge.questions.length;
+  const done = inFinalChallenge
+    ? content.sections.length + Object.values(challengeCompleted).filter(Boolean).length
+    : currentSectionIndex;
+  return total > 0 ? Math.min(100, Math.round((done / total) * 100)) : 0;
+};
+
+// Offline sessions keep only questions marked on the device — written
+// answers and worked solutions need the assessment functions to mark them
+const toOfflineLesson = (content: LessonContent): LessonContent => ({
+  ...content,
+  sections: content.sections.filter(
+    (s) => s.type === "learn" || (s.question_type || "multiple_choice") === "multiple_choice"
+  ),
+  final_challenge: {
+    ...content.final_challenge,
+    questions: content.final_challenge.questions.filter((q) => q.type !== "free_text" && q.type !== "worked_solution"),
+  },
+});
+
 export default function TrainingSession() {
   const { subjectSlug, topicSlug } = useParams<{ subjectSlug: string; topicSlug: string }>();
   const navigate = useNavigate();
@@ -153,42 +261,52 @@ export default function TrainingSession() {
     return () => mql.removeEventListener("change", onChange);
   }, []);
 
-  // ── SessionStorage persistence (Bug 1: survive camera remounts) ──
-  const sessionKey = `training_session_${topicSlug}`;
+  // ── Saved session, so a mission can be finished on any device ──
   const restoredRef = useRef(false);
+  const sessionClearedRef = useRef(false);
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   const [topic, setTopic] = useState<Topic | null>(null);
   const [subject, setSubject] = useState<Subject | null>(null);
   const [lessonContent, setLessonContent] = useState<LessonContent | null>(null);
+  const [missionSessionId, setMissionSessionId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [generating, setGenerating] = useState(false);
   const [questionsLoading, setQuestionsLoading] = useState(false);
   const [profile, setProfile] = useState<Profile | null>(null);
   const [topicXp, setTopicXp] = useState(0);
+  const [abilityRating, setAbilityRating] = useState<number | undefined>(undefined);
+  const [offlineMode, setOfflineMode] = useState(false);
 
   // Lesson progression state
   const [currentSectionIndex, setCurrentSectionIndex] = useState(0);
   const [sectionAnswers, setSectionAnswers] = useState<Record<number, number | null>>({});
   const [sectionCompleted, setSectionCompleted] = useState<Record<number, boolean>>({});
-  const [showSectionHint, setShowSectionHint] = useState<Record<number, boolean>>({});
   const [sectionAttempts, setSectionAttempts] = useState<Record<number, number>>({});
+  // Hints taken so far, and how many had been taken at each attempt
+  const [sectionHintLevel, setSectionHintLevel] = useState<Record<number, number>>({});
+  const [sectionHintLog, setSectionHintLog] = useState<Record<number, number[]>>({});
 
   // Final challenge state
   const [inFinalChallenge, setInFinalChallenge] = useState(false);
   const [currentChallengeIndex, setCurrentChallengeIndex] = useState(0);
-  const [challengeAnswers, setChallengeAnswers] = useState<Record<number, number | null>>({});
+  const [challengeAnswers, setChallengeAnswers] = useState<Record<number, ChallengeAnswer | null>>({});
   const [challengeCompleted, setChallengeCompleted] = useState<Record<number, boolean>>({});
-  const [showChallengeHint, setShowChallengeHint] = useState<Record<number, boolean>>({});
+  const [challengeFeedback, setChallengeFeedback] = useState<Record<number, string>>({});
   const [challengeAttempts, setChallengeAttempts] = useState<Record<number, number>>({});
+  const [challengeHintLevel, setChallengeHintLevel] = useState<Record<number, number>>({});
+  const [challengeHintLog, setChallengeHintLog] = useState<Record<number, number[]>>({});
   const [regeneratingQuestion, setRegeneratingQuestion] = useState<Record<number, boolean>>({});
   const [earnedXp, setEarnedXp] = useState(0);
   const [missionComplete, setMissionComplete] = useState(false);
   const [completionCountdown, setCompletionCountdown] = useState<number | null>(null);
-  const [celebrationData, setCelebrationData] = useState<{ xp: number; streak: number; isStreakDay: boolean } | null>(null);
+  const [celebrationData, setCelebrationData] = useState<{ xp: number; streak: number; isStreakDay: boolean; queued?: boolean } | null>(null);
 
   // Free-text state
   const [freeTextAnswers, setFreeTextAnswers] = useState<Record<string, string>>({});
   const [freeTextFeedback, setFreeTextFeedback] = useState<Record<string, FreeTextFeedback>>({});
+  const [writingRevisions, setWritingRevisions] = useState<Record<string, WritingRevisionState>>({});
+  const [revisingKey, setRevisingKey] = useState<string | null>(null);
   const [assessingFreeText, setAssessingFreeText] = useState<Record<string, boolean>>({});
   const [showFeedbackModal, setShowFeedbackModal] = useState(false);
   const [pendingFeedbackKey, setPendingFeedbackKey] = useState<string | null>(null);
@@ -199,12 +317,15 @@ export default function TrainingSession() {
   const [showMathsFeedbackModal, setShowMathsFeedbackModal] = useState(false);
   const [pendingMathsFeedbackKey, setPendingMathsFeedbackKey] = useState<string | null>(null);
   const canvasGetDataUrlRef = useRef<Record<string, (() => string | null)>>({});
+  const canvasGetStrokesRef = useRef<Record<string, (() => StrokeRecording | null)>>({});
+  const [drawingDrafts, setDrawingDrafts] = useState<Record<string, StrokeRecording>>({});
 
   // Handwriting upload state
   const [answerMode, setAnswerMode] = useState<Record<string, "type" | "photo" | "draw">>({});
   const [photoFiles, setPhotoFiles] = useState<Record<string, File | null>>({});
   const [photoPreviews, setPhotoPreviews] = useState<Record<string, string>>({});
   const [photoRejectionMsg, setPhotoRejectionMsg] = useState<Record<string, string>>({});
+  const [photoDrafts, setPhotoDrafts] = useState<Record<string, string>>({});
 
   // Chat state
   const [messages, setMessages] = useState<ChatMessage[]>([
@@ -251,52 +372,110 @@ export default function TrainingSession() {
     prevChatLoadingRef.current = isChatLoading;
   }, [isChatLoading, messages, desktopVoiceMode]);
 
+  // Read-aloud for lesson text and questions. Moving on stops whatever is being read.
+  const narration = useNarration();
+  const stopNarration = narration.stop;
+  useEffect(() => {
+    stopNarration();
+  }, [currentSectionIndex, currentChallengeIndex, inFinalChallenge, stopNarration]);
+
   // Keep screen awake during final challenge with free-text/photo/worked_solution submissions
   const hasFreeTextChallenge = lessonContent?.final_challenge?.questions?.some(q => q.type === "free_text" || q.type === "worked_solution") ?? false;
   useWakeLock(inFinalChallenge && hasFreeTextChallenge);
 
   const isBonusSubject = subject ? !['english', 'maths', 'mathematics'].includes(subject.slug) : false;
 
-  // ── Persist to sessionStorage on change ──
+  // ── Save to the server a moment after each change ──
   useEffect(() => {
-    if (!restoredRef.current) return; // Don't save during initial restore
-    if (!lessonContent) return;
-    try {
-      const snapshot = {
-        lessonContent,
-        inFinalChallenge,
-        currentChallengeIndex,
-        challengeCompleted,
-        freeTextAnswers,
-        answerMode,
-        photoPreviews,
-        earnedXp,
-        currentSectionIndex,
-        sectionCompleted,
-        challengeAnswers,
-        challengeAttempts,
-        sectionAnswers,
-        sectionAttempts,
-        showSectionHint,
-        showChallengeHint,
-      };
-      sessionStorage.setItem(sessionKey, JSON.stringify(snapshot));
-    } catch { /* quota exceeded — non-critical */ }
-  }, [lessonContent, inFinalChallenge, currentChallengeIndex, challengeCompleted, freeTextAnswers, answerMode, photoPreviews, earnedXp, currentSectionIndex, sectionCompleted, challengeAnswers]);
-
-  // Clear session on navigation away
-  useEffect(() => {
-    return () => {
-      // Don't clear if mission is completing (navigation to subject page)
-      if (!missionComplete) {
-        // Keep it — user might be coming back from camera
-      }
+    if (!restoredRef.current || sessionClearedRef.current) return;
+    if (!lessonContent || !profile || !topic || offlineMode) return;
+    // Nothing worth resuming until the student has got going
+    if (currentSectionIndex === 0 && !inFinalChallenge && Object.keys(sectionAnswers).length === 0) return;
+
+    const snapshot: SessionSnapshot = {
+      lessonContent,
+      missionSessionId,
+      currentSectionIndex,
+      sectionAnswers,
+      sectionCompleted,
+      sectionAttempts,
+      sectionHintLevel,
+      sectionHintLog,
+      inFinalChallenge,
+      currentChallengeIndex,
+      challengeAnswers,
+      challengeCompleted,
+      challengeAttempts,
+      challengeFeedback,
+      challengeHintLevel,
+      challengeHintLog,
+      earnedXp,
+      answerMode,
+      freeTextAnswers,
+      freeTextFeedback,
+      writingRevisions,
+      handwritingResults,
+      mathsWorkingFeedback,
+      drawingDrafts,
+      photoDrafts,
     };
-  }, [missionComplete]);
+    const summary = {
+      progress: getSessionProgress(lessonContent, inFinalChallenge, currentSectionIndex, challengeCompleted),
+      earnedXp,
+      draftPaths: Object.values(photoDrafts),
+    };
+
+    if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = setTimeout(() => {
+      saveSession(profile.id, topic.id, snapshot, summary).catch((err) => console.error("Failed to save session:", err));
+    }, SESSION_SAVE_DELAY_MS);
+  }, [lessonContent, missionSessionId, profile, topic, offlineMode, currentSectionIndex, sectionAnswers, sectionCompleted, sectionAttempts, sectionHintLevel, sectionHintLog, inFinalChallenge, currentChallengeIndex, challengeAnswers, challengeCompleted, challengeAttempts, challengeFeedback, challengeHintLevel, challengeHintLog, earnedXp, answerMode, freeTextAnswers, freeTextFeedback, writingRevisions, handwritingResults, mathsWorkingFeedback, drawingDrafts, photoDrafts]);
 
+  // Finished sessions are dropped so they aren't offered again
   const clearSessionState = useCallback(() => {
-    try { sessionStorage.removeItem(sessionKey); } catch {}
-  }, [sessionKey]);
+    sessionClearedRef.current = true;
+    if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+    if (profile && topic) clearSession(profile.id, topic.id).catch(() => {});
+  }, [profile, topic]);
+
+  const restoreSession = (snapshot: SessionSnapshot) => {
+    setLessonContent(snapshot.lessonContent);
+    setMissionSessionId(snapshot.missionSessionId ?? null);
+    setCurrentSectionIndex(snapshot.currentSectionIndex ?? 0);
+    setSectionAnswers(snapshot.sectionAnswers ?? {});
+    setSectionCompleted(snapshot.sectionCompleted ?? {});
+    setSectionAttempts(snapshot.sectionAttempts ?? {});
+    setSectionHintLevel(snapshot.sectionHintLevel ?? {});
+    setSectionHintLog(snapshot.sectionHintLog ?? {});
+    setInFinalChallenge(snapshot.inFinalChallenge ?? false);
+    setCurrentChallengeIndex(snapshot.currentChallengeIndex ?? 0);
+    setChallengeAnswers(snapshot.challengeAnswers ?? {});
+    setChallengeCompleted(snapshot.challengeCompleted ?? {});
+    setChallengeAttempts(snapshot.challengeAttempts ?? {});
+    setChallengeFeedback(snapshot.challengeFeedback ?? {});
+    setChallengeHintLevel(snapshot.challengeHintLevel ?? {});
+    setChallengeHintLog(snapshot.challengeHintLog ?? {});
+    setEarnedXp(snapshot.earnedXp ?? 0);
+    setAnswerMode(snapshot.answerMode ?? {});
+    setFreeTextAnswers(snapshot.freeTextAnswers ?? {});
+    setFreeTextFeedback(snapshot.freeTextFeedback ?? {});
+    setWritingRevisions(snapshot.writingRevisions ?? {});
+    setHandwritingResults(snapshot.handwritingResults ?? {});
+    setMathsWorkingFeedback(snapshot.mathsWorkingFeedback ?? {});
+    setDrawingDrafts(snapshot.drawingDrafts ?? {});
+    setPhotoDrafts(snapshot.photoDrafts ?? {});
+
+    // Photos come back from their uploaded drafts once the lesson is showing
+    for (const [key, path] of Object.entries(snapshot.photoDrafts ?? {})) {
+      downloadPhotoDraft(path)
+        .then((file) => {
+          if (!file) return;
+          setPhotoFiles(prev => ({ ...prev, [key]: file }));
+          setPhotoPreviews(prev => ({ ...prev, [key]: URL.createObjectURL(file) }));
+        })
+        .catch((err) => console.error("Failed to restore photo draft:", err));
+    }
+  };
 
   useEffect(() => {
     if (!authLoading && !user) {
@@ -306,34 +485,6 @@ export default function TrainingSession() {
 
   useEffect(() => {
     if (topicSlug && user) {
-      // Bug 1 fix: Rehydrate from sessionStorage before fetching
-      const saved = sessionStorage.getItem(sessionKey);
-      if (saved && !restoredRef.current) {
-        try {
-          const snapshot = JSON.parse(saved);
-          if (snapshot.lessonContent) {
-            setLessonContent(snapshot.lessonContent);
-            setInFinalChallenge(snapshot.inFinalChallenge ?? false);
-            setCurrentChallengeIndex(snapshot.currentChallengeIndex ?? 0);
-            setChallengeCompleted(snapshot.challengeCompleted ?? {});
-            setFreeTextAnswers(snapshot.freeTextAnswers ?? {});
-            setAnswerMode(snapshot.answerMode ?? {});
-            setPhotoPreviews(snapshot.photoPreviews ?? {});
-            setEarnedXp(snapshot.earnedXp ?? 0);
-            setCurrentSectionIndex(snapshot.currentSectionIndex ?? 0);
-            setSectionCompleted(snapshot.sectionCompleted ?? {});
-            setChallengeAnswers(snapshot.challengeAnswers ?? {});
-            setChallengeAttempts(snapshot.challengeAttempts ?? {});
-            setSectionAnswers(snapshot.sectionAnswers ?? {});
-            setSectionAttempts(snapshot.sectionAttempts ?? {});
-            setShowSectionHint(snapshot.showSectionHint ?? {});
-            setShowChallengeHint(snapshot.showChallengeHint ?? {});
-            setLoading(false);
-            restoredRef.current = true;
-          }
-        } catch { /* corrupt data, proceed normally */ }
-      }
-      restoredRef.current = true;
       fetchTopicAndLesson();
       fetchProfile();
     }
@@ -343,6 +494,16 @@ export default function TrainingSession() {
     chatEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [messages]);
 
+  // Pick up the conversation from the student's last visit to this topic
+  useEffect(() => {
+    if (!profile?.id || !topic?.id || offlineMode) return;
+    loadChatHistory(profile.id, topic.id)
+      .then((history) => {
+        if (history.length > 0) setMessages(prev => [prev[0], ...mergeChatHistory(history, prev.slice(1))]);
+      })
+      .catch((err) => console.error("Failed to load chat history:", err));
+  }, [profile?.id, topic?.id, offlineMode]);
+
   // Auto-complete mission after countdown when all challenges are done
   useEffect(() => {
     if (completionCountdown === null) return;
@@ -368,6 +529,9 @@ export default function TrainingSession() {
         weekly_xp_goal: data.weekly_xp_goal || 500,
         last_mission_date: data.last_mission_date || null,
       });
+    } else if (user) {
+      const cached = await getOfflineProfile(user.id).catch(() => undefined);
+      if (cached) setProfile(cached);
     }
   };
 
@@ -382,6 +546,17 @@ export default function TrainingSession() {
     return (data as StudentProgress)?.xp_earned || 0;
   };
 
+  const fetchAbilityRating = async (topicId: string, profileId: string) => {
+    const { data } = await supabase
+      .from("topic_ability")
+      .select("rating")
+      .eq("topic_id", topicId)
+      .eq("profile_id", profileId)
+      .maybeSingle();
+
+    return data ? Number(data.rating) : undefined;
+  };
+
   const fetchTopicAndLesson = async () => {
     try {
       // Fetch topic with subject (always needed for chat context etc.)
@@ -392,6 +567,7 @@ export default function TrainingSession() {
         .maybeSingle();
 
       if (topicError || !topicData) {
+        if (await loadOfflineLesson()) return;
         console.error("Topic error:", topicError);
         navigate("/");
         return;
@@ -401,12 +577,6 @@ export default function TrainingSession() {
       setTopic(topicData);
       setSubject(subjectData);
 
-      // If we already restored lesson from sessionStorage, skip regeneration
-      if (lessonContent) {
-        setLoading(false);
-        return;
-      }
-
       // Get profile first to fetch topic XP
       const { data: profileData } = await supabase
         .from("profiles")
@@ -425,29 +595,32 @@ export default function TrainingSession() {
         setTopicXp(xp);
       }
 
-      // Calculate the student's current difficulty level from their XP
       const xp = profileData?.id ? await fetchTopicXp(topicData.id, profileData.id) : 0;
       setTopicXp(xp);
-      const difficultyLevel = getMasteryLevel(xp).name;
-
-      // Check for existing generated module at this difficulty level
-      const { data: moduleData } = await supabase
-        .from("generated_modules")
-        .select("content_json, difficulty_level")
-        .eq("topic_id", topicData.id)
-        .eq("difficulty_level", difficultyLevel)
-        .maybeSingle();
 
-      if (moduleData?.content_json) {
-        const content = moduleData.content_json as unknown as LessonContent;
-        // Check if it's the new format with sections
-        if (content.sections && content.final_challenge) {
-          setLessonContent(content);
+      // Difficulty follows the student's ability rating for the topic, not XP
+      const rating = profileData?.id ? await fetchAbilityRating(topicData.id, profileData.id) : undefined;
+      setAbilityRating(rating);
+
+      // Carry on a session saved part-way, on this device or another
+      if (profileData?.id && !restoredRef.current) {
+        const saved = (await loadSession(profileData.id, topicData.id).catch(() => null)) as SessionSnapshot | null;
+        restoredRef.current = true;
+        if (saved?.lessonContent) {
+          restoreSession(saved);
           setLoading(false);
-        } else {
-          // Old format, regenerate
-          await generateLesson(topicData, subjectData, profileData?.grade_level, xp);
+          return;
         }
+      }
+      restoredRef.current = true;
+
+      // Use the cached lesson at this stage and difficulty level if there is one
+      const served = await serveCachedLesson(topicData, subjectData, profileData?.grade_level, xp);
+      if (served) {
+        if (user) saveOfflineLesson({ ...served, userId: user.id, topic: topicData, subject: subjectData }).catch(() => {});
+        setMissionSessionId(served.sessionId);
+        setLessonContent(served.content);
+        setLoading(false);
       } else {
         // No cached lesson at this level - generate new content
         await generateLesson(topicData, subjectData, profileData?.grade_level, xp);
@@ -458,13 +631,69 @@ export default function TrainingSession() {
     }
   };
 
+  // Fall back to a lesson saved on this device when the server can't be reached
+  const loadOfflineLesson = async (): Promise<boolean> => {
+    try {
+      if (!user) return false;
+      const cached = await getOfflineLesson(user.id, topicSlug!, getStage(profile?.grade_level), getAbilityLevel(abilityRating).name);
+      if (!cached) return false;
+
+      setTopic(cached.topic);
+      setSubject(cached.subject);
+      setLessonContent(prev => prev || toOfflineLesson(cached.content as LessonContent));
+      setMissionSessionId(prev => prev || cached.sessionId || null);
+      const cachedProfile = await getOfflineProfile(user.id);
+      if (cachedProfile) setProfile(prev => prev || cachedProfile);
+      setOfflineMode(true);
+      setGenerating(false);
+      setLoading(false);
+      setQuestionsLoading(false);
+      return true;
+    } catch (err) {
+      console.error("Offline lesson error:", err);
+      return false;
+    }
+  };
+
+  // The server serves the cached lesson with its multiple-choice challenge
+  // redrawn from the question bank, and opens the mission session for exactly
+  // that lesson. Null when there's no cached lesson to serve
+  const serveCachedLesson = async (
+    topicData: Topic, subjectData: Subject, gradeLevel: string | null | undefined, xp: number
+  ): Promise<{ content: LessonContent; sessionId: string; topicSlug: string; stage: string; difficultyLevel: string } | null> => {
+    try {
+      const { data, error } = await supabase.functions.invoke("generate-lesson", {
+        body: {
+          topicName: topicData.name,
+          topicId: topicData.id,
+          gradeLevel: gradeLevel || DEFAULT_YEAR_LEVEL,
+          topicXp: xp,
+          subjectSlug: subjectData.slug,
+          phase: "bank",
+        },
+      });
+      if (error || !data?.content || !data.sessionId) return null;
+      return {
+        content: data.content as LessonContent,
+        sessionId: data.sessionId,
+        topicSlug: topicData.slug,
+        stage: data.stage,
+        difficultyLevel: data.difficultyLevel,
+      };
+    } catch (err) {
+      console.error("Question bank error:", err);
+      return null;
+    }
+  };
+
   const generateLesson = async (topicData: Topic, subjectData: Subject, gradeLevel?: string, xp?: number) => {
     setGenerating(true);
     try {
       const baseBody = {
         topicName: topicData.name,
+        topicId: topicData.id,
         topicEmoji: topicData.emoji,
-        gradeLevel: gradeLevel || "Year 5",
+        gradeLevel: gradeLevel || DEFAULT_YEAR_LEVEL,
         topicXp: xp || 0,
         subjectSlug: subjectData.slug,
       };
@@ -478,6 +707,9 @@ export default function TrainingSession() {
       if (!scaffoldData?.content) throw new Error("No scaffold content");
 
       const scaffold = scaffoldData.content;
+      // The server builds up and caches the lesson in this session as the phases arrive
+      const sessionId: string | null = scaffoldData.sessionId || null;
+      setMissionSessionId(sessionId);
       
       // Show scaffold immediately with placeholder check sections and empty challenge
       const scaffoldLesson: LessonContent = {
@@ -502,7 +734,7 @@ export default function TrainingSession() {
       // Phase 2: Check questions — run in background
       try {
         const { data: checksData } = await supabase.functions.invoke("generate-lesson", {
-          body: { ...baseBody, phase: "checks", scaffoldSections: learnSections },
+          body: { ...baseBody, phase: "checks", scaffoldSections: learnSections, sessionId },
         });
 
         if (checksData?.checks) {
@@ -521,8 +753,11 @@ export default function TrainingSession() {
                   options: check.options,
                   correct_answer: check.correct_answer,
                   hint: check.hint,
+                  hints: check.hints,
+                  misconceptions: check.misconceptions,
                   explanation: check.explanation,
                   question_type: check.question_type || "multiple_choice",
+                  bank_id: check.bank_id,
                 });
                 checkIdx++;
               }
@@ -537,7 +772,7 @@ export default function TrainingSession() {
       // Phase 3: Final challenge — run in background
       try {
         const { data: challengeData } = await supabase.functions.invoke("generate-lesson", {
-          body: { ...baseBody, phase: "challenge" },
+          body: { ...baseBody, phase: "challenge", sessionId },
         });
 
         if (challengeData?.final_challenge) {
@@ -552,23 +787,19 @@ export default function TrainingSession() {
 
       setQuestionsLoading(false);
 
-      // Cache full lesson after all phases complete
+      // Keep the full lesson on this device; the server has already cached it
       setLessonContent(prev => {
-        if (prev) {
-          const difficultyLevel = scaffoldData.difficultyLevel || getMasteryLevel(xp || 0).name;
-          supabase.from("generated_modules").upsert({
-            topic_id: topicData.id,
-            content_json: prev as any,
-            difficulty_level: difficultyLevel,
-          }, {
-            onConflict: "topic_id,difficulty_level",
-          });
+        if (prev && user) {
+          const difficultyLevel = scaffoldData.difficultyLevel || getAbilityLevel().name;
+          const stage = scaffoldData.stage || getStage(gradeLevel);
+          saveOfflineLesson({ userId: user.id, topicSlug: topicData.slug, stage, difficultyLevel, topic: topicData, subject: subjectData, content: prev, sessionId }).catch(() => {});
         }
         return prev;
       });
 
     } catch (err) {
       console.error("Generation error:", err);
+      if (await loadOfflineLesson()) return;
       toast.error("Couldn't generate the training session. Please try again!");
       setGenerating(false);
       setLoading(false);
@@ -586,6 +817,25 @@ export default function TrainingSession() {
     setSectionAnswers(prev => ({ ...prev, [sectionIdx]: answerIdx }));
   };
 
+  // Written and worked answers are marked once, so their hints are logged on submission
+  const logChallengeHints = (questionIdx: number) => {
+    setChallengeHintLog(prev => ({ ...prev, [questionIdx]: [challengeHintLevel[questionIdx] || 0] }));
+  };
+
+  // Wrong picks of a tagged option feed Mirri and the common mistakes panel
+  const recordMisconception = (question: Pick<CheckQuestion, "question" | "misconceptions">, answerIdx: number) => {
+    const misconception = question.misconceptions?.[answerIdx];
+    if (!profile?.id || !topic || !misconception) return;
+    supabase.from("misconception_picks").insert({
+      profile_id: profile.id,
+      topic_id: topic.id,
+      misconception,
+      question: question.question,
+    }).then(({ error }) => {
+      if (error) console.error("Failed to record misconception:", error);
+    });
+  };
+
   const checkSectionAnswer = (sectionIdx: number) => {
     const section = lessonContent?.sections[sectionIdx];
     if (!section || section.type !== "check") return;
@@ -597,18 +847,21 @@ export default function TrainingSession() {
     }
 
     const attempts = (sectionAttempts[sectionIdx] || 0) + 1;
+    const hintsUsed = sectionHintLevel[sectionIdx] || 0;
     setSectionAttempts(prev => ({ ...prev, [sectionIdx]: attempts }));
+    setSectionHintLog(prev => ({ ...prev, [sectionIdx]: [...(prev[sectionIdx] || []), hintsUsed] }));
 
     const isCorrect = selectedAnswer === section.correct_answer;
     
     if (isCorrect) {
       setSectionCompleted(prev => ({ ...prev, [sectionIdx]: true }));
-      toast.success("Brilliant! You got it! 🎉");
-      setEarnedXp(prev => prev + (isBonusSubject ? 5 : 10));
+      const points = applyHintCost(isBonusSubject ? 5 : 10, hintsUsed);
+      toast.success(`Brilliant! You got it! +${points} XP 🎉`);
+      setEarnedXp(prev => prev + points);
     } else {
-      // Don't reveal the answer - show hint and encourage retry
-      setShowSectionHint(prev => ({ ...prev, [sectionIdx]: true }));
-      toast("Not quite right - check the hint and try again! 💪", { icon: "🤔" });
+      // Don't reveal the answer - encourage a retry, with a hint if they want one
+      recordMisconception({ question: section.question!, misconceptions: section.misconceptions }, selectedAnswer);
+      toast("Not quite right - have another go, or take a hint! 💪", { icon: "🤔" });
       
       // Auto-message Mirri for help
       if (attempts >= 2) {
@@ -618,6 +871,7 @@ export default function TrainingSession() {
           options: section.options!,
           correct_answer: section.correct_answer!,
           hint: section.hint!,
+          misconceptions: section.misconceptions,
           explanation: section.explanation!,
         }, selectedAnswer);
       }
@@ -640,9 +894,9 @@ export default function TrainingSession() {
     }
   };
 
-  const handleChallengeAnswer = (questionIdx: number, answerIdx: number) => {
+  const handleChallengeAnswer = (questionIdx: number, answer: ChallengeAnswer) => {
     if (challengeCompleted[questionIdx]) return;
-    setChallengeAnswers(prev => ({ ...prev, [questionIdx]: answerIdx }));
+    setChallengeAnswers(prev => ({ ...prev, [questionIdx]: answer }));
   };
 
   const checkChallengeAnswer = (questionIdx: number) => {
@@ -650,43 +904,60 @@ export default function TrainingSession() {
     if (!question) return;
 
     const selectedAnswer = challengeAnswers[questionIdx];
-    if (selectedAnswer === null || selectedAnswer === undefined) {
-      toast.error("Pick an answer first!");
+    if (!isAnswerComplete(question, selectedAnswer)) {
+      toast.error(isInteractiveType(question.type) ? "Finish your answer first!" : "Pick an answer first!");
+      return;
+    }
+
+    // Typed answers that aren't a number don't use up an attempt
+    const check = markAnswer(question, selectedAnswer);
+    if (check.verdict === "unreadable") {
+      toast.error(check.feedback);
       return;
     }
 
     const attempts = (challengeAttempts[questionIdx] || 0) + 1;
+    const hintsUsed = challengeHintLevel[questionIdx] || 0;
     setChallengeAttempts(prev => ({ ...prev, [questionIdx]: attempts }));
+    setChallengeHintLog(prev => ({ ...prev, [questionIdx]: [...(prev[questionIdx] || []), hintsUsed] }));
 
-    const isCorrect = selectedAnswer === question.correct_answer;
-    
-    if (isCorrect) {
+    if (check.credit > 0) {
       setChallengeCompleted(prev => ({ ...prev, [questionIdx]: true }));
-      const points = question.points || 20;
+      const points = applyHintCost(Math.round((question.points || 20) * check.credit), hintsUsed);
       setEarnedXp(prev => prev + points);
-      toast.success(`Correct! +${points} XP 🎉`);
+      if (check.credit < 1) {
+        setChallengeFeedback(prev => ({ ...prev, [questionIdx]: check.feedback }));
+        toast.success(`${check.feedback} +${points} XP`);
+      } else {
+        toast.success(`${check.feedback} +${points} XP 🎉`);
+      }
       
       // Move to next question or complete
       if (questionIdx < lessonContent!.final_challenge.questions.length - 1) {
         setTimeout(() => setCurrentChallengeIndex(questionIdx + 1), 1000);
       }
     } else {
-      setShowChallengeHint(prev => ({ ...prev, [questionIdx]: true }));
+      if (typeof selectedAnswer === "number" && !isInteractiveType(question.type)) {
+        recordMisconception(question, selectedAnswer);
+      }
       
       if (attempts >= 2) {
         // Regenerate this question to prevent answer spamming
         toast("New question coming — let's try a fresh one! 🔄", { icon: "🔄" });
         regenerateChallengeQuestion(questionIdx);
       } else {
-        toast("Good try! Check the hint and have another go! 💪", { icon: "🤔" });
+        toast("Good try! Have another go, or take a hint! 💪", { icon: "🤔" });
       }
       
-      setChallengeAnswers(prev => ({ ...prev, [questionIdx]: null }));
+      // Interactive answers stay in place so the student can adjust them
+      if (!isInteractiveType(question.type)) {
+        setChallengeAnswers(prev => ({ ...prev, [questionIdx]: null }));
+      }
     }
   };
 
   const regenerateChallengeQuestion = async (questionIdx: number) => {
-    if (!lessonContent || !topic || !subject) return;
+    if (!lessonContent || !topic || !subject || !missionSessionId) return;
     
     setRegeneratingQuestion(prev => ({ ...prev, [questionIdx]: true }));
     
@@ -694,21 +965,22 @@ export default function TrainingSession() {
       const { data, error } = await supabase.functions.invoke("generate-lesson", {
         body: {
           topicName: topic.name,
+          topicId: topic.id,
           topicEmoji: topic.emoji,
-          gradeLevel: profile?.grade_level || "Year 5",
+          gradeLevel: profile?.grade_level || DEFAULT_YEAR_LEVEL,
           topicXp: topicXp || 0,
           subjectSlug: subject.slug,
           phase: "challenge",
+          // The server swaps the question in the mission session too
+          sessionId: missionSessionId,
+          replaceQuestion: questionIdx,
         },
       });
 
       if (error) throw error;
       
-      const newChallenge = data?.final_challenge;
-      if (newChallenge?.questions?.length > 0) {
-        // Pick one question from the regenerated set (use questionIdx mod length for variety)
-        const newQuestion = newChallenge.questions[questionIdx % newChallenge.questions.length];
-        
+      const newQuestion = data?.question;
+      if (newQuestion) {
         setLessonContent(prev => {
           if (!prev) return prev;
           const updatedQuestions = [...prev.final_challenge.questions];
@@ -722,7 +994,8 @@ export default function TrainingSession() {
         // Reset state for this question
         setChallengeAttempts(prev => ({ ...prev, [questionIdx]: 0 }));
         setChallengeAnswers(prev => ({ ...prev, [questionIdx]: null }));
-        setShowChallengeHint(prev => ({ ...prev, [questionIdx]: false }));
+        setChallengeHintLevel(prev => ({ ...prev, [questionIdx]: 0 }));
+        setChallengeHintLog(prev => ({ ...prev, [questionIdx]: [] }));
       }
     } catch (err) {
       console.error("Failed to regenerate question:", err);
@@ -755,6 +1028,7 @@ export default function TrainingSession() {
     setAssessingFreeText(prev => ({ ...prev, [key]: true }));
 
     try {
+      // assess-writing saves the submission and returns its id so revisions update it
       const { data, error } = await supabase.functions.invoke("assess-writing", {
         body: {
           studentResponse,
@@ -766,6 +1040,7 @@ export default function TrainingSession() {
           maxPoints: question.points || 50,
           gradeLevel: profile?.grade_level,
           topicName: topic?.name,
+          subjectName: subject?.name || subjectSlug,
         },
       });
 
@@ -774,29 +1049,22 @@ export default function TrainingSession() {
       if (data?.assessment) {
         setFreeTextFeedback(prev => ({ ...prev, [key]: data.assessment }));
         setChallengeCompleted(prev => ({ ...prev, [questionIdx]: true }));
-        setEarnedXp(prev => prev + (data.assessment.score || 0));
-        
-        // Save submission to database
-        if (profile?.id) {
-          const subjectName = subject ? (subject as any).name || subjectSlug : subjectSlug;
-          supabase.from("submissions").insert({
-            profile_id: profile.id,
-            submission_type: "typed",
-            subject_name: subjectName,
-            topic_name: topic?.name || null,
-            question: question.question,
-            student_text: studentResponse,
-            content_score: data.assessment.score,
-            content_max_score: data.assessment.maxScore,
-            content_feedback: data.assessment.feedback,
-            content_overall_rating: data.assessment.overallRating,
-            strengths: data.assessment.strengths || [],
-            improvements: data.assessment.improvements || [],
-            annotations: data.assessment.annotations || [],
-          }).then(({ error: insertErr }) => {
-            if (insertErr) console.error("Failed to save submission:", insertErr);
-          });
-        }
+        logChallengeHints(questionIdx);
+        setEarnedXp(prev => prev + applyHintCost(data.assessment.score || 0, challengeHintLevel[questionIdx] || 0));
+        setWritingRevisions(prev => ({
+          ...prev,
+          [key]: {
+            submissionId: data.submissionId || null,
+            drafts: [{
+              student_text: studentResponse,
+              content_score: data.assessment.score || 0,
+              annotations: data.assessment.annotations || [],
+              created_at: new Date().toISOString(),
+            }],
+            bestScore: data.assessment.score || 0,
+            bonusXp: 0,
+          },
+        }));
 
         // Show the feedback modal instead of proceeding immediately
         setPendingFeedbackKey(key);
@@ -810,6 +1078,105 @@ export default function TrainingSession() {
     }
   };
 
+  // Resubmits an edited draft; the assessment reports which earlier
+  // corrections were fixed, and each fix earns bonus XP up to a cap
+  const submitWritingRevision = async (questionIdx: number) => {
+    const question = lessonContent?.final_challenge.questions[questionIdx];
+    const key = `challenge_${questionIdx}`;
+    const state = writingRevisions[key];
+    if (!question || !state?.submissionId) return;
+
+    const previous = state.drafts[state.drafts.length - 1];
+    const studentResponse = freeTextAnswers[key] || "";
+    if (studentResponse.trim() === previous.student_text.trim()) {
+      toast.error("Make some changes to your writing first!");
+      return;
+    }
+    const wordCount = studentResponse.trim().split(/\s+/).filter(w => w.length > 0).length;
+    const minWords = question.min_words || 50;
+    if (wordCount < minWords) {
+      toast.error(`Your response needs at least ${minWords} words. You've written ${wordCount}.`);
+      return;
+    }
+
+    setAssessingFreeText(prev => ({ ...prev, [key]: true }));
+
+    try {
+      const { data, error } = await supabase.functions.invoke("assess-writing", {
+        body: {
+          studentResponse,
+          question: question.question,
+          assessmentCriteria: question.assessment_criteria,
+          exampleElements: question.example_elements,
+          minWords: question.min_words || 50,
+          maxWords: question.max_words || 200,
+          maxPoints: question.points || 50,
+          gradeLevel: profile?.grade_level,
+          topicName: topic?.name,
+          submissionId: state.submissionId,
+        },
+      });
+
+      if (error) throw error;
+      if (!data?.assessment) return;
+
+      const assessment: FreeTextFeedback = data.assessment;
+      // A revision never costs XP: the best score counts, plus the capped bonus
+      const bonusXp = Math.min(assessment.revision?.bonusXp || 0, MAX_REVISION_BONUS_XP - state.bonusXp);
+      const bestScore = Math.max(state.bestScore, assessment.score || 0);
+      const next: WritingRevisionState = {
+        ...state,
+        drafts: [...state.drafts, {
+          student_text: studentResponse,
+          content_score: assessment.score || 0,
+          annotations: assessment.annotations || [],
+          created_at: new Date().toISOString(),
+        }],
+        bestScore,
+        bonusXp: state.bonusXp + bonusXp,
+      };
+
+      setFreeTextFeedback(prev => ({
+        ...prev,
+        [key]: { ...assessment, revision: assessment.revision && { ...assessment.revision, bonusXp } },
+      }));
+      setWritingRevisions(prev => ({ ...prev, [key]: next }));
+      const hintsUsed = challengeHintLevel[questionIdx] || 0;
+      setEarnedXp(prev => prev + applyHintCost(bestScore, hintsUsed) - applyHintCost(state.bestScore, hintsUsed) + bonusXp);
+
+      setRevisingKey(null);
+      setPendingFeedbackKey(key);
+      setShowFeedbackModal(true);
+    } catch (err) {
+      console.error("Revision assessment error:", err);
+      toast.error("Couldn't assess your writing. Please try again!");
+    } finally {
+      setAssessingFreeText(prev => ({ ...prev, [key]: false }));
+    }
+  };
+
+  const startWritingRevision = () => {
+    if (!pendingFeedbackKey) return;
+    setShowFeedbackModal(false);
+    setRevisingKey(pendingFeedbackKey);
+    setPendingFeedbackKey(null);
+  };
+
+  // Puts the last assessed draft back and returns to its feedback
+  const cancelWritingRevision = (key: string) => {
+    const drafts = writingRevisions[key]?.drafts;
+    if (drafts) setFreeTextAnswers(prev => ({ ...prev, [key]: drafts[drafts.length - 1].student_text }));
+    setRevisingKey(null);
+    setPendingFeedbackKey(key);
+    setShowFeedbackModal(true);
+  };
+
+  const canReviseWriting = (key: string) => {
+    const state = writingRevisions[key];
+    return !!state?.submissionId && !handwritingResults[key] && state.drafts.length <= MAX_REVISIONS &&
+      getCorrections(freeTextFeedback[key]?.annotations).length > 0;
+  };
+
   const handleFreeTextChange = (key: string, value: string) => {
     setFreeTextAnswers(prev => ({ ...prev, [key]: value }));
   };
@@ -864,7 +1231,8 @@ export default function TrainingSession() {
         setFreeTextFeedback(prev => ({ ...prev, [key]: data.writing }));
         setHandwritingResults(prev => ({ ...prev, [key]: data.handwriting }));
         setChallengeCompleted(prev => ({ ...prev, [questionIdx]: true }));
-        setEarnedXp(prev => prev + (data.writing.score || 0));
+        logChallengeHints(questionIdx);
+        setEarnedXp(prev => prev + applyHintCost(data.writing.score || 0, challengeHintLevel[questionIdx] || 0));
         
         // Store transcribed text as the student response for display
         setFreeTextAnswers(prev => ({ ...prev, [key]: data.handwriting.transcribed_text || "" }));
@@ -879,6 +1247,9 @@ export default function TrainingSession() {
             topic_name: topic?.name || null,
             question: question.question,
             student_text: data.handwriting.transcribed_text || null,
+            word_count: countWords(data.handwriting.transcribed_text),
+            genre: data.writing.genre || null,
+            rubric: data.writing.rubric || null,
             image_path: data.imagePath || null,
             content_score: data.writing.score,
             content_max_score: data.writing.maxScore,
@@ -919,6 +1290,7 @@ export default function TrainingSession() {
     const mode = answerMode[key] || "photo";
     let imageBase64: string | null = null;
     let inputMethod = "photographed";
+    let strokes: StrokeRecording | null = null;
 
     if (mode === "draw") {
       const getDataUrl = canvasGetDataUrlRef.current[key];
@@ -928,6 +1300,7 @@ export default function TrainingSession() {
         return;
       }
       imageBase64 = dataUrl.split(",")[1]; // strip data:image/png;base64,
+      strokes = canvasGetStrokesRef.current[key]?.() ?? null;
       inputMethod = "drawn";
     } else if (mode === "photo") {
       const file = photoFiles[key];
@@ -964,6 +1337,7 @@ export default function TrainingSession() {
           topicName: topic?.name,
           subjectName,
           inputMethod,
+          strokes,
         },
       });
 
@@ -978,7 +1352,8 @@ export default function TrainingSession() {
       if (data?.success && data?.assessment) {
         setMathsWorkingFeedback(prev => ({ ...prev, [key]: data.assessment }));
         setChallengeCompleted(prev => ({ ...prev, [questionIdx]: true }));
-        const points = question.points || 30;
+        logChallengeHints(questionIdx);
+        const points = applyHintCost(question.points || 30, challengeHintLevel[questionIdx] || 0);
         const bonus = data.assessment.bonus_xp_awarded || 0;
         setEarnedXp(prev => prev + points + bonus);
 
@@ -999,6 +1374,38 @@ export default function TrainingSession() {
     setPhotoRejectionMsg(prev => ({ ...prev, [key]: "" }));
     const url = URL.createObjectURL(file);
     setPhotoPreviews(prev => ({ ...prev, [key]: url }));
+
+    // Upload a draft so the photo is there if the session is picked up elsewhere
+    if (!profile || !topic || offlineMode) return;
+    const previous = photoDrafts[key];
+    uploadPhotoDraft(profile.id, topic.id, key, file)
+      .then((path) => {
+        setPhotoDrafts(prev => ({ ...prev, [key]: path }));
+        if (previous) removeDrafts([previous]);
+      })
+      .catch((err) => console.error("Failed to save photo draft:", err));
+  };
+
+  const handlePhotoRemove = (key: string) => {
+    setPhotoFiles(prev => ({ ...prev, [key]: null }));
+    setPhotoPreviews(prev => ({ ...prev, [key]: "" }));
+    setPhotoRejectionMsg(prev => ({ ...prev, [key]: "" }));
+    if (!photoDrafts[key]) return;
+    removeDrafts([photoDrafts[key]]);
+    setPhotoDrafts(prev => {
+      const next = { ...prev };
+      delete next[key];
+      return next;
+    });
+  };
+
+  const handleDrawingChange = (key: string, recording: StrokeRecording | null) => {
+    setDrawingDrafts(prev => {
+      const next = { ...prev };
+      if (recording) next[key] = recording;
+      else delete next[key];
+      return next;
+    });
   };
 
   const handleFeedbackModalClose = () => {
@@ -1042,76 +1449,66 @@ export default function TrainingSession() {
   };
 
   const completeMission = async () => {
-    if (!profile || !topic) return;
+    if (!profile || !topic || !lessonContent) return;
+    // The server only credits a mission against the session its lesson opened
+    if (!missionSessionId) {
+      toast.error("This mission couldn't be saved. Please start it again!");
+      return;
+    }
 
     try {
-      const totalXp = earnedXp;
-      const currentWeekStart = getSydneyWeekStart();
-      const today = getSydneyToday();
+      // XP is worked out and written server-side from the answers themselves
+      const checks = lessonContent.sections
+        .map((section, idx) => ({ section, idx }))
+        .filter(({ section, idx }) => section.type === "check" && sectionCompleted[idx])
+        .map(({ section, idx }) => ({
+          question: section.question!,
+          answer: sectionAnswers[idx]!,
+          attempts: sectionAttempts[idx] || undefined,
+          hintLevels: sectionHintLog[idx],
+        }));
+
+      const challenge = lessonContent.final_challenge.questions
+        .map((question, idx) => ({ question, idx }))
+        .filter(({ idx }) => challengeCompleted[idx])
+        .map(({ question, idx }) => ({
+          question: question.question,
+          type: question.type || "multiple_choice",
+          answer: challengeAnswers[idx] ?? undefined,
+          attempts: challengeAttempts[idx] || undefined,
+          hintLevels: challengeHintLog[idx],
+        }));
 
-      // Fetch current profile data
-      const { data: currentProfile } = await supabase
-        .from("profiles")
-        .select("total_xp, weekly_xp_earned, week_start_date, current_streak, last_mission_date")
-        .eq("id", profile.id)
-        .maybeSingle();
+      const body = { topicId: topic.id, sessionId: missionSessionId, checks, challenge };
 
-      // Apply subject multiplier
-      const subjectSlugVal = subject?.slug || subjectSlug || "";
-      const finalXp = applySubjectMultiplier(totalXp, subjectSlugVal);
+      // No connection — keep the mission on this device until it can sync
+      if (!navigator.onLine) {
+        await queueOfflineMission(body);
+        return;
+      }
 
-      // Update profile with XP and weekly tracking
-      await supabase
-        .from("profiles")
-        .update({
-          total_xp: (currentProfile?.total_xp || 0) + finalXp,
-          weekly_xp_earned: (currentProfile?.weekly_xp_earned || 0) + finalXp,
-          week_start_date: currentWeekStart,
-          last_mission_date: today,
-        })
-        .eq("id", profile.id);
-
-      // Fetch existing progress for this topic
-      const { data: existingProgress } = await supabase
-        .from("student_progress")
-        .select("xp_earned, weekly_xp, week_start_date, missions_this_week")
-        .eq("student_id", profile.id)
-        .eq("topic_id", topic.id)
-        .maybeSingle();
+      const { data: result, error } = await supabase.functions.invoke("complete-mission", { body });
 
-      const topicIsNewWeek = isNewWeek(existingProgress?.week_start_date);
-      const existingXp = (existingProgress as StudentProgress)?.xp_earned || 0;
-      const existingWeeklyXp = topicIsNewWeek ? 0 : ((existingProgress as StudentProgress)?.weekly_xp || 0);
-      const existingMissions = topicIsNewWeek ? 0 : ((existingProgress as StudentProgress)?.missions_this_week || 0);
-
-      const newXpEarned = existingXp + totalXp;
-      const isMastered = newXpEarned >= 500;
-
-      // Update or create progress with weekly tracking
-      await supabase.from("student_progress").upsert({
-        student_id: profile.id,
-        topic_id: topic.id,
-        is_completed: isMastered,
-        xp_earned: newXpEarned,
-        weekly_xp: existingWeeklyXp + totalXp,
-        week_start_date: currentWeekStart,
-        missions_this_week: existingMissions + 1,
-      }, {
-        onConflict: "student_id,topic_id",
-      });
+      if (error instanceof FunctionsFetchError) {
+        await queueOfflineMission(body);
+        return;
+      }
+      if (error || !result?.success) throw error || new Error("Mission completion failed");
+      clearOfflineSession(user!.id, topic.slug, missionSessionId).catch(() => {});
 
-      // Log to activity feed
-      const subjectName = subject ? (subject as any).name || subjectSlug : subjectSlug;
-      await supabase.from("activity_feed").insert({
-        profile_id: profile.id,
-        activity_type: "mission_complete",
-        subject_name: subjectName,
-        topic_name: topic.name,
-        xp_earned: totalXp,
-      });
+      const finalXp: number = result.final_xp;
+      const newStreak: number = result.current_streak;
+      const isStreakDay: boolean = result.is_streak_day;
 
-      const newStreak = currentProfile?.current_streak || 0;
-      const isStreakDay = currentProfile?.last_mission_date !== today;
+      for (const badge of (result.new_badges || []) as { name: string; emoji: string }[]) {
+        toast.success(`${badge.emoji} Badge Unlocked: ${badge.name}!`);
+      }
+
+      const newLevel = getAbilityLevel(result.ability_rating);
+      if (abilityRating !== undefined && newLevel.minRating > getAbilityLevel(abilityRating).minRating) {
+        toast.success(`📈 Next mission steps up to ${newLevel.name}!`);
+      }
+      setAbilityRating(result.ability_rating);
 
       setMissionComplete(true);
       clearSessionState();
@@ -1148,7 +1545,28 @@ export default function TrainingSession() {
     }
   };
 
-  const sendMessageWithContext = async (message: string, currentQuestion?: CheckQuestion, studentAnswer?: number) => {
+  const queueOfflineMission = async (body: Record<string, unknown>) => {
+    await queueCompletion({ userId: user!.id, topicName: topic!.name, body });
+    // The queued completion owns the session now; the cached lesson mustn't submit it again
+    await clearOfflineSession(user!.id, topic!.slug, body.sessionId as string).catch(() => {});
+
+    setMissionComplete(true);
+    clearSessionState();
+    // XP is confirmed by the server on sync, so show the session's running total for now
+    setCelebrationData({ xp: earnedXp, streak: 0, isStreakDay: false, queued: true });
+    confetti({
+      particleCount: 120,
+      spread: 70,
+      origin: { y: 0.55 },
+      colors: ["#D97706", "#059669", "#0EA5E9", "#F59E0B"],
+    });
+
+    setTimeout(() => {
+      navigate(`/subject/${subjectSlug}`);
+    }, 4000);
+  };
+
+  const sendMessageWithContext = async (message: string, currentQuestion?: CheckQuestion, studentAnswer?: number | string) => {
     setMessages(prev => [...prev, { role: "user", content: message }]);
     setIsChatLoading(true);
 
@@ -1156,6 +1574,7 @@ export default function TrainingSession() {
       const chatMessages = messages
         .filter((m, idx) => !(m.role === "assistant" && idx === 0))
         .concat([{ role: "user" as const, content: message }]);
+      const context = buildChatContext(chatMessages);
 
       const response = await fetch(
         `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/chat-tutor`,
@@ -1166,7 +1585,8 @@ export default function TrainingSession() {
             Authorization: `Bearer ${session?.access_token}`,
           },
           body: JSON.stringify({
-            messages: chatMessages,
+            messages: context.messages,
+            historySummary: context.historySummary,
             topicName: topic?.name,
             lessonContent,
             currentQuestion,
@@ -1215,6 +1635,13 @@ export default function TrainingSession() {
           }
         }
       }
+
+      if (profile?.id && topic?.id && !offlineMode) {
+        saveChatMessages(profile.id, topic.id, [
+          { role: "user", content: message },
+          { role: "assistant", content: assistantMessage },
+        ]).catch((saveErr) => console.error("Failed to save chat messages:", saveErr));
+      }
     } catch (err) {
       console.error("Chat error:", err);
       setMessages(prev => [
@@ -1236,13 +1663,13 @@ export default function TrainingSession() {
     
     // Get current question context if in a check section or challenge
     let currentQuestion: CheckQuestion | undefined;
-    let studentAnswer: number | undefined;
+    let studentAnswer: number | string | undefined;
     
     if (inFinalChallenge) {
       const question = lessonContent?.final_challenge.questions[currentChallengeIndex];
       if (question) {
         currentQuestion = question;
-        studentAnswer = challengeAnswers[currentChallengeIndex] ?? undefined;
+        studentAnswer = describeAnswer(question, challengeAnswers[currentChallengeIndex]);
       }
     } else {
       const section = getCurrentSection();
@@ -1252,6 +1679,7 @@ export default function TrainingSession() {
           options: section.options!,
           correct_answer: section.correct_answer!,
           hint: section.hint!,
+          misconceptions: section.misconceptions,
           explanation: section.explanation!,
         };
         studentAnswer = sectionAnswers[currentSectionIndex] ?? undefined;
@@ -1271,11 +1699,22 @@ export default function TrainingSession() {
       const nextSection = lessonContent.sections[currentSectionIndex + 1];
       const nextIsPlaceholderCheck = questionsLoading && (!nextSection || nextSection.type !== "check") && currentSectionIndex === lessonContent.sections.length - 1;
 
+      const read = buildNarration([section.title, section.content]);
+      const narrationId = `learn_${currentSectionIndex}`;
+      const activeWord = narration.narrationId === narrationId ? narration.wordIndex : -1;
+
       return (
         <div className="space-y-4 animate-slide-up">
-          <h3 className="font-display font-bold text-xl text-foreground">{section.title}</h3>
+          <div className="flex items-start justify-between gap-2">
+            <h3 className="font-display font-bold text-xl text-foreground">
+              <NarratedText text={section.title} activeWord={activeWord} />
+            </h3>
+            <NarrationControls narration={narration} id={narrationId} text={read.text} />
+          </div>
           <div className="bg-card rounded-2xl p-5 border border-border">
-            <p className="text-foreground leading-relaxed whitespace-pre-wrap">{section.content}</p>
+            <p className="text-foreground leading-relaxed whitespace-pre-wrap">
+              <NarratedText text={section.content} offset={read.offsets[1]} activeWord={activeWord} />
+            </p>
           </div>
           <Button onClick={proceedToNext} className="w-full h-12 text-lg font-bold rounded-xl gap-2">
             Continue <ChevronRight className="w-5 h-5" />
@@ -1308,15 +1747,29 @@ export default function TrainingSession() {
     if (section.type === "check") {
       const isCompleted = sectionCompleted[currentSectionIndex];
       const selectedAnswer = sectionAnswers[currentSectionIndex];
-      const showHint = showSectionHint[currentSectionIndex];
+      const hintsUsed = sectionHintLevel[currentSectionIndex] || 0;
+      const read = buildNarration([
+        section.question || "",
+        ...(section.options || []).map((option, index) => `${String.fromCharCode(65 + index)}. ${option}`),
+      ]);
+      const narrationId = `check_${currentSectionIndex}`;
+      const activeWord = narration.narrationId === narrationId ? narration.wordIndex : -1;
 
       return (
         <div className="space-y-4 animate-slide-up">
           <div className="bg-card rounded-2xl p-5 border-2 border-sky/20">
-            <h3 className="font-display font-bold text-lg mb-4 flex items-center gap-2">
-              ✅ Quick Check
-            </h3>
-            <p className="font-medium text-foreground mb-4">{section.question}</p>
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="font-display font-bold text-lg flex items-center gap-2">
+                ✅ Quick Check
+              </h3>
+              <div className="flex items-center gap-1">
+                <NarrationControls narration={narration} id={narrationId} text={read.text} />
+                {section.bank_id && <ReportQuestionButton questionId={section.bank_id} profileId={profile?.id || null} />}
+              </div>
+            </div>
+            <p className="font-medium text-foreground mb-4">
+              <NarratedText text={section.question || ""} activeWord={activeWord} />
+            </p>
 
             <div className="space-y-2 mb-4">
               {section.options?.map((option, index) => {
@@ -1339,22 +1792,21 @@ export default function TrainingSession() {
                     }`}
                   >
                     <span className="mr-2">{String.fromCharCode(65 + index)}.</span>
-                    {option}
+                    {/* The option's letter is the first word read for it */}
+                    <NarratedText text={option} offset={read.offsets[index + 1] + 1} activeWord={activeWord} />
                   </button>
                 );
               })}
             </div>
 
-            {showHint && !isCompleted && (
-              <div className="bg-sky/10 border border-sky/20 rounded-xl p-4 mb-4 animate-slide-up">
-                <div className="flex items-start gap-2">
-                  <HelpCircle className="w-5 h-5 text-sky flex-shrink-0 mt-0.5" />
-                  <div>
-                    <p className="font-semibold text-sm text-sky mb-1">Hint:</p>
-                    <p className="text-foreground/80">{section.hint}</p>
-                  </div>
-                </div>
-              </div>
+            {!isCompleted && (
+              <HintLadder
+                hints={getHintLadder(section)}
+                revealed={hintsUsed}
+                onReveal={() => setSectionHintLevel(prev => ({ ...prev, [currentSectionIndex]: hintsUsed + 1 }))}
+                nextCost={getNextHintCost(isBonusSubject ? 5 : 10, hintsUsed)}
+                tone="sky"
+              />
             )}
 
             {!isCompleted && (
@@ -1418,8 +1870,19 @@ export default function TrainingSession() {
     const question = final_challenge.questions[currentChallengeIndex];
     const isCompleted = challengeCompleted[currentChallengeIndex];
     const selectedAnswer = challengeAnswers[currentChallengeIndex];
-    const showHint = showChallengeHint[currentChallengeIndex];
+    const hintsUsed = challengeHintLevel[currentChallengeIndex] || 0;
+    const showHint = hintsUsed > 0;
     const allDone = allChallengesComplete();
+    // Multiple choice options are read after the question
+    const isMultipleChoice =
+      !!question && question.type !== "free_text" && question.type !== "worked_solution" && !isInteractiveType(question.type);
+    const readOptions = isMultipleChoice ? question.options || [] : [];
+    const read = buildNarration([
+      question?.question || "",
+      ...readOptions.map((option, index) => `${String.fromCharCode(65 + index)}. ${option}`),
+    ]);
+    const narrationId = `challenge_${currentChallengeIndex}`;
+    const activeWord = narration.narrationId === narrationId ? narration.wordIndex : -1;
 
     return (
       <div className="space-y-6 animate-slide-up">
@@ -1449,9 +1912,15 @@ export default function TrainingSession() {
               <h3 className="font-display font-bold text-lg">
                 Challenge {currentChallengeIndex + 1} of {final_challenge.questions.length}
               </h3>
-              <span className="text-sm font-medium text-primary">+{question.points || 20} XP</span>
+              <div className="flex items-center gap-3">
+                <NarrationControls narration={narration} id={narrationId} text={read.text} />
+                {question.bank_id && <ReportQuestionButton questionId={question.bank_id} profileId={profile?.id || null} />}
+                <span className="text-sm font-medium text-primary">+{question.points || 20} XP</span>
+              </div>
             </div>
-            <p className="font-medium text-foreground mb-4">{question.question}</p>
+            <p className="font-medium text-foreground mb-4">
+              <NarratedText text={question.question} activeWord={activeWord} />
+            </p>
 
             {/* Free-text question */}
             {question.type === "free_text" ? (
@@ -1503,13 +1972,33 @@ export default function TrainingSession() {
                 {/* Type mode */}
                 {(answerMode[`challenge_${currentChallengeIndex}`] || "type") === "type" && (
                   <>
+                    {/* Revising: the corrections from the last draft to work through */}
+                    {revisingKey === `challenge_${currentChallengeIndex}` && (
+                      <div className="bg-ochre/10 border border-ochre/20 rounded-xl p-4 space-y-2 animate-slide-up">
+                        <p className="font-semibold text-sm text-foreground">
+                          ✏️ Fix these in your writing, then resubmit. Each fix earns bonus XP!
+                        </p>
+                        {getCorrections(freeTextFeedback[`challenge_${currentChallengeIndex}`]?.annotations).map((a, i) => (
+                          <div key={i} className="text-sm">
+                            <p className="text-foreground/80">
+                              <span className="font-semibold capitalize">{a.type}:</span> "{a.originalText}" → "{a.suggestion}"
+                            </p>
+                            <p className="text-xs text-muted-foreground">{a.comment}</p>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
                     <div className="relative">
                       <Textarea
                         value={freeTextAnswers[`challenge_${currentChallengeIndex}`] || ""}
                         onChange={(e) => handleFreeTextChange(`challenge_${currentChallengeIndex}`, e.target.value)}
                         placeholder="Write your response here..."
                         className="min-h-[200px] resize-none"
-                        disabled={isCompleted || assessingFreeText[`challenge_${currentChallengeIndex}`]}
+                        disabled={
+                          (isCompleted && revisingKey !== `challenge_${currentChallengeIndex}`) ||
+                          assessingFreeText[`challenge_${currentChallengeIndex}`]
+                        }
                       />
                       <div className="absolute bottom-2 right-2 text-xs text-muted-foreground">
                         {getWordCount(freeTextAnswers[`challenge_${currentChallengeIndex}`] || "")} / {question.min_words || 50}-{question.max_words || 200} words
@@ -1520,7 +2009,7 @@ export default function TrainingSession() {
                       <div className="flex gap-2">
                         <Button
                           variant="outline"
-                          onClick={() => setShowChallengeHint(prev => ({ ...prev, [currentChallengeIndex]: true }))}
+                          onClick={() => setChallengeHintLevel(prev => ({ ...prev, [currentChallengeIndex]: 1 }))}
                           className="flex-shrink-0"
                           disabled={showHint}
                         >
@@ -1543,6 +2032,33 @@ export default function TrainingSession() {
                         </Button>
                       </div>
                     )}
+
+                    {revisingKey === `challenge_${currentChallengeIndex}` && (
+                      <div className="flex gap-2">
+                        <Button
+                          variant="outline"
+                          onClick={() => cancelWritingRevision(`challenge_${currentChallengeIndex}`)}
+                          className="flex-shrink-0"
+                          disabled={assessingFreeText[`challenge_${currentChallengeIndex}`]}
+                        >
+                          Keep last draft
+                        </Button>
+                        <Button
+                          onClick={() => submitWritingRevision(currentChallengeIndex)}
+                          className="flex-1 h-12 text-lg font-bold rounded-xl"
+                          disabled={assessingFreeText[`challenge_${currentChallengeIndex}`]}
+                        >
+                          {assessingFreeText[`challenge_${currentChallengeIndex}`] ? (
+                            <>
+                              <Loader2 className="w-5 h-5 animate-spin mr-2" />
+                              Mirri is checking your changes...
+                            </>
+                          ) : (
+                            "Resubmit Draft ✏️"
+                          )}
+                        </Button>
+                      </div>
+                    )}
                   </>
                 )}
 
@@ -1560,11 +2076,7 @@ export default function TrainingSession() {
                           variant="outline"
                           size="sm"
                           className="absolute top-2 right-2 rounded-lg"
-                          onClick={() => {
-                            setPhotoFiles(prev => ({ ...prev, [`challenge_${currentChallengeIndex}`]: null }));
-                            setPhotoPreviews(prev => ({ ...prev, [`challenge_${currentChallengeIndex}`]: "" }));
-                            setPhotoRejectionMsg(prev => ({ ...prev, [`challenge_${currentChallengeIndex}`]: "" }));
-                          }}
+                          onClick={() => handlePhotoRemove(`challenge_${currentChallengeIndex}`)}
                         >
                           Change photo
                         </Button>
@@ -1621,7 +2133,7 @@ export default function TrainingSession() {
                 )}
 
                 {/* Show minimal completion indicator for free-text (detailed feedback is in modal) */}
-                {isCompleted && freeTextFeedback[`challenge_${currentChallengeIndex}`] && (
+                {isCompleted && revisingKey !== `challenge_${currentChallengeIndex}` && freeTextFeedback[`challenge_${currentChallengeIndex}`] && (
                   <div className="bg-eucalyptus/10 border border-eucalyptus/20 rounded-xl p-4 text-center animate-slide-up">
                     <span className="text-3xl block mb-2">✅</span>
                     <p className="font-semibold text-eucalyptus">
@@ -1676,10 +2188,7 @@ export default function TrainingSession() {
                             <Button
                               variant="outline" size="sm"
                               className="absolute top-2 right-2 rounded-lg"
-                              onClick={() => {
-                                setPhotoFiles(prev => ({ ...prev, [`challenge_${currentChallengeIndex}`]: null }));
-                                setPhotoPreviews(prev => ({ ...prev, [`challenge_${currentChallengeIndex}`]: "" }));
-                              }}
+                              onClick={() => handlePhotoRemove(`challenge_${currentChallengeIndex}`)}
                             >
                               Change photo
                             </Button>
@@ -1699,9 +2208,12 @@ export default function TrainingSession() {
 
                       <TabsContent value="draw" className="mt-3">
                         <DrawingCanvas
-                          onCanvasReady={(getDataUrl) => {
+                          onCanvasReady={(getDataUrl, getStrokes) => {
                             canvasGetDataUrlRef.current[`challenge_${currentChallengeIndex}`] = getDataUrl;
+                            canvasGetStrokesRef.current[`challenge_${currentChallengeIndex}`] = getStrokes;
                           }}
+                          initialRecording={drawingDrafts[`challenge_${currentChallengeIndex}`]}
+                          onChange={(recording) => handleDrawingChange(`challenge_${currentChallengeIndex}`, recording)}
                           disabled={isCompleted || assessingFreeText[`challenge_${currentChallengeIndex}`]}
                         />
                       </TabsContent>
@@ -1744,7 +2256,7 @@ export default function TrainingSession() {
                   <div className="bg-eucalyptus/10 border border-eucalyptus/20 rounded-xl p-4 text-center animate-slide-up">
                     <span className="text-3xl block mb-2">✅</span>
                     <p className="font-semibold text-eucalyptus">
-                      {mathsWorkingFeedback[`challenge_${currentChallengeIndex}`].overall_rating} +{(question.points || 30) + (mathsWorkingFeedback[`challenge_${currentChallengeIndex}`].bonus_xp_awarded || 0)} XP
+                      {mathsWorkingFeedback[`challenge_${currentChallengeIndex}`].overall_rating} +{applyHintCost(question.points || 30, hintsUsed) + (mathsWorkingFeedback[`challenge_${currentChallengeIndex}`].bonus_xp_awarded || 0)} XP
                     </p>
                   </div>
                 )}
@@ -1768,52 +2280,58 @@ export default function TrainingSession() {
                 <p className="text-muted-foreground font-medium">Generating a new question…</p>
               </div>
             ) : (
-              /* Multiple choice question */
+              /* Multiple choice and interactive questions */
               <>
-                <div className="space-y-2 mb-4">
-                  {question.options?.map((option, index) => {
-                    const isCorrect = index === question.correct_answer;
-                    const isSelected = selectedAnswer === index;
-
-                    return (
-                      <button
-                        key={index}
-                        onClick={() => handleChallengeAnswer(currentChallengeIndex, index)}
-                        disabled={isCompleted}
-                        className={`w-full p-4 rounded-xl text-left font-medium transition-all ${
-                          isCompleted
-                            ? isCorrect
-                              ? "bg-eucalyptus text-eucalyptus-foreground"
-                              : "bg-muted text-muted-foreground"
-                            : isSelected
-                            ? "bg-primary text-primary-foreground"
-                            : "bg-muted hover:bg-muted/80 text-foreground"
-                        }`}
-                      >
-                        <span className="mr-2">{String.fromCharCode(65 + index)}.</span>
-                        {option}
-                      </button>
-                    );
-                  })}
-                </div>
-
-                {showHint && !isCompleted && (
-                  <div className="bg-ochre/10 border border-ochre/20 rounded-xl p-4 mb-4 animate-slide-up">
-                    <div className="flex items-start gap-2">
-                      <HelpCircle className="w-5 h-5 text-ochre flex-shrink-0 mt-0.5" />
-                      <div>
-                        <p className="font-semibold text-sm text-ochre mb-1">Hint:</p>
-                        <p className="text-foreground/80">{question.hint}</p>
-                      </div>
-                    </div>
+                {isInteractiveType(question.type) ? (
+                  <InteractiveQuestion
+                    question={question}
+                    answer={selectedAnswer}
+                    onChange={(answer) => handleChallengeAnswer(currentChallengeIndex, answer)}
+                    disabled={isCompleted}
+                  />
+                ) : (
+                  <div className="space-y-2 mb-4">
+                    {question.options?.map((option, index) => {
+                      const isCorrect = index === question.correct_answer;
+                      const isSelected = selectedAnswer === index;
+
+                      return (
+                        <button
+                          key={index}
+                          onClick={() => handleChallengeAnswer(currentChallengeIndex, index)}
+                          disabled={isCompleted}
+                          className={`w-full p-4 rounded-xl text-left font-medium transition-all ${
+                            isCompleted
+                              ? isCorrect
+                                ? "bg-eucalyptus text-eucalyptus-foreground"
+                                : "bg-muted text-muted-foreground"
+                              : isSelected
+                              ? "bg-primary text-primary-foreground"
+                              : "bg-muted hover:bg-muted/80 text-foreground"
+                          }`}
+                        >
+                          <span className="mr-2">{String.fromCharCode(65 + index)}.</span>
+                          <NarratedText text={option} offset={read.offsets[index + 1] + 1} activeWord={activeWord} />
+                        </button>
+                      );
+                    })}
                   </div>
                 )}
 
+                {!isCompleted && (
+                  <HintLadder
+                    hints={getHintLadder(question)}
+                    revealed={hintsUsed}
+                    onReveal={() => setChallengeHintLevel(prev => ({ ...prev, [currentChallengeIndex]: hintsUsed + 1 }))}
+                    nextCost={getNextHintCost(question.points || 20, hintsUsed)}
+                  />
+                )}
+
                 {!isCompleted && (
                   <Button
                     onClick={() => checkChallengeAnswer(currentChallengeIndex)}
                     className="w-full h-12 text-lg font-bold rounded-xl"
-                    disabled={selectedAnswer === null || selectedAnswer === undefined}
+                    disabled={!isAnswerComplete(question, selectedAnswer)}
                   >
                     Check Answer
                   </Button>
@@ -1821,6 +2339,9 @@ export default function TrainingSession() {
 
                 {isCompleted && (
                   <div className="bg-eucalyptus/10 border border-eucalyptus/20 p-4 rounded-xl">
+                    {challengeFeedback[currentChallengeIndex] && (
+                      <p className="font-semibold text-ochre mb-2">{challengeFeedback[currentChallengeIndex]}</p>
+                    )}
                     <p className="text-foreground">{question.explanation}</p>
                   </div>
                 )}
@@ -1829,7 +2350,7 @@ export default function TrainingSession() {
           </div>
         )}
 
-        {allDone && !missionComplete && !showFeedbackModal && !showMathsFeedbackModal && (() => {
+        {allDone && !missionComplete && !showFeedbackModal && !showMathsFeedbackModal && !revisingKey && (() => {
           // Bug 2 fix: Only kick off countdown when no feedback modal is open
           // For MC-only challenges, start countdown here; for free-text/worked_solution
           // the countdown is started in handleFeedbackModalClose/handleMathsFeedbackModalClose
@@ -1920,6 +2441,7 @@ export default function TrainingSession() {
           feedback={freeTextFeedback[pendingFeedbackKey]}
           studentResponse={freeTextAnswers[pendingFeedbackKey] || ""}
           handwritingResult={handwritingResults[pendingFeedbackKey]}
+          onRevise={canReviseWriting(pendingFeedbackKey) ? startWritingRevision : undefined}
         />
       )}
 
@@ -1968,16 +2490,23 @@ export default function TrainingSession() {
                   <div className="text-xs text-muted-foreground mt-1 font-body">XP earned</div>
                 </div>
 
-                {/* Streak */}
-                <div className="flex-1 rounded-2xl p-4" style={{ background: "linear-gradient(135deg, hsl(0 72% 55% / 0.12), hsl(0 72% 55% / 0.06))", border: "1.5px solid hsl(0 72% 55% / 0.25)" }}>
-                  <div className="flex items-center justify-center gap-1">
-                    <span className="text-2xl">🔥</span>
-                    <span className="text-3xl font-display font-bold text-destructive leading-none">{celebrationData.streak}</span>
+                {/* Streak, or a sync note for missions finished offline */}
+                {celebrationData.queued ? (
+                  <div className="flex-1 rounded-2xl p-4 bg-sky/10 border border-sky/25 flex flex-col items-center justify-center">
+                    <WifiOff className="w-6 h-6 text-sky" />
+                    <div className="text-xs text-muted-foreground mt-1 font-body">Syncs when you're back online</div>
                   </div>
-                  <div className="text-xs text-muted-foreground mt-1 font-body">
-                    {celebrationData.isStreakDay ? "Streak day!" : "Day streak"}
+                ) : (
+                  <div className="flex-1 rounded-2xl p-4" style={{ background: "linear-gradient(135deg, hsl(0 72% 55% / 0.12), hsl(0 72% 55% / 0.06))", border: "1.5px solid hsl(0 72% 55% / 0.25)" }}>
+                    <div className="flex items-center justify-center gap-1">
+                      <span className="text-2xl">🔥</span>
+                      <span className="text-3xl font-display font-bold text-destructive leading-none">{celebrationData.streak}</span>
+                    </div>
+                    <div className="text-xs text-muted-foreground mt-1 font-body">
+                      {celebrationData.isStreakDay ? "Streak day!" : "Day streak"}
+                    </div>
                   </div>
-                </div>
+                )}
               </div>
 
               {/* Returning message */}
@@ -2014,6 +2543,13 @@ export default function TrainingSession() {
         <div className="xp-badge">+{earnedXp || lessonContent?.total_xp || 50} XP</div>
       </header>
 
+      {offlineMode && (
+        <div className="flex-shrink-0 bg-sky/10 border-b border-sky/20 px-4 py-2 text-sm text-foreground flex items-center justify-center gap-2">
+          <WifiOff className="w-4 h-4 text-sky" />
+          Offline mission — multiple-choice only. Your XP will sync when you're back online.
+        </div>
+      )}
+
       {/* Split View */}
       <main className="flex-grow flex overflow-hidden relative">
         {/* Mobile/Tablet (below lg): floating Sensei bottom sheet */}
@@ -6,6 +6,25 @@ const corsHeaders = {
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
 };
 
+// Genre and rubric scores for the writing portfolio.
+// Keep in sync with src/lib/writingUtils.ts
+
+const WRITING_GENRES = ["narrative", "persuasive", "informative"];
+const RUBRIC_CRITERIA = ["ideas", "structure", "vocabulary", "sentences", "punctuation", "spelling"];
+
+/** The genre if it's one we track, and each rubric score as a whole number from 1 to 5. */
+function normaliseWritingProfile(raw: { genre?: unknown; rubric?: unknown }) {
+  const genre = WRITING_GENRES.includes(raw.genre as string) ? (raw.genre as string) : null;
+  const rubric: Record<string, number> = {};
+  if (raw.rubric && typeof raw.rubric === "object") {
+    for (const criterion of RUBRIC_CRITERIA) {
+      const score = Number((raw.rubric as Record<string, unknown>)[criterion]);
+      if (Number.isFinite(score)) rubric[criterion] = Math.min(5, Math.max(1, Math.round(score)));
+    }
+  }
+  return { genre, rubric: Object.keys(rubric).length > 0 ? rubric : null };
+}
+
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -212,7 +231,11 @@ Return ONLY valid JSON (no markdown, no code blocks):
     const studentResponse = handwriting.transcribed_text || "";
     const wordCount = studentResponse.trim().split(/\s+/).filter((w: string) => w.length > 0).length;
 
-    const systemPrompt = `You are a warm, encouraging Australian primary school teacher assessing a ${gradeLevel} student's creative writing.
+    // Years 7–8 are marked as Stage 4 (high school) writing
+    const school = parseInt(gradeLevel.replace(/\D/g, ''), 10) >= 7 ? "high" : "primary";
+
+    const systemPrompt = `You are a warm, encouraging Australian ${school} school teacher assessing a ${gradeLevel} student's creative writing.
+Judge the writing against NSW syllabus expectations for ${gradeLevel} — not older or younger students.
 Your role is to provide constructive, age-appropriate feedback that celebrates what they did well while gently guiding improvement.
 Use Australian English spelling and be supportive - remember these are children learning to write!
 Never be harsh or discouraging. Frame all feedback positively.`;
@@ -239,6 +262,15 @@ Return ONLY a valid JSON object (no markdown, no code blocks):
   "strengths": ["<specific thing they did well>", "<another strength>"],
   "improvements": ["<gentle suggestion framed positively>", "<optional second suggestion>"],
   "overallRating": "<one of: 'Fantastic!', 'Great Work!', 'Good Effort!', 'Keep Practising!'>",
+  "genre": "<one of: 'narrative', 'persuasive', 'informative' — the kind of writing the prompt asks for>",
+  "rubric": {
+    "ideas": <1-5>,
+    "structure": <1-5>,
+    "vocabulary": <1-5>,
+    "sentences": <1-5>,
+    "punctuation": <1-5>,
+    "spelling": <1-5>
+  },
   "annotations": [
     {
       "originalText": "<exact text from student's response that needs attention>",
@@ -257,6 +289,10 @@ ANNOTATION GUIDELINES:
 - Include at least 1-2 "praise" annotations to celebrate good writing
 - Use exact text matches from the student's response for "originalText"
 
+RUBRIC GUIDE (each criterion 1-5, against ${gradeLevel} expectations):
+- 1: well below, 2: working towards, 3: at the expected level, 4: above, 5: well above
+- ideas: relevant, developed ideas; structure: suits the genre (orientation/complication/resolution, introduction/arguments/conclusion); vocabulary: precise, varied word choice; sentences: variety and control; punctuation and spelling: accuracy for the year level
+
 SCORING GUIDE:
 - 90-100%: Exceptional - exceeds all criteria, creative, well-structured
 - 75-89%: Great - meets most criteria well, good effort
@@ -279,7 +315,7 @@ Be generous and encouraging - this is a learning exercise!`;
           { role: "user", content: userPrompt },
         ],
         temperature: 0.5,
-        max_tokens: 1000,
+        max_tokens: 1200,
       }),
     });
 
@@ -309,6 +345,7 @@ Be generous and encouraging - this is a learning exercise!`;
         overallRating: "Good Effort!",
       };
     }
+    Object.assign(writing, normaliseWritingProfile(writing));
 
     // ===== Upload image to Storage =====
     console.log("Step 4: Uploading image...");
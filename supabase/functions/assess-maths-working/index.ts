@@ -6,6 +6,117 @@ const corsHeaders = {
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
 };
 
+// Drawn working arrives with its strokes: [x, y, pressure, ms] points per
+// stroke, in drawing order. Keep the limits in sync with src/lib/strokeUtils.ts
+type StrokePoint = [number, number, number, number];
+
+type StrokeTool = "pen" | "eraser" | "line" | "rect" | "circle" | "text";
+
+interface Stroke {
+  tool: StrokeTool;
+  color: string;
+  width: number;
+  points: StrokePoint[];
+  text?: string;
+}
+
+interface StrokeRecording {
+  version: 1;
+  width: number;
+  height: number;
+  background?: string;
+  strokes: Stroke[];
+}
+
+const STROKE_TOOLS: StrokeTool[] = ["pen", "eraser", "line", "rect", "circle", "text"];
+const BACKGROUNDS = ["plain", "grid", "dots", "graph"];
+const TOOL_NAMES: Partial<Record<StrokeTool, string>> = { line: "ruled line", rect: "rectangle", circle: "circle" };
+
+const MAX_STROKES = 500;
+const MAX_STROKE_POINTS = 20000;
+const MAX_TEXT_LENGTH = 40;
+// A pause this long, or a jump to another part of the page, starts a new step
+const STEP_PAUSE_MS = 1500;
+const STEP_JUMP = 0.25;
+const MAX_STEPS_LISTED = 25;
+
+/** The recording if it is well formed and within the limits, else null. */
+function sanitiseStrokes(raw: unknown): StrokeRecording | null {
+  if (!raw || typeof raw !== "object") return null;
+  const rec = raw as Record<string, unknown>;
+  if (typeof rec.width !== "number" || typeof rec.height !== "number" || rec.width <= 0 || rec.height <= 0) return null;
+  if (!Array.isArray(rec.strokes) || rec.strokes.length === 0 || rec.strokes.length > MAX_STROKES) return null;
+
+  let total = 0;
+  const strokes: Stroke[] = [];
+  for (const s of rec.strokes as Record<string, unknown>[]) {
+    if (!s || !STROKE_TOOLS.includes(s.tool as StrokeTool) || !Array.isArray(s.points)) return null;
+    total += s.points.length;
+    if (total > MAX_STROKE_POINTS) return null;
+    const valid = s.points.every((p: unknown) =>
+      Array.isArray(p) && p.length === 4 && p.every((n) => typeof n === "number" && Number.isFinite(n))
+    );
+    if (!valid) return null;
+    strokes.push({
+      tool: s.tool as StrokeTool,
+      color: typeof s.color === "string" ? s.color.slice(0, 20) : "#1e3a5f",
+      width: typeof s.width === "number" ? Math.min(Math.max(s.width, 1), 50) : 3,
+      points: s.points as StrokePoint[],
+      ...(s.tool === "text" ? { text: typeof s.text === "string" ? s.text.slice(0, MAX_TEXT_LENGTH) : "" } : {}),
+    });
+  }
+  const background = BACKGROUNDS.includes(rec.background as string) ? (rec.background as string) : "plain";
+  return { version: 1, width: rec.width, height: rec.height, background, strokes };
+}
+
+/**
+ * Describes the order the working was drawn in, one line per step. Strokes
+ * are grouped into steps by pauses and jumps around the page.
+ */
+function describeStrokeOrder(recording: StrokeRecording): string {
+  const { width, height } = recording;
+  const steps: { start: number; end: number; count: number; notes: Set<string>; x0: number; x1: number; y0: number; y1: number }[] = [];
+
+  for (const stroke of recording.strokes) {
+    if (stroke.points.length === 0) continue;
+    const xs = stroke.points.map((p) => p[0] / width);
+    const ys = stroke.points.map((p) => p[1] / height);
+    const box = { x0: Math.min(...xs), x1: Math.max(...xs), y0: Math.min(...ys), y1: Math.max(...ys) };
+    const start = stroke.points[0][3];
+    const end = stroke.points[stroke.points.length - 1][3];
+    const prev = steps[steps.length - 1];
+    const note = stroke.tool === "eraser" ? "erasing"
+      : stroke.tool === "text" ? `label "${stroke.text}"`
+      : TOOL_NAMES[stroke.tool];
+
+    const centre = { x: (box.x0 + box.x1) / 2, y: (box.y0 + box.y1) / 2 };
+    const jumped = prev && (
+      centre.x < prev.x0 - STEP_JUMP || centre.x > prev.x1 + STEP_JUMP ||
+      centre.y < prev.y0 - STEP_JUMP || centre.y > prev.y1 + STEP_JUMP
+    );
+    if (!prev || start - prev.end > STEP_PAUSE_MS || jumped) {
+      steps.push({ start, end, count: 1, notes: new Set(note ? [note] : []), ...box });
+    } else {
+      prev.end = end;
+      prev.count++;
+      if (note) prev.notes.add(note);
+      prev.x0 = Math.min(prev.x0, box.x0);
+      prev.x1 = Math.max(prev.x1, box.x1);
+      prev.y0 = Math.min(prev.y0, box.y0);
+      prev.y1 = Math.max(prev.y1, box.y1);
+    }
+  }
+
+  const pct = (n: number) => Math.round(Math.min(Math.max(n, 0), 1) * 100);
+  const secs = (ms: number) => Math.round(ms / 1000);
+  const lines = steps.slice(0, MAX_STEPS_LISTED).map((step, i) =>
+    `${i + 1}. ${secs(step.start)}-${secs(step.end)}s: ${step.count} stroke${step.count === 1 ? "" : "s"}${step.notes.size ? ` (includes ${[...step.notes].join(", ")})` : ""}, ` +
+    `across ${pct(step.x0)}-${pct(step.x1)}% and down ${pct(step.y0)}-${pct(step.y1)}% of the page`
+  );
+  if (steps.length > MAX_STEPS_LISTED) lines.push(`...and ${steps.length - MAX_STEPS_LISTED} more steps`);
+  return lines.join("\n");
+}
+
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -48,7 +159,7 @@ serve(async (req) => {
     const body = await req.json();
     const {
       imageBase64, question, workedSolutionType, correctAnswerValue,
-      workingStepsExpected, bonusXp, topicName, subjectName, inputMethod,
+      workingStepsExpected, bonusXp, topicName, subjectName, inputMethod, strokes,
     } = body;
 
     if (!imageBase64 || !question) {
@@ -63,6 +174,8 @@ serve(async (req) => {
     const gradeLevel = profile.grade_level || "Year 5";
     const solType = workedSolutionType || "working";
     const maxBonus = bonusXp || 25;
+    const recording = inputMethod === "drawn" ? sanitiseStrokes(strokes) : null;
+    if (strokes && !recording) console.warn("Ignoring malformed stroke recording");
 
     // ===== LLM CALL 1: Image validation =====
     console.log("Step 1: Validating image...");
@@ -132,7 +245,10 @@ NEAT & READABLE LAYOUT (1-5): Is the working tidy and easy to follow?
 QUESTION: ${question}
 ${correctAnswerValue ? `EXPECTED ANSWER: ${correctAnswerValue}` : ""}
 ${workingStepsExpected ? `EXPECTED STEPS: ${JSON.stringify(workingStepsExpected)}` : ""}
-
+${recording ? `
+DRAWING ORDER: This was drawn on screen${recording.background !== "plain" ? ` on ${recording.background} paper` : ""}. The steps below are in the order the student drew them, with where each sits on the page. Use them when judging CLEAR WORKING STEPS${solType === "chart" ? " and CORRECT METHOD" : ""}: working built up step by step towards the answer is better than an answer written first with working added afterwards.
+${describeStrokeOrder(recording)}
+` : ""}
 ASSESSMENT CRITERIA (calibrated for ${gradeLevel}):
 ${criteriaDescription}
 
@@ -257,6 +373,7 @@ ANNOTATION GUIDELINES:
       bonus_xp_awarded: bonusXpAwarded,
       image_path: uploadError ? null : imagePath,
       input_method: inputMethod || "photographed",
+      strokes: recording,
       subject_name: subjectName || null,
       topic_name: topicName || null,
       question,
@@ -6,6 +6,57 @@ const corsHeaders = {
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+interface WritingAnnotation {
+  originalText: string;
+  suggestion: string;
+  type: 'spelling' | 'grammar' | 'punctuation' | 'style' | 'praise';
+  comment: string;
+}
+
+// The saved draft being revised and the feedback it was given
+interface SavedSubmission {
+  id: string;
+  question: string | null;
+  student_text: string | null;
+  content_score: number | null;
+  annotations: WritingAnnotation[] | null;
+  revisions: unknown[];
+  revision_bonus_xp: number;
+  created_at: string;
+  revised_at: string | null;
+}
+
+const ANNOTATION_TYPES = ['spelling', 'grammar', 'punctuation', 'style', 'praise'];
+// Only these are checked off when a revision comes in
+const CORRECTION_TYPES = ['spelling', 'grammar', 'punctuation'];
+
+// Keep in sync with MAX_REVISION_BONUS_XP in complete-mission
+const REVISION_XP_PER_FIX = 2;
+const MAX_REVISION_BONUS_XP = 10;
+// Keep in sync with src/lib/writingUtils.ts
+const MAX_REVISIONS = 2;
+
+// Genre and rubric scores for the writing portfolio.
+// Keep in sync with src/lib/writingUtils.ts
+
+const WRITING_GENRES = ['narrative', 'persuasive', 'informative'];
+const RUBRIC_CRITERIA = ['ideas', 'structure', 'vocabulary', 'sentences', 'punctuation', 'spelling'];
+
+/** The genre if it's one we track, and each rubric score as a whole number from 1 to 5. */
+function normaliseWritingProfile(raw: { genre?: unknown; rubric?: unknown }) {
+  const genre = WRITING_GENRES.includes(raw.genre as string) ? (raw.genre as string) : null;
+  const rubric: Record<string, number> = {};
+  if (raw.rubric && typeof raw.rubric === 'object') {
+    for (const criterion of RUBRIC_CRITERIA) {
+      const score = Number((raw.rubric as Record<string, unknown>)[criterion]);
+      if (Number.isFinite(score)) rubric[criterion] = Math.min(5, Math.max(1, Math.round(score)));
+    }
+  }
+  return { genre, rubric: Object.keys(rubric).length > 0 ? rubric : null };
+}
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
 // Input validation schema
 const validateInput = (data: unknown): { valid: boolean; error?: string; data?: {
   studentResponse: string;
@@ -17,6 +68,8 @@ const validateInput = (data: unknown): { valid: boolean; error?: string; data?:
   maxPoints?: number;
   gradeLevel?: string;
   topicName?: string;
+  subjectName?: string;
+  submissionId?: string;
 }} => {
   if (!data || typeof data !== 'object') {
     return { valid: false, error: 'Invalid request body' };
@@ -81,6 +134,15 @@ const validateInput = (data: unknown): { valid: boolean; error?: string; data?:
     return { valid: false, error: 'topicName must be a string with max 200 characters' };
   }
 
+  if (body.subjectName !== undefined && (typeof body.subjectName !== 'string' || body.subjectName.length > 200)) {
+    return { valid: false, error: 'subjectName must be a string with max 200 characters' };
+  }
+
+  // A revision names the saved submission it revises
+  if (body.submissionId !== undefined && (typeof body.submissionId !== 'string' || !UUID_RE.test(body.submissionId))) {
+    return { valid: false, error: 'submissionId must be a UUID' };
+  }
+
   return {
     valid: true,
     data: {
@@ -93,10 +155,42 @@ const validateInput = (data: unknown): { valid: boolean; error?: string; data?:
       maxPoints: body.maxPoints as number | undefined,
       gradeLevel: body.gradeLevel as string | undefined,
       topicName: body.topicName as string | undefined,
+      subjectName: body.subjectName as string | undefined,
+      submissionId: body.submissionId as string | undefined,
     }
   };
 };
 
+const countOccurrences = (text: string, part: string): number => text.split(part).length - 1;
+
+/**
+ * A correction counts as fixed once the suggested wording has replaced the
+ * original: the suggestion appears more often than in the earlier draft and
+ * the original less often. Fixes that only add to the original, like a
+ * missing full stop, just need the suggestion to appear. Deleting the
+ * annotated text doesn't count.
+ */
+const isAnnotationFixed = (annotation: WritingAnnotation, previousText: string, revisedText: string): boolean => {
+  const original = annotation.originalText.trim();
+  const suggestion = annotation.suggestion.trim();
+  if (!original || !suggestion || original === suggestion) return false;
+  if (countOccurrences(revisedText, suggestion) <= countOccurrences(previousText, suggestion)) return false;
+  if (suggestion.includes(original)) return true;
+  return countOccurrences(revisedText, original) < countOccurrences(previousText, original);
+};
+
+const compareRevision = (previous: SavedSubmission, revisedText: string) => {
+  const previousText = previous.student_text || '';
+  const corrections = (previous.annotations || []).filter((a) => CORRECTION_TYPES.includes(a.type));
+  const fixed = corrections.filter((a) => isAnnotationFixed(a, previousText, revisedText));
+  const remaining = corrections.filter((a) => !isAnnotationFixed(a, previousText, revisedText));
+  return {
+    fixed,
+    remaining,
+    bonusXp: Math.max(0, Math.min(fixed.length * REVISION_XP_PER_FIX, MAX_REVISION_BONUS_XP - previous.revision_bonus_xp)),
+  };
+};
+
 // Validate subscription tier
 const validateMissionAccess = async (
   supabaseClient: any,
@@ -193,7 +287,45 @@ serve(async (req) => {
       );
     }
 
-    const { studentResponse, question, assessmentCriteria, exampleElements, minWords, maxWords, maxPoints, gradeLevel, topicName } = validation.data;
+    const { studentResponse, question, assessmentCriteria, exampleElements, minWords, maxWords, maxPoints, gradeLevel, topicName, subjectName, submissionId } = validation.data;
+
+    const { data: profile, error: profileError } = await supabaseClient
+      .from('profiles')
+      .select('id')
+      .eq('user_id', userData.user.id)
+      .single();
+    if (profileError || !profile) {
+      return new Response(
+        JSON.stringify({ error: 'Profile not found' }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // A revision is compared with the draft saved on the server, not one sent by the client
+    let previousAttempt: SavedSubmission | null = null;
+    if (submissionId) {
+      const { data: saved } = await supabaseClient
+        .from('submissions')
+        .select('id, question, student_text, content_score, annotations, revisions, revision_bonus_xp, created_at, revised_at')
+        .eq('id', submissionId)
+        .eq('profile_id', profile.id)
+        .eq('submission_type', 'typed')
+        .maybeSingle();
+      if (!saved || saved.question !== question) {
+        return new Response(
+          JSON.stringify({ error: 'Submission not found' }),
+          { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+      previousAttempt = saved as SavedSubmission;
+      if (previousAttempt.revisions.length >= MAX_REVISIONS) {
+        return new Response(
+          JSON.stringify({ error: 'No revisions left for this submission' }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+    }
+    const revision = previousAttempt ? compareRevision(previousAttempt, studentResponse) : null;
 
     const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
     if (!LOVABLE_API_KEY) {
@@ -203,7 +335,11 @@ serve(async (req) => {
     const wordCount = studentResponse.trim().split(/\s+/).filter((w: string) => w.length > 0).length;
     const yearLevel = gradeLevel || "Year 5";
 
-    const systemPrompt = `You are a warm, encouraging Australian primary school teacher assessing a ${yearLevel} student's creative writing.
+    // Years 7–8 are marked as Stage 4 (high school) writing
+    const school = parseInt(yearLevel.replace(/\D/g, ''), 10) >= 7 ? "high" : "primary";
+
+    const systemPrompt = `You are a warm, encouraging Australian ${school} school teacher assessing a ${yearLevel} student's creative writing.
+Judge the writing against NSW syllabus expectations for ${yearLevel} — not older or younger students.
 Your role is to provide constructive, age-appropriate feedback that celebrates what they did well while gently guiding improvement.
 Use Australian English spelling and be supportive - remember these are children learning to write!
 Never be harsh or discouraging. Frame all feedback positively.`;
@@ -221,7 +357,18 @@ ${assessmentCriteria ? `ASSESSMENT CRITERIA:\n${assessmentCriteria.map((c: strin
 ${exampleElements ? `ELEMENTS TO LOOK FOR:\n${exampleElements.join(', ')}` : ''}
 
 WORD REQUIREMENTS: ${minWords || 50}-${maxWords || 200} words (student wrote ${wordCount})
+${previousAttempt && revision ? `
+THIS IS A REVISED DRAFT. The student's earlier draft was:
+${previousAttempt.student_text}
+
+Corrections from the earlier feedback they have now fixed:
+${revision.fixed.map((a) => `- "${a.originalText}" → "${a.suggestion}"`).join('\n') || '- none'}
 
+Corrections still to fix:
+${revision.remaining.map((a) => `- "${a.originalText}" → "${a.suggestion}"`).join('\n') || '- none'}
+
+Score the new draft on its own merits. In "feedback", start by naming what they improved since the earlier draft. Only annotate mistakes that are in the new draft.
+` : ''}
 Return ONLY a valid JSON object (no markdown, no code blocks):
 {
   "score": <number between 0 and ${maxPoints || 50}>,
@@ -230,6 +377,15 @@ Return ONLY a valid JSON object (no markdown, no code blocks):
   "strengths": ["<specific thing they did well>", "<another strength>"],
   "improvements": ["<gentle suggestion framed positively>", "<optional second suggestion>"],
   "overallRating": "<one of: 'Fantastic!', 'Great Work!', 'Good Effort!', 'Keep Practising!'>",
+  "genre": "<one of: 'narrative', 'persuasive', 'informative' — the kind of writing the prompt asks for>",
+  "rubric": {
+    "ideas": <1-5>,
+    "structure": <1-5>,
+    "vocabulary": <1-5>,
+    "sentences": <1-5>,
+    "punctuation": <1-5>,
+    "spelling": <1-5>
+  },
   "annotations": [
     {
       "originalText": "<exact text from student's response that needs attention>",
@@ -248,6 +404,10 @@ ANNOTATION GUIDELINES:
 - Include at least 1-2 "praise" annotations to celebrate good writing
 - Use exact text matches from the student's response for "originalText"
 
+RUBRIC GUIDE (each criterion 1-5, against ${yearLevel} expectations):
+- 1: well below, 2: working towards, 3: at the expected level, 4: above, 5: well above
+- ideas: relevant, developed ideas; structure: suits the genre (orientation/complication/resolution, introduction/arguments/conclusion); vocabulary: precise, varied word choice; sentences: variety and control; punctuation and spelling: accuracy for the year level
+
 SCORING GUIDE:
 - 90-100%: Exceptional - exceeds all criteria, creative, well-structured
 - 75-89%: Great - meets most criteria well, good effort
@@ -270,7 +430,7 @@ Be generous and encouraging - this is a learning exercise!`;
           { role: "user", content: userPrompt },
         ],
         temperature: 0.5,
-        max_tokens: 1000,
+        max_tokens: 1200,
       }),
     });
 
@@ -322,8 +482,63 @@ Be generous and encouraging - this is a learning exercise!`;
       };
     }
 
+    Object.assign(assessment, normaliseWritingProfile(assessment));
+    assessment.annotations = Array.isArray(assessment.annotations)
+      ? assessment.annotations.filter((a: WritingAnnotation) =>
+          typeof a?.originalText === 'string' && typeof a.suggestion === 'string' && ANNOTATION_TYPES.includes(a.type))
+      : [];
+    if (revision) assessment.revision = revision;
+
+    // Save the draft. A revision keeps the earlier draft with the score and annotations it was given
+    const draft = {
+      student_text: studentResponse,
+      word_count: wordCount,
+      genre: assessment.genre,
+      rubric: assessment.rubric,
+      content_score: assessment.score,
+      content_max_score: assessment.maxScore,
+      content_feedback: assessment.feedback,
+      content_overall_rating: assessment.overallRating,
+      strengths: assessment.strengths || [],
+      improvements: assessment.improvements || [],
+      annotations: assessment.annotations,
+    };
+    let savedId = previousAttempt?.id ?? null;
+    if (previousAttempt && revision) {
+      const { error: updateError } = await supabaseClient
+        .from('submissions')
+        .update({
+          ...draft,
+          revisions: [...(previousAttempt.revisions || []), {
+            student_text: previousAttempt.student_text,
+            content_score: previousAttempt.content_score,
+            annotations: previousAttempt.annotations || [],
+            created_at: previousAttempt.revised_at || previousAttempt.created_at,
+          }],
+          revision_bonus_xp: previousAttempt.revision_bonus_xp + revision.bonusXp,
+          revised_at: new Date().toISOString(),
+        })
+        .eq('id', previousAttempt.id);
+      if (updateError) console.error('Failed to save revision:', updateError);
+    } else {
+      const { data: inserted, error: insertError } = await supabaseClient
+        .from('submissions')
+        .insert({
+          ...draft,
+          profile_id: profile.id,
+          submission_type: 'typed',
+          subject_name: subjectName || null,
+          topic_name: topicName || null,
+          question,
+        })
+        .select('id')
+        .single();
+      if (insertError) console.error('Failed to save submission:', insertError);
+      savedId = inserted?.id ?? null;
+    }
+
     return new Response(
-      JSON.stringify({ success: true, assessment }),
+      JSON.stringify({ success: true, assessment, submissionId: savedId }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
   } catch (error) {
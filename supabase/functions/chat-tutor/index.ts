@@ -17,6 +17,8 @@ interface CurrentQuestion {
   options?: string[];
   correct_answer?: number | string;
   hint?: string;
+  // The mistake behind each wrong option, null for the correct one
+  misconceptions?: (string | null)[];
 }
 
 const validateInput = (data: unknown): { valid: boolean; error?: string; data?: {
@@ -26,6 +28,7 @@ const validateInput = (data: unknown): { valid: boolean; error?: string; data?:
   currentQuestion?: CurrentQuestion;
   studentAnswer?: number | string;
   gradeLevel?: string;
+  historySummary?: string;
 }} => {
   if (!data || typeof data !== 'object') {
     return { valid: false, error: 'Invalid request body' };
@@ -64,6 +67,10 @@ const validateInput = (data: unknown): { valid: boolean; error?: string; data?:
   if (body.gradeLevel !== undefined && (typeof body.gradeLevel !== 'string' || body.gradeLevel.length > 50)) {
     return { valid: false, error: 'gradeLevel must be a string with max 50 characters' };
   }
+  // Compact summary of a long saved thread, sent instead of the older messages
+  if (body.historySummary !== undefined && (typeof body.historySummary !== 'string' || body.historySummary.length > 3000)) {
+    return { valid: false, error: 'historySummary must be a string with max 3000 characters' };
+  }
 
   // Optional lessonContent
   if (body.lessonContent !== undefined) {
@@ -98,6 +105,16 @@ const validateInput = (data: unknown): { valid: boolean; error?: string; data?:
     if (currentQuestion.hint !== undefined && (typeof currentQuestion.hint !== 'string' || currentQuestion.hint.length > 1000)) {
       return { valid: false, error: 'currentQuestion.hint must be a string with max 1000 characters' };
     }
+    if (currentQuestion.misconceptions !== undefined) {
+      if (!Array.isArray(currentQuestion.misconceptions) || currentQuestion.misconceptions.length > 10) {
+        return { valid: false, error: 'currentQuestion.misconceptions must be an array with max 10 items' };
+      }
+      for (const tag of currentQuestion.misconceptions) {
+        if (tag !== null && (typeof tag !== 'string' || tag.length > 80)) {
+          return { valid: false, error: 'Each misconception must be null or a string with max 80 characters' };
+        }
+      }
+    }
   }
 
   return {
@@ -109,10 +126,37 @@ const validateInput = (data: unknown): { valid: boolean; error?: string; data?:
       currentQuestion: body.currentQuestion as CurrentQuestion | undefined,
       studentAnswer: body.studentAnswer as number | string | undefined,
       gradeLevel: body.gradeLevel as string | undefined,
+      historySummary: body.historySummary as string | undefined,
     }
   };
 };
 
+// Mirri's voice for each NSW stage (Years 3–4, 5–6 and 7–8)
+interface TutorPersona {
+  audience: string;
+  style: string;
+}
+
+const getTutorPersona = (yearLevel: string): TutorPersona => {
+  const year = parseInt(yearLevel.replace(/\D/g, ''), 10);
+  if (year <= 4) {
+    return {
+      audience: `Australian primary school students (${yearLevel}, Stage 2, ages 8-10)`,
+      style: "- Use short sentences and everyday words; explain any new word straight away\n- Use concrete, hands-on examples (sharing lollies, counting footy cards)",
+    };
+  }
+  if (year >= 7) {
+    return {
+      audience: `Australian high school students (${yearLevel}, Stage 4, ages 12-14)`,
+      style: "- Talk to them like a capable teenager — encouraging but never babyish\n- Use correct subject terminology and ask them to justify their reasoning",
+    };
+  }
+  return {
+    audience: `Australian primary school students (${yearLevel}, Stage 3, ages 10-12)`,
+    style: "- Use simple language and introduce subject words with a quick explanation\n- Use relatable Aussie examples (cricket scores, pocket money, road trips)",
+  };
+};
+
 // Note: Mission limits are enforced at mission start, not in the chat tutor.
 // The chat tutor is a helper available during lessons regardless of daily limits.
 
@@ -169,7 +213,7 @@ serve(async (req) => {
       );
     }
 
-    const { messages, topicName, lessonContent, currentQuestion, studentAnswer, gradeLevel } = validation.data;
+    const { messages, topicName, lessonContent, currentQuestion, studentAnswer, gradeLevel, historySummary } = validation.data;
 
     const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
     if (!LOVABLE_API_KEY) {
@@ -179,6 +223,8 @@ serve(async (req) => {
     // Build context about what question the student is working on
     let questionContext = "";
     if (currentQuestion) {
+      // A wrong pick of a tagged option tells Mirri which mistake to work on
+      const misconception = typeof studentAnswer === "number" ? currentQuestion.misconceptions?.[studentAnswer] : null;
       questionContext = `
 The student is currently working on this question:
 Question: ${currentQuestion.question}
@@ -186,15 +232,17 @@ Options: ${currentQuestion.options?.join(", ") || "N/A"}
 ${studentAnswer !== undefined ? `Their answer: ${currentQuestion.options?.[studentAnswer as number] || studentAnswer}` : "They haven't answered yet."}
 Correct answer: ${currentQuestion.options?.[currentQuestion.correct_answer as number] || currentQuestion.correct_answer}
 Hint (use to guide them): ${currentQuestion.hint || "No hint available"}
+${misconception ? `Likely misconception behind their answer: ${misconception}` : ""}
 
 IMPORTANT: If they got it wrong, DO NOT reveal the correct answer! Instead:
 1. Acknowledge their attempt positively
-2. Use the hint to guide their thinking
+2. ${misconception ? `Gently address the misconception ("${misconception}") — show why that way of thinking doesn't work here, with a quick example of your own` : "Use the hint to guide their thinking"}
 3. Ask a guiding question to help them reconsider
 4. Encourage them to try again`;
     }
 
-    const systemPrompt = `You are Mirri, a friendly and encouraging AI study buddy for Australian primary school students (${gradeLevel || "Years 5-6"}, ages 10-11). 
+    const persona = getTutorPersona(gradeLevel || "Year 5");
+    const systemPrompt = `You are Mirri, a friendly and encouraging AI study buddy for ${persona.audience}. 
 
 Your personality:
 - Warm, patient, and enthusiastic about learning
@@ -202,12 +250,13 @@ Your personality:
 - Celebrate small wins with encouragement
 - NEVER make kids feel bad for getting things wrong
 - Keep responses SHORT (2-3 sentences max) and age-appropriate
-- Use simple language and emojis sparingly 🦘
+- Use emojis sparingly 🦘
+${persona.style}
 
 Current topic: ${topicName}
 ${lessonContent ? `Lesson context: The student is learning about ${lessonContent.title || topicName}` : ''}
 ${questionContext}
-
+${historySummary ? `\nYou have talked with this student before. ${historySummary}\nBuild on what you've already covered rather than repeating it.\n` : ''}
 CRITICAL GUIDELINES:
 - NEVER directly give away answers to questions
 - When a student gets something wrong, guide them with hints and questions, NOT the answer
@@ -34,6 +34,25 @@ serve(async (req) => {
     const user = userData.user;
     if (!user?.email) throw new Error("User not authenticated");
 
+    // A child profile a parent manages is covered by the parent's subscription
+    const { data: ownProfile } = await supabaseClient
+      .from("profiles")
+      .select("managed_by")
+      .eq("user_id", user.id)
+      .maybeSingle();
+    if (ownProfile?.managed_by) {
+      const { data: parent } = await supabaseClient
+        .from("profiles")
+        .select("subscription_tier")
+        .eq("id", ownProfile.managed_by)
+        .maybeSingle();
+      const tier = parent?.subscription_tier === "champion" ? "champion" : "explorer";
+      return new Response(JSON.stringify({ subscribed: tier === "champion", tier }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 200,
+      });
+    }
+
     const stripe = new Stripe(stripeKey, { apiVersion: "2025-08-27.basil" });
     
     const customers = await stripe.customers.list({ email: user.email, limit: 1 });
@@ -82,6 +101,10 @@ serve(async (req) => {
             stripe_customer_id: customerId,
           })
           .eq("id", profileData.id);
+        await supabaseClient
+          .from("profiles")
+          .update({ subscription_tier: isChampion ? "champion" : "explorer" })
+          .eq("managed_by", profileData.id);
       }
 
       // Safely handle subscription end date
@@ -116,6 +139,10 @@ serve(async (req) => {
           stripe_customer_id: customerId,
         })
         .eq("id", profileData.id);
+      await supabaseClient
+        .from("profiles")
+        .update({ subscription_tier: "explorer" })
+        .eq("managed_by", profileData.id);
     }
 
     return new Response(JSON.stringify({ subscribed: false, tier: "explorer" }), {
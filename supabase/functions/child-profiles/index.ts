@@ -0,0 +1,157 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Child profiles a parent can own. Each one is a separate auth user
+const MAX_CHILDREN = 6;
+// Child auth users have no mailbox; the parent signs into them from the dashboard
+const CHILD_EMAIL_DOMAIN = "children.dingodojo.invalid";
+
+// ── Input Validation ─────────────────────────────────────────────────
+
+type ValidatedInput =
+  | { action: "create"; firstName: string }
+  | { action: "switch"; profileId: string };
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const validateInput = (data: unknown): { valid: boolean; error?: string; data?: ValidatedInput } => {
+  if (!data || typeof data !== 'object') return { valid: false, error: 'Invalid request body' };
+  const body = data as Record<string, unknown>;
+
+  if (body.action === "create") {
+    if (typeof body.firstName !== 'string' || body.firstName.trim().length === 0 || body.firstName.trim().length > 50) {
+      return { valid: false, error: 'firstName must be 1-50 characters' };
+    }
+    return { valid: true, data: { action: "create", firstName: body.firstName.trim() } };
+  }
+
+  if (body.action === "switch") {
+    if (typeof body.profileId !== 'string' || !UUID_RE.test(body.profileId)) return { valid: false, error: 'Invalid profileId' };
+    return { valid: true, data: { action: "switch", profileId: body.profileId } };
+  }
+
+  return { valid: false, error: 'action must be "create" or "switch"' };
+};
+
+// ── Main Handler ─────────────────────────────────────────────────────
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '', Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      { auth: { persistSession: false } }
+    );
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: userData, error: userError } = await supabaseClient.auth.getUser(token);
+    if (userError || !userData?.user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    let rawBody: unknown;
+    try { rawBody = await req.json(); } catch {
+      return new Response(JSON.stringify({ error: 'Invalid JSON' }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    const validation = validateInput(rawBody);
+    if (!validation.valid || !validation.data) {
+      return new Response(JSON.stringify({ error: validation.error }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+    const input = validation.data;
+
+    const { data: parent } = await supabaseClient
+      .from('profiles')
+      .select('id, account_type, subscription_tier')
+      .eq('user_id', userData.user.id)
+      .maybeSingle();
+    if (!parent || parent.account_type !== 'parent') {
+      return new Response(JSON.stringify({ error: 'Only parent accounts can manage child profiles' }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    if (input.action === "create") {
+      const { count } = await supabaseClient
+        .from('profiles')
+        .select('id', { count: 'exact', head: true })
+        .eq('managed_by', parent.id);
+      if ((count ?? 0) >= MAX_CHILDREN) {
+        return new Response(JSON.stringify({ error: `A family can have up to ${MAX_CHILDREN} child profiles` }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+      }
+
+      // handle_new_user creates the student profile for the new auth user
+      const { data: created, error: createError } = await supabaseClient.auth.admin.createUser({
+        email: `${crypto.randomUUID()}@${CHILD_EMAIL_DOMAIN}`,
+        email_confirm: true,
+        user_metadata: { first_name: input.firstName, account_type: 'student' },
+      });
+      if (createError || !created?.user) throw createError || new Error('Child user not created');
+
+      // The parent's subscription covers the child; check-subscription keeps it in step
+      const { data: child, error: updateError } = await supabaseClient
+        .from('profiles')
+        .update({ managed_by: parent.id, subscription_tier: parent.subscription_tier })
+        .eq('user_id', created.user.id)
+        .select('id')
+        .single();
+      if (updateError || !child) {
+        await supabaseClient.auth.admin.deleteUser(created.user.id);
+        throw updateError || new Error('Child profile not created');
+      }
+
+      console.log(`Child profile ${child.id} created for parent ${parent.id}`);
+      return new Response(JSON.stringify({ profileId: child.id }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    // Switching signs the device into the child's auth user. The client
+    // exchanges the token hash for a session; getting back to the parent
+    // view takes the parent's own password
+    const { data: child } = await supabaseClient
+      .from('profiles')
+      .select('id, user_id')
+      .eq('id', input.profileId)
+      .eq('managed_by', parent.id)
+      .maybeSingle();
+    if (!child?.user_id) {
+      return new Response(JSON.stringify({ error: 'Child profile not found' }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    const { data: childUser, error: childUserError } = await supabaseClient.auth.admin.getUserById(child.user_id);
+    if (childUserError || !childUser?.user?.email) throw childUserError || new Error('Child user not found');
+
+    const { data: link, error: linkError } = await supabaseClient.auth.admin.generateLink({
+      type: 'magiclink',
+      email: childUser.user.email,
+    });
+    if (linkError || !link?.properties?.hashed_token) throw linkError || new Error('Sign-in link not generated');
+
+    return new Response(JSON.stringify({ tokenHash: link.properties.hashed_token }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } });
+  } catch (error) {
+    console.error("Error managing child profile:", error);
+    return new Response(
+      JSON.stringify({ error: "An error occurred while processing your request" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,933 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { evaluate, unit } from "https://esm.sh/mathjs@13.2.2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// ── XP Rules ─────────────────────────────────────────────────────────
+// Keep in sync with src/lib/weeklyGoalUtils.ts and TrainingSession.tsx
+
+const SUBJECT_MULTIPLIERS: Record<string, number> = {
+  english: 1.2,
+  maths: 1.2,
+  "science-technology": 1.0,
+  geography: 1.0,
+  history: 1.0,
+};
+
+const PRIORITY_SUBJECTS = ["english", "maths", "mathematics"];
+
+const CHECK_XP = 10;
+const BONUS_SUBJECT_CHECK_XP = 5;
+const DEFAULT_POINTS: Record<ChallengeType, number> = {
+  multiple_choice: 20,
+  free_text: 50,
+  worked_solution: 30,
+  ordering: 20,
+  matching: 20,
+  number_line: 20,
+  cloze: 20,
+  numeric: 20,
+};
+const DEFAULT_BONUS_XP = 25;
+// Bonus for fixing annotated mistakes in a revised draft. Keep in sync with assess-writing
+const MAX_REVISION_BONUS_XP = 10;
+// Share of a question's XP kept after taking 0-3 hints. Keep in sync with src/lib/hintUtils.ts
+const HINT_XP_MULTIPLIERS = [1, 0.9, 0.75, 0.5];
+// complete_mission errors for a session or review that another submission already completed
+const COMPLETED_ELSEWHERE = ["Mission session already completed or expired", "Review items already reviewed"];
+
+function applySubjectMultiplier(baseXP: number, subjectSlug: string): number {
+  return Math.round(baseXP * (SUBJECT_MULTIPLIERS[subjectSlug] ?? 1.0));
+}
+
+/**
+ * The most hints taken on a question, from the hints logged at each attempt.
+ * A question sent without a hint log pays for every hint.
+ */
+function hintsTaken(result: { hintLevels?: number[] }): number {
+  if (result.hintLevels && result.hintLevels.length > 0) return Math.max(...result.hintLevels);
+  return HINT_XP_MULTIPLIERS.length - 1;
+}
+
+/** XP for a question once the hints taken are paid for. */
+function applyHintCost(xp: number, result: { hintLevels?: number[] }): number {
+  return Math.round(xp * HINT_XP_MULTIPLIERS[hintsTaken(result)]);
+}
+
+// ── Input Validation ─────────────────────────────────────────────────
+
+type ChallengeType =
+  | "multiple_choice" | "free_text" | "worked_solution" | "ordering" | "matching" | "number_line" | "cloze" | "numeric";
+
+const CHALLENGE_TYPES: ChallengeType[] = [
+  "multiple_choice", "free_text", "worked_solution", "ordering", "matching", "number_line", "cloze", "numeric",
+];
+
+// Marked on the device and re-checked here against the stored question
+const AUTO_MARKED_TYPES: ChallengeType[] = ["multiple_choice", "ordering", "matching", "number_line", "cloze", "numeric"];
+
+// Option index, item/pair indexes, a number line value, the typed blanks or a typed answer
+type ChallengeAnswer = number | number[] | string[] | string;
+
+interface CheckResult {
+  question: string;
+  answer: number;
+  attempts?: number;
+  // Hints taken by each attempt
+  hintLevels?: number[];
+}
+
+// Written and worked answers are scored from their stored assessment
+interface ChallengeResult {
+  question: string;
+  type: ChallengeType;
+  answer?: ChallengeAnswer;
+  attempts?: number;
+  hintLevels?: number[];
+}
+
+interface ReviewResult {
+  itemId: string;
+  answer: number;
+}
+
+type ValidatedInput =
+  | { mode: "mission"; topicId: string; sessionId: string; checks: CheckResult[]; challenge: ChallengeResult[] }
+  | { mode: "review"; topicId: string; reviews: ReviewResult[] };
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const validateAttemptInfo = (result: Record<string, unknown>): string | null => {
+  if (result.attempts !== undefined && (typeof result.attempts !== 'number' || !Number.isInteger(result.attempts) || result.attempts < 1 || result.attempts > 20)) return 'Invalid attempts';
+  if (result.hintLevels !== undefined && (
+    !Array.isArray(result.hintLevels) || result.hintLevels.length > 20 ||
+    !result.hintLevels.every((level) => Number.isInteger(level) && level >= 0 && level < HINT_XP_MULTIPLIERS.length)
+  )) return 'Invalid hintLevels';
+  return null;
+};
+
+const isValidChallengeAnswer = (type: ChallengeType, answer: unknown): boolean => {
+  switch (type) {
+    case "ordering":
+    case "matching":
+      return Array.isArray(answer) && answer.length <= 20 && answer.every((v) => Number.isInteger(v));
+    case "number_line":
+      return typeof answer === 'number' && Number.isFinite(answer);
+    case "cloze":
+      return Array.isArray(answer) && answer.length <= 10 && answer.every((v) => typeof v === 'string' && v.length <= 50);
+    case "numeric":
+      return typeof answer === 'string' && answer.length <= 50;
+    default:
+      return typeof answer === 'number' && Number.isInteger(answer);
+  }
+};
+
+const validateInput = (data: unknown): { valid: boolean; error?: string; data?: ValidatedInput } => {
+  if (!data || typeof data !== 'object') return { valid: false, error: 'Invalid request body' };
+  const body = data as Record<string, unknown>;
+
+  if (typeof body.topicId !== 'string' || !UUID_RE.test(body.topicId)) return { valid: false, error: 'Invalid topicId' };
+
+  if (body.mode === "review") {
+    if (!Array.isArray(body.reviews) || body.reviews.length === 0 || body.reviews.length > 10) {
+      return { valid: false, error: 'reviews must be an array with 1-10 items' };
+    }
+    for (const r of body.reviews) {
+      if (!r || typeof r !== 'object') return { valid: false, error: 'Invalid review result' };
+      const review = r as Record<string, unknown>;
+      if (typeof review.itemId !== 'string' || !UUID_RE.test(review.itemId)) return { valid: false, error: 'Invalid review itemId' };
+      if (typeof review.answer !== 'number' || !Number.isInteger(review.answer)) return { valid: false, error: 'Invalid review answer' };
+    }
+    return { valid: true, data: { mode: "review", topicId: body.topicId, reviews: body.reviews as ReviewResult[] } };
+  }
+
+  if (typeof body.sessionId !== 'string' || !UUID_RE.test(body.sessionId)) return { valid: false, error: 'Invalid sessionId' };
+  if (!Array.isArray(body.checks) || body.checks.length > 12) return { valid: false, error: 'checks must be an array with max 12 items' };
+  if (!Array.isArray(body.challenge) || body.challenge.length > 6) return { valid: false, error: 'challenge must be an array with max 6 items' };
+
+  for (const c of body.checks) {
+    if (!c || typeof c !== 'object') return { valid: false, error: 'Invalid check result' };
+    const check = c as Record<string, unknown>;
+    if (typeof check.question !== 'string' || check.question.length > 2000) return { valid: false, error: 'Invalid check question' };
+    if (typeof check.answer !== 'number' || !Number.isInteger(check.answer)) return { valid: false, error: 'Invalid check answer' };
+    const attemptError = validateAttemptInfo(check);
+    if (attemptError) return { valid: false, error: attemptError };
+  }
+
+  for (const c of body.challenge) {
+    if (!c || typeof c !== 'object') return { valid: false, error: 'Invalid challenge result' };
+    const result = c as Record<string, unknown>;
+    if (typeof result.question !== 'string' || result.question.length > 2000) return { valid: false, error: 'Invalid challenge question' };
+    if (!CHALLENGE_TYPES.includes(result.type as ChallengeType)) return { valid: false, error: 'Invalid challenge type' };
+    if (result.answer !== undefined && !isValidChallengeAnswer(result.type as ChallengeType, result.answer)) return { valid: false, error: 'Invalid challenge answer' };
+    const attemptError = validateAttemptInfo(result);
+    if (attemptError) return { valid: false, error: attemptError };
+  }
+
+  return {
+    valid: true,
+    data: {
+      mode: "mission",
+      topicId: body.topicId,
+      sessionId: body.sessionId,
+      checks: body.checks as CheckResult[],
+      challenge: body.challenge as ChallengeResult[],
+    },
+  };
+};
+
+// ── Answer Verification ──────────────────────────────────────────────
+
+interface StoredQuestion {
+  question?: string;
+  type?: string;
+  options?: string[];
+  correct_answer?: number;
+  hint?: string;
+  explanation?: string;
+  points?: number;
+  bonus_xp?: number;
+  items?: string[];
+  pairs?: { left: string; right: string }[];
+  min?: number;
+  max?: number;
+  target?: number;
+  tolerance?: number;
+  blanks?: string[];
+  answer_expression?: string;
+  answer_unit?: string;
+  // Set on questions drawn from or saved to the question bank
+  bank_id?: string;
+}
+
+interface StoredLesson {
+  sections?: StoredQuestion[];
+  final_challenge?: { questions?: StoredQuestion[] };
+}
+
+// ── Typed Maths Answers ──────────────────────────────────────────────
+// Keep in sync with src/lib/mathsAnswerUtils.ts and src/lib/questionTypes.ts
+
+const UNIT_ALIASES: Record<string, string> = {
+  millimetre: "mm", millimetres: "mm", millimeter: "mm", millimeters: "mm",
+  centimetre: "cm", centimetres: "cm", centimeter: "cm", centimeters: "cm",
+  metre: "m", metres: "m", meter: "m", meters: "m",
+  kilometre: "km", kilometres: "km", kilometer: "km", kilometers: "km",
+  gram: "g", grams: "g", kilogram: "kg", kilograms: "kg",
+  millilitre: "ml", millilitres: "ml", milliliter: "ml", milliliters: "ml",
+  litre: "l", litres: "l", liter: "l", liters: "l",
+  sec: "s", secs: "s", second: "s", seconds: "s",
+  mins: "min", minute: "min", minutes: "min",
+  hr: "h", hrs: "h", hour: "h", hours: "h",
+  "°": "deg", degree: "deg", degrees: "deg",
+  "km/hr": "km/h", kph: "km/h",
+  percent: "%",
+};
+
+const MIXED_RE = /^(-?)(\d+)\s+(\d+)\s*\/\s*(\d+)/;
+const FRACTION_RE = /^(-?\d+(?:\.\d+)?)\s*\/\s*(\d+(?:\.\d+)?)/;
+const DECIMAL_RE = /^-?(?:\d+(?:\.\d*)?|\.\d+)/;
+const UNIT_RE = /^\s*(?:[a-zµ°%$][a-zµ°/%^\d\s]*)?$/;
+
+interface ParsedAnswer {
+  value: number;
+  unit: string | null;
+  decimals: number;
+}
+
+function normaliseUnit(raw: string): string | null {
+  const cleaned = raw
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .replace(/^sq(?:uare)? (\w+)$/, "$1^2")
+    .replace(/^cubic (\w+)$/, "$1^3")
+    .replace(/²/g, "^2")
+    .replace(/³/g, "^3")
+    .replace(/([a-z])([23])$/, "$1^$2");
+  if (!cleaned) return null;
+  return UNIT_ALIASES[cleaned] || cleaned;
+}
+
+/** Whole numbers, decimals, fractions, mixed numbers and percentages, with an optional unit. */
+function parseTypedAnswer(text: string): ParsedAnswer | null {
+  const cleaned = text.trim().replace(/^\$\s*/, "").replace(/(\d),(?=\d{3}\b)/g, "$1");
+  let value: number;
+  let decimals = 0;
+  let rest: string;
+
+  const mixed = cleaned.match(MIXED_RE);
+  const fraction = !mixed && cleaned.match(FRACTION_RE);
+  const decimal = !mixed && !fraction && cleaned.match(DECIMAL_RE);
+
+  if (mixed) {
+    const [whole, numerator, denominator] = [mixed[2], mixed[3], mixed[4]].map(Number);
+    if (denominator === 0) return null;
+    value = (whole + numerator / denominator) * (mixed[1] ? -1 : 1);
+    rest = cleaned.slice(mixed[0].length);
+  } else if (fraction) {
+    const denominator = Number(fraction[2]);
+    if (denominator === 0) return null;
+    value = Number(fraction[1]) / denominator;
+    rest = cleaned.slice(fraction[0].length);
+  } else if (decimal) {
+    value = Number(decimal[0]);
+    decimals = decimal[0].split(".")[1]?.length ?? 0;
+    rest = cleaned.slice(decimal[0].length);
+  } else {
+    return null;
+  }
+
+  if (!Number.isFinite(value) || !UNIT_RE.test(rest.toLowerCase())) return null;
+  return { value, unit: normaliseUnit(rest), decimals };
+}
+
+function parseExpectedAnswer(expression: string, expectedUnit?: string | null): { value: number; unit: string | null } | null {
+  const unitOverride = expectedUnit ? normaliseUnit(expectedUnit) : null;
+  const literal = parseTypedAnswer(expression);
+  if (literal) return { value: literal.value, unit: unitOverride || literal.unit };
+  try {
+    const value = Number(evaluate(expression));
+    return Number.isFinite(value) ? { value, unit: unitOverride } : null;
+  } catch {
+    return null;
+  }
+}
+
+function isSameValue(typed: number, expected: number, decimals = 0): boolean {
+  if (Math.abs(typed - expected) <= 1e-9 * Math.max(1, Math.abs(expected))) return true;
+  if (decimals < 2) return false;
+  const factor = Math.pow(10, decimals);
+  return Math.abs(Math.round(expected * factor) / factor - typed) <= 1e-9 * Math.max(1, Math.abs(expected));
+}
+
+function convertUnit(value: number, from: string, to: string): number | null {
+  try {
+    const typedUnit = unit(value, from);
+    if (!typedUnit.equalBase(unit(1, to))) return null;
+    return typedUnit.toNumber(to);
+  } catch {
+    return null;
+  }
+}
+
+/** 1 for an equivalent answer, 0.5 for the right number with a missing or wrong unit, else 0. */
+function typedAnswerCredit(typed: string, expression: string, expectedUnit?: string | null): number {
+  const answer = parseTypedAnswer(typed);
+  const expected = parseExpectedAnswer(expression, expectedUnit);
+  if (!answer || !expected) return 0;
+
+  if (expected.unit !== "%" && answer.unit === "%") return isSameValue(answer.value / 100, expected.value) ? 1 : 0;
+  if (expected.unit === "%" && answer.unit === null) {
+    if (isSameValue(answer.value * 100, expected.value)) return 1;
+    return isSameValue(answer.value, expected.value, answer.decimals) ? 0.5 : 0;
+  }
+
+  const sameNumber = isSameValue(answer.value, expected.value, answer.decimals);
+  if (!expected.unit) return sameNumber ? 1 : 0;
+  if (!answer.unit) return sameNumber ? 0.5 : 0;
+  if (answer.unit === expected.unit) return sameNumber ? 1 : 0;
+
+  const converted = convertUnit(answer.value, answer.unit, expected.unit);
+  if (converted !== null && isSameValue(converted, expected.value)) return 1;
+  return sameNumber ? 0.5 : 0;
+}
+
+function isBlankMatch(typed: string, expected: string): boolean {
+  if (parseTypedAnswer(expected)) return typedAnswerCredit(typed, expected) === 1;
+  const normalise = (s: string) => s.trim().replace(/\s+/g, " ").toLowerCase();
+  return normalise(typed) === normalise(expected);
+}
+
+const isIdentity = (answer: unknown, length: number) =>
+  Array.isArray(answer) && answer.length === length && answer.every((value, i) => value === i);
+
+/**
+ * Share of the points a multiple choice or interactive answer earns against
+ * the stored question. Only typed maths answers get partial credit.
+ */
+function storedAnswerCredit(type: ChallengeType, stored: StoredQuestion, answer: ChallengeAnswer | undefined): number {
+  switch (type) {
+    case "ordering":
+      return isIdentity(answer, stored.items?.length ?? -1) ? 1 : 0;
+    case "matching":
+      return isIdentity(answer, stored.pairs?.length ?? -1) ? 1 : 0;
+    case "number_line": {
+      if (typeof answer !== "number" || typeof stored.target !== "number") return 0;
+      const tolerance = typeof stored.tolerance === "number" && stored.tolerance >= 0
+        ? stored.tolerance
+        : ((stored.max ?? 0) - (stored.min ?? 0)) / 40;
+      return Math.abs(answer - stored.target) <= tolerance ? 1 : 0;
+    }
+    case "cloze":
+      return Array.isArray(answer) && answer.length === (stored.blanks?.length ?? -1) &&
+        (answer as string[]).every((typed, i) => isBlankMatch(String(typed), stored.blanks![i])) ? 1 : 0;
+    case "numeric":
+      return typeof answer === "string" ? typedAnswerCredit(answer, stored.answer_expression || "", stored.answer_unit) : 0;
+    default:
+      return stored.correct_answer === answer ? 1 : 0;
+  }
+}
+
+/**
+ * Index the questions of the lesson the mission session served by their text,
+ * each typed as stored. Checks and untyped challenge questions are multiple choice.
+ */
+function indexStoredQuestions(lesson: StoredLesson | null): Map<string, StoredQuestion> {
+  const index = new Map<string, StoredQuestion>();
+  for (const section of lesson?.sections || []) {
+    if (section.type === "check" && section.question) {
+      index.set(section.question.trim(), { ...section, type: "multiple_choice" });
+    }
+  }
+  for (const q of lesson?.final_challenge?.questions || []) {
+    if (q.question) index.set(q.question.trim(), { ...q, type: q.type || "multiple_choice" });
+  }
+  return index;
+}
+
+/**
+ * The stored question a result answers. A result sent with a different type
+ * from the stored question is rejected, so marking always follows the stored type.
+ */
+function storedMatch(
+  stored: Map<string, StoredQuestion>,
+  question: string,
+  type: ChallengeType,
+): (StoredQuestion & { type: ChallengeType }) | undefined {
+  const match = stored.get(question.trim());
+  return match?.type === type ? match as StoredQuestion & { type: ChallengeType } : undefined;
+}
+
+// ── Stored Assessments ──────────────────────────────────────────────
+// Written by assess-writing, assess-handwriting and assess-maths-working
+
+interface StoredAssessment {
+  score: number;
+  bonusXp: number;
+}
+
+interface AssessmentRows {
+  typed: { question: string | null; content_score: number | null; revisions: { content_score?: number }[] | null; revision_bonus_xp: number }[];
+  handwritten: { question: string | null; content_score: number | null }[];
+  working: { question: string | null; bonus_xp_awarded: number | null }[];
+}
+
+/**
+ * Index the session's assessments by question. Typed writing keeps its best
+ * draft and the revision bonus; rows come oldest first so a later one wins.
+ */
+function indexAssessments(rows: AssessmentRows): Map<string, StoredAssessment> {
+  const index = new Map<string, StoredAssessment>();
+  for (const row of rows.handwritten) {
+    if (row.question) index.set(row.question.trim(), { score: row.content_score || 0, bonusXp: 0 });
+  }
+  for (const row of rows.typed) {
+    if (!row.question) continue;
+    const scores = [row.content_score || 0, ...(row.revisions || []).map(draft => Number(draft.content_score) || 0)];
+    index.set(row.question.trim(), { score: Math.max(...scores), bonusXp: row.revision_bonus_xp || 0 });
+  }
+  for (const row of rows.working) {
+    if (row.question) index.set(row.question.trim(), { score: 0, bonusXp: row.bonus_xp_awarded || 0 });
+  }
+  return index;
+}
+
+/**
+ * Works out the session XP from the submitted answers. Every question must be
+ * found in the lesson the session served: auto-marked answers are
+ * checked against the stored answer, and written or worked answers earn what
+ * their stored assessment gave them. Anything else earns nothing.
+ */
+function calculateSessionXp(
+  checks: CheckResult[],
+  challenge: ChallengeResult[],
+  stored: Map<string, StoredQuestion>,
+  assessments: Map<string, StoredAssessment>,
+  isBonusSubject: boolean,
+): number {
+  let xp = 0;
+  const seen = new Set<string>();
+
+  for (const check of checks) {
+    const key = check.question.trim();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    const match = storedMatch(stored, key, "multiple_choice");
+    if (!match || match.correct_answer !== check.answer) continue;
+    xp += applyHintCost(isBonusSubject ? BONUS_SUBJECT_CHECK_XP : CHECK_XP, check);
+  }
+
+  for (const result of challenge) {
+    const key = result.question.trim();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    const match = storedMatch(stored, key, result.type);
+    if (!match) continue;
+    const points = Math.min(match.points || DEFAULT_POINTS[match.type], 100);
+
+    if (AUTO_MARKED_TYPES.includes(match.type)) {
+      xp += applyHintCost(Math.round(points * storedAnswerCredit(match.type, match, result.answer)), result);
+      continue;
+    }
+
+    const assessment = assessments.get(key);
+    if (!assessment) continue;
+    if (match.type === "free_text") {
+      xp += applyHintCost(Math.min(Math.round(assessment.score), points), result) +
+        Math.min(Math.round(assessment.bonusXp), MAX_REVISION_BONUS_XP);
+    } else {
+      xp += applyHintCost(points, result) + Math.min(Math.round(assessment.bonusXp), match.bonus_xp || DEFAULT_BONUS_XP);
+    }
+  }
+
+  return xp;
+}
+
+// ── Ability Rating (Elo) ────────────────────────────────────────────
+// Outcome scores are rated against the lesson's difficulty by complete_mission
+
+// Share of the outcome kept after taking 0-3 hints; a worked step says more than a nudge
+const HINT_OUTCOME_SCORES = [1, 0.7, 0.5, 0.3];
+
+/** 1 for right first time unaided, partial credit for retries and for each hint taken. */
+function outcomeScore(correct: boolean, attempts: number, hints: number): number {
+  if (!correct) return 0;
+  return (attempts <= 1 ? 1 : 0.4) * HINT_OUTCOME_SCORES[hints];
+}
+
+/**
+ * Outcome scores for the stored questions that carry attempt info. Written
+ * answers score their assessment result; worked solutions are left out.
+ */
+function sessionOutcomes(
+  checks: CheckResult[],
+  challenge: ChallengeResult[],
+  stored: Map<string, StoredQuestion>,
+  assessments: Map<string, StoredAssessment>,
+): number[] {
+  const outcomes: number[] = [];
+
+  for (const check of checks) {
+    const match = storedMatch(stored, check.question, "multiple_choice");
+    if (check.attempts === undefined || !match) continue;
+    outcomes.push(outcomeScore(match.correct_answer === check.answer, check.attempts, hintsTaken(check)));
+  }
+
+  for (const result of challenge) {
+    const match = storedMatch(stored, result.question, result.type);
+    if (!match) continue;
+    if (AUTO_MARKED_TYPES.includes(match.type) && result.attempts !== undefined) {
+      const credit = storedAnswerCredit(match.type, match, result.answer);
+      outcomes.push(credit * outcomeScore(credit > 0, result.attempts, hintsTaken(result)));
+    } else if (match.type === "free_text") {
+      const assessment = assessments.get(result.question.trim());
+      if (assessment) outcomes.push(Math.min(assessment.score / (match.points || DEFAULT_POINTS.free_text), 1));
+    }
+  }
+
+  return outcomes;
+}
+
+/**
+ * One question_attempts row per stored question that carries attempt info,
+ * with the hints taken at each attempt.
+ */
+function attemptRows(
+  profileId: string,
+  topicId: string,
+  checks: CheckResult[],
+  challenge: ChallengeResult[],
+  stored: Map<string, StoredQuestion>,
+) {
+  return [
+    ...checks.map(check => ({ ...check, type: "multiple_choice" as ChallengeType })),
+    ...challenge,
+  ]
+    .filter(result => result.attempts !== undefined && storedMatch(stored, result.question, result.type))
+    .map(result => ({
+      profile_id: profileId,
+      topic_id: topicId,
+      question: result.question,
+      question_type: storedMatch(stored, result.question, result.type)!.type,
+      attempts: result.attempts!,
+      hint_levels: result.hintLevels ?? [],
+      hints_used: hintsTaken(result),
+    }));
+}
+
+/**
+ * Whether every challenge question was found in storage as sent and every
+ * auto-marked one was right first time without a hint. Badge rules count
+ * these as perfect challenges.
+ */
+function isPerfectChallenge(challenge: ChallengeResult[], stored: Map<string, StoredQuestion>): boolean {
+  const matches = challenge.map(result => ({ result, match: storedMatch(stored, result.question, result.type) }));
+  if (matches.some(({ match }) => !match)) return false;
+  const marked = matches.filter(({ match }) => AUTO_MARKED_TYPES.includes(match!.type));
+  return marked.length > 0 && marked.every(({ result, match }) =>
+    storedAnswerCredit(match!.type, match!, result.answer) === 1 &&
+    result.attempts !== undefined && result.attempts <= 1 && hintsTaken(result) === 0
+  );
+}
+
+// ── Spaced Repetition (SM-2) ────────────────────────────────────────
+
+/**
+ * Review queue rows for the stored multiple-choice questions that were not
+ * right at the first attempt, copied from the stored question.
+ */
+function missedReviewItems(
+  profileId: string,
+  topicId: string,
+  difficultyLevel: string | null,
+  checks: CheckResult[],
+  challenge: ChallengeResult[],
+  stored: Map<string, StoredQuestion>,
+) {
+  const items = new Map<string, Record<string, unknown>>();
+  const answered = [
+    ...checks.map(check => ({ ...check, type: "multiple_choice" as ChallengeType })),
+    ...challenge,
+  ];
+
+  for (const result of answered) {
+    const key = result.question.trim();
+    const match = storedMatch(stored, key, result.type);
+    if (match?.type !== "multiple_choice" || !match.options || match.correct_answer === undefined) continue;
+    if (match.correct_answer === result.answer && (result.attempts ?? 1) <= 1) continue;
+    items.set(key, {
+      profile_id: profileId,
+      topic_id: topicId,
+      difficulty_level: difficultyLevel,
+      question_text: match.question || key,
+      question: {
+        question: match.question || key,
+        options: match.options,
+        correct_answer: match.correct_answer,
+        hint: match.hint || null,
+        explanation: match.explanation || null,
+      },
+    });
+  }
+
+  return [...items.values()];
+}
+
+interface ReviewItem {
+  id: string;
+  difficulty_level: string | null;
+  question: { correct_answer?: number };
+  ease_factor: number;
+  interval_days: number;
+  repetitions: number;
+  lapses: number;
+}
+
+function getSydneyToday(): string {
+  return new Date().toLocaleDateString("en-CA", { timeZone: "Australia/Sydney" });
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * SM-2 update. Quality is 4 for a correct review answer and 1 for a miss.
+ * complete_mission writes it, provided the item is still due.
+ */
+function scheduleReview(item: ReviewItem, correct: boolean, today: string) {
+  const quality = correct ? 4 : 1;
+  const easeFactor = Math.max(1.3, Number(item.ease_factor) + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+
+  let repetitions = item.repetitions;
+  let intervalDays: number;
+  let lapses = item.lapses;
+
+  if (!correct) {
+    repetitions = 0;
+    intervalDays = 1;
+    lapses += 1;
+  } else {
+    repetitions += 1;
+    if (repetitions === 1) intervalDays = 1;
+    else if (repetitions === 2) intervalDays = 6;
+    else intervalDays = Math.round(item.interval_days * easeFactor);
+  }
+
+  return {
+    id: item.id,
+    ease_factor: Math.round(easeFactor * 100) / 100,
+    interval_days: intervalDays,
+    repetitions,
+    lapses,
+    due_date: addDays(today, intervalDays),
+  };
+}
+
+// ── Photo Drafts ─────────────────────────────────────────────────────
+// Uploaded by the client next to its saved training session
+
+/** Draft paths from saved sessions that sit in the student's own drafts folder. */
+function ownDrafts(profileId: string, rows: { draft_paths: string[] | null }[]): string[] {
+  return rows
+    .flatMap(row => row.draft_paths || [])
+    .filter(path => path.startsWith(`${profileId}/drafts/`) && !path.includes('..'));
+}
+
+async function removeDrafts(supabaseClient: SupabaseClient, paths: string[]) {
+  if (paths.length === 0) return;
+  const { error } = await supabaseClient.storage.from('handwriting-submissions').remove(paths);
+  if (error) console.error('Failed to remove photo drafts:', error);
+}
+
+// ── Main Handler ─────────────────────────────────────────────────────
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '', Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      { auth: { persistSession: false } }
+    );
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: userData, error: userError } = await supabaseClient.auth.getUser(token);
+    if (userError || !userData?.user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    let rawBody: unknown;
+    try { rawBody = await req.json(); } catch {
+      return new Response(JSON.stringify({ error: 'Invalid JSON' }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    const validation = validateInput(rawBody);
+    if (!validation.valid || !validation.data) {
+      return new Response(JSON.stringify({ error: validation.error }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    const input = validation.data;
+    const { topicId } = input;
+
+    const { data: profile, error: profileError } = await supabaseClient
+      .from('profiles')
+      .select('id')
+      .eq('user_id', userData.user.id)
+      .single();
+    if (profileError || !profile) {
+      return new Response(JSON.stringify({ error: 'Profile not found' }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    const { data: topic, error: topicError } = await supabaseClient
+      .from('topics')
+      .select('id, name, subjects!inner(name, slug)')
+      .eq('id', topicId)
+      .single();
+    if (topicError || !topic) {
+      return new Response(JSON.stringify({ error: 'Topic not found' }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    const subject = topic.subjects as unknown as { name: string; slug: string };
+    const isBonusSubject = !PRIORITY_SUBJECTS.includes(subject.slug);
+
+    let baseXp = 0;
+    let outcomes: number[] = [];
+    // The level each outcome's question was served at, which complete_mission rates it against
+    let outcomeLevels: (string | null)[] = [];
+    let perfect = false;
+    let reviewItems: Record<string, unknown>[] = [];
+    const schedules: ReturnType<typeof scheduleReview>[] = [];
+
+    if (input.mode === "review") {
+      // Only items that belong to this student, this topic and are actually due
+      const today = getSydneyToday();
+      const { data: items } = await supabaseClient
+        .from('review_items')
+        .select('id, difficulty_level, question, ease_factor, interval_days, repetitions, lapses')
+        .eq('profile_id', profile.id)
+        .eq('topic_id', topicId)
+        .lte('due_date', today)
+        .in('id', input.reviews.map(r => r.itemId));
+
+      for (const item of (items || []) as ReviewItem[]) {
+        const result = input.reviews.find(r => r.itemId === item.id);
+        if (!result) continue;
+        const correct = item.question?.correct_answer === result.answer;
+        if (correct) baseXp += isBonusSubject ? BONUS_SUBJECT_CHECK_XP : CHECK_XP;
+        outcomes.push(outcomeScore(correct, 1, 0));
+        outcomeLevels.push(item.difficulty_level);
+        schedules.push(scheduleReview(item, correct, today));
+      }
+
+      if (schedules.length === 0) {
+        return new Response(JSON.stringify({ error: 'No review items due' }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+      }
+    } else {
+      // The lesson's session must still be open; complete_mission closes it
+      const { data: session } = await supabaseClient
+        .from('mission_sessions')
+        .select('id, created_at, difficulty_level, lesson')
+        .eq('id', input.sessionId)
+        .eq('profile_id', profile.id)
+        .eq('topic_id', topicId)
+        .is('completed_at', null)
+        .gt('expires_at', new Date().toISOString())
+        .maybeSingle();
+      if (!session) {
+        return new Response(JSON.stringify({ error: 'Mission session already completed or expired' }),
+          { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+      }
+
+      // Assessments made since the session opened
+      const [typed, handwritten, working] = await Promise.all([
+        supabaseClient.from('submissions')
+          .select('question, content_score, revisions, revision_bonus_xp')
+          .eq('profile_id', profile.id).eq('submission_type', 'typed').gte('created_at', session.created_at)
+          .order('created_at', { ascending: true }),
+        supabaseClient.from('handwriting_submissions')
+          .select('question, content_score')
+          .eq('profile_id', profile.id).gte('created_at', session.created_at)
+          .order('created_at', { ascending: true }),
+        supabaseClient.from('maths_working_submissions')
+          .select('question, bonus_xp_awarded')
+          .eq('profile_id', profile.id).gte('created_at', session.created_at)
+          .order('created_at', { ascending: true }),
+      ]);
+
+      const stored = indexStoredQuestions(session.lesson as StoredLesson | null);
+
+      // Bank questions retired since the lesson was served no longer earn XP
+      const bankIds = [...stored.values()].map(q => q.bank_id).filter((id): id is string => !!id);
+      if (bankIds.length > 0) {
+        const { data: active } = await supabaseClient
+          .from('question_bank')
+          .select('id')
+          .in('id', bankIds)
+          .eq('status', 'active');
+        const activeIds = new Set((active || []).map(row => row.id as string));
+        for (const [key, q] of stored) {
+          if (q.bank_id && !activeIds.has(q.bank_id)) stored.delete(key);
+        }
+      }
+      // A result sent as a different type from its stored question is tampered with
+      const mistyped = input.challenge.some(result => {
+        const match = stored.get(result.question.trim());
+        return !!match && match.type !== result.type;
+      });
+      if (mistyped) {
+        return new Response(JSON.stringify({ error: 'Challenge type does not match the question' }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+      }
+
+      const assessments = indexAssessments({
+        typed: typed.data || [],
+        handwritten: handwritten.data || [],
+        working: working.data || [],
+      });
+      baseXp = calculateSessionXp(input.checks, input.challenge, stored, assessments, isBonusSubject);
+      outcomes = sessionOutcomes(input.checks, input.challenge, stored, assessments);
+      outcomeLevels = outcomes.map(() => session.difficulty_level);
+      perfect = isPerfectChallenge(input.challenge, stored);
+      reviewItems = missedReviewItems(profile.id, topicId, session.difficulty_level, input.checks, input.challenge, stored);
+    }
+    const finalXp = applySubjectMultiplier(baseXp, subject.slug);
+
+    const { data: result, error: rpcError } = await supabaseClient.rpc('complete_mission', {
+      _profile_id: profile.id,
+      _topic_id: topicId,
+      _base_xp: baseXp,
+      _final_xp: finalXp,
+      _subject_name: subject.name,
+      _topic_name: topic.name,
+      _subject_slug: subject.slug,
+      _event_type: input.mode === "review" ? 'review_complete' : 'mission_complete',
+      _event_data: { xp: baseXp, perfect },
+      _session_id: input.mode === "mission" ? input.sessionId : null,
+      _outcomes: outcomes,
+      _outcome_levels: outcomeLevels,
+      _reviews: input.mode === "review" ? schedules : null,
+    });
+    // Lost a race with another submission of the same session or review
+    if (rpcError && COMPLETED_ELSEWHERE.includes(rpcError.message)) {
+      return new Response(JSON.stringify({ error: rpcError.message }),
+        { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+    if (rpcError) throw rpcError;
+
+    if (input.mode === "mission") {
+      const attempts = attemptRows(profile.id, topicId, input.checks, input.challenge, stored);
+      if (attempts.length > 0) {
+        const { error: attemptsError } = await supabaseClient.from('question_attempts').insert(attempts);
+        if (attemptsError) console.error('Failed to record question attempts:', attemptsError);
+      }
+      if (reviewItems.length > 0) {
+        const { error: reviewError } = await supabaseClient
+          .from('review_items')
+          .upsert(reviewItems, { onConflict: 'profile_id,question_text', ignoreDuplicates: true });
+        if (reviewError) console.error('Failed to queue review items:', reviewError);
+      }
+
+      // A finished mission is no longer resumable, on any device
+      const { data: saved } = await supabaseClient
+        .from('training_sessions')
+        .delete()
+        .eq('profile_id', profile.id)
+        .eq('topic_id', topicId)
+        .select('draft_paths');
+      await removeDrafts(supabaseClient, ownDrafts(profile.id, saved || []));
+    }
+
+    // Sessions left past their expiry are purged here rather than waiting for
+    // the student to reopen the app
+    const now = new Date().toISOString();
+    const { data: expired } = await supabaseClient
+      .from('training_sessions')
+      .delete()
+      .eq('profile_id', profile.id)
+      .lte('expires_at', now)
+      .select('draft_paths');
+    await removeDrafts(supabaseClient, ownDrafts(profile.id, expired || []));
+
+    const { error: purgeError } = await supabaseClient
+      .from('mission_sessions')
+      .delete()
+      .eq('profile_id', profile.id)
+      .lte('expires_at', now);
+    if (purgeError) console.error('Failed to purge expired mission sessions:', purgeError);
+
+    console.log(`${input.mode === "review" ? "Review" : "Mission"} complete: profile ${profile.id}, topic "${topic.name}", ${baseXp} XP -> ${finalXp} XP`);
+
+    return new Response(
+      JSON.stringify({ success: true, baseXp, reviewed: schedules.length, ...result }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error completing mission:", error);
+    return new Response(
+      JSON.stringify({ error: "An error occurred while processing your request", success: false }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -9,6 +9,8 @@ const corsHeaders = {
 
 const CHAMPION_PRICE_ID = "price_1SoMeUK84hi74TCsFYwa6V1Y";
 const COUPON_BETA3M_ID = "fTfa8Xao";
+// Child profiles a parent manages sign in with these. Keep in sync with child-profiles
+const CHILD_EMAIL_DOMAIN = "children.dingodojo.invalid";
 
 // Allowed origins for redirect URLs
 const ALLOWED_ORIGINS = [
@@ -60,6 +62,14 @@ serve(async (req) => {
     const user = userData.user;
     if (!user?.email) throw new Error("User not authenticated");
 
+    // The parent's subscription covers their children; they upgrade from their own account
+    if (user.email.endsWith(`@${CHILD_EMAIL_DOMAIN}`)) {
+      return new Response(JSON.stringify({ error: "Ask your parent to upgrade from their account" }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 403,
+      });
+    }
+
     const { promoCode, embedded } = await req.json();
 
     const stripe = new Stripe(Deno.env.get("STRIPE_SECRET_KEY") || "", {
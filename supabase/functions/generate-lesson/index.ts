@@ -1,5 +1,5 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
 import { evaluate } from "https://esm.sh/mathjs@13.2.2";
 
 const corsHeaders = {
@@ -9,47 +9,42 @@ const corsHeaders = {
 
 // ── Curriculum & Config ──────────────────────────────────────────────
 
-const NSW_MATHS_CURRICULUM = `
-NSW Mathematics Stage 3 (Years 5 & 6) Curriculum Structure:
-
-1. NUMBER AND ALGEBRA
-- Represents Numbers (Whole Numbers): Prime/composite numbers, factors/multiples (HCF, LCM), integers (negative numbers in real contexts like temperature)
-- Represents Numbers (Decimals & Percentages): Compare/order decimals to 3 decimal places, connect fractions/decimals/percentages, calculate simple percentages (10%, 25%, 50%)
-- Additive Relations: Efficient strategies for adding/subtracting large numbers, word problems with budgeting/totals
-- Multiplicative Relations: Multiply/divide decimals by 10/100/1000, estimation, remainders
-- Partitioned Fractions: Add/subtract fractions with same/related denominators, find fraction of quantity
-
-2. MEASUREMENT AND SPACE
-- Geometric Measure (Length & Area): Unit conversion (mm, cm, m, km), perimeter of rectangles/squares, area calculation
-- 2D Spatial Structure: Classify triangles (Equilateral, Isosceles, Scalene) and quadrilaterals, combine/split shapes, measure angles with protractor
-- 3D Spatial Structure: Connect 3D objects to nets (prisms/pyramids), calculate volume of rectangular prisms
-- Non-Spatial Measure: Convert 12/24-hour time, interpret timetables, connect mass to capacity
-
-3. STATISTICS AND PROBABILITY
-- Data: Interpret side-by-side column graphs and divided bar graphs, evaluate misleading graphs
-- Chance: List outcomes, represent probability as fraction/decimal/percentage
-`;
-
-const getDifficultyLevel = (topicXp: number) => {
-  if (topicXp < 50) return { level: "Beginning", description: "introducing core concepts with concrete examples", multiplier: 1 };
-  if (topicXp < 150) return { level: "Developing", description: "building understanding with varied examples", multiplier: 1.2 };
-  if (topicXp < 300) return { level: "Consolidating", description: "applying concepts to new situations", multiplier: 1.5 };
-  if (topicXp < 500) return { level: "Extending", description: "tackling more complex problems and connections", multiplier: 1.8 };
+// Bands match ABILITY_LEVELS in src/lib/progressUtils.ts
+const getDifficultyLevel = (rating: number) => {
+  if (rating < 850) return { level: "Beginning", description: "introducing core concepts with concrete examples", multiplier: 1 };
+  if (rating < 950) return { level: "Developing", description: "building understanding with varied examples", multiplier: 1.2 };
+  if (rating < 1050) return { level: "Consolidating", description: "applying concepts to new situations", multiplier: 1.5 };
+  if (rating < 1150) return { level: "Extending", description: "tackling more complex problems and connections", multiplier: 1.8 };
   return { level: "Mastering", description: "challenging problems requiring deeper reasoning", multiplier: 2 };
 };
 
+// Fallback for requests without a topicId: the old XP bands, as a rating
+const ratingFromXp = (topicXp: number) => {
+  if (topicXp < 50) return 800;
+  if (topicXp < 150) return 900;
+  if (topicXp < 300) return 1000;
+  if (topicXp < 500) return 1100;
+  return 1200;
+};
+
 // ── Input Validation ─────────────────────────────────────────────────
 
-type Phase = "scaffold" | "checks" | "challenge";
+type Phase = "scaffold" | "checks" | "challenge" | "bank" | "session";
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
 interface ValidatedInput {
   topicName: string;
+  topicId?: string;
   topicEmoji?: string;
   gradeLevel?: string;
   topicXp?: number;
   subjectSlug?: string;
   phase?: Phase;
   scaffoldSections?: { title: string; content: string }[];
+  sessionId?: string;
+  // Challenge phase: swap this question of the session's challenge for a fresh one
+  replaceQuestion?: number;
 }
 
 const validateInput = (data: unknown): { valid: boolean; error?: string; data?: ValidatedInput } => {
@@ -61,20 +56,30 @@ const validateInput = (data: unknown): { valid: boolean; error?: string; data?:
   if (body.gradeLevel !== undefined && (typeof body.gradeLevel !== 'string' || body.gradeLevel.length > 50)) return { valid: false, error: 'Invalid gradeLevel' };
   if (body.subjectSlug !== undefined && (typeof body.subjectSlug !== 'string' || body.subjectSlug.length > 50)) return { valid: false, error: 'Invalid subjectSlug' };
   if (body.topicXp !== undefined && (typeof body.topicXp !== 'number' || body.topicXp < 0 || body.topicXp > 100000)) return { valid: false, error: 'Invalid topicXp' };
+  if (body.topicId !== undefined && (typeof body.topicId !== 'string' || !UUID_RE.test(body.topicId))) return { valid: false, error: 'Invalid topicId' };
+  if (body.sessionId !== undefined && (typeof body.sessionId !== 'string' || !UUID_RE.test(body.sessionId))) return { valid: false, error: 'Invalid sessionId' };
   
   const phase = (body.phase as string) || "scaffold";
-  if (!["scaffold", "checks", "challenge"].includes(phase)) return { valid: false, error: 'Invalid phase' };
+  if (!["scaffold", "checks", "challenge", "bank", "session"].includes(phase)) return { valid: false, error: 'Invalid phase' };
+  if ((phase === "bank" || phase === "session") && body.topicId === undefined) return { valid: false, error: `topicId required for ${phase} phase` };
+  if (body.replaceQuestion !== undefined && (
+    phase !== "challenge" || body.sessionId === undefined ||
+    typeof body.replaceQuestion !== 'number' || !Number.isInteger(body.replaceQuestion) || body.replaceQuestion < 0 || body.replaceQuestion > 20
+  )) return { valid: false, error: 'Invalid replaceQuestion' };
 
   return {
     valid: true,
     data: {
       topicName: body.topicName as string,
+      topicId: body.topicId as string | undefined,
       topicEmoji: body.topicEmoji as string | undefined,
       gradeLevel: body.gradeLevel as string | undefined,
       topicXp: body.topicXp as number | undefined,
       subjectSlug: body.subjectSlug as string | undefined,
       phase: phase as Phase,
       scaffoldSections: body.scaffoldSections as { title: string; content: string }[] | undefined,
+      sessionId: body.sessionId as string | undefined,
+      replaceQuestion: body.replaceQuestion as number | undefined,
     },
   };
 };
@@ -140,6 +145,34 @@ async function validateMissionAccess(supabaseClient: any, userId: string, subjec
   return { allowed: true };
 }
 
+// ── Ability Rating ───────────────────────────────────────────────────
+
+/**
+ * The student's ability rating for the topic, written by complete-mission,
+ * and their Easier / Harder preference of up to one level either side.
+ */
+async function getTopicAbility(
+  supabaseClient: SupabaseClient,
+  profileId: string,
+  topicId: string,
+): Promise<{ rating: number; levelShift: number } | null> {
+  const { data: ability } = await supabaseClient
+    .from('topic_ability')
+    .select('rating, level_shift')
+    .eq('profile_id', profileId)
+    .eq('topic_id', topicId)
+    .maybeSingle();
+  return ability ? { rating: Number(ability.rating), levelShift: ability.level_shift || 0 } : null;
+}
+
+/**
+ * The rating a lesson is pitched at: levels are 100 points wide, so a shift
+ * moves one level from the rating held within the band centres.
+ * Keep in sync with getPitchedRating in src/lib/progressUtils.ts
+ */
+const getPitchedRating = (rating: number, levelShift: number) =>
+  Math.min(Math.max(rating, 800), 1200) + 100 * levelShift;
+
 // ── Server-side Math Correction ──────────────────────────────────────
 
 function findMatchingOption(options: string[], calcValue: number): number | null {
@@ -174,15 +207,388 @@ function correctMathQuestions(questions: any[]): any[] {
   return questions;
 }
 
+// ── Interactive Questions ────────────────────────────────────────────
+// Shapes must match src/lib/questionTypes.ts, which renders and marks them
+
+const CLOZE_BLANK = "___";
+// Whole numbers, decimals and simple fractions, as the client parses them
+const NUMERIC_BLANK_RE = /^-?\d+(\.\d+)?(\s*\/\s*\d+(\.\d+)?)?$/;
+
+interface InteractiveQuestion {
+  type?: string;
+  items?: string[];
+  pairs?: { left?: unknown; right?: unknown }[];
+  min?: number;
+  max?: number;
+  step?: number;
+  target?: number;
+  cloze_text?: string;
+  blanks?: string[];
+  answer_expression?: string;
+  answer_unit?: string;
+  calculation_expression?: string;
+}
+
+const isStringList = (value: unknown, min: number, max: number) =>
+  Array.isArray(value) && value.length >= min && value.length <= max &&
+  value.every((v) => typeof v === "string" && v.trim() !== "");
+
+/**
+ * Drops interactive questions the client couldn't render or mark: ordering
+ * needs 3-6 items, matching 3-6 pairs, a number line a target inside its
+ * range, and a cloze one answer per blank. Maths cloze answers must be plain
+ * numbers or simple fractions so mathjs can compare them when marking, and a
+ * typed numeric answer needs an expression mathjs can evaluate.
+ */
+function sanitiseInteractiveQuestions<T extends InteractiveQuestion>(questions: T[], isMaths: boolean): T[] {
+  return questions.filter((q) => {
+    if (!q || typeof q !== "object") return false;
+    switch (q.type) {
+      case "ordering":
+        return isStringList(q.items, 3, 6) && new Set(q.items).size === q.items.length;
+      case "matching":
+        return Array.isArray(q.pairs) && q.pairs.length >= 3 && q.pairs.length <= 6 &&
+          q.pairs.every((p) => typeof p?.left === "string" && typeof p?.right === "string") &&
+          new Set(q.pairs.map((p) => p.right)).size === q.pairs.length;
+      case "number_line": {
+        const nums = [q.min, q.max, q.target].map(Number);
+        if (nums.some((n) => !Number.isFinite(n))) return false;
+        [q.min, q.max, q.target] = nums;
+        if (typeof q.step !== "number" || q.step <= 0) q.step = (q.max - q.min) / 10;
+        return q.min < q.max && q.target >= q.min && q.target <= q.max;
+      }
+      case "cloze": {
+        if (typeof q.cloze_text !== "string" || !isStringList(q.blanks, 1, 4)) return false;
+        if (q.cloze_text.split(CLOZE_BLANK).length - 1 !== q.blanks.length) return false;
+        return !isMaths || q.blanks.every((b) => NUMERIC_BLANK_RE.test(b.trim().replace(/,/g, "")));
+      }
+      case "numeric": {
+        // The checked calculation is the answer whenever there is one
+        const expression = q.calculation_expression || q.answer_expression;
+        if (typeof expression !== "string" || !safeCalculate(expression).success) return false;
+        q.answer_expression = expression;
+        if (typeof q.answer_unit !== "string" || !q.answer_unit.trim() || q.answer_unit.length > 20) delete q.answer_unit;
+        return true;
+      }
+      default:
+        return true;
+    }
+  });
+}
+
+// ── Hint Ladder ──────────────────────────────────────────────────────
+// Nudge, strategy, worked step. Keep in sync with src/lib/hintUtils.ts
+
+const HINT_LEVELS = 3;
+
+/**
+ * Keeps up to three non-empty hints per question and fills in the single
+ * "hint" from the first, which chat-tutor and the review queue still read.
+ */
+function normaliseHints<T extends { hint?: unknown; hints?: unknown }>(questions: T[]): T[] {
+  for (const q of questions) {
+    if (!q || typeof q !== "object") continue;
+    const hints = Array.isArray(q.hints)
+      ? q.hints.filter((h): h is string => typeof h === "string" && h.trim() !== "").slice(0, HINT_LEVELS)
+      : [];
+    if (hints.length > 0) {
+      q.hints = hints;
+      if (typeof q.hint !== "string" || !q.hint.trim()) q.hint = hints[0];
+    } else {
+      delete q.hints;
+    }
+  }
+  return questions;
+}
+
+// ── Misconceptions ───────────────────────────────────────────────────
+
+const MAX_MISCONCEPTION_LENGTH = 80;
+
+/**
+ * Keeps a multiple choice question's misconception tags only if there is one
+ * per option. The correct option never carries a tag, so this runs after any
+ * maths correction has moved the answer.
+ */
+function normaliseMisconceptions<T extends { options?: unknown; correct_answer?: unknown; misconceptions?: unknown }>(questions: T[]): T[] {
+  for (const q of questions) {
+    if (!q || typeof q !== "object") continue;
+    if (!Array.isArray(q.options) || !Array.isArray(q.misconceptions) || q.misconceptions.length !== q.options.length) {
+      delete q.misconceptions;
+      continue;
+    }
+    q.misconceptions = q.misconceptions.map((tag, i) =>
+      i !== q.correct_answer && typeof tag === "string" && tag.trim()
+        ? tag.trim().toLowerCase().slice(0, MAX_MISCONCEPTION_LENGTH)
+        : null
+    );
+  }
+  return questions;
+}
+
+// ── Question Bank ────────────────────────────────────────────────────
+
+// Banked multiple-choice questions mixed into each freshly generated challenge
+const BANKED_PER_CHALLENGE = 1;
+// A cached lesson's challenge is rebuilt from the bank once it holds this many
+const MIN_BANK_CHALLENGE = 3;
+
+type BankSection = "check" | "challenge";
+
+interface BankedQuestion {
+  question?: string;
+  type?: string;
+  question_type?: string;
+  outcome_code?: string;
+  bank_id?: string;
+  [key: string]: unknown;
+}
+
+interface BankRow {
+  id: string;
+  question_text: string;
+  question?: BankedQuestion;
+}
+
+/**
+ * Stores freshly generated questions in the bank and tags each with its
+ * bank_id. Questions already live in the bank keep their existing id.
+ */
+async function bankQuestions(
+  supabaseClient: SupabaseClient,
+  topicId: string,
+  stage: string,
+  difficultyLevel: string,
+  section: BankSection,
+  questions: BankedQuestion[],
+  outcomeCodes: string[] = [],
+): Promise<BankedQuestion[]> {
+  const textOf = (q: BankedQuestion) => q?.question?.trim() || "";
+  const texts = [...new Set(questions.map(textOf).filter(Boolean))];
+  if (texts.length === 0) return questions;
+
+  const { data: existing } = await supabaseClient
+    .from('question_bank')
+    .select('id, question_text')
+    .eq('topic_id', topicId)
+    .eq('stage', stage)
+    .eq('difficulty_level', difficultyLevel)
+    .eq('status', 'active')
+    .in('question_text', texts);
+
+  const ids = new Map<string, string>(((existing || []) as BankRow[]).map(row => [row.question_text, row.id]));
+
+  const fresh = texts
+    .filter(text => !ids.has(text))
+    .map(text => questions.find(q => textOf(q) === text)!);
+  if (fresh.length > 0) {
+    const { data: inserted, error } = await supabaseClient
+      .from('question_bank')
+      .insert(fresh.map(q => ({
+        topic_id: topicId,
+        stage,
+        difficulty_level: difficultyLevel,
+        section,
+        question_type: q.type || q.question_type || 'multiple_choice',
+        outcome_code: q.outcome_code && outcomeCodes.includes(q.outcome_code) ? q.outcome_code : null,
+        question_text: textOf(q),
+        question: q,
+      })))
+      .select('id, question_text');
+    if (error) console.error('Failed to bank questions:', error);
+    for (const row of (inserted || []) as BankRow[]) ids.set(row.question_text, row.id);
+  }
+
+  return questions.map(q => (ids.has(textOf(q)) ? { ...q, bank_id: ids.get(textOf(q)) } : q));
+}
+
+/** Picks the least-used active multiple-choice questions, skipping any already in the lesson. */
+async function drawBankedQuestions(
+  supabaseClient: SupabaseClient,
+  topicId: string,
+  stage: string,
+  difficultyLevel: string,
+  section: BankSection,
+  limit: number,
+  exclude: string[] = [],
+): Promise<BankedQuestion[]> {
+  const { data } = await supabaseClient
+    .from('question_bank')
+    .select('id, question_text, question')
+    .eq('topic_id', topicId)
+    .eq('stage', stage)
+    .eq('difficulty_level', difficultyLevel)
+    .eq('section', section)
+    .eq('question_type', 'multiple_choice')
+    .eq('status', 'active')
+    .order('usage_count', { ascending: true })
+    .limit(limit * 3 + exclude.length);
+
+  const candidates = ((data || []) as BankRow[]).filter(row => !exclude.includes(row.question_text));
+  // Shuffle the least-used pool so students at the same level see different mixes
+  for (let i = candidates.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [candidates[i], candidates[j]] = [candidates[j], candidates[i]];
+  }
+  return candidates.slice(0, limit).map(row => ({ ...row.question, bank_id: row.id }));
+}
+
+async function recordUsage(supabaseClient: SupabaseClient, questions: BankedQuestion[]) {
+  const ids = questions.map(q => q?.bank_id).filter(Boolean);
+  if (ids.length === 0) return;
+  const { error } = await supabaseClient.rpc('increment_question_usage', { _question_ids: ids });
+  if (error) console.error('Failed to record question usage:', error);
+}
+
+// ── Mission Sessions ─────────────────────────────────────────────────
+// Each lesson served opens a session that complete-mission closes once, and
+// the session keeps the lesson exactly as served so only its questions score.
+// A freshly generated lesson is built up in the session phase by phase and
+// cached in generated_modules when the challenge arrives.
+
+interface SessionLesson {
+  sections?: { type?: string }[];
+  final_challenge?: { questions?: BankedQuestion[]; [key: string]: unknown };
+  [key: string]: unknown;
+}
+
+/** The cached lesson for the topic at this stage and level, if it's in the current format. */
+async function getCachedLesson(
+  supabaseClient: SupabaseClient,
+  topicId: string,
+  stage: string,
+  difficultyLevel: string,
+): Promise<SessionLesson | null> {
+  const { data } = await supabaseClient
+    .from('generated_modules')
+    .select('content_json')
+    .eq('topic_id', topicId)
+    .eq('stage', stage)
+    .eq('difficulty_level', difficultyLevel)
+    .maybeSingle();
+  const lesson = data?.content_json as SessionLesson | null | undefined;
+  return lesson?.sections && lesson.final_challenge ? lesson : null;
+}
+
+async function openMissionSession(
+  supabaseClient: SupabaseClient,
+  profileId: string,
+  topicId: string,
+  stage: string,
+  difficultyLevel: string,
+  lesson: SessionLesson | null = null,
+): Promise<string | null> {
+  const { data, error } = await supabaseClient
+    .from('mission_sessions')
+    .insert({ profile_id: profileId, topic_id: topicId, stage, difficulty_level: difficultyLevel, lesson })
+    .select('id')
+    .single();
+  if (error) console.error('Failed to open mission session:', error);
+  return data?.id ?? null;
+}
+
+/** Applies a phase's output to the lesson kept in the caller's open session. */
+async function updateSessionLesson(
+  supabaseClient: SupabaseClient,
+  profileId: string,
+  sessionId: string,
+  update: (lesson: SessionLesson) => SessionLesson,
+): Promise<{ lesson: SessionLesson; topicId: string; stage: string; difficultyLevel: string } | null> {
+  const { data: session } = await supabaseClient
+    .from('mission_sessions')
+    .select('id, topic_id, stage, difficulty_level, lesson')
+    .eq('id', sessionId)
+    .eq('profile_id', profileId)
+    .is('completed_at', null)
+    .maybeSingle();
+  if (!session?.lesson) return null;
+
+  const lesson = update(session.lesson as SessionLesson);
+  const { error } = await supabaseClient.from('mission_sessions').update({ lesson }).eq('id', session.id);
+  if (error) {
+    console.error('Failed to update mission session:', error);
+    return null;
+  }
+  return { lesson, topicId: session.topic_id, stage: session.stage, difficultyLevel: session.difficulty_level };
+}
+
+/** Check questions go after each learn section, in order. */
+function interleaveChecks(lesson: SessionLesson, checks: Record<string, unknown>[]): SessionLesson {
+  const sections: Record<string, unknown>[] = [];
+  let checkIdx = 0;
+  for (const section of lesson.sections || []) {
+    sections.push(section);
+    if (section.type === "learn" && checkIdx < checks.length) {
+      sections.push({ ...checks[checkIdx], type: "check", question_type: checks[checkIdx].question_type || "multiple_choice" });
+      checkIdx++;
+    }
+  }
+  return { ...lesson, sections };
+}
+
+// ── Year Levels ──────────────────────────────────────────────────────
+
+interface StageProfile {
+  stage: string;
+  ages: string;
+  school: string;
+  wordScale: number;
+}
+
+/** NSW stage for a year level: Stage 2 is Years 3–4, Stage 3 Years 5–6, Stage 4 Years 7–8. */
+function getStageProfile(yearLevel: string): StageProfile {
+  const year = parseInt(yearLevel.replace(/\D/g, ''), 10);
+  if (year <= 4) return { stage: 'Stage 2', ages: '8-10', school: 'primary', wordScale: 0.6 };
+  if (year >= 7) return { stage: 'Stage 4', ages: '12-14', school: 'secondary', wordScale: 1.5 };
+  return { stage: 'Stage 3', ages: '10-12', school: 'primary', wordScale: 1 };
+}
+
+function describeStudents(yearLevel: string): string {
+  const { stage, ages, school } = getStageProfile(yearLevel);
+  return `Australian ${school} school students (NSW ${yearLevel}, ${stage}, ages ${ages})`;
+}
+
+// ── Curriculum Outcomes ──────────────────────────────────────────────
+
+interface CurriculumOutcome {
+  code: string;
+  stage: string;
+  strand: string;
+  description: string;
+}
+
+/** NSW syllabus outcomes linked to the topic in topic_outcomes, for the student's stage. */
+async function getTopicOutcomes(supabaseClient: SupabaseClient, topicId: string, stage: string): Promise<CurriculumOutcome[]> {
+  const { data } = await supabaseClient
+    .from('topic_outcomes')
+    .select('curriculum_outcomes!inner(code, stage, strand, description)')
+    .eq('topic_id', topicId)
+    .eq('curriculum_outcomes.stage', stage);
+  return ((data || []) as { curriculum_outcomes: CurriculumOutcome | null }[])
+    .map(row => row.curriculum_outcomes)
+    .filter((o): o is CurriculumOutcome => !!o);
+}
+
+function buildCurriculumContext(outcomes: CurriculumOutcome[]): string {
+  if (outcomes.length === 0) return "";
+  const lines = outcomes.map(o => `- ${o.code} (${o.stage}, ${o.strand}): ${o.description}`).join("\n");
+  return `\nNSW SYLLABUS OUTCOMES for this topic:\n${lines}\nKeep all content aligned to these outcomes.\n`;
+}
+
+function outcomeCodeField(outcomes: CurriculumOutcome[]): string {
+  if (outcomes.length === 0) return "";
+  return `"outcome_code": "${outcomes.map(o => o.code).join('" or "')}",`;
+}
+
 // ── Phase-specific Prompt Builders ───────────────────────────────────
 
-function buildScaffoldPrompt(topicName: string, topicEmoji: string, yearLevel: string, difficulty: any, subjectSlug?: string) {
+function buildScaffoldPrompt(topicName: string, topicEmoji: string, yearLevel: string, difficulty: any, outcomes: CurriculumOutcome[], subjectSlug?: string) {
   const isMaths = subjectSlug === "maths" || subjectSlug === "mathematics";
   const isBonus = !isMaths && subjectSlug !== "english";
 
-  const system = `You are an expert educational content creator for Australian primary school students (NSW ${yearLevel}, Stage 3).
+  const system = `You are an expert educational content creator for ${describeStudents(yearLevel)}.
 Use Australian English spelling. Include Australian references where appropriate.
-${isMaths ? NSW_MATHS_CURRICULUM : ""}
+${buildCurriculumContext(outcomes)}
 CURRENT STUDENT LEVEL: ${difficulty.level} — ${difficulty.description}.`;
 
   const user = `Create a lesson SCAFFOLD for "${topicName}" (${topicEmoji}) for ${yearLevel}.
@@ -211,12 +617,12 @@ Guidelines:
   return { system, user };
 }
 
-function buildChecksPrompt(topicName: string, yearLevel: string, difficulty: any, scaffoldSections: { title: string; content: string }[], subjectSlug?: string) {
+function buildChecksPrompt(topicName: string, yearLevel: string, difficulty: any, scaffoldSections: { title: string; content: string }[], outcomes: CurriculumOutcome[], subjectSlug?: string) {
   const isMaths = subjectSlug === "maths" || subjectSlug === "mathematics";
 
-  const system = `You are an expert educational content creator for Australian primary school students (NSW ${yearLevel}, Stage 3).
+  const system = `You are an expert educational content creator for ${describeStudents(yearLevel)}.
 Use Australian English spelling.
-${isMaths ? NSW_MATHS_CURRICULUM : ""}
+${buildCurriculumContext(outcomes)}
 STUDENT LEVEL: ${difficulty.level} — ${difficulty.description}.
 ${isMaths ? `CRITICAL: For EVERY question involving a calculation, include a "calculation_expression" field with the pure math expression (e.g. "3/4 + 1/2"). Double-check all arithmetic.` : ""}
 CRITICAL: Multiple choice questions must always have a single correct positive answer. Do not use negatively-framed questions (e.g. 'which is NOT...', 'which does NOT...', 'except', 'which of these is false'). Each question should ask what IS correct, not what is incorrect.`;
@@ -237,8 +643,10 @@ Return ONLY valid JSON:
       "question": "Question testing section 1 understanding",
       "options": ["A", "B", "C", "D"],
       "correct_answer": 0,
+      "misconceptions": [null, "misconception behind B", "misconception behind C", "misconception behind D"],
       ${isMaths ? '"calculation_expression": "math expression if applicable",' : ''}
-      "hint": "Guiding hint (don't reveal answer)",
+      ${outcomeCodeField(outcomes)}
+      "hints": ["Nudge: a gentle pointer", "Strategy: how to tackle it", "Worked step: the first step done for them"],
       "explanation": "Why the correct answer is right"
     }
   ]
@@ -246,14 +654,15 @@ Return ONLY valid JSON:
 
 Guidelines:
 - One check per learning section, in order
-- Hints should guide thinking, not reveal answers
+- Every wrong option must come from a real misconception. "misconceptions" has one entry per option: null for the correct answer, and for each wrong option a short label (2-5 words) for the mistake that leads to it, e.g. "adds denominators", "place-value shift"
+- Give exactly 3 hints, each giving away a little more: a nudge, then a strategy, then a worked step. None of them may state the answer
 - ${isMaths ? 'Include "calculation_expression" for arithmetic questions, omit for conceptual ones' : 'Test comprehension of the section content'}
 - Use Australian English`;
 
   return { system, user };
 }
 
-function buildChallengePrompt(topicName: string, yearLevel: string, difficulty: any, subjectSlug?: string) {
+function buildChallengePrompt(topicName: string, yearLevel: string, difficulty: any, outcomes: CurriculumOutcome[], subjectSlug?: string) {
   const isMaths = subjectSlug === "maths" || subjectSlug === "mathematics";
   const isEnglish = subjectSlug === "english";
   const isBonus = !isMaths && !isEnglish;
@@ -264,11 +673,14 @@ function buildChallengePrompt(topicName: string, yearLevel: string, difficulty:
     "Consolidating": { min: 150, max: 200 }, "Extending": { min: 200, max: 250 },
     "Mastering": { min: 250, max: 300 },
   };
-  const wl = wordLimits[difficulty.level] || { min: 100, max: 150 };
+  // Word counts above are for Stage 3 and scale with the student's stage
+  const base = wordLimits[difficulty.level] || { min: 100, max: 150 };
+  const { wordScale } = getStageProfile(yearLevel);
+  const wl = { min: Math.round((base.min * wordScale) / 10) * 10, max: Math.round((base.max * wordScale) / 10) * 10 };
 
-  const system = `You are an expert educational content creator for Australian primary school students (NSW ${yearLevel}, Stage 3).
+  const system = `You are an expert educational content creator for ${describeStudents(yearLevel)}.
 Use Australian English spelling.
-${isMaths ? NSW_MATHS_CURRICULUM : ""}
+${buildCurriculumContext(outcomes)}
 STUDENT LEVEL: ${difficulty.level} — ${difficulty.description}.
 ${isMaths ? `CRITICAL: For EVERY question involving a calculation, include a "calculation_expression" field. Double-check all arithmetic.` : ""}
 ${isEnglish ? "IMPORTANT: Include at least one FREE-TEXT writing question." : ""}
@@ -309,9 +721,20 @@ If you include a worked_solution question, use this format:
   "bonus_xp": 25
 }` : '';
 
+  const mathsFormats = isMaths ? `
+- "number_line" (place a value on a line): { "type": "number_line", "question": "Place 3/4 on the number line", "min": 0, "max": 1, "step": 0.25, "target": 0.75, "hints": ["Nudge", "Strategy", "Worked step"], "explanation": "Explanation", "points": ${isBonus ? 5 : 20} }
+- "numeric" (the student types the answer; "answer_expression" is the calculation that gives it, and "answer_unit" the unit if there is one, e.g. "cm", "cm^2", "kg", "%"): { "type": "numeric", "question": "A rectangle is 12 cm long and 4 cm wide. What is its area?", "answer_expression": "12 * 4", "answer_unit": "cm^2", "hints": ["Nudge", "Strategy", "Worked step"], "explanation": "Explanation", "points": ${isBonus ? 5 : 20} }` : '';
+
+  const interactiveBlock = `
+Replace ONE of the multiple choice questions with ONE interactive question, choosing whichever type best suits "${topicName}":
+- "ordering" (3-6 items listed in the CORRECT order; they are shuffled for the student): { "type": "ordering", "question": "Put these in order from smallest to largest", "items": ["first", "second", "third", "fourth"], "hints": ["Nudge", "Strategy", "Worked step"], "explanation": "Explanation", "points": ${isBonus ? 5 : 20} }
+- "matching" (3-6 pairs, each left matched to its right): { "type": "matching", "question": "Match each word to its meaning", "pairs": [{ "left": "word", "right": "meaning" }], "hints": ["Nudge", "Strategy", "Worked step"], "explanation": "Explanation", "points": ${isBonus ? 5 : 20} }${mathsFormats}
+- "cloze" (fill in the blanks; mark each blank with ${CLOZE_BLANK} and give the answers in order${isMaths ? "; every answer must be a number or simple fraction" : "; every answer must be a single word or number"}): { "type": "cloze", "question": "Fill in the blanks", "cloze_text": "Half of 10 is ${CLOZE_BLANK} and half of 8 is ${CLOZE_BLANK}.", "blanks": ["5", "4"], "hints": ["Nudge", "Strategy", "Worked step"], "explanation": "Explanation", "points": ${isBonus ? 5 : 20} }`;
+
   const user = `Create a FINAL CHALLENGE for "${topicName}" (${yearLevel}, level: ${difficulty.level}).
 ${freeTextBlock}
 ${workedSolutionBlock}
+${interactiveBlock}
 
 Return ONLY valid JSON:
 {
@@ -324,8 +747,10 @@ Return ONLY valid JSON:
         "question": "Challenging question 1",
         "options": ["A", "B", "C", "D"],
         "correct_answer": 0,
+        "misconceptions": [null, "misconception behind B", "misconception behind C", "misconception behind D"],
         ${isMaths ? '"calculation_expression": "math expression",' : ''}
-        "hint": "Hint",
+        ${outcomeCodeField(outcomes)}
+        "hints": ["Nudge", "Strategy", "Worked step"],
         "explanation": "Explanation",
         "points": ${isBonus ? 5 : 20}
       },
@@ -334,8 +759,10 @@ Return ONLY valid JSON:
         "question": "Challenging question 2",
         "options": ["A", "B", "C", "D"],
         "correct_answer": 0,
+        "misconceptions": [null, "misconception behind B", "misconception behind C", "misconception behind D"],
         ${isMaths ? '"calculation_expression": "math expression",' : ''}
-        "hint": "Hint",
+        ${outcomeCodeField(outcomes)}
+        "hints": ["Nudge", "Strategy", "Worked step"],
         "explanation": "Explanation",
         "points": ${isBonus ? 5 : 30}
       }
@@ -345,10 +772,13 @@ Return ONLY valid JSON:
 
 Guidelines:
 - 2-3 questions that are harder than the learning checks
+- Every multiple choice question gets "misconceptions": one entry per option, null for the correct answer and a short label (2-5 words) for the mistake behind each wrong option, e.g. "adds denominators", "place-value shift"
+- Every auto-marked question gets exactly 3 "hints", each giving away a little more: a nudge, then a strategy, then a worked step. None of them may state the answer
 - Progressive difficulty within the challenge
 - ${isMaths ? 'Include "calculation_expression" for arithmetic questions' : ''}
 - ${isEnglish ? 'Include at least one free-text writing question' : ''}
 - ${isAdvancedMaths ? 'Include one worked_solution question if the topic suits it (see instructions above)' : ''}
+- Include one interactive question (ordering, matching${isMaths ? ', number_line, numeric' : ''} or cloze)
 - Use Australian English and contexts`;
 
   return { system, user };
@@ -402,12 +832,12 @@ serve(async (req) => {
         { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } });
     }
 
-    const { topicName, topicEmoji, gradeLevel, topicXp, subjectSlug, phase, scaffoldSections } = validation.data;
+    const { topicName, topicId, topicEmoji, gradeLevel, topicXp, subjectSlug, phase, scaffoldSections, sessionId, replaceQuestion } = validation.data;
     const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
     if (!LOVABLE_API_KEY) throw new Error("LOVABLE_API_KEY is not configured");
 
-    const difficulty = getDifficultyLevel(topicXp || 0);
     const yearLevel = gradeLevel || "Year 5";
+    const { stage } = getStageProfile(yearLevel);
     const isMaths = subjectSlug === "maths" || subjectSlug === "mathematics";
 
     // Validate subscription on all phases
@@ -418,18 +848,79 @@ serve(async (req) => {
         { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } });
     }
 
+    const { data: profile } = await supabaseClient
+      .from('profiles').select('id').eq('user_id', userId).single();
+    if (!profile) {
+      return new Response(JSON.stringify({ error: 'Profile not found' }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+    const profileId: string = profile.id;
+
+    // Difficulty follows the ability rating and the student's Easier / Harder
+    // preference; XP is only a fallback
+    const ability = topicId ? await getTopicAbility(supabaseClient, profileId, topicId) : null;
+    const rating = ability?.rating ?? ratingFromXp(topicXp || 0);
+    const difficulty = getDifficultyLevel(getPitchedRating(rating, ability?.levelShift ?? 0));
+    const outcomes = topicId ? await getTopicOutcomes(supabaseClient, topicId, stage) : [];
+
+    // ── Phase: Bank ──
+    // Serves the cached lesson with its multiple-choice challenge redrawn from
+    // the bank, keeping any other question types, and opens the mission
+    // session for it. No LLM call
+    if (phase === "bank") {
+      const cached = await getCachedLesson(supabaseClient, topicId!, stage, difficulty.level);
+      if (!cached) {
+        return new Response(
+          JSON.stringify({ success: true, content: null, sessionId: null, phase: "bank" }),
+          { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      let lesson = cached;
+      const questions = await drawBankedQuestions(supabaseClient, topicId!, stage, difficulty.level, "challenge", MIN_BANK_CHALLENGE);
+      if (questions.length >= MIN_BANK_CHALLENGE) {
+        console.log(`Phase bank: "${topicName}" [${stage}, ${difficulty.level}] — ${questions.length} banked questions`);
+        await recordUsage(supabaseClient, questions);
+        const written = (cached.final_challenge?.questions || []).filter(q => q.type && q.type !== "multiple_choice");
+        lesson = { ...cached, final_challenge: { ...cached.final_challenge, questions: [...questions, ...written] } };
+      }
+
+      const newSessionId = await openMissionSession(supabaseClient, profileId, topicId!, stage, difficulty.level, lesson);
+      return new Response(
+        JSON.stringify({ success: true, content: lesson, difficultyLevel: difficulty.level, stage, sessionId: newSessionId, phase: "bank" }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ── Phase: Session ──
+    // Serves the cached lesson for use offline, with its own mission session
+    // to complete once it syncs. No LLM call
+    if (phase === "session") {
+      const cached = await getCachedLesson(supabaseClient, topicId!, stage, difficulty.level);
+      const newSessionId = cached
+        ? await openMissionSession(supabaseClient, profileId, topicId!, stage, difficulty.level, cached)
+        : null;
+      return new Response(
+        JSON.stringify({ success: true, content: cached, difficultyLevel: difficulty.level, stage, sessionId: newSessionId, phase: "session" }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
     // ── Phase: Scaffold ──
     if (phase === "scaffold") {
-      console.log(`Phase 1 (scaffold): "${topicName}" [${difficulty.level}]`);
-      const { system, user } = buildScaffoldPrompt(topicName, topicEmoji || '📚', yearLevel, difficulty, subjectSlug);
+      console.log(`Phase 1 (scaffold): "${topicName}" [${stage}, ${difficulty.level}]`);
+      const { system, user } = buildScaffoldPrompt(topicName, topicEmoji || '📚', yearLevel, difficulty, outcomes, subjectSlug);
       const content = await callLLM(LOVABLE_API_KEY, [
         { role: "system", content: system },
         { role: "user", content: user },
       ], 3000);
 
       const scaffold = parseJSON(content);
+      const newSessionId = topicId
+        ? await openMissionSession(supabaseClient, profileId, topicId, stage, difficulty.level, { ...scaffold, sections: scaffold.sections || [] })
+        : null;
       return new Response(
-        JSON.stringify({ success: true, content: scaffold, difficultyLevel: difficulty.level, phase: "scaffold" }),
+        JSON.stringify({ success: true, content: scaffold, difficultyLevel: difficulty.level, stage, sessionId: newSessionId, phase: "scaffold" }),
         { headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
@@ -442,18 +933,25 @@ serve(async (req) => {
       }
 
       console.log(`Phase 2 (checks): "${topicName}" — ${scaffoldSections.length} sections`);
-      const { system, user } = buildChecksPrompt(topicName, yearLevel, difficulty, scaffoldSections, subjectSlug);
+      const { system, user } = buildChecksPrompt(topicName, yearLevel, difficulty, scaffoldSections, outcomes, subjectSlug);
       const content = await callLLM(LOVABLE_API_KEY, [
         { role: "system", content: system },
         { role: "user", content: user },
       ], 3000);
 
       const parsed = parseJSON(content);
-      let checks = parsed.checks || [];
+      let checks = normaliseHints(parsed.checks || []);
 
       if (isMaths) {
         checks = correctMathQuestions(checks);
       }
+      checks = normaliseMisconceptions(checks);
+
+      if (topicId) {
+        checks = await bankQuestions(supabaseClient, topicId, stage, difficulty.level, "check", checks, outcomes.map(o => o.code));
+        await recordUsage(supabaseClient, checks);
+      }
+      if (sessionId) await updateSessionLesson(supabaseClient, profileId, sessionId, (lesson) => interleaveChecks(lesson, checks));
 
       return new Response(
         JSON.stringify({ success: true, checks, phase: "checks" }),
@@ -463,8 +961,8 @@ serve(async (req) => {
 
     // ── Phase: Challenge ──
     if (phase === "challenge") {
-      console.log(`Phase 3 (challenge): "${topicName}" [${difficulty.level}]`);
-      const { system, user } = buildChallengePrompt(topicName, yearLevel, difficulty, subjectSlug);
+      console.log(`Phase 3 (challenge): "${topicName}" [${stage}, ${difficulty.level}]`);
+      const { system, user } = buildChallengePrompt(topicName, yearLevel, difficulty, outcomes, subjectSlug);
       const content = await callLLM(LOVABLE_API_KEY, [
         { role: "system", content: system },
         { role: "user", content: user },
@@ -473,9 +971,68 @@ serve(async (req) => {
       const parsed = parseJSON(content);
       const finalChallenge = parsed.final_challenge || parsed;
 
+      if (finalChallenge.questions) {
+        finalChallenge.questions = normaliseHints(sanitiseInteractiveQuestions(finalChallenge.questions, isMaths));
+      }
       if (isMaths && finalChallenge.questions) {
         finalChallenge.questions = correctMathQuestions(finalChallenge.questions);
       }
+      if (finalChallenge.questions) {
+        finalChallenge.questions = normaliseMisconceptions(finalChallenge.questions);
+      }
+
+      if (topicId && finalChallenge.questions) {
+        const fresh = await bankQuestions(
+          supabaseClient, topicId, stage, difficulty.level, "challenge", finalChallenge.questions, outcomes.map(o => o.code),
+        );
+        const banked = await drawBankedQuestions(
+          supabaseClient, topicId, stage, difficulty.level, "challenge", BANKED_PER_CHALLENGE,
+          fresh.map(q => q.question?.trim() || "").filter(Boolean),
+        );
+        // Banked multiple-choice goes before any written or worked questions
+        const mc = fresh.filter(q => (q.type || "multiple_choice") === "multiple_choice");
+        const other = fresh.filter(q => (q.type || "multiple_choice") !== "multiple_choice");
+        finalChallenge.questions = [...mc, ...banked, ...other];
+        await recordUsage(supabaseClient, finalChallenge.questions);
+      }
+
+      // A question swapped out after repeated wrong answers; the rest of the
+      // session's challenge stays as served
+      if (replaceQuestion !== undefined) {
+        const questions = finalChallenge.questions || [];
+        const question = questions.length > 0 ? questions[replaceQuestion % questions.length] : null;
+        let replaced = false;
+        if (question) {
+          const session = await updateSessionLesson(supabaseClient, profileId, sessionId!, (lesson) => {
+            const current = [...(lesson.final_challenge?.questions || [])];
+            if (replaceQuestion >= current.length) return lesson;
+            current[replaceQuestion] = question;
+            replaced = true;
+            return { ...lesson, final_challenge: { ...lesson.final_challenge, questions: current } };
+          });
+          replaced = replaced && !!session;
+        }
+        return new Response(
+          JSON.stringify({ success: true, question: replaced ? question : null, phase: "challenge" }),
+          { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      // The lesson is complete, so cache it for other students at this stage and level
+      const session = sessionId
+        ? await updateSessionLesson(supabaseClient, profileId, sessionId, (lesson) => ({ ...lesson, final_challenge: finalChallenge }))
+        : null;
+      if (session && finalChallenge.questions?.length > 0) {
+        const { error: cacheError } = await supabaseClient
+          .from('generated_modules')
+          .upsert({
+            topic_id: session.topicId,
+            content_json: session.lesson,
+            difficulty_level: session.difficultyLevel,
+            stage: session.stage,
+          }, { onConflict: 'topic_id,difficulty_level,stage' });
+        if (cacheError) console.error('Failed to cache lesson:', cacheError);
+      }
 
       return new Response(
         JSON.stringify({ success: true, final_challenge: finalChallenge, phase: "challenge" }),
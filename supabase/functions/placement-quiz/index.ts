@@ -0,0 +1,648 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { evaluate } from "https://esm.sh/mathjs@13.2.2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// ── Placement Rules ──────────────────────────────────────────────────
+
+const MIN_QUESTIONS = 10;
+const MAX_QUESTIONS = 15;
+const QUESTIONS_PER_TOPIC = 2;
+
+// Pool levels: the staircase can still place a topic at Beginning or Mastering
+const POOL_LEVELS = ["Developing", "Consolidating", "Extending"];
+const BANKED_PER_SLOT = 2;
+
+// Centre of each band in getDifficultyLevel (generate-lesson)
+const LEVEL_RATINGS: Record<string, number> = {
+  Beginning: 800,
+  Developing: 900,
+  Consolidating: 1000,
+  Extending: 1100,
+  Mastering: 1200,
+};
+const START_RATING = 1000;
+const RATING_STEP = 100;
+const MIN_RATING = 700;
+const MAX_RATING = 1300;
+
+// NSW 2026 term start dates — keep in sync with TERMS_2026 in src/lib/weeklyGoalUtils.ts
+const TERM_STARTS = ["2026-01-28", "2026-04-22", "2026-07-21", "2026-10-13"];
+
+const EXPLORER_SUBJECTS = ["english", "maths", "mathematics"];
+
+const getDifficultyLevel = (rating: number) => {
+  if (rating < 850) return "Beginning";
+  if (rating < 950) return "Developing";
+  if (rating < 1050) return "Consolidating";
+  if (rating < 1150) return "Extending";
+  return "Mastering";
+};
+
+function getSydneyToday(): string {
+  return new Date().toLocaleDateString("en-CA", { timeZone: "Australia/Sydney" });
+}
+
+/** Start of the current term (or the last one, during the holidays). */
+function getTermStart(today: string): string | null {
+  return [...TERM_STARTS].reverse().find(start => start <= today) || null;
+}
+
+function getStage(yearLevel: string): string {
+  const year = parseInt(yearLevel.replace(/\D/g, ''), 10);
+  if (year <= 4) return 'Stage 2';
+  if (year >= 7) return 'Stage 4';
+  return 'Stage 3';
+}
+
+// ── Input Validation ─────────────────────────────────────────────────
+
+type Action = "status" | "start" | "answer";
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface ValidatedInput {
+  action: Action;
+  subjectId?: string;
+  attemptId?: string;
+  answer?: number;
+}
+
+const validateInput = (data: unknown): { valid: boolean; error?: string; data?: ValidatedInput } => {
+  if (!data || typeof data !== 'object') return { valid: false, error: 'Invalid request body' };
+  const body = data as Record<string, unknown>;
+  const action = body.action as string;
+  if (!["status", "start", "answer"].includes(action)) return { valid: false, error: 'Invalid action' };
+  if (action === "start" && (typeof body.subjectId !== 'string' || !UUID_RE.test(body.subjectId))) return { valid: false, error: 'Invalid subjectId' };
+  if (action === "answer") {
+    if (typeof body.attemptId !== 'string' || !UUID_RE.test(body.attemptId)) return { valid: false, error: 'Invalid attemptId' };
+    if (typeof body.answer !== 'number' || !Number.isInteger(body.answer) || body.answer < 0 || body.answer > 9) return { valid: false, error: 'Invalid answer' };
+  }
+
+  return {
+    valid: true,
+    data: {
+      action: action as Action,
+      subjectId: body.subjectId as string | undefined,
+      attemptId: body.attemptId as string | undefined,
+      answer: body.answer as number | undefined,
+    },
+  };
+};
+
+// ── Calculator ───────────────────────────────────────────────────────
+
+function safeCalculate(expression: string): { success: boolean; result?: number } {
+  try {
+    return { success: true, result: Number(evaluate(expression)) };
+  } catch {
+    return { success: false };
+  }
+}
+
+/** Points a maths question at the option matching its calculation_expression. */
+function correctMathQuestion(q: PoolQuestion & { calculation_expression?: string }) {
+  if (!q.calculation_expression) return;
+  const calc = safeCalculate(q.calculation_expression);
+  if (!calc.success) return;
+  const index = q.options.findIndex(opt => {
+    const optCalc = safeCalculate(opt.trim());
+    if (optCalc.success && Math.abs(optCalc.result! - calc.result!) < 0.001) return true;
+    const numMatch = opt.match(/-?[\d.]+/);
+    return !!numMatch && Math.abs(parseFloat(numMatch[0]) - calc.result!) < 0.001;
+  });
+  if (index !== -1 && index !== q.correct_answer) {
+    console.log(`🔧 Placement: corrected answer from ${q.correct_answer} to ${index} (calc=${calc.result})`);
+    q.correct_answer = index;
+  }
+}
+
+// ── Simple LLM Call ──────────────────────────────────────────────────
+
+async function callLLM(
+  apiKey: string,
+  messages: { role: string; content: string }[],
+  maxTokens = 3000,
+): Promise<string> {
+  const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
+    method: "POST",
+    headers: { Authorization: `Bearer ${apiKey}`, "Content-Type": "application/json" },
+    body: JSON.stringify({
+      model: "google/gemini-2.5-flash",
+      messages,
+      temperature: 0.7,
+      max_tokens: maxTokens,
+      response_format: { type: "json_object" },
+    }),
+  });
+
+  if (!response.ok) {
+    if (response.status === 429) throw new Error("RATE_LIMIT");
+    if (response.status === 402) throw new Error("CREDITS_EXHAUSTED");
+    const text = await response.text();
+    console.error(`AI gateway error ${response.status}:`, text);
+    throw new Error(`AI gateway error: ${response.status}`);
+  }
+
+  const data = await response.json();
+  const content = data.choices?.[0]?.message?.content;
+  if (!content) throw new Error("No response from AI");
+  return content;
+}
+
+function parseJSON(content: string): unknown {
+  let jsonStr = content.trim();
+  jsonStr = jsonStr.replace(/^```(?:json)?\s*\n?/i, '').replace(/\n?```\s*$/, '');
+  const objMatch = jsonStr.match(/\{[\s\S]*\}/);
+  if (objMatch) jsonStr = objMatch[0];
+  return JSON.parse(jsonStr.trim());
+}
+
+// ── Question Pool ────────────────────────────────────────────────────
+
+interface Topic {
+  id: string;
+  name: string;
+}
+
+interface PoolQuestion {
+  topic_id: string;
+  level: string;
+  question: string;
+  options: string[];
+  correct_answer: number;
+  outcome_code?: string;
+  bank_id?: string;
+}
+
+// A generated question, tagged with the slot it was written for
+interface GeneratedQuestion extends PoolQuestion {
+  slot: number;
+  calculation_expression?: string;
+}
+
+interface ServedItem {
+  pool_index: number;
+  answer?: number;
+  correct?: boolean;
+}
+
+type TopicRatings = Record<string, { rating: number; questions: number }>;
+
+interface BankRow {
+  id: string;
+  topic_id: string;
+  difficulty_level: string;
+  question: PoolQuestion;
+}
+
+interface OutcomeLink {
+  topic_id: string;
+  curriculum_outcomes: { code: string; description: string };
+}
+
+interface AttemptRow {
+  id: string;
+  stage: string;
+  status: string;
+  pool: PoolQuestion[];
+  items: ServedItem[];
+  target_count: number;
+  completed_at: string | null;
+}
+
+const isValidQuestion = (value: unknown): value is PoolQuestion => {
+  const q = value as Partial<PoolQuestion> | null;
+  return typeof q?.question === 'string' && q.question.trim().length > 0 &&
+    Array.isArray(q.options) && q.options.length >= 2 &&
+    typeof q.correct_answer === 'number' && Number.isInteger(q.correct_answer) &&
+    q.correct_answer >= 0 && q.correct_answer < q.options.length;
+};
+
+/**
+ * Multiple-choice questions for every topic at each pool level, drawn from
+ * the bank for the student's stage. Empty slots are generated in one call
+ * against the stage's syllabus outcomes and banked for next time.
+ */
+async function buildPool(
+  supabaseClient: SupabaseClient,
+  apiKey: string,
+  topics: Topic[],
+  stage: string,
+  yearLevel: string,
+  subjectSlug: string,
+): Promise<PoolQuestion[]> {
+  const { data: banked } = await supabaseClient
+    .from('question_bank')
+    .select('id, topic_id, difficulty_level, question')
+    .in('topic_id', topics.map(t => t.id))
+    .eq('stage', stage)
+    .in('difficulty_level', POOL_LEVELS)
+    .eq('question_type', 'multiple_choice')
+    .eq('status', 'active')
+    .order('usage_count', { ascending: true });
+
+  const pool: PoolQuestion[] = [];
+  const missing: { topic: Topic; level: string }[] = [];
+  for (const topic of topics) {
+    for (const level of POOL_LEVELS) {
+      const rows = ((banked || []) as BankRow[])
+        .filter(row => row.topic_id === topic.id && row.difficulty_level === level && isValidQuestion(row.question))
+        .slice(0, BANKED_PER_SLOT);
+      if (rows.length === 0) missing.push({ topic, level });
+      for (const row of rows) {
+        pool.push({
+          topic_id: topic.id,
+          level,
+          question: row.question.question,
+          options: row.question.options,
+          correct_answer: row.question.correct_answer,
+          bank_id: row.id,
+        });
+      }
+    }
+  }
+
+  if (missing.length === 0) return pool;
+
+  const { data: links } = await supabaseClient
+    .from('topic_outcomes')
+    .select('topic_id, curriculum_outcomes!inner(code, stage, strand, description)')
+    .in('topic_id', [...new Set(missing.map(m => m.topic.id))])
+    .eq('curriculum_outcomes.stage', stage);
+  const outcomesFor = (topicId: string) =>
+    ((links || []) as OutcomeLink[]).filter(l => l.topic_id === topicId).map(l => l.curriculum_outcomes);
+
+  const isMaths = subjectSlug === "maths" || subjectSlug === "mathematics";
+  const slotLines = missing.map((m, i) => {
+    const outcomes = outcomesFor(m.topic.id).map(o => `${o.code}: ${o.description}`).join("; ");
+    return `${i}. "${m.topic.name}" at ${m.level} level${outcomes ? ` (outcomes — ${outcomes})` : ""}`;
+  }).join("\n");
+
+  const system = `You write diagnostic placement questions for Australian school students (NSW ${yearLevel}, ${stage}).
+Use Australian English spelling.
+Levels: Developing = building understanding with varied examples; Consolidating = applying concepts to new situations; Extending = more complex problems and connections.
+${isMaths ? `CRITICAL: For EVERY question involving a calculation, include a "calculation_expression" field with the pure math expression (e.g. "3/4 + 1/2"). Double-check all arithmetic.` : ""}
+CRITICAL: Each question must have exactly one correct answer and must not be negatively framed (no "which is NOT...").`;
+
+  const user = `Write ONE multiple-choice question for each numbered slot:
+${slotLines}
+
+Return ONLY valid JSON:
+{
+  "questions": [
+    {
+      "slot": 0,
+      "question": "Question text",
+      "options": ["A", "B", "C", "D"],
+      "correct_answer": 0,
+      ${isMaths ? '"calculation_expression": "math expression if applicable",' : ''}
+      "outcome_code": "syllabus outcome code from the slot, if any"
+    }
+  ]
+}`;
+
+  const content = await callLLM(apiKey, [
+    { role: "system", content: system },
+    { role: "user", content: user },
+  ], 6000);
+
+  const generated: PoolQuestion[] = [];
+  const { questions } = parseJSON(content) as { questions?: GeneratedQuestion[] };
+  for (const q of questions || []) {
+    const slot = missing[q?.slot];
+    if (!slot || !isValidQuestion(q)) continue;
+    if (isMaths) correctMathQuestion(q);
+    const codes = outcomesFor(slot.topic.id).map(o => o.code);
+    generated.push({
+      topic_id: slot.topic.id,
+      level: slot.level,
+      question: q.question.trim(),
+      options: q.options,
+      correct_answer: q.correct_answer,
+      outcome_code: q.outcome_code && codes.includes(q.outcome_code) ? q.outcome_code : undefined,
+    });
+  }
+
+  if (generated.length > 0) {
+    const { data: inserted, error } = await supabaseClient
+      .from('question_bank')
+      .insert(generated.map(q => ({
+        topic_id: q.topic_id,
+        stage,
+        difficulty_level: q.level,
+        section: 'check',
+        question_type: 'multiple_choice',
+        outcome_code: q.outcome_code || null,
+        question_text: q.question,
+        question: { question_type: 'multiple_choice', question: q.question, options: q.options, correct_answer: q.correct_answer, outcome_code: q.outcome_code },
+      })))
+      .select('id, question_text');
+    if (error) console.error('Failed to bank placement questions:', error);
+    for (const row of (inserted || []) as { id: string; question_text: string }[]) {
+      const match = generated.find(q => q.question === row.question_text);
+      if (match) match.bank_id = row.id;
+    }
+  }
+
+  console.log(`Placement pool [${stage}]: ${pool.length} banked, ${generated.length} generated`);
+  return [...pool, ...generated];
+}
+
+/**
+ * Next question: topics take turns, and each topic gets the unused question
+ * closest to its current rating.
+ */
+function pickNext(pool: PoolQuestion[], items: ServedItem[], topics: Topic[], ratings: TopicRatings): number | null {
+  const used = new Set(items.map(i => i.pool_index));
+  const lastTopic = items.length > 0 ? pool[items[items.length - 1].pool_index].topic_id : null;
+  const start = lastTopic ? topics.findIndex(t => t.id === lastTopic) + 1 : 0;
+
+  for (let offset = 0; offset < topics.length; offset++) {
+    const topic = topics[(start + offset) % topics.length];
+    const rating = ratings[topic.id]?.rating ?? START_RATING;
+    const candidates = pool
+      .map((q, index) => ({ q, index }))
+      .filter(({ q, index }) => q.topic_id === topic.id && !used.has(index));
+    if (candidates.length === 0) continue;
+    candidates.sort((a, b) =>
+      Math.abs(LEVEL_RATINGS[a.q.level] - rating) - Math.abs(LEVEL_RATINGS[b.q.level] - rating));
+    return candidates[0].index;
+  }
+  return null;
+}
+
+/** One level up for a right answer, one down for a wrong one, from the question's level. */
+function updateTopicRating(ratings: TopicRatings, question: PoolQuestion, correct: boolean): TopicRatings {
+  const current = ratings[question.topic_id] || { rating: START_RATING, questions: 0 };
+  const next = LEVEL_RATINGS[question.level] + (correct ? RATING_STEP : -RATING_STEP);
+  return {
+    ...ratings,
+    [question.topic_id]: {
+      rating: Math.min(MAX_RATING, Math.max(MIN_RATING, next)),
+      questions: current.questions + 1,
+    },
+  };
+}
+
+function toClientQuestion(pool: PoolQuestion[], items: ServedItem[], total: number, topics: Topic[]) {
+  const q = pool[items[items.length - 1].pool_index];
+  return {
+    index: items.length,
+    total,
+    topicName: topics.find(t => t.id === q.topic_id)?.name || "",
+    question: q.question,
+    options: q.options,
+  };
+}
+
+// ── Main Handler ─────────────────────────────────────────────────────
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '', Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      { auth: { persistSession: false } }
+    );
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: userData, error: userError } = await supabaseClient.auth.getUser(token);
+    if (userError || !userData?.user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    let rawBody: unknown;
+    try { rawBody = await req.json(); } catch {
+      return new Response(JSON.stringify({ error: 'Invalid JSON' }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    const validation = validateInput(rawBody);
+    if (!validation.valid || !validation.data) {
+      return new Response(JSON.stringify({ error: validation.error }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    const input = validation.data;
+
+    const { data: profile, error: profileError } = await supabaseClient
+      .from('profiles')
+      .select('id, grade_level, subscription_tier')
+      .eq('user_id', userData.user.id)
+      .single();
+    if (profileError || !profile) {
+      return new Response(JSON.stringify({ error: 'Profile not found' }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    const yearLevel = profile.grade_level || "Year 5";
+    const stage = getStage(yearLevel);
+    const isChampion = profile.subscription_tier === 'champion';
+    const termStart = getTermStart(getSydneyToday());
+
+    // ── Action: Status ──
+    // One quiz per subject per term; an unfinished one can always be resumed
+    if (input.action === "status") {
+      const [subjectsRes, attemptsRes] = await Promise.all([
+        supabaseClient.from('subjects').select('id, slug'),
+        supabaseClient
+          .from('placement_attempts')
+          .select('subject_id, status, completed_at')
+          .eq('profile_id', profile.id),
+      ]);
+
+      const attempts = (attemptsRes.data || []) as { subject_id: string; status: string; completed_at: string | null }[];
+      const subjects = ((subjectsRes.data || []) as { id: string; slug: string }[]).map(subject => {
+        const mine = attempts.filter(a => a.subject_id === subject.id);
+        const lastCompletedAt = mine
+          .map(a => a.completed_at)
+          .filter((d): d is string => !!d)
+          .sort()
+          .pop() || null;
+        const inProgress = mine.some(a => a.status === 'in_progress');
+        const doneThisTerm = !!lastCompletedAt && !!termStart &&
+          new Date(lastCompletedAt).toLocaleDateString("en-CA", { timeZone: "Australia/Sydney" }) >= termStart;
+        return {
+          subjectId: subject.id,
+          lastCompletedAt,
+          inProgress,
+          canRun: inProgress || !doneThisTerm,
+          locked: !isChampion && !EXPLORER_SUBJECTS.includes(subject.slug),
+        };
+      });
+
+      return new Response(
+        JSON.stringify({ success: true, termStart, subjects }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ── Action: Start ──
+    if (input.action === "start") {
+      const { data: subject } = await supabaseClient
+        .from('subjects').select('id, slug').eq('id', input.subjectId).maybeSingle();
+      if (!subject) {
+        return new Response(JSON.stringify({ error: 'Subject not found' }),
+          { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+      }
+      if (!isChampion && !EXPLORER_SUBJECTS.includes(subject.slug)) {
+        return new Response(JSON.stringify({ error: 'Champion subscription required for this subject.', code: 'LIMIT_REACHED' }),
+          { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+      }
+
+      const { data: topicsData } = await supabaseClient
+        .from('topics').select('id, name').eq('subject_id', subject.id).order('order_index');
+      const topics = (topicsData || []) as Topic[];
+      if (topics.length === 0) {
+        return new Response(JSON.stringify({ error: 'No topics for this subject' }),
+          { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+      }
+
+      const { data: attempts } = await supabaseClient
+        .from('placement_attempts')
+        .select('id, stage, status, pool, items, target_count, completed_at')
+        .eq('profile_id', profile.id)
+        .eq('subject_id', subject.id)
+        .order('created_at', { ascending: false });
+
+      const open = ((attempts || []) as AttemptRow[]).find(a => a.status === 'in_progress' && a.stage === stage);
+      if (open) {
+        return new Response(
+          JSON.stringify({ success: true, attemptId: open.id, question: toClientQuestion(open.pool, open.items, open.target_count, topics) }),
+          { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const lastCompleted = ((attempts || []) as AttemptRow[]).find(a => a.status === 'completed');
+      if (lastCompleted && termStart &&
+        new Date(lastCompleted.completed_at!).toLocaleDateString("en-CA", { timeZone: "Australia/Sydney" }) >= termStart) {
+        return new Response(JSON.stringify({ error: 'Placement quiz already taken this term', code: 'ALREADY_PLACED' }),
+          { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+      }
+
+      const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
+      if (!LOVABLE_API_KEY) throw new Error("LOVABLE_API_KEY is not configured");
+
+      const pool = await buildPool(supabaseClient, LOVABLE_API_KEY, topics, stage, yearLevel, subject.slug);
+      const target = Math.min(MAX_QUESTIONS, Math.max(MIN_QUESTIONS, topics.length * QUESTIONS_PER_TOPIC), pool.length);
+      const first = pickNext(pool, [], topics, {});
+      if (first === null || target === 0) {
+        return new Response(JSON.stringify({ error: 'Could not build a placement quiz' }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+      }
+
+      const items: ServedItem[] = [{ pool_index: first }];
+      const { data: attempt, error: insertError } = await supabaseClient
+        .from('placement_attempts')
+        .insert({ profile_id: profile.id, subject_id: subject.id, stage, pool, items, target_count: target })
+        .select('id')
+        .single();
+      if (insertError || !attempt) throw insertError || new Error('Failed to start placement');
+
+      console.log(`Placement start: subject ${subject.slug} [${stage}] — ${target} questions from ${pool.length}`);
+      return new Response(
+        JSON.stringify({ success: true, attemptId: attempt.id, question: toClientQuestion(pool, items, target, topics) }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ── Action: Answer ──
+    const { data: attempt } = await supabaseClient
+      .from('placement_attempts')
+      .select('id, subject_id, pool, items, topic_ratings, target_count')
+      .eq('id', input.attemptId)
+      .eq('profile_id', profile.id)
+      .eq('status', 'in_progress')
+      .maybeSingle();
+    if (!attempt) {
+      return new Response(JSON.stringify({ error: 'Placement quiz not found' }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    const pool = attempt.pool as PoolQuestion[];
+    const items = [...(attempt.items as ServedItem[])];
+    const current = items[items.length - 1];
+    const question = pool[current.pool_index];
+    if (input.answer! >= question.options.length) {
+      return new Response(JSON.stringify({ error: 'Invalid answer' }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+
+    const correct = input.answer === question.correct_answer;
+    items[items.length - 1] = { ...current, answer: input.answer, correct };
+    const ratings = updateTopicRating(attempt.topic_ratings as TopicRatings, question, correct);
+
+    const { data: topicsData } = await supabaseClient
+      .from('topics').select('id, name').eq('subject_id', attempt.subject_id).order('order_index');
+    const topics = (topicsData || []) as Topic[];
+
+    const next = items.length < attempt.target_count ? pickNext(pool, items, topics, ratings) : null;
+    if (next !== null) items.push({ pool_index: next });
+
+    const { error: updateError } = await supabaseClient
+      .from('placement_attempts')
+      .update({ items, topic_ratings: ratings })
+      .eq('id', attempt.id);
+    if (updateError) throw updateError;
+
+    if (next !== null) {
+      return new Response(
+        JSON.stringify({ success: true, done: false, question: toClientQuestion(pool, items, attempt.target_count, topics) }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { error: rpcError } = await supabaseClient.rpc('complete_placement', { _attempt_id: attempt.id });
+    if (rpcError) throw rpcError;
+
+    const usedIds = items.map(i => pool[i.pool_index].bank_id).filter(Boolean);
+    if (usedIds.length > 0) {
+      const { error } = await supabaseClient.rpc('increment_question_usage', { _question_ids: usedIds });
+      if (error) console.error('Failed to record question usage:', error);
+    }
+
+    const results = topics
+      .filter(t => ratings[t.id])
+      .map(t => ({ topicId: t.id, topicName: t.name, level: getDifficultyLevel(ratings[t.id].rating) }));
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        done: true,
+        correct: items.filter(i => i.correct).length,
+        total: items.length,
+        results,
+      }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+
+  } catch (error) {
+    console.error("Error in placement quiz:", error);
+    const msg = error instanceof Error ? error.message : "";
+    if (msg === "RATE_LIMIT") {
+      return new Response(JSON.stringify({ error: "Rate limit exceeded. Please try again in a moment." }),
+        { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+    if (msg === "CREDITS_EXHAUSTED") {
+      return new Response(JSON.stringify({ error: "AI credits exhausted." }),
+        { status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    }
+    return new Response(JSON.stringify({ error: "An error occurred while processing your request", success: false }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+  }
+});
@@ -6,10 +6,36 @@ const corsHeaders = {
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
 };
 
+// Keep in sync with isSpeakableWord in src/lib/narrationUtils.ts
 function stripEmojis(text: string): string {
   return text.replace(/[\p{Emoji_Presentation}\p{Extended_Pictographic}\u200d\uFE0F]/gu, "").replace(/\s{2,}/g, " ").trim();
 }
 
+interface Alignment {
+  characters: string[];
+  character_start_times_seconds: number[];
+  character_end_times_seconds: number[];
+}
+
+// Start and end times (seconds) of each whitespace-separated word, for
+// highlighting words as they're read
+function getWordTimings(alignment: Alignment): { start: number; end: number }[] {
+  const words: { start: number; end: number }[] = [];
+  let current: { start: number; end: number } | null = null;
+  alignment.characters.forEach((char, i) => {
+    if (/\s/.test(char)) {
+      current = null;
+      return;
+    }
+    if (!current) {
+      current = { start: alignment.character_start_times_seconds[i], end: 0 };
+      words.push(current);
+    }
+    current.end = alignment.character_end_times_seconds[i];
+  });
+  return words;
+}
+
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -40,7 +66,8 @@ serve(async (req) => {
       });
     }
 
-    const { text } = await req.json();
+    // With timestamps, the audio comes back as base64 JSON alongside word timings
+    const { text, timestamps } = await req.json();
     if (!text || typeof text !== "string" || text.length > 5000) {
       return new Response(JSON.stringify({ error: "Invalid text" }), {
         status: 400,
@@ -64,7 +91,7 @@ serve(async (req) => {
     }
 
     const response = await fetch(
-      `https://api.elevenlabs.io/v1/text-to-speech/${ELEVENLABS_VOICE_ID}/stream`,
+      `https://api.elevenlabs.io/v1/text-to-speech/${ELEVENLABS_VOICE_ID}/${timestamps === true ? "with-timestamps" : "stream"}`,
       {
         method: "POST",
         headers: {
@@ -91,6 +118,14 @@ serve(async (req) => {
       });
     }
 
+    if (timestamps === true) {
+      const { audio_base64, alignment } = await response.json();
+      return new Response(
+        JSON.stringify({ audio: audio_base64, words: alignment ? getWordTimings(alignment) : [] }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
     return new Response(response.body, {
       headers: {
         ...corsHeaders,
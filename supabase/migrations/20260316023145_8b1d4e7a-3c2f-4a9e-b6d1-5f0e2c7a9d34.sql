@@ -0,0 +1,145 @@
+
+-- 1. Account type: students train, parents watch over linked children
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS account_type text NOT NULL DEFAULT 'student'
+    CHECK (account_type IN ('student', 'parent'));
+
+-- Code a student shares with their parent/guardian to link accounts
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS guardian_code text UNIQUE
+    DEFAULT upper(substr(md5(gen_random_uuid()::text), 1, 8));
+
+-- 2. Guardian links (one parent can own many children, a child can have more than one guardian)
+CREATE TABLE public.guardian_links (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  guardian_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  student_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE(guardian_id, student_id),
+  CHECK (guardian_id != student_id)
+);
+
+ALTER TABLE public.guardian_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their guardian links"
+  ON public.guardian_links FOR SELECT TO authenticated
+  USING (guardian_id = public.get_my_profile_id() OR student_id = public.get_my_profile_id());
+
+CREATE POLICY "Users can remove their guardian links"
+  ON public.guardian_links FOR DELETE TO authenticated
+  USING (guardian_id = public.get_my_profile_id() OR student_id = public.get_my_profile_id());
+
+-- Security definer helper so policies don't recurse through profiles RLS
+CREATE OR REPLACE FUNCTION public.is_guardian_of(_student_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.guardian_links
+    WHERE guardian_id = public.get_my_profile_id()
+      AND student_id = _student_id
+  )
+$$;
+
+-- Links are only created by code, never by direct insert
+CREATE OR REPLACE FUNCTION public.link_child_by_code(_code text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _guardian_id uuid := public.get_my_profile_id();
+  _student_id uuid;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles WHERE id = _guardian_id AND account_type = 'parent'
+  ) THEN
+    RAISE EXCEPTION 'Only parent accounts can link children';
+  END IF;
+
+  SELECT id INTO _student_id
+  FROM public.profiles
+  WHERE guardian_code = upper(trim(_code))
+    AND account_type = 'student';
+
+  IF _student_id IS NULL THEN
+    RAISE EXCEPTION 'No student found for that code';
+  END IF;
+
+  INSERT INTO public.guardian_links (guardian_id, student_id)
+  VALUES (_guardian_id, _student_id)
+  ON CONFLICT (guardian_id, student_id) DO NOTHING;
+
+  RETURN _student_id;
+END;
+$$;
+
+-- 3. Read-only guardian access to each child's data
+CREATE POLICY "Guardians can view their children's profiles"
+  ON public.profiles FOR SELECT TO authenticated
+  USING (public.is_guardian_of(id));
+
+CREATE POLICY "Guardians can view their children's progress"
+  ON public.student_progress FOR SELECT TO authenticated
+  USING (public.is_guardian_of(student_id));
+
+CREATE POLICY "Guardians can view their children's submissions"
+  ON public.submissions FOR SELECT TO authenticated
+  USING (public.is_guardian_of(profile_id));
+
+CREATE POLICY "Guardians can view their children's goal history"
+  ON public.weekly_goal_history FOR SELECT TO authenticated
+  USING (public.is_guardian_of(profile_id));
+
+-- 4. Signup: allow choosing a parent account; parents skip student onboarding
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _account_type text := CASE
+    WHEN NEW.raw_user_meta_data ->> 'account_type' = 'parent' THEN 'parent'
+    ELSE 'student'
+  END;
+BEGIN
+  INSERT INTO public.profiles (user_id, first_name, account_type, onboarding_completed)
+  VALUES (NEW.id, NEW.raw_user_meta_data ->> 'first_name', _account_type, _account_type = 'parent');
+  RETURN NEW;
+END;
+$$;
+
+-- 5. Account type can't be switched from the client
+CREATE OR REPLACE FUNCTION public.protect_profile_fields()
+RETURNS TRIGGER LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.subscription_tier IS DISTINCT FROM OLD.subscription_tier THEN
+    RAISE EXCEPTION 'subscription_tier cannot be modified directly';
+  END IF;
+  IF NEW.stripe_customer_id IS DISTINCT FROM OLD.stripe_customer_id THEN
+    RAISE EXCEPTION 'stripe_customer_id cannot be modified directly';
+  END IF;
+  IF NEW.account_type IS DISTINCT FROM OLD.account_type THEN
+    RAISE EXCEPTION 'account_type cannot be modified directly';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- 6. Expose the new columns through user_profiles
+DROP VIEW IF EXISTS public.user_profiles;
+CREATE VIEW public.user_profiles WITH (security_invoker = true) AS
+SELECT
+  id, user_id, first_name, grade_level, subscription_tier,
+  total_xp, current_streak, weekly_xp_earned, weekly_xp_goal,
+  vacation_passes, last_term_replenish_date, last_active_date,
+  last_mission_date, week_start_date, onboarding_completed,
+  created_at, updated_at, username, account_type, guardian_code
+FROM public.profiles;
@@ -0,0 +1,183 @@
+
+-- 1. Teacher accounts
+ALTER TABLE public.profiles DROP CONSTRAINT IF EXISTS profiles_account_type_check;
+ALTER TABLE public.profiles
+  ADD CONSTRAINT profiles_account_type_check CHECK (account_type IN ('student', 'parent', 'teacher'));
+
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _account_type text := CASE
+    WHEN NEW.raw_user_meta_data ->> 'account_type' IN ('parent', 'teacher') THEN NEW.raw_user_meta_data ->> 'account_type'
+    ELSE 'student'
+  END;
+BEGIN
+  INSERT INTO public.profiles (user_id, first_name, account_type, onboarding_completed)
+  VALUES (NEW.id, NEW.raw_user_meta_data ->> 'first_name', _account_type, _account_type != 'student');
+  RETURN NEW;
+END;
+$$;
+
+-- 2. Classes, rosters and assignments
+CREATE TABLE public.classes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  teacher_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  join_code text NOT NULL UNIQUE DEFAULT upper(substr(md5(gen_random_uuid()::text), 1, 6)),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.class_members (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  class_id uuid NOT NULL REFERENCES public.classes(id) ON DELETE CASCADE,
+  student_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  joined_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE(class_id, student_id)
+);
+
+CREATE TABLE public.class_assignments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  class_id uuid NOT NULL REFERENCES public.classes(id) ON DELETE CASCADE,
+  topic_id uuid NOT NULL REFERENCES public.topics(id) ON DELETE CASCADE,
+  due_date date,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE(class_id, topic_id)
+);
+
+ALTER TABLE public.classes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.class_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.class_assignments ENABLE ROW LEVEL SECURITY;
+
+-- Security definer helpers so class policies don't recurse into each other
+CREATE OR REPLACE FUNCTION public.is_class_teacher(_class_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.classes
+    WHERE id = _class_id AND teacher_id = public.get_my_profile_id()
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_class_member(_class_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.class_members
+    WHERE class_id = _class_id AND student_id = public.get_my_profile_id()
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_teacher_of(_student_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.class_members cm
+    JOIN public.classes c ON c.id = cm.class_id
+    WHERE cm.student_id = _student_id
+      AND c.teacher_id = public.get_my_profile_id()
+  )
+$$;
+
+-- Classes: teachers manage their own, students see classes they belong to
+CREATE POLICY "Teachers can view their classes"
+  ON public.classes FOR SELECT TO authenticated
+  USING (teacher_id = public.get_my_profile_id() OR public.is_class_member(id));
+
+CREATE POLICY "Teachers can create classes"
+  ON public.classes FOR INSERT TO authenticated
+  WITH CHECK (
+    teacher_id = public.get_my_profile_id()
+    AND EXISTS (SELECT 1 FROM public.profiles WHERE id = teacher_id AND account_type = 'teacher')
+  );
+
+CREATE POLICY "Teachers can update their classes"
+  ON public.classes FOR UPDATE TO authenticated
+  USING (teacher_id = public.get_my_profile_id());
+
+CREATE POLICY "Teachers can delete their classes"
+  ON public.classes FOR DELETE TO authenticated
+  USING (teacher_id = public.get_my_profile_id());
+
+-- Rosters: joined by code, removable by the teacher or the student
+CREATE POLICY "Class members are visible to teacher and self"
+  ON public.class_members FOR SELECT TO authenticated
+  USING (student_id = public.get_my_profile_id() OR public.is_class_teacher(class_id));
+
+CREATE POLICY "Teachers and students can remove memberships"
+  ON public.class_members FOR DELETE TO authenticated
+  USING (student_id = public.get_my_profile_id() OR public.is_class_teacher(class_id));
+
+-- Assignments: teachers manage, members read
+CREATE POLICY "Class assignments are visible to teacher and members"
+  ON public.class_assignments FOR SELECT TO authenticated
+  USING (public.is_class_teacher(class_id) OR public.is_class_member(class_id));
+
+CREATE POLICY "Teachers can create assignments"
+  ON public.class_assignments FOR INSERT TO authenticated
+  WITH CHECK (public.is_class_teacher(class_id));
+
+CREATE POLICY "Teachers can update assignments"
+  ON public.class_assignments FOR UPDATE TO authenticated
+  USING (public.is_class_teacher(class_id));
+
+CREATE POLICY "Teachers can delete assignments"
+  ON public.class_assignments FOR DELETE TO authenticated
+  USING (public.is_class_teacher(class_id));
+
+CREATE OR REPLACE FUNCTION public.join_class_by_code(_code text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _student_id uuid := public.get_my_profile_id();
+  _class_id uuid;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles WHERE id = _student_id AND account_type = 'student'
+  ) THEN
+    RAISE EXCEPTION 'Only student accounts can join a class';
+  END IF;
+
+  SELECT id INTO _class_id FROM public.classes WHERE join_code = upper(trim(_code));
+
+  IF _class_id IS NULL THEN
+    RAISE EXCEPTION 'No class found for that code';
+  END IF;
+
+  INSERT INTO public.class_members (class_id, student_id)
+  VALUES (_class_id, _student_id)
+  ON CONFLICT (class_id, student_id) DO NOTHING;
+
+  RETURN _class_id;
+END;
+$$;
+
+-- 3. Read-only teacher access to their students
+CREATE POLICY "Teachers can view their students' profiles"
+  ON public.profiles FOR SELECT TO authenticated
+  USING (public.is_teacher_of(id));
+
+CREATE POLICY "Teachers can view their students' progress"
+  ON public.student_progress FOR SELECT TO authenticated
+  USING (public.is_teacher_of(student_id));
+
+CREATE POLICY "Teachers can view their students' submissions"
+  ON public.submissions FOR SELECT TO authenticated
+  USING (public.is_teacher_of(profile_id));
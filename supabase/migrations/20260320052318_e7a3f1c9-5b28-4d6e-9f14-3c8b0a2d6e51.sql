@@ -0,0 +1,107 @@
+
+-- Atomic mission completion: profile XP, topic progress, activity feed and badges
+-- in one transaction. Only callable by the complete-mission edge function, which
+-- validates the session's answers and works out the XP first.
+CREATE OR REPLACE FUNCTION public.complete_mission(
+  _profile_id uuid,
+  _topic_id uuid,
+  _base_xp integer,
+  _final_xp integer,
+  _subject_name text,
+  _topic_name text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _sydney_now timestamp := now() AT TIME ZONE 'Australia/Sydney';
+  _today date := _sydney_now::date;
+  _week_start date := date_trunc('week', _sydney_now)::date;
+  _last_mission_date date;
+  _current_streak integer;
+  _total_xp integer;
+  _mastery_count integer;
+  _new_badges jsonb;
+BEGIN
+  SELECT last_mission_date, COALESCE(current_streak, 0)
+  INTO _last_mission_date, _current_streak
+  FROM public.profiles
+  WHERE id = _profile_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Profile not found';
+  END IF;
+
+  UPDATE public.profiles
+  SET total_xp = COALESCE(total_xp, 0) + _final_xp,
+      weekly_xp_earned = COALESCE(weekly_xp_earned, 0) + _final_xp,
+      week_start_date = _week_start,
+      last_mission_date = _today
+  WHERE id = _profile_id
+  RETURNING total_xp INTO _total_xp;
+
+  INSERT INTO public.student_progress (
+    student_id, topic_id, is_completed, xp_earned, weekly_xp, week_start_date, missions_this_week
+  )
+  VALUES (_profile_id, _topic_id, _base_xp >= 500, _base_xp, _base_xp, _week_start, 1)
+  ON CONFLICT (student_id, topic_id) DO UPDATE SET
+    xp_earned = COALESCE(student_progress.xp_earned, 0) + EXCLUDED.xp_earned,
+    is_completed = COALESCE(student_progress.xp_earned, 0) + EXCLUDED.xp_earned >= 500,
+    weekly_xp = CASE
+      WHEN student_progress.week_start_date IS DISTINCT FROM _week_start THEN 0
+      ELSE COALESCE(student_progress.weekly_xp, 0)
+    END + EXCLUDED.weekly_xp,
+    missions_this_week = CASE
+      WHEN student_progress.week_start_date IS DISTINCT FROM _week_start THEN 0
+      ELSE COALESCE(student_progress.missions_this_week, 0)
+    END + 1,
+    week_start_date = _week_start;
+
+  INSERT INTO public.activity_feed (profile_id, activity_type, subject_name, topic_name, xp_earned)
+  VALUES (_profile_id, 'mission_complete', _subject_name, _topic_name, _base_xp);
+
+  -- Badges crossed by this mission (same rules as MyBadges)
+  SELECT COUNT(*) INTO _mastery_count
+  FROM public.student_progress
+  WHERE student_id = _profile_id AND COALESCE(xp_earned, 0) >= 1500;
+
+  WITH crossed AS (
+    SELECT b.id, b.name, b.emoji
+    FROM public.badges b
+    WHERE NOT EXISTS (
+        SELECT 1 FROM public.user_badges ub
+        WHERE ub.profile_id = _profile_id AND ub.badge_id = b.id
+      )
+      AND (
+        (b.badge_type = 'streak' AND _current_streak >= b.threshold)
+        OR (b.badge_type = 'xp' AND _total_xp >= b.threshold)
+        OR (b.badge_type = 'mastery' AND _mastery_count >= b.threshold)
+      )
+  ), awarded AS (
+    INSERT INTO public.user_badges (profile_id, badge_id)
+    SELECT _profile_id, id FROM crossed
+    RETURNING badge_id
+  ), feed AS (
+    INSERT INTO public.activity_feed (profile_id, activity_type, badge_name, badge_emoji, xp_earned)
+    SELECT _profile_id, 'badge_earned', c.name, c.emoji, 0
+    FROM crossed c JOIN awarded a ON a.badge_id = c.id
+  )
+  SELECT COALESCE(jsonb_agg(jsonb_build_object('name', c.name, 'emoji', c.emoji)), '[]'::jsonb)
+  INTO _new_badges
+  FROM crossed c JOIN awarded a ON a.badge_id = c.id;
+
+  RETURN jsonb_build_object(
+    'final_xp', _final_xp,
+    'total_xp', _total_xp,
+    'current_streak', _current_streak,
+    'is_streak_day', _last_mission_date IS DISTINCT FROM _today,
+    'new_badges', _new_badges
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.complete_mission(uuid, uuid, integer, integer, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.complete_mission(uuid, uuid, integer, integer, text, text) TO service_role;
@@ -0,0 +1,36 @@
+
+-- Spaced-repetition review queue built from missed questions.
+-- Rows are created by the client when a question is answered wrong; the
+-- SM-2 schedule (ease, interval, due date) is only updated by complete-mission.
+CREATE TABLE public.review_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  profile_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  topic_id uuid NOT NULL REFERENCES public.topics(id) ON DELETE CASCADE,
+  difficulty_level text,
+  question_text text NOT NULL,
+  question jsonb NOT NULL,
+  ease_factor numeric NOT NULL DEFAULT 2.5,
+  interval_days integer NOT NULL DEFAULT 1,
+  repetitions integer NOT NULL DEFAULT 0,
+  lapses integer NOT NULL DEFAULT 0,
+  due_date date NOT NULL DEFAULT ((now() AT TIME ZONE 'Australia/Sydney')::date + 1),
+  last_reviewed_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE(profile_id, question_text)
+);
+
+CREATE INDEX idx_review_items_due ON public.review_items (profile_id, due_date);
+
+ALTER TABLE public.review_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own review items"
+  ON public.review_items FOR SELECT TO authenticated
+  USING (profile_id = public.get_my_profile_id());
+
+CREATE POLICY "Users can insert own review items"
+  ON public.review_items FOR INSERT TO authenticated
+  WITH CHECK (profile_id = public.get_my_profile_id());
+
+CREATE POLICY "Users can delete own review items"
+  ON public.review_items FOR DELETE TO authenticated
+  USING (profile_id = public.get_my_profile_id());
@@ -0,0 +1,141 @@
+
+-- Question bank: individual generated questions, reused across lessons.
+-- Written only by generate-lesson (service role). A question is never edited
+-- in place; a fix is inserted as a new version that supersedes the old one.
+CREATE TABLE public.question_bank (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  topic_id uuid NOT NULL REFERENCES public.topics(id) ON DELETE CASCADE,
+  difficulty_level text NOT NULL,
+  outcome_code text,
+  section text NOT NULL CHECK (section IN ('check', 'challenge')),
+  question_type text NOT NULL DEFAULT 'multiple_choice',
+  question_text text NOT NULL,
+  question jsonb NOT NULL,
+  version integer NOT NULL DEFAULT 1,
+  supersedes_id uuid REFERENCES public.question_bank(id) ON DELETE SET NULL,
+  usage_count integer NOT NULL DEFAULT 0,
+  report_count integer NOT NULL DEFAULT 0,
+  status text NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'retired')),
+  retired_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- One live copy of each question per topic/level; retired versions are kept
+CREATE UNIQUE INDEX idx_question_bank_active_text
+  ON public.question_bank (topic_id, difficulty_level, question_text)
+  WHERE status = 'active';
+
+CREATE INDEX idx_question_bank_lookup
+  ON public.question_bank (topic_id, difficulty_level, section, status);
+
+ALTER TABLE public.question_bank ENABLE ROW LEVEL SECURITY;
+
+-- Student "report this question" flags
+CREATE TABLE public.question_reports (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  question_id uuid NOT NULL REFERENCES public.question_bank(id) ON DELETE CASCADE,
+  profile_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  reason text NOT NULL CHECK (reason IN ('wrong_answer', 'confusing', 'typo', 'other')),
+  details text CHECK (char_length(details) <= 500),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE(question_id, profile_id)
+);
+
+ALTER TABLE public.question_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own question reports"
+  ON public.question_reports FOR SELECT TO authenticated
+  USING (profile_id = public.get_my_profile_id());
+
+CREATE POLICY "Users can report questions"
+  ON public.question_reports FOR INSERT TO authenticated
+  WITH CHECK (profile_id = public.get_my_profile_id());
+
+-- Count reports and retire a question once three different students flag it.
+-- The cached lesson for that topic/level is dropped so it gets rebuilt.
+CREATE OR REPLACE FUNCTION public.handle_question_report()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _question public.question_bank%ROWTYPE;
+BEGIN
+  UPDATE public.question_bank
+  SET report_count = report_count + 1
+  WHERE id = NEW.question_id
+  RETURNING * INTO _question;
+
+  IF _question.status = 'active' AND _question.report_count >= 3 THEN
+    UPDATE public.question_bank
+    SET status = 'retired', retired_at = now()
+    WHERE id = _question.id;
+
+    DELETE FROM public.generated_modules
+    WHERE topic_id = _question.topic_id
+      AND difficulty_level = _question.difficulty_level;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_question_reported
+  AFTER INSERT ON public.question_reports
+  FOR EACH ROW EXECUTE FUNCTION public.handle_question_report();
+
+-- Bump usage counts for the questions served in a lesson
+CREATE OR REPLACE FUNCTION public.increment_question_usage(_question_ids uuid[])
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.question_bank
+  SET usage_count = usage_count + 1
+  WHERE id = ANY(_question_ids);
+$$;
+
+-- Replace a bad question with a corrected version, retiring the original
+CREATE OR REPLACE FUNCTION public.revise_bank_question(_question_id uuid, _question jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _old public.question_bank%ROWTYPE;
+  _new_id uuid;
+BEGIN
+  SELECT * INTO _old FROM public.question_bank WHERE id = _question_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Question not found';
+  END IF;
+
+  UPDATE public.question_bank
+  SET status = 'retired', retired_at = COALESCE(retired_at, now())
+  WHERE id = _old.id;
+
+  INSERT INTO public.question_bank (
+    topic_id, difficulty_level, outcome_code, section, question_type,
+    question_text, question, version, supersedes_id
+  )
+  VALUES (
+    _old.topic_id, _old.difficulty_level, _old.outcome_code, _old.section, _old.question_type,
+    COALESCE(_question->>'question', _old.question_text), _question, _old.version + 1, _old.id
+  )
+  RETURNING id INTO _new_id;
+
+  DELETE FROM public.generated_modules
+  WHERE topic_id = _old.topic_id
+    AND difficulty_level = _old.difficulty_level;
+
+  RETURN _new_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.increment_question_usage(uuid[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.increment_question_usage(uuid[]) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.revise_bank_question(uuid, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.revise_bank_question(uuid, jsonb) TO service_role;
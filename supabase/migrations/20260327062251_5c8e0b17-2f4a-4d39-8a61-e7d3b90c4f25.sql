@@ -0,0 +1,69 @@
+
+-- Per-topic ability estimate (Elo-style rating). Updated by complete-mission
+-- from first-attempt correctness and hint usage; generate-lesson reads it to
+-- pick the lesson difficulty instead of relying on accumulated XP.
+CREATE TABLE public.topic_ability (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  profile_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  topic_id uuid NOT NULL REFERENCES public.topics(id) ON DELETE CASCADE,
+  rating numeric NOT NULL DEFAULT 800,
+  rated_questions integer NOT NULL DEFAULT 0,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE(profile_id, topic_id)
+);
+
+ALTER TABLE public.topic_ability ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own topic ability"
+  ON public.topic_ability FOR SELECT TO authenticated
+  USING (profile_id = public.get_my_profile_id());
+
+CREATE POLICY "Guardians can view their children's topic ability"
+  ON public.topic_ability FOR SELECT TO authenticated
+  USING (public.is_guardian_of(profile_id));
+
+CREATE POLICY "Teachers can view their students' topic ability"
+  ON public.topic_ability FOR SELECT TO authenticated
+  USING (public.is_teacher_of(profile_id));
+
+CREATE TRIGGER update_topic_ability_updated_at
+  BEFORE UPDATE ON public.topic_ability
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Seed existing students from the XP bands generate-lesson used before
+INSERT INTO public.topic_ability (profile_id, topic_id, rating)
+SELECT student_id, topic_id,
+  CASE
+    WHEN COALESCE(xp_earned, 0) < 50 THEN 800
+    WHEN xp_earned < 150 THEN 900
+    WHEN xp_earned < 300 THEN 1000
+    WHEN xp_earned < 500 THEN 1100
+    ELSE 1200
+  END
+FROM public.student_progress
+ON CONFLICT (profile_id, topic_id) DO NOTHING;
+
+-- "Easier" / "Harder" on a topic card moves the rating one level (100 points)
+CREATE OR REPLACE FUNCTION public.nudge_topic_ability(_topic_id uuid, _direction integer)
+RETURNS numeric
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _profile_id uuid := public.get_my_profile_id();
+  _rating numeric;
+BEGIN
+  IF _profile_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.topic_ability (profile_id, topic_id, rating)
+  VALUES (_profile_id, _topic_id, LEAST(GREATEST(800 + 100 * sign(_direction), 700), 1300))
+  ON CONFLICT (profile_id, topic_id) DO UPDATE
+    SET rating = LEAST(GREATEST(topic_ability.rating + 100 * sign(_direction), 700), 1300)
+  RETURNING rating INTO _rating;
+
+  RETURN _rating;
+END;
+$$;
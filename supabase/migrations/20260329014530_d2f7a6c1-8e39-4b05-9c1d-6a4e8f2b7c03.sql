@@ -0,0 +1,113 @@
+
+-- NSW syllabus outcomes, linked to topics. Used by generate-lesson to ground
+-- every prompt, and shown to students and parents as outcome coverage.
+CREATE TABLE public.curriculum_outcomes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  subject_id uuid NOT NULL REFERENCES public.subjects(id) ON DELETE CASCADE,
+  code text NOT NULL UNIQUE,
+  stage text NOT NULL,
+  strand text NOT NULL,
+  description text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.topic_outcomes (
+  topic_id uuid NOT NULL REFERENCES public.topics(id) ON DELETE CASCADE,
+  outcome_id uuid NOT NULL REFERENCES public.curriculum_outcomes(id) ON DELETE CASCADE,
+  PRIMARY KEY (topic_id, outcome_id)
+);
+
+ALTER TABLE public.curriculum_outcomes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.topic_outcomes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view curriculum outcomes" ON public.curriculum_outcomes
+  FOR SELECT USING (true);
+
+CREATE POLICY "Anyone can view topic outcomes" ON public.topic_outcomes
+  FOR SELECT USING (true);
+
+-- Stage 3 outcomes
+INSERT INTO public.curriculum_outcomes (subject_id, code, stage, strand, description) VALUES
+  ((SELECT id FROM public.subjects WHERE slug = 'english'), 'EN3-VOCAB-01', 'Stage 3', 'Vocabulary', 'Understands and effectively uses Tier 2 and Tier 3 vocabulary, including word origins and figurative language'),
+  ((SELECT id FROM public.subjects WHERE slug = 'english'), 'EN3-RECOM-01', 'Stage 3', 'Reading comprehension', 'Fluently reads and comprehends texts, making inferences and monitoring understanding'),
+  ((SELECT id FROM public.subjects WHERE slug = 'english'), 'EN3-UARL-01', 'Stage 3', 'Understanding and responding to literature', 'Analyses how representations of people, places and ideas are shaped by authors'' choices of language and structure'),
+  ((SELECT id FROM public.subjects WHERE slug = 'english'), 'EN3-SPELL-01', 'Stage 3', 'Spelling', 'Selects and applies phonological, orthographic and morphological knowledge to spell unfamiliar and multisyllabic words'),
+  ((SELECT id FROM public.subjects WHERE slug = 'english'), 'EN3-CWT-01', 'Stage 3', 'Creating written texts', 'Plans, creates and revises imaginative, informative and persuasive texts for different purposes and audiences'),
+  ((SELECT id FROM public.subjects WHERE slug = 'english'), 'EN3-CWT-02', 'Stage 3', 'Creating written texts', 'Uses grammar, sentence structure and punctuation to control meaning in complex and compound sentences'),
+
+  ((SELECT id FROM public.subjects WHERE slug = 'maths'), 'MA3-RN-01', 'Stage 3', 'Represents numbers', 'Applies place value to whole numbers, primes and composites, factors and multiples (HCF, LCM) and integers in context'),
+  ((SELECT id FROM public.subjects WHERE slug = 'maths'), 'MA3-RN-02', 'Stage 3', 'Represents numbers', 'Compares and orders decimals to 3 places and connects fractions, decimals and simple percentages (10%, 25%, 50%)'),
+  ((SELECT id FROM public.subjects WHERE slug = 'maths'), 'MA3-AR-01', 'Stage 3', 'Additive relations', 'Selects efficient strategies to add and subtract large numbers and decimals in budgeting and word problems'),
+  ((SELECT id FROM public.subjects WHERE slug = 'maths'), 'MA3-MR-01', 'Stage 3', 'Multiplicative relations', 'Multiplies and divides whole numbers and decimals (including by 10, 100 and 1000), estimates and interprets remainders'),
+  ((SELECT id FROM public.subjects WHERE slug = 'maths'), 'MA3-RQF-01', 'Stage 3', 'Partitioned fractions', 'Adds and subtracts fractions with the same or related denominators and finds a fraction of a quantity'),
+  ((SELECT id FROM public.subjects WHERE slug = 'maths'), 'MA3-GM-01', 'Stage 3', 'Geometric measure', 'Converts units of length, calculates perimeter and area of rectangles and measures angles with a protractor'),
+  ((SELECT id FROM public.subjects WHERE slug = 'maths'), 'MA3-2DS-01', 'Stage 3', '2D spatial structure', 'Classifies triangles and quadrilaterals and combines and splits 2D shapes'),
+  ((SELECT id FROM public.subjects WHERE slug = 'maths'), 'MA3-3DS-01', 'Stage 3', '3D spatial structure', 'Connects 3D objects to their nets and calculates the volume of rectangular prisms'),
+  ((SELECT id FROM public.subjects WHERE slug = 'maths'), 'MA3-DATA-01', 'Stage 3', 'Data', 'Interprets side-by-side column graphs and divided bar graphs and evaluates misleading graphs'),
+  ((SELECT id FROM public.subjects WHERE slug = 'maths'), 'MA3-CHAN-01', 'Stage 3', 'Chance', 'Lists outcomes and represents probability as a fraction, decimal or percentage'),
+
+  ((SELECT id FROM public.subjects WHERE slug = 'science-technology'), 'ST3-4LW-S', 'Stage 3', 'Living world', 'Examines how the physical conditions of environments affect the growth and survival of living things'),
+  ((SELECT id FROM public.subjects WHERE slug = 'science-technology'), 'ST3-6MW-S', 'Stage 3', 'Material world', 'Explains how the properties of solids, liquids and gases and reversible and irreversible changes affect their use'),
+  ((SELECT id FROM public.subjects WHERE slug = 'science-technology'), 'ST3-8ES-S', 'Stage 3', 'Earth and space', 'Describes how the Earth''s surface changes over time and the Earth''s place in the solar system'),
+  ((SELECT id FROM public.subjects WHERE slug = 'science-technology'), 'ST3-10PW-ST', 'Stage 3', 'Physical world', 'Explains how energy from electricity, light and heat is transferred and used in everyday systems'),
+  ((SELECT id FROM public.subjects WHERE slug = 'science-technology'), 'ST3-11DI-T', 'Stage 3', 'Digital technologies', 'Explains how digital systems represent and transmit data and designs simple algorithms'),
+
+  ((SELECT id FROM public.subjects WHERE slug = 'geography'), 'GE3-1', 'Stage 3', 'Factors that shape places', 'Describes the diverse features and characteristics of places and environments'),
+  ((SELECT id FROM public.subjects WHERE slug = 'geography'), 'GE3-2', 'Stage 3', 'A diverse and connected world', 'Explains interactions and connections between people, places and environments'),
+  ((SELECT id FROM public.subjects WHERE slug = 'geography'), 'GE3-3', 'Stage 3', 'Factors that shape places', 'Compares and contrasts influences on the management of places and environments'),
+  ((SELECT id FROM public.subjects WHERE slug = 'geography'), 'GE3-4', 'Stage 3', 'Geographical skills', 'Acquires, processes and communicates geographical information using geographical tools for inquiry'),
+
+  ((SELECT id FROM public.subjects WHERE slug = 'history'), 'HT3-1', 'Stage 3', 'The Australian colonies', 'Describes and explains the significance of people, groups, places and events to the development of Australia'),
+  ((SELECT id FROM public.subjects WHERE slug = 'history'), 'HT3-2', 'Stage 3', 'Australia as a nation', 'Describes and explains different experiences of people living in Australia over time'),
+  ((SELECT id FROM public.subjects WHERE slug = 'history'), 'HT3-3', 'Stage 3', 'Australia as a nation', 'Identifies change and continuity and describes the causes and effects of change on Australian society'),
+  ((SELECT id FROM public.subjects WHERE slug = 'history'), 'HT3-5', 'Stage 3', 'Historical skills', 'Applies a variety of skills of historical inquiry and communication');
+
+-- Topic → outcome links
+INSERT INTO public.topic_outcomes (topic_id, outcome_id)
+SELECT t.id, o.id
+FROM (VALUES
+  ('reading-comprehension', 'EN3-RECOM-01'),
+  ('reading-comprehension', 'EN3-UARL-01'),
+  ('spelling', 'EN3-SPELL-01'),
+  ('creative-writing', 'EN3-CWT-01'),
+  ('creative-writing', 'EN3-UARL-01'),
+  ('grammar-punctuation', 'EN3-CWT-02'),
+  ('vocabulary', 'EN3-VOCAB-01'),
+  ('fractions', 'MA3-RQF-01'),
+  ('fractions', 'MA3-RN-02'),
+  ('decimals', 'MA3-RN-02'),
+  ('decimals', 'MA3-AR-01'),
+  ('multiplication-division', 'MA3-MR-01'),
+  ('multiplication-division', 'MA3-RN-01'),
+  ('geometry', 'MA3-2DS-01'),
+  ('geometry', 'MA3-GM-01'),
+  ('geometry', 'MA3-3DS-01'),
+  ('data-graphs', 'MA3-DATA-01'),
+  ('data-graphs', 'MA3-CHAN-01'),
+  ('australia-place-world', 'GE3-1'),
+  ('australia-place-world', 'GE3-2'),
+  ('climate-weather', 'GE3-1'),
+  ('climate-weather', 'GE3-4'),
+  ('natural-resources', 'GE3-2'),
+  ('natural-resources', 'GE3-3'),
+  ('human-impact-environment', 'GE3-3'),
+  ('indigenous-geography', 'GE3-1'),
+  ('indigenous-geography', 'GE3-2'),
+  ('living-things', 'ST3-4LW-S'),
+  ('physical-world', 'ST3-10PW-ST'),
+  ('earth-space', 'ST3-8ES-S'),
+  ('material-world', 'ST3-6MW-S'),
+  ('digital-systems', 'ST3-11DI-T'),
+  ('first-australians', 'HT3-1'),
+  ('first-australians', 'HT3-2'),
+  ('european-exploration', 'HT3-1'),
+  ('european-exploration', 'HT3-5'),
+  ('colonial-australia', 'HT3-2'),
+  ('colonial-australia', 'HT3-3'),
+  ('federation-nation', 'HT3-1'),
+  ('federation-nation', 'HT3-3'),
+  ('australia-world-history', 'HT3-3'),
+  ('australia-world-history', 'HT3-5')
+) AS links(topic_slug, outcome_code)
+JOIN public.topics t ON t.slug = links.topic_slug
+JOIN public.curriculum_outcomes o ON o.code = links.outcome_code;
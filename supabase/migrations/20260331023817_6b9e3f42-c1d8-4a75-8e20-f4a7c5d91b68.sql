@@ -0,0 +1,21 @@
+
+-- Progress reports: parents and teachers read the same history the student sees
+CREATE POLICY "Guardians can view their children's activity"
+  ON public.activity_feed FOR SELECT TO authenticated
+  USING (public.is_guardian_of(profile_id));
+
+CREATE POLICY "Teachers can view their students' activity"
+  ON public.activity_feed FOR SELECT TO authenticated
+  USING (public.is_teacher_of(profile_id));
+
+CREATE POLICY "Guardians can view their children's handwriting submissions"
+  ON public.handwriting_submissions FOR SELECT TO authenticated
+  USING (public.is_guardian_of(profile_id));
+
+CREATE POLICY "Teachers can view their students' handwriting submissions"
+  ON public.handwriting_submissions FOR SELECT TO authenticated
+  USING (public.is_teacher_of(profile_id));
+
+CREATE POLICY "Teachers can view their students' goal history"
+  ON public.weekly_goal_history FOR SELECT TO authenticated
+  USING (public.is_teacher_of(profile_id));
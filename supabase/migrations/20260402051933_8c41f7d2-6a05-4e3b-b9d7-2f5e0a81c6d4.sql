@@ -0,0 +1,246 @@
+
+-- Years 3–8: cached lessons and banked questions are kept per NSW stage
+-- (Stage 2 = Years 3–4, Stage 3 = Years 5–6, Stage 4 = Years 7–8), and each
+-- topic links to outcomes for every stage it is taught in.
+ALTER TABLE public.generated_modules
+  ADD COLUMN stage text NOT NULL DEFAULT 'Stage 3' CHECK (stage IN ('Stage 2', 'Stage 3', 'Stage 4'));
+
+DROP INDEX IF EXISTS public.unique_topic_difficulty;
+CREATE UNIQUE INDEX unique_topic_difficulty_stage
+  ON public.generated_modules (topic_id, difficulty_level, stage);
+
+ALTER TABLE public.question_bank
+  ADD COLUMN stage text NOT NULL DEFAULT 'Stage 3' CHECK (stage IN ('Stage 2', 'Stage 3', 'Stage 4'));
+
+DROP INDEX IF EXISTS public.idx_question_bank_active_text;
+CREATE UNIQUE INDEX idx_question_bank_active_text
+  ON public.question_bank (topic_id, stage, difficulty_level, question_text)
+  WHERE status = 'active';
+
+DROP INDEX IF EXISTS public.idx_question_bank_lookup;
+CREATE INDEX idx_question_bank_lookup
+  ON public.question_bank (topic_id, stage, difficulty_level, section, status);
+
+-- Retiring or revising a question only drops the cached lesson for its stage
+CREATE OR REPLACE FUNCTION public.handle_question_report()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _question public.question_bank%ROWTYPE;
+BEGIN
+  UPDATE public.question_bank
+  SET report_count = report_count + 1
+  WHERE id = NEW.question_id
+  RETURNING * INTO _question;
+
+  IF _question.status = 'active' AND _question.report_count >= 3 THEN
+    UPDATE public.question_bank
+    SET status = 'retired', retired_at = now()
+    WHERE id = _question.id;
+
+    DELETE FROM public.generated_modules
+    WHERE topic_id = _question.topic_id
+      AND difficulty_level = _question.difficulty_level
+      AND stage = _question.stage;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.revise_bank_question(_question_id uuid, _question jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _old public.question_bank%ROWTYPE;
+  _new_id uuid;
+BEGIN
+  SELECT * INTO _old FROM public.question_bank WHERE id = _question_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Question not found';
+  END IF;
+
+  UPDATE public.question_bank
+  SET status = 'retired', retired_at = COALESCE(retired_at, now())
+  WHERE id = _old.id;
+
+  INSERT INTO public.question_bank (
+    topic_id, stage, difficulty_level, outcome_code, section, question_type,
+    question_text, question, version, supersedes_id
+  )
+  VALUES (
+    _old.topic_id, _old.stage, _old.difficulty_level, _old.outcome_code, _old.section, _old.question_type,
+    COALESCE(_question->>'question', _old.question_text), _question, _old.version + 1, _old.id
+  )
+  RETURNING id INTO _new_id;
+
+  DELETE FROM public.generated_modules
+  WHERE topic_id = _old.topic_id
+    AND difficulty_level = _old.difficulty_level
+    AND stage = _old.stage;
+
+  RETURN _new_id;
+END;
+$$;
+
+-- Stage 2 outcomes
+INSERT INTO public.curriculum_outcomes (subject_id, code, stage, strand, description) VALUES
+  ((SELECT id FROM public.subjects WHERE slug = 'english'), 'EN2-VOCAB-01', 'Stage 2', 'Vocabulary', 'Builds knowledge and use of Tier 1, Tier 2 and Tier 3 vocabulary through interactions, reading and writing'),
+  ((SELECT id FROM public.subjects WHERE slug = 'english'), 'EN2-RECOM-01', 'Stage 2', 'Reading comprehension', 'Reads and comprehends texts for wide purposes using knowledge of text structures and language, and by monitoring comprehension'),
+  ((SELECT id FROM public.subjects WHERE slug = 'english'), 'EN2-UARL-01', 'Stage 2', 'Understanding and responding to literature', 'Identifies how authors use narrative features, characters and settings to shape meaning'),
+  ((SELECT id FROM public.subjects WHERE slug = 'english'), 'EN2-SPELL-01', 'Stage 2', 'Spelling', 'Applies phonological, orthographic and morphological generalisations and strategies to spell taught familiar and unfamiliar words'),
+  ((SELECT id FROM public.subjects WHERE slug = 'english'), 'EN2-CWT-01', 'Stage 2', 'Creating written texts', 'Plans, creates and revises texts written for different purposes, including paragraphs, using knowledge of vocabulary, text features and sentence structure'),
+  ((SELECT id FROM public.subjects WHERE slug = 'english'), 'EN2-CWT-02', 'Stage 2', 'Creating written texts', 'Uses simple, compound and complex sentences with correct punctuation, including commas and quotation marks'),
+
+  ((SELECT id FROM public.subjects WHERE slug = 'maths'), 'MA2-RN-01', 'Stage 2', 'Represents numbers', 'Applies an understanding of place value and the role of zero to represent numbers to at least tens of thousands'),
+  ((SELECT id FROM public.subjects WHERE slug = 'maths'), 'MA2-RN-02', 'Stage 2', 'Represents numbers', 'Represents and compares tenths and hundredths as decimals and connects them to fractions'),
+  ((SELECT id FROM public.subjects WHERE slug = 'maths'), 'MA2-AR-01', 'Stage 2', 'Additive relations', 'Selects and uses mental and written strategies for addition and subtraction involving 2-, 3-, 4- and 5-digit numbers'),
+  ((SELECT id FROM public.subjects WHERE slug = 'maths'), 'MA2-MR-01', 'Stage 2', 'Multiplicative relations', 'Recalls multiplication facts to 10 × 10 and uses strategies to multiply and divide by one-digit numbers'),
+  ((SELECT id FROM public.subjects WHERE slug = 'maths'), 'MA2-RQF-01', 'Stage 2', 'Partitioned fractions', 'Represents and compares halves, quarters, eighths, thirds, sixths and fifths, including on a number line'),
+  ((SELECT id FROM public.subjects WHERE slug = 'maths'), 'MA2-GM-01', 'Stage 2', 'Geometric measure', 'Measures and records lengths, perimeters and areas using metric units, and compares angles'),
+  ((SELECT id FROM public.subjects WHERE slug = 'maths'), 'MA2-2DS-01', 'Stage 2', '2D spatial structure', 'Compares and classifies 2D shapes by their sides and angles and identifies line symmetry'),
+  ((SELECT id FROM public.subjects WHERE slug = 'maths'), 'MA2-3DS-01', 'Stage 2', '3D spatial structure', 'Makes and sketches models of 3D objects and identifies their faces, edges and vertices'),
+  ((SELECT id FROM public.subjects WHERE slug = 'maths'), 'MA2-DATA-01', 'Stage 2', 'Data', 'Collects data, organises it into tables and column graphs, and interprets the results'),
+  ((SELECT id FROM public.subjects WHERE slug = 'maths'), 'MA2-CHAN-01', 'Stage 2', 'Chance', 'Describes and compares the likelihood of everyday events and records outcomes of chance experiments'),
+
+  ((SELECT id FROM public.subjects WHERE slug = 'science-technology'), 'ST2-4LW-S', 'Stage 2', 'Living world', 'Compares features and needs of living and non-living things and describes simple life cycles'),
+  ((SELECT id FROM public.subjects WHERE slug = 'science-technology'), 'ST2-6MW-S', 'Stage 2', 'Material world', 'Explains how materials can be changed by heating and cooling and describes their observable properties'),
+  ((SELECT id FROM public.subjects WHERE slug = 'science-technology'), 'ST2-8ES-S', 'Stage 2', 'Earth and space', 'Describes how the Earth''s rotation causes day and night and how natural processes change the Earth''s surface'),
+  ((SELECT id FROM public.subjects WHERE slug = 'science-technology'), 'ST2-10PW-ST', 'Stage 2', 'Physical world', 'Describes how forces such as pushes, pulls and gravity act on objects and how heat moves'),
+  ((SELECT id FROM public.subjects WHERE slug = 'science-technology'), 'ST2-11DI-T', 'Stage 2', 'Digital technologies', 'Describes how digital systems use data and follows and writes simple step-by-step algorithms'),
+
+  ((SELECT id FROM public.subjects WHERE slug = 'geography'), 'GE2-1', 'Stage 2', 'Places are similar and different', 'Examines features and characteristics of places and environments'),
+  ((SELECT id FROM public.subjects WHERE slug = 'geography'), 'GE2-2', 'Stage 2', 'The Earth''s environment', 'Describes the ways people, places and environments interact'),
+  ((SELECT id FROM public.subjects WHERE slug = 'geography'), 'GE2-3', 'Stage 2', 'The Earth''s environment', 'Examines differing perceptions about the management of places and environments'),
+  ((SELECT id FROM public.subjects WHERE slug = 'geography'), 'GE2-4', 'Stage 2', 'Geographical skills', 'Acquires and communicates geographical information using geographical tools for inquiry'),
+
+  ((SELECT id FROM public.subjects WHERE slug = 'history'), 'HT2-1', 'Stage 2', 'Community and remembrance', 'Identifies celebrations and commemorations of significance in Australia and the world'),
+  ((SELECT id FROM public.subjects WHERE slug = 'history'), 'HT2-2', 'Stage 2', 'First contacts', 'Describes and explains how significant individuals, groups and events contributed to changes in the local community over time'),
+  ((SELECT id FROM public.subjects WHERE slug = 'history'), 'HT2-4', 'Stage 2', 'First contacts', 'Describes and explains effects of British colonisation in Australia'),
+  ((SELECT id FROM public.subjects WHERE slug = 'history'), 'HT2-5', 'Stage 2', 'Historical skills', 'Applies skills of historical inquiry and communication');
+
+-- Stage 4 outcomes
+INSERT INTO public.curriculum_outcomes (subject_id, code, stage, strand, description) VALUES
+  ((SELECT id FROM public.subjects WHERE slug = 'english'), 'EN4-RVL-01', 'Stage 4', 'Reading, viewing and listening', 'Uses a range of personal, creative and critical strategies to read texts that are complex in their ideas and construction'),
+  ((SELECT id FROM public.subjects WHERE slug = 'english'), 'EN4-URA-01', 'Stage 4', 'Understanding and responding', 'Analyses how meaning is created through the use and response to language forms, features and structures'),
+  ((SELECT id FROM public.subjects WHERE slug = 'english'), 'EN4-URC-01', 'Stage 4', 'Understanding and responding', 'Identifies and explains how texts represent ideas, experiences and values'),
+  ((SELECT id FROM public.subjects WHERE slug = 'english'), 'EN4-ECA-01', 'Stage 4', 'Expressing ideas and composing texts', 'Creates personal, creative and critical texts for a range of purposes and audiences'),
+  ((SELECT id FROM public.subjects WHERE slug = 'english'), 'EN4-ECB-01', 'Stage 4', 'Expressing ideas and composing texts', 'Uses processes of planning, monitoring, revising and reflecting, and controls grammar, spelling and punctuation to support meaning'),
+
+  ((SELECT id FROM public.subjects WHERE slug = 'maths'), 'MA4-INT-C-01', 'Stage 4', 'Computation with integers', 'Compares, orders and calculates with integers to solve problems'),
+  ((SELECT id FROM public.subjects WHERE slug = 'maths'), 'MA4-FRC-C-01', 'Stage 4', 'Fractions, decimals and percentages', 'Represents and operates with fractions, decimals and percentages to solve problems'),
+  ((SELECT id FROM public.subjects WHERE slug = 'maths'), 'MA4-RAT-C-01', 'Stage 4', 'Ratios and rates', 'Solves problems involving ratios and rates, and analyses distance–time graphs'),
+  ((SELECT id FROM public.subjects WHERE slug = 'maths'), 'MA4-ALG-C-01', 'Stage 4', 'Algebraic techniques', 'Generalises number properties to operate with algebraic expressions including expansion and factorisation'),
+  ((SELECT id FROM public.subjects WHERE slug = 'maths'), 'MA4-ARE-C-01', 'Stage 4', 'Area', 'Applies knowledge of area and composite area involving triangles, quadrilaterals and circles to solve problems'),
+  ((SELECT id FROM public.subjects WHERE slug = 'maths'), 'MA4-ANG-C-01', 'Stage 4', 'Angle relationships', 'Applies angle relationships to solve problems, including those involving parallel lines'),
+  ((SELECT id FROM public.subjects WHERE slug = 'maths'), 'MA4-VOL-C-01', 'Stage 4', 'Volume', 'Applies knowledge of volume and capacity to solve problems involving right prisms and cylinders'),
+  ((SELECT id FROM public.subjects WHERE slug = 'maths'), 'MA4-DAT-C-01', 'Stage 4', 'Data classification and visualisation', 'Classifies and displays data using a variety of graphical representations'),
+  ((SELECT id FROM public.subjects WHERE slug = 'maths'), 'MA4-PRO-C-01', 'Stage 4', 'Probability', 'Represents sample spaces and assigns probabilities to outcomes of single-step chance experiments'),
+
+  ((SELECT id FROM public.subjects WHERE slug = 'science-technology'), 'SC4-LW-01', 'Stage 4', 'Living world', 'Describes the structure and function of cells, body systems and interactions in ecosystems'),
+  ((SELECT id FROM public.subjects WHERE slug = 'science-technology'), 'SC4-CW-01', 'Stage 4', 'Chemical world', 'Explains the properties of substances and mixtures using the particle model and separation techniques'),
+  ((SELECT id FROM public.subjects WHERE slug = 'science-technology'), 'SC4-EAS-01', 'Stage 4', 'Earth and space', 'Describes how geological processes, the rock cycle and the Earth–Sun–Moon system shape the Earth'),
+  ((SELECT id FROM public.subjects WHERE slug = 'science-technology'), 'SC4-PW-01', 'Stage 4', 'Physical world', 'Explains how forces, energy transfer and simple machines affect the motion of objects'),
+  ((SELECT id FROM public.subjects WHERE slug = 'science-technology'), 'SC4-DI-01', 'Stage 4', 'Data and information', 'Designs algorithms and uses digital tools to collect, represent and interpret data'),
+
+  ((SELECT id FROM public.subjects WHERE slug = 'geography'), 'GE4-1', 'Stage 4', 'Landscapes and landforms', 'Locates and describes the diverse features and characteristics of a range of places and environments'),
+  ((SELECT id FROM public.subjects WHERE slug = 'geography'), 'GE4-2', 'Stage 4', 'Water in the world', 'Describes processes and influences that form and transform places and environments'),
+  ((SELECT id FROM public.subjects WHERE slug = 'geography'), 'GE4-3', 'Stage 4', 'Place and liveability', 'Explains how interactions and connections between people, places and environments result in change'),
+  ((SELECT id FROM public.subjects WHERE slug = 'geography'), 'GE4-5', 'Stage 4', 'Interconnections', 'Discusses management of places and environments for their sustainability'),
+  ((SELECT id FROM public.subjects WHERE slug = 'geography'), 'GE4-7', 'Stage 4', 'Geographical skills', 'Acquires and processes geographical information by selecting and using geographical tools for inquiry'),
+
+  ((SELECT id FROM public.subjects WHERE slug = 'history'), 'HT4-2', 'Stage 4', 'The ancient to the modern world', 'Describes major periods of historical time and sequences events, people and societies from the past'),
+  ((SELECT id FROM public.subjects WHERE slug = 'history'), 'HT4-3', 'Stage 4', 'The ancient to the modern world', 'Describes and assesses the motives and actions of past individuals and groups in the context of past societies'),
+  ((SELECT id FROM public.subjects WHERE slug = 'history'), 'HT4-4', 'Stage 4', 'Continuity and change', 'Describes and explains the causes and effects of events and developments of past societies over time'),
+  ((SELECT id FROM public.subjects WHERE slug = 'history'), 'HT4-6', 'Stage 4', 'Historical skills', 'Uses evidence from sources to support historical narratives and explanations');
+
+-- Topic → outcome links for Stages 2 and 4
+INSERT INTO public.topic_outcomes (topic_id, outcome_id)
+SELECT t.id, o.id
+FROM (VALUES
+  ('reading-comprehension', 'EN2-RECOM-01'),
+  ('reading-comprehension', 'EN2-UARL-01'),
+  ('spelling', 'EN2-SPELL-01'),
+  ('creative-writing', 'EN2-CWT-01'),
+  ('grammar-punctuation', 'EN2-CWT-02'),
+  ('vocabulary', 'EN2-VOCAB-01'),
+  ('fractions', 'MA2-RQF-01'),
+  ('decimals', 'MA2-RN-02'),
+  ('decimals', 'MA2-AR-01'),
+  ('multiplication-division', 'MA2-MR-01'),
+  ('multiplication-division', 'MA2-RN-01'),
+  ('geometry', 'MA2-2DS-01'),
+  ('geometry', 'MA2-GM-01'),
+  ('geometry', 'MA2-3DS-01'),
+  ('data-graphs', 'MA2-DATA-01'),
+  ('data-graphs', 'MA2-CHAN-01'),
+  ('australia-place-world', 'GE2-1'),
+  ('climate-weather', 'GE2-1'),
+  ('climate-weather', 'GE2-4'),
+  ('natural-resources', 'GE2-2'),
+  ('human-impact-environment', 'GE2-3'),
+  ('indigenous-geography', 'GE2-1'),
+  ('indigenous-geography', 'GE2-2'),
+  ('living-things', 'ST2-4LW-S'),
+  ('physical-world', 'ST2-10PW-ST'),
+  ('earth-space', 'ST2-8ES-S'),
+  ('material-world', 'ST2-6MW-S'),
+  ('digital-systems', 'ST2-11DI-T'),
+  ('first-australians', 'HT2-2'),
+  ('first-australians', 'HT2-4'),
+  ('european-exploration', 'HT2-4'),
+  ('european-exploration', 'HT2-5'),
+  ('colonial-australia', 'HT2-4'),
+  ('federation-nation', 'HT2-1'),
+  ('australia-world-history', 'HT2-1'),
+  ('australia-world-history', 'HT2-5'),
+
+  ('reading-comprehension', 'EN4-RVL-01'),
+  ('reading-comprehension', 'EN4-URC-01'),
+  ('spelling', 'EN4-ECB-01'),
+  ('creative-writing', 'EN4-ECA-01'),
+  ('creative-writing', 'EN4-URA-01'),
+  ('grammar-punctuation', 'EN4-ECB-01'),
+  ('vocabulary', 'EN4-URA-01'),
+  ('fractions', 'MA4-FRC-C-01'),
+  ('fractions', 'MA4-RAT-C-01'),
+  ('decimals', 'MA4-FRC-C-01'),
+  ('multiplication-division', 'MA4-INT-C-01'),
+  ('multiplication-division', 'MA4-ALG-C-01'),
+  ('geometry', 'MA4-ANG-C-01'),
+  ('geometry', 'MA4-ARE-C-01'),
+  ('geometry', 'MA4-VOL-C-01'),
+  ('data-graphs', 'MA4-DAT-C-01'),
+  ('data-graphs', 'MA4-PRO-C-01'),
+  ('australia-place-world', 'GE4-1'),
+  ('australia-place-world', 'GE4-3'),
+  ('climate-weather', 'GE4-2'),
+  ('climate-weather', 'GE4-7'),
+  ('natural-resources', 'GE4-2'),
+  ('natural-resources', 'GE4-5'),
+  ('human-impact-environment', 'GE4-5'),
+  ('indigenous-geography', 'GE4-1'),
+  ('indigenous-geography', 'GE4-3'),
+  ('living-things', 'SC4-LW-01'),
+  ('physical-world', 'SC4-PW-01'),
+  ('earth-space', 'SC4-EAS-01'),
+  ('material-world', 'SC4-CW-01'),
+  ('digital-systems', 'SC4-DI-01'),
+  ('first-australians', 'HT4-2'),
+  ('first-australians', 'HT4-6'),
+  ('european-exploration', 'HT4-3'),
+  ('european-exploration', 'HT4-6'),
+  ('colonial-australia', 'HT4-3'),
+  ('colonial-australia', 'HT4-4'),
+  ('federation-nation', 'HT4-4'),
+  ('australia-world-history', 'HT4-2'),
+  ('australia-world-history', 'HT4-4')
+) AS links(topic_slug, outcome_code)
+JOIN public.topics t ON t.slug = links.topic_slug
+JOIN public.curriculum_outcomes o ON o.code = links.outcome_code;
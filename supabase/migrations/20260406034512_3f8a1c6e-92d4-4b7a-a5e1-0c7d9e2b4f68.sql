@@ -0,0 +1,77 @@
+
+-- Diagnostic placement quiz. Each attempt holds the questions served so far
+-- (with their answers), so it is only touched by the placement-quiz function.
+CREATE TABLE public.placement_attempts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  profile_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  subject_id uuid NOT NULL REFERENCES public.subjects(id) ON DELETE CASCADE,
+  stage text NOT NULL CHECK (stage IN ('Stage 2', 'Stage 3', 'Stage 4')),
+  status text NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'completed')),
+  pool jsonb NOT NULL DEFAULT '[]'::jsonb,
+  items jsonb NOT NULL DEFAULT '[]'::jsonb,
+  topic_ratings jsonb NOT NULL DEFAULT '{}'::jsonb,
+  target_count integer NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  completed_at timestamptz
+);
+
+CREATE INDEX idx_placement_attempts_profile
+  ON public.placement_attempts (profile_id, subject_id, status);
+
+-- No policies: students never read the answers directly
+ALTER TABLE public.placement_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Seeds the ability rating and starting XP for each placed topic. XP only
+-- ever goes up, so re-running the quiz next term never takes XP away.
+CREATE OR REPLACE FUNCTION public.complete_placement(_attempt_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _attempt public.placement_attempts%ROWTYPE;
+  _topic record;
+  _rating numeric;
+  _xp integer;
+BEGIN
+  SELECT * INTO _attempt
+  FROM public.placement_attempts
+  WHERE id = _attempt_id AND status = 'in_progress'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Placement attempt not found';
+  END IF;
+
+  FOR _topic IN SELECT key::uuid AS topic_id, value FROM jsonb_each(_attempt.topic_ratings) LOOP
+    _rating := (_topic.value ->> 'rating')::numeric;
+    -- Same bands as ratingFromXp in generate-lesson
+    _xp := CASE
+      WHEN _rating < 850 THEN 0
+      WHEN _rating < 950 THEN 50
+      WHEN _rating < 1050 THEN 150
+      WHEN _rating < 1150 THEN 300
+      ELSE 500
+    END;
+
+    INSERT INTO public.topic_ability (profile_id, topic_id, rating, rated_questions)
+    VALUES (_attempt.profile_id, _topic.topic_id, _rating, 0)
+    ON CONFLICT (profile_id, topic_id) DO UPDATE
+      SET rating = EXCLUDED.rating, rated_questions = 0;
+
+    INSERT INTO public.student_progress (student_id, topic_id, xp_earned, is_completed)
+    VALUES (_attempt.profile_id, _topic.topic_id, _xp, _xp >= 500)
+    ON CONFLICT (student_id, topic_id) DO UPDATE SET
+      xp_earned = GREATEST(COALESCE(student_progress.xp_earned, 0), EXCLUDED.xp_earned),
+      is_completed = GREATEST(COALESCE(student_progress.xp_earned, 0), EXCLUDED.xp_earned) >= 500;
+  END LOOP;
+
+  UPDATE public.placement_attempts
+  SET status = 'completed', completed_at = now()
+  WHERE id = _attempt_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.complete_placement(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.complete_placement(uuid) TO service_role;
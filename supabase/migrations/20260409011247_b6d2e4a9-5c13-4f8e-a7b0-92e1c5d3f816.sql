@@ -0,0 +1,45 @@
+
+-- Prerequisite edges between topics. A topic is soft-locked until each of its
+-- prerequisites reaches PREREQUISITE_MIN_XP (src/lib/skillTreeUtils.ts); the
+-- smart mission picker only suggests unlocked topics.
+CREATE TABLE public.topic_prerequisites (
+  topic_id uuid NOT NULL REFERENCES public.topics(id) ON DELETE CASCADE,
+  prerequisite_id uuid NOT NULL REFERENCES public.topics(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (topic_id, prerequisite_id),
+  CHECK (topic_id <> prerequisite_id)
+);
+
+CREATE INDEX idx_topic_prerequisites_prerequisite ON public.topic_prerequisites (prerequisite_id);
+
+ALTER TABLE public.topic_prerequisites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view topic prerequisites" ON public.topic_prerequisites
+  FOR SELECT USING (true);
+
+INSERT INTO public.topic_prerequisites (topic_id, prerequisite_id)
+SELECT t.id, p.id
+FROM (VALUES
+  -- English
+  ('creative-writing', 'grammar-punctuation'),
+  ('creative-writing', 'spelling'),
+  ('reading-comprehension', 'vocabulary'),
+  -- Maths
+  ('fractions', 'multiplication-division'),
+  ('decimals', 'fractions'),
+  ('data-graphs', 'decimals'),
+  -- Geography
+  ('human-impact-environment', 'natural-resources'),
+  ('human-impact-environment', 'climate-weather'),
+  -- Science & Technology
+  ('earth-space', 'physical-world'),
+  ('material-world', 'physical-world'),
+  -- History
+  ('european-exploration', 'first-australians'),
+  ('colonial-australia', 'european-exploration'),
+  ('federation-nation', 'colonial-australia'),
+  ('australia-world-history', 'federation-nation')
+) AS edges(topic_slug, prerequisite_slug)
+JOIN public.topics t ON t.slug = edges.topic_slug
+JOIN public.topics p ON p.slug = edges.prerequisite_slug
+ON CONFLICT DO NOTHING;
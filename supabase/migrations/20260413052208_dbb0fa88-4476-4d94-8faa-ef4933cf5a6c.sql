@@ -0,0 +1,14 @@
+
+-- Drawn maths working keeps its strokes (points, pressure and timing) next to
+-- the flattened image, so the working can be replayed in the order it was written
+ALTER TABLE public.maths_working_submissions
+  ADD COLUMN strokes jsonb;
+
+-- Parents and teachers can replay the working the student sees
+CREATE POLICY "Guardians can view their children's maths submissions"
+  ON public.maths_working_submissions FOR SELECT TO authenticated
+  USING (public.is_guardian_of(profile_id));
+
+CREATE POLICY "Teachers can view their students' maths submissions"
+  ON public.maths_working_submissions FOR SELECT TO authenticated
+  USING (public.is_teacher_of(profile_id));
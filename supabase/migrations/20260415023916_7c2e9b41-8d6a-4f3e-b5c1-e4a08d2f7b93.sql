@@ -0,0 +1,11 @@
+
+-- Typed writing can be revised in place. Earlier drafts are kept on the
+-- submission with the score and annotations they were given.
+ALTER TABLE public.submissions
+  ADD COLUMN revisions jsonb NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN revision_bonus_xp integer NOT NULL DEFAULT 0;
+
+CREATE POLICY "Users can update their own submissions"
+ON public.submissions FOR UPDATE TO authenticated
+USING (profile_id IN (SELECT id FROM profiles WHERE user_id = auth.uid()))
+WITH CHECK (profile_id IN (SELECT id FROM profiles WHERE user_id = auth.uid()));
@@ -0,0 +1,14 @@
+
+-- Writing portfolio: the genre, length and rubric scores of each piece, so
+-- skills can be tracked across a term
+ALTER TABLE public.submissions
+  ADD COLUMN genre text,
+  ADD COLUMN word_count integer,
+  ADD COLUMN rubric jsonb;
+
+UPDATE public.submissions
+SET word_count = array_length(regexp_split_to_array(trim(student_text), '\s+'), 1)
+WHERE student_text IS NOT NULL AND trim(student_text) <> '';
+
+CREATE INDEX idx_submissions_profile_created
+  ON public.submissions (profile_id, created_at DESC);
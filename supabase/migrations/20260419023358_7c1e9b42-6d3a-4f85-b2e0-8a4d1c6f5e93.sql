@@ -0,0 +1,34 @@
+
+-- Handwriting practice sessions: traced NSW Foundation Style letters checked
+-- for stroke order and direction in the browser. Each item keeps the text
+-- traced and the result for every letter, so the next session's drills can
+-- target the letters that keep going wrong.
+CREATE TABLE public.handwriting_practice (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  profile_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  focus text NOT NULL,
+  items jsonb NOT NULL DEFAULT '[]'::jsonb,
+  formation_score integer NOT NULL CHECK (formation_score BETWEEN 1 AND 5),
+  sizing_score integer NOT NULL CHECK (sizing_score BETWEEN 1 AND 5),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_handwriting_practice_profile ON public.handwriting_practice (profile_id, created_at);
+
+ALTER TABLE public.handwriting_practice ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own handwriting practice"
+  ON public.handwriting_practice FOR SELECT TO authenticated
+  USING (profile_id = public.get_my_profile_id());
+
+CREATE POLICY "Users can insert own handwriting practice"
+  ON public.handwriting_practice FOR INSERT TO authenticated
+  WITH CHECK (profile_id = public.get_my_profile_id());
+
+CREATE POLICY "Guardians can view their children's handwriting practice"
+  ON public.handwriting_practice FOR SELECT TO authenticated
+  USING (public.is_guardian_of(profile_id));
+
+CREATE POLICY "Teachers can view their students' handwriting practice"
+  ON public.handwriting_practice FOR SELECT TO authenticated
+  USING (public.is_teacher_of(profile_id));
@@ -0,0 +1,287 @@
+
+-- Badge rules engine. Each badge is defined by a JSON rule evaluated in the
+-- database whenever something worth a badge happens, instead of by a type
+-- and threshold checked in the browser. Rules are one of:
+--
+--   {"stat": "current_streak" | "total_xp" | "mastered_topics", "min": 5}
+--   {"event": "mission_complete", "where": {"subject": "maths", "perfect": true},
+--    "min": 5, "period": "all" | "week"}
+--   {"subject_belt": "maths", "min_xp": 300}   every topic in the subject at this XP
+--   {"all": [rules]} or {"any": [rules]}
+--
+-- Event "where" keys other than subject are matched against the event's data.
+
+-- ── Learning events ─────────────────────────────────────────────────
+-- Written by complete_mission and by triggers, never directly by clients.
+CREATE TABLE public.learning_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  profile_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  event_type text NOT NULL,
+  subject_slug text,
+  topic_id uuid REFERENCES public.topics(id) ON DELETE SET NULL,
+  data jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_learning_events_profile_type ON public.learning_events (profile_id, event_type, created_at);
+
+ALTER TABLE public.learning_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own learning events"
+  ON public.learning_events FOR SELECT TO authenticated
+  USING (profile_id = public.get_my_profile_id());
+
+-- ── Badge rules ─────────────────────────────────────────────────────
+ALTER TABLE public.badges ADD COLUMN rule jsonb;
+
+UPDATE public.badges SET rule = jsonb_build_object(
+  'stat',
+  CASE badge_type WHEN 'streak' THEN 'current_streak' WHEN 'xp' THEN 'total_xp' ELSE 'mastered_topics' END,
+  'min',
+  threshold
+);
+
+ALTER TABLE public.badges ALTER COLUMN rule SET NOT NULL;
+
+INSERT INTO public.badges (name, description, emoji, badge_type, threshold, rule) VALUES
+('Sharp Shooter', '5 perfect first-attempt challenges in Maths', '🎯', 'event', 5,
+  '{"event": "mission_complete", "where": {"subject": "maths", "perfect": true}, "min": 5}'),
+('Word Smith', '5 perfect first-attempt challenges in English', '🖋️', 'event', 5,
+  '{"event": "mission_complete", "where": {"subject": "english", "perfect": true}, "min": 5}'),
+('Redrafter', '3 writing revisions in a week', '✏️', 'event', 3,
+  '{"event": "writing_revision", "min": 3, "period": "week"}'),
+('Maths Green Belt', 'Every Maths topic at Green Belt', '🟢', 'subject_belt', 300,
+  '{"subject_belt": "maths", "min_xp": 300}'),
+('English Green Belt', 'Every English topic at Green Belt', '🟩', 'subject_belt', 300,
+  '{"subject_belt": "english", "min_xp": 300}');
+
+-- Badges are only awarded by award_badges now
+DROP POLICY "Authenticated users can earn badges" ON public.user_badges;
+
+CREATE OR REPLACE FUNCTION public.badge_rule_met(_profile_id uuid, _rule jsonb)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _value integer;
+  _where jsonb;
+  _since timestamptz;
+  _child jsonb;
+BEGIN
+  IF _rule ? 'all' THEN
+    FOR _child IN SELECT * FROM jsonb_array_elements(_rule->'all') LOOP
+      IF NOT public.badge_rule_met(_profile_id, _child) THEN RETURN false; END IF;
+    END LOOP;
+    RETURN true;
+  END IF;
+
+  IF _rule ? 'any' THEN
+    FOR _child IN SELECT * FROM jsonb_array_elements(_rule->'any') LOOP
+      IF public.badge_rule_met(_profile_id, _child) THEN RETURN true; END IF;
+    END LOOP;
+    RETURN false;
+  END IF;
+
+  IF _rule ? 'stat' THEN
+    IF _rule->>'stat' = 'mastered_topics' THEN
+      SELECT COUNT(*) INTO _value
+      FROM public.student_progress
+      WHERE student_id = _profile_id AND COALESCE(xp_earned, 0) >= 1500;
+    ELSE
+      SELECT CASE _rule->>'stat'
+          WHEN 'current_streak' THEN COALESCE(current_streak, 0)
+          WHEN 'total_xp' THEN COALESCE(total_xp, 0)
+        END
+      INTO _value
+      FROM public.profiles
+      WHERE id = _profile_id;
+    END IF;
+    RETURN COALESCE(_value, 0) >= (_rule->>'min')::integer;
+  END IF;
+
+  IF _rule ? 'event' THEN
+    _where := COALESCE(_rule->'where', '{}'::jsonb);
+    -- Weeks start on Monday in Sydney, like the weekly XP goal
+    _since := CASE
+      WHEN _rule->>'period' = 'week'
+        THEN date_trunc('week', now() AT TIME ZONE 'Australia/Sydney') AT TIME ZONE 'Australia/Sydney'
+      ELSE '-infinity'::timestamptz
+    END;
+    SELECT COUNT(*) INTO _value
+    FROM public.learning_events
+    WHERE profile_id = _profile_id
+      AND event_type = _rule->>'event'
+      AND created_at >= _since
+      AND (_where->>'subject' IS NULL OR subject_slug = _where->>'subject')
+      AND data @> (_where - 'subject');
+    RETURN _value >= COALESCE((_rule->>'min')::integer, 1);
+  END IF;
+
+  IF _rule ? 'subject_belt' THEN
+    SELECT COUNT(*) FILTER (WHERE COALESCE(sp.xp_earned, 0) < (_rule->>'min_xp')::integer) = 0 AND COUNT(*) > 0
+    INTO _value
+    FROM public.topics t
+    JOIN public.subjects s ON s.id = t.subject_id
+    LEFT JOIN public.student_progress sp ON sp.topic_id = t.id AND sp.student_id = _profile_id
+    WHERE s.slug = _rule->>'subject_belt';
+    RETURN _value::boolean;
+  END IF;
+
+  RETURN false;
+END;
+$$;
+
+-- Awards every badge whose rule the student now meets, with a feed entry for
+-- each, and returns the new ones as [{name, emoji}]
+CREATE OR REPLACE FUNCTION public.award_badges(_profile_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _badge public.badges%ROWTYPE;
+  _new_badges jsonb := '[]'::jsonb;
+BEGIN
+  FOR _badge IN
+    SELECT b.* FROM public.badges b
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.user_badges ub
+      WHERE ub.profile_id = _profile_id AND ub.badge_id = b.id
+    )
+    ORDER BY b.threshold
+  LOOP
+    CONTINUE WHEN NOT public.badge_rule_met(_profile_id, _badge.rule);
+
+    INSERT INTO public.user_badges (profile_id, badge_id)
+    VALUES (_profile_id, _badge.id)
+    ON CONFLICT (profile_id, badge_id) DO NOTHING;
+    CONTINUE WHEN NOT FOUND;
+
+    INSERT INTO public.activity_feed (profile_id, activity_type, badge_name, badge_emoji, xp_earned)
+    VALUES (_profile_id, 'badge_earned', _badge.name, _badge.emoji, 0);
+
+    _new_badges := _new_badges || jsonb_build_object('name', _badge.name, 'emoji', _badge.emoji);
+  END LOOP;
+
+  RETURN _new_badges;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.badge_rule_met(uuid, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.award_badges(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.award_badges(uuid) TO service_role;
+
+-- ── Mission completion ──────────────────────────────────────────────
+-- Now records the mission as a learning event and awards badges by rule
+DROP FUNCTION public.complete_mission(uuid, uuid, integer, integer, text, text);
+
+CREATE OR REPLACE FUNCTION public.complete_mission(
+  _profile_id uuid,
+  _topic_id uuid,
+  _base_xp integer,
+  _final_xp integer,
+  _subject_name text,
+  _topic_name text,
+  _subject_slug text,
+  _event_type text,
+  _event_data jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _sydney_now timestamp := now() AT TIME ZONE 'Australia/Sydney';
+  _today date := _sydney_now::date;
+  _week_start date := date_trunc('week', _sydney_now)::date;
+  _last_mission_date date;
+  _current_streak integer;
+  _total_xp integer;
+  _new_badges jsonb;
+BEGIN
+  SELECT last_mission_date, COALESCE(current_streak, 0)
+  INTO _last_mission_date, _current_streak
+  FROM public.profiles
+  WHERE id = _profile_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Profile not found';
+  END IF;
+
+  UPDATE public.profiles
+  SET total_xp = COALESCE(total_xp, 0) + _final_xp,
+      weekly_xp_earned = COALESCE(weekly_xp_earned, 0) + _final_xp,
+      week_start_date = _week_start,
+      last_mission_date = _today
+  WHERE id = _profile_id
+  RETURNING total_xp INTO _total_xp;
+
+  INSERT INTO public.student_progress (
+    student_id, topic_id, is_completed, xp_earned, weekly_xp, week_start_date, missions_this_week
+  )
+  VALUES (_profile_id, _topic_id, _base_xp >= 500, _base_xp, _base_xp, _week_start, 1)
+  ON CONFLICT (student_id, topic_id) DO UPDATE SET
+    xp_earned = COALESCE(student_progress.xp_earned, 0) + EXCLUDED.xp_earned,
+    is_completed = COALESCE(student_progress.xp_earned, 0) + EXCLUDED.xp_earned >= 500,
+    weekly_xp = CASE
+      WHEN student_progress.week_start_date IS DISTINCT FROM _week_start THEN 0
+      ELSE COALESCE(student_progress.weekly_xp, 0)
+    END + EXCLUDED.weekly_xp,
+    missions_this_week = CASE
+      WHEN student_progress.week_start_date IS DISTINCT FROM _week_start THEN 0
+      ELSE COALESCE(student_progress.missions_this_week, 0)
+    END + 1,
+    week_start_date = _week_start;
+
+  INSERT INTO public.activity_feed (profile_id, activity_type, subject_name, topic_name, xp_earned)
+  VALUES (_profile_id, 'mission_complete', _subject_name, _topic_name, _base_xp);
+
+  INSERT INTO public.learning_events (profile_id, event_type, subject_slug, topic_id, data)
+  VALUES (_profile_id, _event_type, _subject_slug, _topic_id, COALESCE(_event_data, '{}'::jsonb));
+
+  _new_badges := public.award_badges(_profile_id);
+
+  RETURN jsonb_build_object(
+    'final_xp', _final_xp,
+    'total_xp', _total_xp,
+    'current_streak', _current_streak,
+    'is_streak_day', _last_mission_date IS DISTINCT FROM _today,
+    'new_badges', _new_badges
+  );
+END;
+$$;
+REVOKE EXECUTE ON FUNCTION public.complete_mission(uuid, uuid, integer, integer, text, text, text, text, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.complete_mission(uuid, uuid, integer, integer, text, text, text, text, jsonb) TO service_role;
+
+-- ── Writing revisions ───────────────────────────────────────────────
+-- Each resubmitted draft is a learning event, so revision badges can be
+-- earned without finishing the mission first
+CREATE OR REPLACE FUNCTION public.handle_writing_revision()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.learning_events (profile_id, event_type, data)
+  VALUES (
+    NEW.profile_id,
+    'writing_revision',
+    jsonb_build_object('submission_id', NEW.id, 'revision', jsonb_array_length(NEW.revisions))
+  );
+  PERFORM public.award_badges(NEW.profile_id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_writing_revised
+  AFTER UPDATE OF revisions ON public.submissions
+  FOR EACH ROW
+  WHEN (jsonb_array_length(NEW.revisions) > jsonb_array_length(OLD.revisions))
+  EXECUTE FUNCTION public.handle_writing_revision();
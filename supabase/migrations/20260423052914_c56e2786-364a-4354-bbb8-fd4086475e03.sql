@@ -0,0 +1,56 @@
+
+-- In-progress training sessions, one per student and topic, so a mission
+-- started on one device can be finished on another. The lesson and every
+-- answer so far are kept in state; photos of working are uploaded as drafts
+-- to the handwriting bucket and listed in draft_paths for cleanup.
+CREATE TABLE public.training_sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  profile_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  topic_id uuid NOT NULL REFERENCES public.topics(id) ON DELETE CASCADE,
+  state jsonb NOT NULL,
+  progress integer NOT NULL DEFAULT 0 CHECK (progress BETWEEN 0 AND 100),
+  earned_xp integer NOT NULL DEFAULT 0,
+  draft_paths text[] NOT NULL DEFAULT '{}',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  expires_at timestamptz NOT NULL DEFAULT now() + interval '7 days',
+  UNIQUE(profile_id, topic_id)
+);
+
+CREATE INDEX idx_training_sessions_profile ON public.training_sessions (profile_id, updated_at DESC);
+
+ALTER TABLE public.training_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own training sessions"
+  ON public.training_sessions FOR SELECT TO authenticated
+  USING (profile_id = public.get_my_profile_id());
+
+CREATE POLICY "Users can create own training sessions"
+  ON public.training_sessions FOR INSERT TO authenticated
+  WITH CHECK (profile_id = public.get_my_profile_id());
+
+CREATE POLICY "Users can update own training sessions"
+  ON public.training_sessions FOR UPDATE TO authenticated
+  USING (profile_id = public.get_my_profile_id())
+  WITH CHECK (profile_id = public.get_my_profile_id());
+
+CREATE POLICY "Users can delete own training sessions"
+  ON public.training_sessions FOR DELETE TO authenticated
+  USING (profile_id = public.get_my_profile_id());
+
+-- A session untouched for a week is stale; every save pushes expiry back
+CREATE OR REPLACE FUNCTION public.touch_training_session()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.updated_at = now();
+  NEW.expires_at = now() + interval '7 days';
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER touch_training_session
+  BEFORE UPDATE ON public.training_sessions
+  FOR EACH ROW EXECUTE FUNCTION public.touch_training_session();
@@ -0,0 +1,33 @@
+-- Hint ladder: each question has up to three hints (nudge, strategy, worked
+-- step) and every one taken costs XP. complete-mission records how many hints
+-- had been taken at each attempt so parents, teachers and the ability rating
+-- can see how much help a question needed.
+CREATE TABLE public.question_attempts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  profile_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  topic_id uuid NOT NULL REFERENCES public.topics(id) ON DELETE CASCADE,
+  question text NOT NULL,
+  question_type text NOT NULL DEFAULT 'multiple_choice',
+  attempts integer NOT NULL CHECK (attempts BETWEEN 1 AND 20),
+  -- Hints taken by each attempt, in order
+  hint_levels integer[] NOT NULL DEFAULT '{}',
+  hints_used integer NOT NULL DEFAULT 0 CHECK (hints_used BETWEEN 0 AND 3),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_question_attempts_profile ON public.question_attempts (profile_id, created_at DESC);
+
+ALTER TABLE public.question_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Written by complete-mission only
+CREATE POLICY "Users can view own question attempts"
+  ON public.question_attempts FOR SELECT TO authenticated
+  USING (profile_id = public.get_my_profile_id());
+
+CREATE POLICY "Guardians can view their children's question attempts"
+  ON public.question_attempts FOR SELECT TO authenticated
+  USING (public.is_guardian_of(profile_id));
+
+CREATE POLICY "Teachers can view their students' question attempts"
+  ON public.question_attempts FOR SELECT TO authenticated
+  USING (public.is_teacher_of(profile_id));
@@ -0,0 +1,31 @@
+-- Misconceptions: generate-lesson tags each wrong multiple-choice option with
+-- the mistake that leads to it. Every wrong pick of a tagged option is kept
+-- here so Mirri can address it and Progress can show common mistakes per topic.
+CREATE TABLE public.misconception_picks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  profile_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  topic_id uuid NOT NULL REFERENCES public.topics(id) ON DELETE CASCADE,
+  misconception text NOT NULL CHECK (char_length(misconception) BETWEEN 1 AND 80),
+  question text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_misconception_picks_profile_topic ON public.misconception_picks (profile_id, topic_id, created_at DESC);
+
+ALTER TABLE public.misconception_picks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own misconception picks"
+  ON public.misconception_picks FOR SELECT TO authenticated
+  USING (profile_id = public.get_my_profile_id());
+
+CREATE POLICY "Users can record own misconception picks"
+  ON public.misconception_picks FOR INSERT TO authenticated
+  WITH CHECK (profile_id = public.get_my_profile_id());
+
+CREATE POLICY "Guardians can view their children's misconception picks"
+  ON public.misconception_picks FOR SELECT TO authenticated
+  USING (public.is_guardian_of(profile_id));
+
+CREATE POLICY "Teachers can view their students' misconception picks"
+  ON public.misconception_picks FOR SELECT TO authenticated
+  USING (public.is_teacher_of(profile_id));
@@ -0,0 +1,16 @@
+-- Mirri chat history. Conversations are kept per student and topic so they
+-- can be picked up again when the student returns to the topic; homework help
+-- from the dashboard isn't tied to a topic and is kept with a null topic_id.
+ALTER TABLE public.chat_messages ALTER COLUMN topic_id DROP NOT NULL;
+
+-- Searchable from the "My questions" page
+ALTER TABLE public.chat_messages
+  ADD COLUMN search tsvector GENERATED ALWAYS AS (to_tsvector('english', content)) STORED;
+
+CREATE INDEX idx_chat_messages_thread ON public.chat_messages (student_id, topic_id, created_at);
+CREATE INDEX idx_chat_messages_search ON public.chat_messages USING gin (search);
+
+-- Profile resets clear the student's history
+CREATE POLICY "Students can delete their own messages" ON public.chat_messages
+  FOR DELETE TO authenticated
+  USING (student_id = public.get_my_profile_id());
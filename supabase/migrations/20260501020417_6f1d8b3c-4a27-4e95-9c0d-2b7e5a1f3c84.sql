@@ -0,0 +1,26 @@
+-- Teachers see only roster columns for their students, not the whole profile row
+DROP POLICY IF EXISTS "Teachers can view their students' profiles" ON public.profiles;
+
+CREATE OR REPLACE FUNCTION public.get_student_profiles(_student_ids uuid[])
+RETURNS TABLE (id uuid, first_name text, grade_level text, total_xp integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.id, p.first_name, p.grade_level, p.total_xp
+  FROM public.profiles p
+  WHERE p.id = ANY(_student_ids)
+    AND (public.is_teacher_of(p.id) OR public.is_guardian_of(p.id))
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_student_profiles(uuid[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_student_profiles(uuid[]) TO authenticated;
+
+-- Teachers can't hand a class over to someone else
+DROP POLICY IF EXISTS "Teachers can update their classes" ON public.classes;
+
+CREATE POLICY "Teachers can update their classes"
+  ON public.classes FOR UPDATE TO authenticated
+  USING (teacher_id = public.get_my_profile_id())
+  WITH CHECK (teacher_id = public.get_my_profile_id());
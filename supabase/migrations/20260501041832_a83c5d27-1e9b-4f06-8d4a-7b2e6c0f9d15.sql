@@ -0,0 +1,16 @@
+-- Typed writing is saved and revised by assess-writing, which loads the
+-- earlier draft itself. Clients only save handwritten submissions.
+DROP POLICY IF EXISTS "Users can update their own submissions" ON public.submissions;
+
+DROP POLICY IF EXISTS "Users can insert their own submissions" ON public.submissions;
+
+CREATE POLICY "Users can insert their own submissions"
+ON public.submissions FOR INSERT TO authenticated
+WITH CHECK (
+  submission_type = 'handwritten'
+  AND profile_id IN (SELECT id FROM profiles WHERE user_id = auth.uid())
+);
+
+-- When the current draft was assessed, so it keeps its date once revised
+ALTER TABLE public.submissions
+  ADD COLUMN revised_at timestamptz;
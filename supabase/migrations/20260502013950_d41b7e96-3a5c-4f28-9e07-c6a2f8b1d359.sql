@@ -0,0 +1,151 @@
+-- XP is only earned through complete-mission. Each lesson served opens a
+-- mission session, and a session can be completed once. Clients can no
+-- longer write their own progress, XP total, cached lessons or assessments.
+
+-- 1. One-time mission sessions. generate-lesson keeps the lesson here while
+-- its phases arrive, then caches it in generated_modules
+CREATE TABLE public.mission_sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  profile_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  topic_id uuid NOT NULL REFERENCES public.topics(id) ON DELETE CASCADE,
+  stage text NOT NULL,
+  difficulty_level text NOT NULL,
+  lesson jsonb,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  expires_at timestamptz NOT NULL DEFAULT now() + interval '7 days',
+  completed_at timestamptz
+);
+
+CREATE INDEX idx_mission_sessions_profile ON public.mission_sessions (profile_id, topic_id);
+
+-- Only the edge functions open and complete sessions
+ALTER TABLE public.mission_sessions ENABLE ROW LEVEL SECURITY;
+
+-- 2. No direct writes to progress, cached lessons or assessment results
+DROP POLICY IF EXISTS "Students can insert their own progress" ON public.student_progress;
+DROP POLICY IF EXISTS "Students can update their own progress" ON public.student_progress;
+DROP POLICY IF EXISTS "Authenticated users can insert modules" ON public.generated_modules;
+DROP POLICY IF EXISTS "Users can insert their own handwriting submissions" ON public.handwriting_submissions;
+DROP POLICY IF EXISTS "Users can insert their own maths submissions" ON public.maths_working_submissions;
+
+-- 3. Total XP joins the fields clients can't change
+CREATE OR REPLACE FUNCTION public.protect_profile_fields()
+RETURNS TRIGGER LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.subscription_tier IS DISTINCT FROM OLD.subscription_tier THEN
+    RAISE EXCEPTION 'subscription_tier cannot be modified directly';
+  END IF;
+  IF NEW.stripe_customer_id IS DISTINCT FROM OLD.stripe_customer_id THEN
+    RAISE EXCEPTION 'stripe_customer_id cannot be modified directly';
+  END IF;
+  IF NEW.account_type IS DISTINCT FROM OLD.account_type THEN
+    RAISE EXCEPTION 'account_type cannot be modified directly';
+  END IF;
+  IF NEW.total_xp IS DISTINCT FROM OLD.total_xp THEN
+    RAISE EXCEPTION 'total_xp cannot be modified directly';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- 4. complete_mission closes the session in the same transaction as the XP
+DROP FUNCTION public.complete_mission(uuid, uuid, integer, integer, text, text, text, text, jsonb);
+
+CREATE OR REPLACE FUNCTION public.complete_mission(
+  _profile_id uuid,
+  _topic_id uuid,
+  _base_xp integer,
+  _final_xp integer,
+  _subject_name text,
+  _topic_name text,
+  _subject_slug text,
+  _event_type text,
+  _event_data jsonb,
+  _session_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _sydney_now timestamp := now() AT TIME ZONE 'Australia/Sydney';
+  _today date := _sydney_now::date;
+  _week_start date := date_trunc('week', _sydney_now)::date;
+  _last_mission_date date;
+  _current_streak integer;
+  _total_xp integer;
+  _new_badges jsonb;
+BEGIN
+  SELECT last_mission_date, COALESCE(current_streak, 0)
+  INTO _last_mission_date, _current_streak
+  FROM public.profiles
+  WHERE id = _profile_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Profile not found';
+  END IF;
+
+  -- Reviews have no session; a mission's session can only be completed once
+  IF _session_id IS NOT NULL THEN
+    UPDATE public.mission_sessions
+    SET completed_at = now()
+    WHERE id = _session_id
+      AND profile_id = _profile_id
+      AND topic_id = _topic_id
+      AND completed_at IS NULL
+      AND expires_at > now();
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Mission session already completed or expired';
+    END IF;
+  END IF;
+
+  UPDATE public.profiles
+  SET total_xp = COALESCE(total_xp, 0) + _final_xp,
+      weekly_xp_earned = COALESCE(weekly_xp_earned, 0) + _final_xp,
+      week_start_date = _week_start,
+      last_mission_date = _today
+  WHERE id = _profile_id
+  RETURNING total_xp INTO _total_xp;
+
+  INSERT INTO public.student_progress (
+    student_id, topic_id, is_completed, xp_earned, weekly_xp, week_start_date, missions_this_week
+  )
+  VALUES (_profile_id, _topic_id, _base_xp >= 500, _base_xp, _base_xp, _week_start, 1)
+  ON CONFLICT (student_id, topic_id) DO UPDATE SET
+    xp_earned = COALESCE(student_progress.xp_earned, 0) + EXCLUDED.xp_earned,
+    is_completed = COALESCE(student_progress.xp_earned, 0) + EXCLUDED.xp_earned >= 500,
+    weekly_xp = CASE
+      WHEN student_progress.week_start_date IS DISTINCT FROM _week_start THEN 0
+      ELSE COALESCE(student_progress.weekly_xp, 0)
+    END + EXCLUDED.weekly_xp,
+    missions_this_week = CASE
+      WHEN student_progress.week_start_date IS DISTINCT FROM _week_start THEN 0
+      ELSE COALESCE(student_progress.missions_this_week, 0)
+    END + 1,
+    week_start_date = _week_start;
+
+  INSERT INTO public.activity_feed (profile_id, activity_type, subject_name, topic_name, xp_earned)
+  VALUES (_profile_id, 'mission_complete', _subject_name, _topic_name, _base_xp);
+
+  INSERT INTO public.learning_events (profile_id, event_type, subject_slug, topic_id, data)
+  VALUES (_profile_id, _event_type, _subject_slug, _topic_id, COALESCE(_event_data, '{}'::jsonb));
+
+  _new_badges := public.award_badges(_profile_id);
+
+  RETURN jsonb_build_object(
+    'final_xp', _final_xp,
+    'total_xp', _total_xp,
+    'current_streak', _current_streak,
+    'is_streak_day', _last_mission_date IS DISTINCT FROM _today,
+    'new_badges', _new_badges
+  );
+END;
+$$;
+REVOKE EXECUTE ON FUNCTION public.complete_mission(uuid, uuid, integer, integer, text, text, text, text, jsonb, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.complete_mission(uuid, uuid, integer, integer, text, text, text, text, jsonb, uuid) TO service_role;
@@ -0,0 +1,3 @@
+-- Review items are queued by complete-mission from the stored question, so
+-- students can no longer add their own.
+DROP POLICY IF EXISTS "Users can insert own review items" ON public.review_items;
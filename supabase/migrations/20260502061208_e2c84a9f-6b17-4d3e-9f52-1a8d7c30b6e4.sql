@@ -0,0 +1,134 @@
+-- The ability rating is updated inside complete_mission, under the same
+-- profile lock as the XP, so two completions can't overwrite each other's
+-- rating update.
+DROP FUNCTION public.complete_mission(uuid, uuid, integer, integer, text, text, text, text, jsonb, uuid);
+
+CREATE OR REPLACE FUNCTION public.complete_mission(
+  _profile_id uuid,
+  _topic_id uuid,
+  _base_xp integer,
+  _final_xp integer,
+  _subject_name text,
+  _topic_name text,
+  _subject_slug text,
+  _event_type text,
+  _event_data jsonb,
+  _session_id uuid,
+  _outcomes numeric[]
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _sydney_now timestamp := now() AT TIME ZONE 'Australia/Sydney';
+  _today date := _sydney_now::date;
+  _week_start date := date_trunc('week', _sydney_now)::date;
+  _last_mission_date date;
+  _current_streak integer;
+  _total_xp integer;
+  _new_badges jsonb;
+  _rating numeric;
+  _rated_questions integer;
+  _question_rating numeric;
+  _outcome numeric;
+BEGIN
+  SELECT last_mission_date, COALESCE(current_streak, 0)
+  INTO _last_mission_date, _current_streak
+  FROM public.profiles
+  WHERE id = _profile_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Profile not found';
+  END IF;
+
+  -- Reviews have no session; a mission's session can only be completed once
+  IF _session_id IS NOT NULL THEN
+    UPDATE public.mission_sessions
+    SET completed_at = now()
+    WHERE id = _session_id
+      AND profile_id = _profile_id
+      AND topic_id = _topic_id
+      AND completed_at IS NULL
+      AND expires_at > now();
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Mission session already completed or expired';
+    END IF;
+  END IF;
+
+  -- Elo update against the lesson's difficulty. Questions are rated at the
+  -- centre of the band the lesson was pitched at (see getDifficultyLevel in
+  -- generate-lesson); provisional ratings move faster.
+  SELECT rating, rated_questions
+  INTO _rating, _rated_questions
+  FROM public.topic_ability
+  WHERE profile_id = _profile_id AND topic_id = _topic_id
+  FOR UPDATE;
+
+  _rating := COALESCE(_rating, 800);
+  _rated_questions := COALESCE(_rated_questions, 0);
+
+  IF COALESCE(array_length(_outcomes, 1), 0) > 0 THEN
+    _question_rating := LEAST(1200, GREATEST(800, round(_rating / 100) * 100));
+    FOREACH _outcome IN ARRAY _outcomes LOOP
+      _rating := _rating
+        + (CASE WHEN _rated_questions < 20 THEN 40 ELSE 24 END)
+        * (_outcome - 1 / (1 + power(10::numeric, (_question_rating - _rating) / 400)));
+      _rated_questions := _rated_questions + 1;
+    END LOOP;
+    _rating := round(_rating, 1);
+
+    INSERT INTO public.topic_ability (profile_id, topic_id, rating, rated_questions)
+    VALUES (_profile_id, _topic_id, _rating, _rated_questions)
+    ON CONFLICT (profile_id, topic_id) DO UPDATE
+      SET rating = EXCLUDED.rating, rated_questions = EXCLUDED.rated_questions;
+  END IF;
+
+  UPDATE public.profiles
+  SET total_xp = COALESCE(total_xp, 0) + _final_xp,
+      weekly_xp_earned = COALESCE(weekly_xp_earned, 0) + _final_xp,
+      week_start_date = _week_start,
+      last_mission_date = _today
+  WHERE id = _profile_id
+  RETURNING total_xp INTO _total_xp;
+
+  INSERT INTO public.student_progress (
+    student_id, topic_id, is_completed, xp_earned, weekly_xp, week_start_date, missions_this_week
+  )
+  VALUES (_profile_id, _topic_id, _base_xp >= 500, _base_xp, _base_xp, _week_start, 1)
+  ON CONFLICT (student_id, topic_id) DO UPDATE SET
+    xp_earned = COALESCE(student_progress.xp_earned, 0) + EXCLUDED.xp_earned,
+    is_completed = COALESCE(student_progress.xp_earned, 0) + EXCLUDED.xp_earned >= 500,
+    weekly_xp = CASE
+      WHEN student_progress.week_start_date IS DISTINCT FROM _week_start THEN 0
+      ELSE COALESCE(student_progress.weekly_xp, 0)
+    END + EXCLUDED.weekly_xp,
+    missions_this_week = CASE
+      WHEN student_progress.week_start_date IS DISTINCT FROM _week_start THEN 0
+      ELSE COALESCE(student_progress.missions_this_week, 0)
+    END + 1,
+    week_start_date = _week_start;
+
+  INSERT INTO public.activity_feed (profile_id, activity_type, subject_name, topic_name, xp_earned)
+  VALUES (_profile_id, 'mission_complete', _subject_name, _topic_name, _base_xp);
+
+  INSERT INTO public.learning_events (profile_id, event_type, subject_slug, topic_id, data)
+  VALUES (_profile_id, _event_type, _subject_slug, _topic_id, COALESCE(_event_data, '{}'::jsonb));
+
+  _new_badges := public.award_badges(_profile_id);
+
+  RETURN jsonb_build_object(
+    'final_xp', _final_xp,
+    'total_xp', _total_xp,
+    'current_streak', _current_streak,
+    'is_streak_day', _last_mission_date IS DISTINCT FROM _today,
+    'new_badges', _new_badges,
+    'ability_rating', _rating
+  );
+END;
+$$;
+REVOKE EXECUTE ON FUNCTION public.complete_mission(uuid, uuid, integer, integer, text, text, text, text, jsonb, uuid, numeric[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.complete_mission(uuid, uuid, integer, integer, text, text, text, text, jsonb, uuid, numeric[]) TO service_role;
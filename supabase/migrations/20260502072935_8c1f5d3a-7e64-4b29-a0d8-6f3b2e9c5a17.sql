@@ -0,0 +1,12 @@
+-- Revision events only come from assess-writing, which writes with the
+-- service role; a client update to revisions never counts towards badges
+DROP TRIGGER IF EXISTS on_writing_revised ON public.submissions;
+
+CREATE TRIGGER on_writing_revised
+  AFTER UPDATE OF revisions ON public.submissions
+  FOR EACH ROW
+  WHEN (
+    current_setting('role') = 'service_role'
+    AND jsonb_array_length(NEW.revisions) > jsonb_array_length(OLD.revisions)
+  )
+  EXECUTE FUNCTION public.handle_writing_revision();
@@ -0,0 +1,20 @@
+-- A question and Mirri's reply are saved in one insert and share created_at,
+-- so threads are ordered by a sequence instead. Existing pairs keep the
+-- question before the reply.
+ALTER TABLE public.chat_messages ADD COLUMN seq bigint;
+
+UPDATE public.chat_messages m
+SET seq = o.seq
+FROM (
+  SELECT id, row_number() OVER (ORDER BY created_at, role DESC) AS seq
+  FROM public.chat_messages
+) o
+WHERE m.id = o.id;
+
+ALTER TABLE public.chat_messages ALTER COLUMN seq SET NOT NULL;
+ALTER TABLE public.chat_messages ALTER COLUMN seq ADD GENERATED ALWAYS AS IDENTITY;
+SELECT setval(pg_get_serial_sequence('public.chat_messages', 'seq'), COALESCE(MAX(seq), 0) + 1, false)
+FROM public.chat_messages;
+
+DROP INDEX IF EXISTS public.idx_chat_messages_thread;
+CREATE INDEX idx_chat_messages_thread ON public.chat_messages (student_id, topic_id, seq);
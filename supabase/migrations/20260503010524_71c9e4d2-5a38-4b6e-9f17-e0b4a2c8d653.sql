@@ -0,0 +1,56 @@
+-- "Reset progress" on the profile page. Clients can no longer write progress
+-- or total XP, so the reset clears both here in one transaction.
+CREATE OR REPLACE FUNCTION public.protect_profile_fields()
+RETURNS TRIGGER LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.subscription_tier IS DISTINCT FROM OLD.subscription_tier THEN
+    RAISE EXCEPTION 'subscription_tier cannot be modified directly';
+  END IF;
+  IF NEW.stripe_customer_id IS DISTINCT FROM OLD.stripe_customer_id THEN
+    RAISE EXCEPTION 'stripe_customer_id cannot be modified directly';
+  END IF;
+  IF NEW.account_type IS DISTINCT FROM OLD.account_type THEN
+    RAISE EXCEPTION 'account_type cannot be modified directly';
+  END IF;
+  -- reset_my_progress flags its own update for the transaction
+  IF NEW.total_xp IS DISTINCT FROM OLD.total_xp
+     AND current_setting('dingo.resetting_progress', true) IS DISTINCT FROM 'on' THEN
+    RAISE EXCEPTION 'total_xp cannot be modified directly';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reset_my_progress()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _profile_id uuid := public.get_my_profile_id();
+BEGIN
+  IF _profile_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  PERFORM 1 FROM public.profiles WHERE id = _profile_id FOR UPDATE;
+
+  DELETE FROM public.student_progress WHERE student_id = _profile_id;
+  DELETE FROM public.chat_messages WHERE student_id = _profile_id;
+
+  PERFORM set_config('dingo.resetting_progress', 'on', true);
+  UPDATE public.profiles
+  SET total_xp = 0,
+      current_streak = 0,
+      weekly_xp_earned = 0
+  WHERE id = _profile_id;
+  PERFORM set_config('dingo.resetting_progress', 'off', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reset_my_progress() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.reset_my_progress() TO authenticated;
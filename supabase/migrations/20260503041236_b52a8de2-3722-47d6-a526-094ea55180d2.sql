@@ -0,0 +1,90 @@
+-- Parents own their children's profiles under one login. A managed child
+-- profile still has its own auth user, created without a mailbox by the
+-- child-profiles edge function, so every per-profile policy keeps working;
+-- the parent signs into it from their dashboard and their subscription
+-- covers it. Linking by guardian code stays for children with their own account.
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS managed_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_profiles_managed_by ON public.profiles (managed_by);
+
+-- A parent is guardian of the children they manage as well as those they linked
+CREATE OR REPLACE FUNCTION public.is_guardian_of(_student_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.guardian_links
+    WHERE guardian_id = public.get_my_profile_id()
+      AND student_id = _student_id
+  ) OR EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE id = _student_id
+      AND managed_by = public.get_my_profile_id()
+  )
+$$;
+
+-- Guardians see only the columns the parent dashboard shows, not the whole
+-- profile row (billing ids included)
+DROP POLICY IF EXISTS "Guardians can view their children's profiles" ON public.profiles;
+
+CREATE OR REPLACE FUNCTION public.get_my_children()
+RETURNS TABLE (
+  id uuid,
+  first_name text,
+  grade_level text,
+  total_xp integer,
+  current_streak integer,
+  weekly_xp_earned integer,
+  weekly_xp_goal integer,
+  managed boolean
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.id, p.first_name, p.grade_level, p.total_xp, p.current_streak,
+    p.weekly_xp_earned, p.weekly_xp_goal, p.managed_by IS NOT NULL
+  FROM public.profiles p
+  WHERE p.managed_by = public.get_my_profile_id()
+    OR p.id IN (
+      SELECT student_id FROM public.guardian_links
+      WHERE guardian_id = public.get_my_profile_id()
+    )
+  ORDER BY p.first_name
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_my_children() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_my_children() TO authenticated;
+
+-- Only the edge function (service role) sets who manages a profile
+CREATE OR REPLACE FUNCTION public.protect_profile_fields()
+RETURNS TRIGGER LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.subscription_tier IS DISTINCT FROM OLD.subscription_tier THEN
+    RAISE EXCEPTION 'subscription_tier cannot be modified directly';
+  END IF;
+  IF NEW.stripe_customer_id IS DISTINCT FROM OLD.stripe_customer_id THEN
+    RAISE EXCEPTION 'stripe_customer_id cannot be modified directly';
+  END IF;
+  IF NEW.account_type IS DISTINCT FROM OLD.account_type THEN
+    RAISE EXCEPTION 'account_type cannot be modified directly';
+  END IF;
+  IF NEW.managed_by IS DISTINCT FROM OLD.managed_by THEN
+    RAISE EXCEPTION 'managed_by cannot be modified directly';
+  END IF;
+  -- reset_my_progress flags its own update for the transaction
+  IF NEW.total_xp IS DISTINCT FROM OLD.total_xp
+     AND current_setting('dingo.resetting_progress', true) IS DISTINCT FROM 'on' THEN
+    RAISE EXCEPTION 'total_xp cannot be modified directly';
+  END IF;
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,118 @@
+-- Subject belt badges name the belt instead of hard-coding its XP, and the
+-- threshold follows the student's stage like the dojo belts do:
+--
+--   {"subject_belt": "maths", "belt": "Green Belt"}   every topic in the subject at this belt
+
+-- The topic belt ladder (MASTERY_LEVELS in src/lib/progressUtils.ts) scaled by
+-- stage like getDojoBeltLevels in src/lib/beltUtils.ts. Null for an unknown belt
+CREATE OR REPLACE FUNCTION public.topic_belt_min_xp(_belt text, _grade_level text)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT (round(ladder.min_xp * CASE
+      WHEN year.n <= 4 THEN 0.7
+      WHEN year.n >= 7 THEN 1.3
+      ELSE 1
+    END / 50) * 50)::integer
+  FROM (SELECT CASE _belt
+      WHEN 'White Belt' THEN 0
+      WHEN 'Yellow Belt' THEN 50
+      WHEN 'Orange Belt' THEN 150
+      WHEN 'Green Belt' THEN 300
+      WHEN 'Blue Belt' THEN 500
+      WHEN 'Purple Belt' THEN 750
+      WHEN 'Brown Belt' THEN 1000
+      WHEN 'Black Belt' THEN 1500
+    END AS min_xp) ladder,
+  (SELECT NULLIF(regexp_replace(COALESCE(_grade_level, ''), '\D', '', 'g'), '')::integer AS n) year
+$$;
+
+UPDATE public.badges
+SET rule = jsonb_build_object('subject_belt', rule->>'subject_belt', 'belt', 'Green Belt')
+WHERE rule ? 'subject_belt';
+
+CREATE OR REPLACE FUNCTION public.badge_rule_met(_profile_id uuid, _rule jsonb)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _value integer;
+  _where jsonb;
+  _since timestamptz;
+  _child jsonb;
+  _min_xp integer;
+  _met boolean;
+BEGIN
+  IF _rule ? 'all' THEN
+    FOR _child IN SELECT * FROM jsonb_array_elements(_rule->'all') LOOP
+      IF NOT public.badge_rule_met(_profile_id, _child) THEN RETURN false; END IF;
+    END LOOP;
+    RETURN true;
+  END IF;
+
+  IF _rule ? 'any' THEN
+    FOR _child IN SELECT * FROM jsonb_array_elements(_rule->'any') LOOP
+      IF public.badge_rule_met(_profile_id, _child) THEN RETURN true; END IF;
+    END LOOP;
+    RETURN false;
+  END IF;
+
+  IF _rule ? 'stat' THEN
+    IF _rule->>'stat' = 'mastered_topics' THEN
+      SELECT COUNT(*) INTO _value
+      FROM public.student_progress
+      WHERE student_id = _profile_id AND COALESCE(xp_earned, 0) >= 1500;
+    ELSE
+      SELECT CASE _rule->>'stat'
+          WHEN 'current_streak' THEN COALESCE(current_streak, 0)
+          WHEN 'total_xp' THEN COALESCE(total_xp, 0)
+        END
+      INTO _value
+      FROM public.profiles
+      WHERE id = _profile_id;
+    END IF;
+    RETURN COALESCE(_value, 0) >= (_rule->>'min')::integer;
+  END IF;
+
+  IF _rule ? 'event' THEN
+    _where := COALESCE(_rule->'where', '{}'::jsonb);
+    -- Weeks start on Monday in Sydney, like the weekly XP goal
+    _since := CASE
+      WHEN _rule->>'period' = 'week'
+        THEN date_trunc('week', now() AT TIME ZONE 'Australia/Sydney') AT TIME ZONE 'Australia/Sydney'
+      ELSE '-infinity'::timestamptz
+    END;
+    SELECT COUNT(*) INTO _value
+    FROM public.learning_events
+    WHERE profile_id = _profile_id
+      AND event_type = _rule->>'event'
+      AND created_at >= _since
+      AND (_where->>'subject' IS NULL OR subject_slug = _where->>'subject')
+      AND data @> (_where - 'subject');
+    RETURN _value >= COALESCE((_rule->>'min')::integer, 1);
+  END IF;
+
+  IF _rule ? 'subject_belt' THEN
+    SELECT public.topic_belt_min_xp(_rule->>'belt', grade_level)
+    INTO _min_xp
+    FROM public.profiles
+    WHERE id = _profile_id;
+    IF _min_xp IS NULL THEN RETURN false; END IF;
+
+    SELECT COUNT(*) > 0 AND COUNT(*) FILTER (WHERE COALESCE(sp.xp_earned, 0) < _min_xp) = 0
+    INTO _met
+    FROM public.topics t
+    JOIN public.subjects s ON s.id = t.subject_id
+    LEFT JOIN public.student_progress sp ON sp.topic_id = t.id AND sp.student_id = _profile_id
+    WHERE s.slug = _rule->>'subject_belt';
+    RETURN _met;
+  END IF;
+
+  RETURN false;
+END;
+$$;